@@ -37,7 +37,7 @@ fi
 
 # Check required files
 echo -e "${BLUE}✅ Checking required files...${NC}"
-required_files=("manifest.json" "content.js" "styles/button.css" "icons/icon16.png" "icons/icon48.png" "icons/icon128.png")
+required_files=("manifest.json" "managed_schema.json" "content.js" "background.js" "options.html" "options.js" "popup.html" "popup.js" "styles/button.css" "styles/options.css" "styles/popup.css" "icons/icon16.png" "icons/icon48.png" "icons/icon128.png" "_locales/en/messages.json" "_locales/vi/messages.json")
 
 for file in "${required_files[@]}"; do
     if [ ! -f "dist/$file" ]; then
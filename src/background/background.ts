@@ -0,0 +1,9 @@
+/**
+ * Background Service Worker Entry Point
+ *
+ * Registers the keyboard shortcuts and context menu that start an export.
+ */
+
+import { ExportTriggers } from './export-triggers';
+
+new ExportTriggers().register();
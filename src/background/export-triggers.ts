@@ -0,0 +1,161 @@
+/**
+ * ExportTriggers - Starts exports from outside the page
+ *
+ * Responsibilities:
+ * - Turn the keyboard shortcuts declared in manifest.json ("commands") into export requests
+ * - Add an export entry to the context menu of Gemini Business pages
+ * - Send the request to the content script of the tab, which runs ExportController.handleExport
+ * - Keep the context menu in the language chosen in the settings
+ */
+
+import { EXPORT_FORMATS, ExportFormat, isExportFormat } from '../content/export-formats';
+import { loadSettings, onSettingsChanged } from '../utils/settings';
+import { setLanguage, t } from '../utils/i18n';
+import { sendExportRequest } from '../utils/messaging';
+import { Logger } from '../utils/logger';
+
+/**
+ * Pages the export can run on (same as the content script matches)
+ */
+export const GEMINI_URL_PATTERN = 'https://business.gemini.google/*';
+
+/**
+ * Command exporting in the format selected in the page; "export-<format>" exports to a given format
+ */
+export const EXPORT_COMMAND = 'export';
+
+/**
+ * Id of the context menu entry; its items are "<id>:selected" and "<id>:<format>"
+ */
+export const CONTEXT_MENU_ID = 'export-conversation';
+
+/**
+ * Resolve the format requested by a command or context menu item
+ *
+ * @param id - Command name or menu item id
+ * @param prefix - Prefix followed by the format
+ * @returns The format, null for the selected format, or undefined if the id is not an export trigger
+ */
+function parseTrigger(id: string, prefix: string): ExportFormat | null | undefined {
+  if (id === prefix || id === `${prefix}:selected`) {
+    return null;
+  }
+
+  const format = id.startsWith(prefix) ? id.slice(prefix.length + 1) : undefined;
+  return isExportFormat(format) ? format : undefined;
+}
+
+/**
+ * ExportTriggers class
+ */
+export class ExportTriggers {
+  /**
+   * Attach the chrome event listeners
+   * Must run synchronously when the service worker starts so events that woke it are delivered
+   */
+  register(): void {
+    chrome.runtime.onInstalled.addListener(() => {
+      this.createContextMenu();
+    });
+
+    chrome.commands.onCommand.addListener((command, tab) => {
+      this.handleCommand(command, tab);
+    });
+
+    chrome.contextMenus.onClicked.addListener((info, tab) => {
+      this.handleMenuClick(info, tab);
+    });
+
+    onSettingsChanged((settings) => {
+      if (setLanguage(settings.language)) {
+        this.createContextMenu();
+      }
+    });
+
+    Logger.info('ExportTriggers: Listeners registered');
+  }
+
+  /**
+   * (Re)create the context menu in the language from the settings
+   */
+  async createContextMenu(): Promise<void> {
+    setLanguage((await loadSettings()).language);
+    await chrome.contextMenus.removeAll();
+
+    const documentUrlPatterns = [GEMINI_URL_PATTERN];
+    const contexts: [chrome.contextMenus.ContextType, ...chrome.contextMenus.ContextType[]] = ['page', 'selection'];
+
+    chrome.contextMenus.create({ id: CONTEXT_MENU_ID, title: t('contextMenuExport'), contexts, documentUrlPatterns });
+    chrome.contextMenus.create({
+      id: `${CONTEXT_MENU_ID}:selected`,
+      parentId: CONTEXT_MENU_ID,
+      title: t('contextMenuSelectedFormat'),
+      contexts,
+      documentUrlPatterns
+    });
+    EXPORT_FORMATS.forEach(format => {
+      chrome.contextMenus.create({
+        id: `${CONTEXT_MENU_ID}:${format.id}`,
+        parentId: CONTEXT_MENU_ID,
+        title: format.label,
+        contexts,
+        documentUrlPatterns
+      });
+    });
+
+    Logger.info('ExportTriggers: Context menu created');
+  }
+
+  /**
+   * Handle a keyboard shortcut
+   *
+   * @param command - Command name from manifest.json
+   * @param tab - Tab that was active (missing for some commands, then the active tab is used)
+   */
+  async handleCommand(command: string, tab?: chrome.tabs.Tab): Promise<void> {
+    const format = parseTrigger(command, EXPORT_COMMAND);
+    if (format === undefined) {
+      Logger.warn(`ExportTriggers: Unknown command ${command}`);
+      return;
+    }
+
+    const target = tab ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0];
+    await this.requestExport(target, format ?? undefined);
+  }
+
+  /**
+   * Handle a click on one of the context menu items
+   *
+   * @param info - Clicked item
+   * @param tab - Tab the menu was opened in
+   */
+  async handleMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab): Promise<void> {
+    const format = parseTrigger(String(info.menuItemId), CONTEXT_MENU_ID);
+    if (format !== undefined) {
+      await this.requestExport(tab, format ?? undefined);
+    }
+  }
+
+  /**
+   * Ask the content script of a Gemini Business tab to export
+   *
+   * @param tab - Target tab
+   * @param format - Format to export to (the selected format when omitted)
+   * @returns True if the content script started the export
+   */
+  async requestExport(tab: chrome.tabs.Tab | undefined, format?: ExportFormat): Promise<boolean> {
+    if (tab?.id === undefined || !tab.url?.startsWith(GEMINI_URL_PATTERN.slice(0, -1))) {
+      Logger.info('ExportTriggers: Active tab is not a Gemini Business page, ignoring');
+      return false;
+    }
+
+    const response = await sendExportRequest(tab.id, format);
+    if (!response?.accepted) {
+      Logger.warn(`ExportTriggers: Tab ${tab.id} did not start the export`);
+      return false;
+    }
+
+    Logger.info(`ExportTriggers: Export started in tab ${tab.id} (${format ?? 'selected format'})`);
+    return true;
+  }
+}
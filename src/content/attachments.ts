@@ -0,0 +1,239 @@
+/**
+ * Attachments - Files the user attached to a prompt
+ *
+ * Gemini Business shows attachments as ucs-file-bubble elements in the
+ * ucs-carousel of a turn: images as a preview, other files (PDF, spreadsheets,
+ * documents...) as a name with a type icon or thumbnail. This module:
+ * - Reads the bubbles into Attachment objects
+ * - Renders them as an attachment list for the export formats
+ */
+
+import { getDateLocale, t } from '../utils/i18n';
+
+/**
+ * A file attached to a message
+ */
+export interface Attachment {
+  /** Images are shown inline, other files are listed */
+  kind: 'image' | 'file';
+
+  /** File name */
+  name: string;
+
+  /** MIME type, if known */
+  mimeType?: string;
+
+  /** Size in bytes, if shown */
+  size?: number;
+
+  /** Preview image of a file (URL or data URI) */
+  thumbnail?: string;
+
+  /** Source of an image attachment (URL or data URI) */
+  imageData?: string;
+}
+
+/**
+ * Elements of a file bubble holding the file details
+ */
+const FILE_NAME_SELECTOR = '.file-name, .filename, .name, .title';
+const FILE_SIZE_SELECTOR = '.file-size, .size';
+const FILE_TYPE_SELECTOR = '.file-type, .type';
+
+/**
+ * MIME types of the file extensions Gemini Business accepts
+ */
+const MIME_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  html: 'text/html',
+  json: 'application/json',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ppt: 'application/vnd.ms-powerpoint',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic'
+};
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * Read the attachments of a user message
+ * Path: parent turn -> ucs-carousel -> ucs-file-bubble -> shadowRoot
+ *
+ * @param userMessage - ucs-fast-markdown element of the prompt
+ * @returns Attachments in carousel order (empty if there are none)
+ */
+export function extractAttachments(userMessage: HTMLElement): Attachment[] {
+  const carousel = userMessage.closest('div.turn')?.querySelector('ucs-carousel');
+  if (!carousel) {
+    return [];
+  }
+
+  const attachments: Attachment[] = [];
+  carousel.querySelectorAll<HTMLElement>('ucs-file-bubble').forEach(bubble => {
+    const attachment = readFileBubble(bubble, attachments.length + 1);
+    if (attachment) {
+      attachments.push(attachment);
+    }
+  });
+  return attachments;
+}
+
+/**
+ * Render attachments: images inline, other files as a list with type and size
+ *
+ * @param attachments - Attachments of a message
+ * @returns HTML of the list, or an empty string when there are no attachments
+ */
+export function renderAttachmentList(attachments: Attachment[]): string {
+  if (attachments.length === 0) {
+    return '';
+  }
+
+  const section = document.createElement('div');
+  section.className = 'attachments';
+
+  const images = attachments.filter(attachment => attachment.kind === 'image' && attachment.imageData);
+  if (images.length > 0) {
+    const gallery = document.createElement('div');
+    gallery.className = 'attached-images';
+    images.forEach(attachment => {
+      const image = document.createElement('img');
+      image.setAttribute('src', attachment.imageData as string);
+      image.setAttribute('alt', attachment.name);
+      gallery.appendChild(image);
+    });
+    section.appendChild(gallery);
+  }
+
+  const files = attachments.filter(attachment => !images.includes(attachment));
+  if (files.length > 0) {
+    const heading = document.createElement('p');
+    heading.className = 'attachments-title';
+    heading.textContent = t('documentAttachments');
+
+    const list = document.createElement('ul');
+    list.className = 'attached-files';
+    files.forEach(attachment => {
+      const item = document.createElement('li');
+      const name = document.createElement('strong');
+      name.textContent = attachment.name;
+      item.appendChild(name);
+
+      const details = describeAttachment(attachment);
+      if (details) {
+        item.append(` (${details})`);
+      }
+      list.appendChild(item);
+    });
+    section.append(heading, list);
+  }
+
+  return section.outerHTML;
+}
+
+/**
+ * Short description of a file: type and size, e.g. "PDF, 1,2 MB"
+ *
+ * @param attachment - Attachment to describe
+ * @returns Description, or an empty string if neither is known
+ */
+export function describeAttachment(attachment: Attachment): string {
+  const extension = /\.([a-z0-9]+)$/i.exec(attachment.name)?.[1];
+  const type = extension?.toUpperCase() || attachment.mimeType || '';
+  const size = attachment.size !== undefined ? formatFileSize(attachment.size) : '';
+  return [type, size].filter(Boolean).join(', ');
+}
+
+/**
+ * Format a size in bytes with the largest fitting unit
+ *
+ * @param bytes - Size in bytes
+ * @returns Size such as "340 KB" or "1,2 MB" (decimal separator of the UI language)
+ */
+export function formatFileSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const formatted = new Intl.NumberFormat(getDateLocale(), { maximumFractionDigits: unit === 0 ? 0 : 1 }).format(value);
+  return `${formatted} ${units[unit]}`;
+}
+
+function readFileBubble(bubble: HTMLElement, position: number): Attachment | null {
+  const root: ParentNode = bubble.shadowRoot ?? bubble;
+  const image = root.querySelector<HTMLImageElement>('img');
+  const imageSrc = image?.getAttribute('src') || undefined;
+  const nameElement = root.querySelector(FILE_NAME_SELECTOR);
+
+  const name = cleanText(
+    bubble.getAttribute('file-name') || nameElement?.getAttribute('title') || nameElement?.textContent || ''
+  );
+  const mimeType = readMimeType(bubble, root, name, imageSrc);
+
+  // Without a type, a bubble showing only a preview is an image
+  const isImage = mimeType ? mimeType.startsWith('image/') : !!imageSrc && !name;
+  if (!isImage && !name) {
+    return null;
+  }
+
+  const attachment: Attachment = {
+    kind: isImage ? 'image' : 'file',
+    name: name || image?.getAttribute('alt') || t('documentAttachment', position)
+  };
+  if (mimeType) {
+    attachment.mimeType = mimeType;
+  }
+
+  const size = parseFileSize(root.querySelector(FILE_SIZE_SELECTOR)?.textContent || '');
+  if (size !== undefined) {
+    attachment.size = size;
+  }
+
+  if (isImage && imageSrc) {
+    attachment.imageData = imageSrc;
+  } else if (imageSrc) {
+    attachment.thumbnail = imageSrc;
+  }
+  return attachment;
+}
+
+function readMimeType(bubble: HTMLElement, root: ParentNode, name: string, imageSrc?: string): string | undefined {
+  const declared = bubble.getAttribute('mime-type') || bubble.getAttribute('data-mime-type')
+    || root.querySelector(FILE_TYPE_SELECTOR)?.textContent?.trim();
+  if (declared && declared.includes('/')) {
+    return declared.toLowerCase();
+  }
+
+  const extension = (/\.([a-z0-9]+)$/i.exec(name)?.[1] || declared || '').toLowerCase();
+  return MIME_TYPES[extension] ?? /^data:([^;,]+)/.exec(imageSrc || '')?.[1];
+}
+
+/**
+ * Parse a displayed size such as "1.2 MB" or "340 KB"
+ */
+function parseFileSize(text: string): number | undefined {
+  const match = /([\d.,]+)\s*(b|kb|mb|gb)\b/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = parseFloat(match[1].replace(',', '.'));
+  return Number.isFinite(value) ? Math.round(value * SIZE_UNITS[match[2].toLowerCase()]) : undefined;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
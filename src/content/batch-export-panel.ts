@@ -0,0 +1,253 @@
+/**
+ * BatchExportPanel - UI for choosing conversations to export together
+ *
+ * Responsibilities:
+ * - List the conversations of the nav panel with checkboxes
+ * - Start the batch export for the ticked conversations
+ * - Show batch progress and per-conversation failures
+ */
+
+import { getAllConversationTitles } from '../utils/shadow-dom-utils';
+import { BatchEntry, BatchProgress, ConversationTarget } from './batch-exporter';
+import { Logger } from '../utils/logger';
+import { t } from '../utils/i18n';
+
+/**
+ * BatchExportPanel class
+ */
+export class BatchExportPanel {
+  private panel: HTMLDivElement | null = null;
+  private targets: ConversationTarget[] = [];
+  private startListeners: Array<(targets: ConversationTarget[]) => void> = [];
+  private activeListeners: Array<(active: boolean) => void> = [];
+
+  /**
+   * Check whether the panel is shown
+   * @returns True if the panel is open
+   */
+  isOpen(): boolean {
+    return this.panel !== null;
+  }
+
+  /**
+   * Show the panel with the conversations currently listed in the nav panel
+   */
+  open(): void {
+    if (this.panel) {
+      return;
+    }
+
+    this.targets = getAllConversationTitles().map((conversation, index) => ({ index, title: conversation.title }));
+    this.panel = this.createPanel();
+    document.body.appendChild(this.panel);
+
+    Logger.info(`Batch export panel opened with ${this.targets.length} conversations`);
+    this.activeListeners.forEach(listener => listener(true));
+  }
+
+  /**
+   * Remove the panel
+   */
+  close(): void {
+    if (!this.panel) {
+      return;
+    }
+
+    this.panel.remove();
+    this.panel = null;
+    this.targets = [];
+    this.activeListeners.forEach(listener => listener(false));
+  }
+
+  /**
+   * Toggle the panel
+   */
+  toggle(): void {
+    if (this.panel) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  /**
+   * Register a listener called when the user starts the batch export
+   * @param listener - Callback receiving the ticked conversations, in list order
+   */
+  onStart(listener: (targets: ConversationTarget[]) => void): void {
+    this.startListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called when the panel is opened or closed
+   * @param listener - Callback receiving whether the panel is open
+   */
+  onActiveChange(listener: (active: boolean) => void): void {
+    this.activeListeners.push(listener);
+  }
+
+  /**
+   * Get the conversations currently ticked
+   * @returns Ticked conversations, in list order
+   */
+  getSelectedTargets(): ConversationTarget[] {
+    if (!this.panel) {
+      return [];
+    }
+
+    const checked = new Set(
+      Array.from(this.panel.querySelectorAll<HTMLInputElement>('.gemini-pdf-export-batch-list input:checked'))
+        .map(checkbox => Number(checkbox.value))
+    );
+    return this.targets.filter(target => checked.has(target.index));
+  }
+
+  /**
+   * Lock or unlock the controls while a batch is running
+   * @param running - Whether a batch export is in progress
+   */
+  setRunning(running: boolean): void {
+    this.panel?.querySelectorAll<HTMLInputElement | HTMLButtonElement>('input, button').forEach(control => {
+      control.disabled = running;
+    });
+    if (running) {
+      this.panel?.querySelector('.gemini-pdf-export-batch-report')?.replaceChildren();
+    } else {
+      this.updateStartButton();
+    }
+  }
+
+  /**
+   * Show batch progress
+   * @param progress - Current batch progress
+   */
+  showProgress(progress: BatchProgress): void {
+    const bar = this.panel?.querySelector<HTMLProgressElement>('progress');
+    const status = this.panel?.querySelector('.gemini-pdf-export-batch-status');
+    if (bar) {
+      bar.max = progress.total;
+      bar.value = progress.completed;
+      bar.hidden = false;
+    }
+    if (status) {
+      status.textContent = progress.completed < progress.total
+        ? t('batchProgress', progress.completed + 1, progress.total, progress.title)
+        : t('batchProcessed', progress.total);
+    }
+  }
+
+  /**
+   * Show the outcome of a finished batch, listing failed conversations
+   * @param entries - Per-conversation outcomes
+   */
+  showResult(entries: BatchEntry[]): void {
+    const status = this.panel?.querySelector('.gemini-pdf-export-batch-status');
+    const report = this.panel?.querySelector('.gemini-pdf-export-batch-report');
+    const failed = entries.filter(entry => entry.status === 'failed');
+
+    if (status) {
+      status.textContent = t('batchResult', entries.length - failed.length, entries.length);
+    }
+    if (report) {
+      report.replaceChildren(...failed.map(entry => {
+        const item = document.createElement('li');
+        item.textContent = `${entry.title}: ${entry.error}`;
+        return item;
+      }));
+    }
+  }
+
+  /**
+   * Create the panel element
+   * @returns Panel element
+   */
+  private createPanel(): HTMLDivElement {
+    const panel = document.createElement('div');
+    panel.className = 'gemini-pdf-export-batch-panel';
+    panel.setAttribute('role', 'dialog');
+    panel.setAttribute('aria-label', t('batchTitle'));
+
+    const heading = document.createElement('div');
+    heading.className = 'gemini-pdf-export-batch-heading';
+    heading.textContent = t('batchTitle');
+
+    const list = document.createElement('ul');
+    list.className = 'gemini-pdf-export-batch-list';
+    this.targets.forEach(target => {
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.value = String(target.index);
+      checkbox.addEventListener('change', () => this.updateStartButton());
+
+      const label = document.createElement('label');
+      label.append(checkbox, ` ${target.title || t('batchUntitled', target.index + 1)}`);
+
+      const item = document.createElement('li');
+      item.appendChild(label);
+      list.appendChild(item);
+    });
+
+    if (this.targets.length === 0) {
+      const empty = document.createElement('li');
+      empty.textContent = t('batchEmpty');
+      list.appendChild(empty);
+    }
+
+    const createButton = (className: string, label: string, onClick: () => void) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = className;
+      button.textContent = label;
+      button.addEventListener('click', onClick);
+      return button;
+    };
+
+    const setAll = (checked: boolean) => {
+      list.querySelectorAll<HTMLInputElement>('input').forEach(checkbox => {
+        checkbox.checked = checked;
+      });
+      this.updateStartButton();
+    };
+
+    const actions = document.createElement('div');
+    actions.className = 'gemini-pdf-export-batch-actions';
+    actions.append(
+      createButton('start', t('batchStart'), () => {
+        const targets = this.getSelectedTargets();
+        if (targets.length > 0) {
+          this.startListeners.forEach(listener => listener(targets));
+        }
+      }),
+      createButton('select-all', t('buttonSelectAll'), () => setAll(true)),
+      createButton('clear', t('buttonClear'), () => setAll(false)),
+      createButton('close', t('buttonClose'), () => this.close())
+    );
+
+    const progress = document.createElement('progress');
+    progress.hidden = true;
+
+    const status = document.createElement('div');
+    status.className = 'gemini-pdf-export-batch-status';
+    status.setAttribute('aria-live', 'polite');
+
+    const report = document.createElement('ul');
+    report.className = 'gemini-pdf-export-batch-report';
+
+    panel.append(heading, list, actions, progress, status, report);
+    this.panel = panel;
+    this.updateStartButton();
+    return panel;
+  }
+
+  /**
+   * Enable the start button only when at least one conversation is ticked
+   */
+  private updateStartButton(): void {
+    const start = this.panel?.querySelector<HTMLButtonElement>('button.start');
+    if (start) {
+      const count = this.getSelectedTargets().length;
+      start.disabled = count === 0;
+      start.textContent = count > 0 ? t('batchStartCount', count) : t('batchStart');
+    }
+  }
+}
@@ -0,0 +1,413 @@
+/**
+ * BatchExporter - Exports several conversations into one ZIP archive
+ *
+ * Responsibilities:
+ * - Open each chosen conversation from the nav panel and wait for it to load
+ * - Run the existing history/expand/extract/redact pipeline on every conversation
+ * - Bundle one file per conversation plus an index into a ZIP
+ * - Report progress and per-conversation failures
+ */
+
+import { strToU8, zipSync } from 'fflate';
+import { HistoryLoader } from './history-loader';
+import { MessageExpander } from './message-expander';
+import { ContentExtractor, ChatContent } from './content-extractor';
+import { TitleExtractor } from './title-extractor';
+import { ExportFormatInfo } from './export-formats';
+import { RedactionPipeline, RedactionSummaryItem } from './redaction';
+import { getConversationListItems, getConversationTurns } from '../utils/shadow-dom-utils';
+import { DOMError, ExportCancelledError, throwIfCancelled } from '../utils/error-handler';
+import { Logger } from '../utils/logger';
+import { formatDateTime, t } from '../utils/i18n';
+
+/**
+ * A conversation chosen for batch export
+ */
+export interface ConversationTarget {
+  /** Position in the nav panel conversation list when it was chosen */
+  index: number;
+
+  /** Conversation title shown in the nav panel */
+  title: string;
+}
+
+/**
+ * Renders one extracted conversation into a file
+ */
+export type ConversationRenderer = (content: ChatContent, title: string) => Promise<Blob>;
+
+/**
+ * Asks whether a conversation may be exported with the redactions of its summary
+ * Resolving false cancels the batch
+ */
+export type RedactionConfirmation = (summary: RedactionSummaryItem[], title: string) => Promise<boolean>;
+
+/**
+ * Progress of a batch export
+ */
+export interface BatchProgress {
+  /** Number of conversations finished (successfully or not) */
+  completed: number;
+
+  /** Number of conversations in the batch */
+  total: number;
+
+  /** Title of the conversation being processed */
+  title: string;
+}
+
+/**
+ * Outcome of one conversation in a batch
+ */
+export interface BatchEntry {
+  title: string;
+  status: 'success' | 'failed';
+
+  /** File name inside the ZIP (success only) */
+  filename?: string;
+
+  /** Number of exported messages (success only) */
+  messageCount?: number;
+
+  /** Failure reason (failed only) */
+  error?: string;
+}
+
+/**
+ * Result of a batch export
+ */
+export interface BatchResult {
+  /** ZIP archive with one file per exported conversation and index.md */
+  zip: Blob;
+
+  /** Outcome of every conversation, in batch order */
+  entries: BatchEntry[];
+}
+
+/**
+ * Timing used while waiting for a conversation to load
+ */
+export interface BatchExportOptions {
+  /** Maximum time to wait for a conversation to appear (ms) */
+  loadTimeout: number;
+
+  /** Time the number of turns must stay unchanged before the conversation counts as loaded (ms) */
+  settleTime: number;
+
+  /** Interval between DOM checks (ms) */
+  pollInterval: number;
+}
+
+const DEFAULT_BATCH_OPTIONS: BatchExportOptions = {
+  loadTimeout: 20000,
+  settleTime: 800,
+  pollInterval: 200
+};
+
+/**
+ * Name of the index file inside the ZIP
+ */
+const INDEX_FILENAME = 'index.md';
+
+/**
+ * BatchExporter class
+ */
+export class BatchExporter {
+  private historyLoader: HistoryLoader;
+  private messageExpander: MessageExpander;
+  private contentExtractor: ContentExtractor;
+  private titleExtractor: TitleExtractor;
+  private options: BatchExportOptions;
+  private redactionPipeline = new RedactionPipeline();
+  private confirmRedaction: RedactionConfirmation | null = null;
+
+  /**
+   * Create a new BatchExporter
+   *
+   * @param historyLoader - Loads the older turns of every conversation
+   * @param messageExpander - Expander used on every conversation
+   * @param contentExtractor - Extractor used on every conversation
+   * @param titleExtractor - Used to build file names from conversation titles
+   * @param options - Timing overrides
+   */
+  constructor(
+    historyLoader: HistoryLoader,
+    messageExpander: MessageExpander,
+    contentExtractor: ContentExtractor,
+    titleExtractor: TitleExtractor,
+    options: Partial<BatchExportOptions> = {}
+  ) {
+    this.historyLoader = historyLoader;
+    this.messageExpander = messageExpander;
+    this.contentExtractor = contentExtractor;
+    this.titleExtractor = titleExtractor;
+    this.options = { ...DEFAULT_BATCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Set the redaction applied to every conversation before it is rendered
+   * Titles in file names and the index are redacted too
+   *
+   * @param pipeline - Redaction pipeline (an empty pipeline keeps the content)
+   * @param confirm - Asked for each conversation with something redacted; none exports without asking
+   */
+  setRedactionPipeline(pipeline: RedactionPipeline, confirm?: RedactionConfirmation): void {
+    this.redactionPipeline = pipeline;
+    this.confirmRedaction = confirm ?? null;
+  }
+
+  /**
+   * Export several conversations into one ZIP
+   * A failing conversation is recorded in the result and does not stop the batch
+   *
+   * @param targets - Conversations to export, in order
+   * @param format - Format of the per-conversation files
+   * @param render - Turns extracted content into a file of that format
+   * @param onProgress - Called before each conversation and once at the end
+   * @param signal - Aborting it stops the batch (the original conversation is reopened, no ZIP is built)
+   * @returns ZIP archive and per-conversation outcomes
+   * @throws ExportCancelledError if the signal is aborted or a redaction summary is declined
+   */
+  async exportConversations(
+    targets: ConversationTarget[],
+    format: ExportFormatInfo,
+    render: ConversationRenderer,
+    onProgress?: (progress: BatchProgress) => void,
+    signal?: AbortSignal
+  ): Promise<BatchResult> {
+    Logger.info(`Batch export of ${targets.length} conversations as ${format.label}`);
+
+    const originalConversation = getConversationListItems().find(item => item.isSelected)?.title;
+    const files: Record<string, Uint8Array> = {};
+    const usedNames = new Set<string>([INDEX_FILENAME]);
+    const entries: BatchEntry[] = [];
+    let declined = false;
+
+    for (const [position, target] of targets.entries()) {
+      if (signal?.aborted) {
+        break;
+      }
+
+      onProgress?.({ completed: position, total: targets.length, title: target.title });
+
+      try {
+        await this.openConversation(target, signal);
+
+        const history = await this.historyLoader.loadHistory(signal);
+        if (!history.complete) {
+          Logger.warn(`Batch: "${target.title}" exported with its latest ${history.totalTurns} turns only`);
+        }
+
+        const expandResult = await this.messageExpander.expandAllMessages(signal);
+        if (expandResult.failed > 0) {
+          Logger.warn(`Batch: could not expand ${expandResult.failed} messages in "${target.title}"`);
+        }
+
+        const extracted = this.contentExtractor.extractChatContent(undefined, signal);
+        if (extracted.messages.length === 0) {
+          throw new Error(t('errorNoMessages'));
+        }
+
+        const { content, title, summary, total } = this.redactionPipeline.redact(extracted, target.title);
+        if (total > 0 && this.confirmRedaction && !(await this.confirmRedaction(summary, title))) {
+          throw new ExportCancelledError();
+        }
+        throwIfCancelled(signal);
+        const blob = await render(content, title);
+        const generated = this.titleExtractor.generateFilename(title, {
+          format: format.id,
+          messageCount: content.messages.length,
+          turnCount: content.messages.filter(message => message.sender === 'user').length,
+          workspace: this.titleExtractor.extractWorkspace()
+        });
+        const filename = this.uniqueFilename(position + 1, generated, format.extension, usedNames);
+        files[filename] = await this.readBlob(blob);
+
+        entries.push({ title, status: 'success', filename, messageCount: content.messages.length });
+        Logger.info(`Batch: exported "${target.title}" as ${filename}`);
+      } catch (error) {
+        if (signal?.aborted || error instanceof ExportCancelledError) {
+          // Not a failure of this conversation
+          declined = !signal?.aborted;
+          break;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        entries.push({ title: this.redactionPipeline.redactTitle(target.title), status: 'failed', error: message });
+        Logger.warn(`Batch: failed to export "${target.title}": ${message}`);
+      } finally {
+        this.messageExpander.cleanup();
+      }
+    }
+
+    if (signal?.aborted || declined) {
+      Logger.info(`Batch export cancelled after ${entries.length}/${targets.length} conversations`);
+      await this.restoreConversation(originalConversation);
+      throw new ExportCancelledError();
+    }
+
+    onProgress?.({ completed: targets.length, total: targets.length, title: '' });
+
+    files[INDEX_FILENAME] = strToU8(this.buildIndex(entries, format));
+    const zip = new Blob([zipSync(files).buffer as ArrayBuffer], { type: 'application/zip' });
+
+    await this.restoreConversation(originalConversation);
+
+    return { zip, entries };
+  }
+
+  /**
+   * Download the ZIP archive
+   *
+   * @param zip - ZIP data
+   * @param filename - Filename (should include .zip extension)
+   */
+  downloadZip(zip: Blob, filename: string): void {
+    Logger.info(`Downloading ZIP: ${filename}`);
+
+    // Create download link
+    const url = URL.createObjectURL(zip);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+
+    // Trigger download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Cleanup
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+
+    Logger.info('ZIP download triggered');
+  }
+
+  /**
+   * Open a conversation from the nav panel and wait until it has loaded
+   * @param target - Conversation to open
+   * @param signal - Aborting it stops waiting
+   * @throws DOMError if the conversation is not in the list or does not load in time
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  private async openConversation(target: ConversationTarget, signal?: AbortSignal): Promise<void> {
+    const items = getConversationListItems();
+    // Prefer the recorded position, fall back to the title if the list changed
+    const item = items[target.index]?.title === target.title
+      ? items[target.index]
+      : items.find(candidate => candidate.title === target.title);
+
+    if (!item) {
+      throw new DOMError(t('errorConversationNotFound', target.title), 'button.list-item');
+    }
+
+    const previousTurns = getConversationTurns();
+    if (!item.isSelected) {
+      item.button.click();
+    }
+
+    await this.waitForConversation(target.title, item.isSelected ? null : previousTurns[0] ?? null, signal);
+  }
+
+  /**
+   * Wait until the conversation is selected, its turns are rendered
+   * and the number of turns has stopped changing
+   *
+   * @param title - Title of the conversation being opened
+   * @param staleTurn - First turn of the previously shown conversation (must disappear)
+   * @param signal - Aborting it stops waiting at the next poll
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  private async waitForConversation(title: string, staleTurn: HTMLElement | null, signal?: AbortSignal): Promise<void> {
+    const deadline = Date.now() + this.options.loadTimeout;
+    let lastCount = -1;
+    let stableSince = Date.now();
+
+    while (Date.now() < deadline) {
+      throwIfCancelled(signal);
+      const selected = getConversationListItems().find(item => item.isSelected);
+      const turns = getConversationTurns();
+      const ready = selected?.title === title && turns.length > 0 && (!staleTurn || !turns.includes(staleTurn));
+
+      if (!ready || turns.length !== lastCount) {
+        lastCount = ready ? turns.length : -1;
+        stableSince = Date.now();
+      } else if (Date.now() - stableSince >= this.options.settleTime) {
+        return;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.options.pollInterval));
+    }
+
+    throw new DOMError(t('errorConversationTimeout', title), 'div.turn');
+  }
+
+  /**
+   * Go back to the conversation that was open before the batch started
+   * @param title - Title of that conversation
+   */
+  private async restoreConversation(title: string | undefined): Promise<void> {
+    if (!title) {
+      return;
+    }
+
+    const item = getConversationListItems().find(candidate => candidate.title === title);
+    if (item && !item.isSelected) {
+      item.button.click();
+    }
+  }
+
+  /**
+   * Prefix a generated file name with its position, e.g. "03-my-chat.md",
+   * and make it unique within the ZIP
+   */
+  private uniqueFilename(position: number, generated: string, extension: string, usedNames: Set<string>): string {
+    const base = `${String(position).padStart(2, '0')}-${generated.slice(0, -(extension.length + 1))}`;
+    let filename = `${base}.${extension}`;
+    for (let suffix = 2; usedNames.has(filename); suffix++) {
+      filename = `${base}-${suffix}.${extension}`;
+    }
+    usedNames.add(filename);
+    return filename;
+  }
+
+  /**
+   * Build the Markdown index listing every conversation and its outcome
+   */
+  private buildIndex(entries: BatchEntry[], format: ExportFormatInfo): string {
+    const succeeded = entries.filter(entry => entry.status === 'success').length;
+    const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+
+    const rows = entries.map((entry, index) => entry.status === 'success'
+      ? `| ${index + 1} | ${cell(entry.title)} | ${entry.messageCount} | [${entry.filename}](${encodeURI(entry.filename as string)}) | ✅ |`
+      : `| ${index + 1} | ${cell(entry.title)} | – | – | ❌ ${cell(entry.error || '')} |`);
+
+    return [
+      `# ${t('batchIndexTitle')}`,
+      '',
+      `**${t('documentExportDate')}:** ${formatDateTime()}`,
+      '',
+      `**${t('batchIndexFormat')}:** ${format.label}`,
+      '',
+      `**${t('batchIndexSucceeded')}:** ${succeeded}/${entries.length}`,
+      '',
+      `| # | ${t('batchIndexConversation')} | ${t('batchIndexMessages')} | ${t('batchIndexFile')} | ${t('batchIndexStatus')} |`,
+      '| --- | --- | --- | --- | --- |',
+      ...rows,
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Read a blob into bytes
+   */
+  private readBlob(blob: Blob): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(blob);
+    });
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Citations - Sources that Gemini grounded a response in
+ *
+ * Gemini Business marks grounded sentences with citation chips and lists the
+ * Drive/web sources below the response, inside ucs-summary. This module:
+ * - Reads the source list into Citation objects
+ * - Rewrites the citation chips of the response HTML as canonical markers:
+ *   <sup class="gemini-citation" data-citation="n">[n]</sup>
+ * - Links the markers and renders the source list for the export formats
+ *
+ * Only http, https and mailto links are kept: a source with another scheme
+ * (javascript:, data:...) is exported as plain text.
+ */
+
+import { t } from '../utils/i18n';
+
+/**
+ * A source cited by a Gemini response
+ */
+export interface Citation {
+  /** Number shown in the citation markers (1-based) */
+  index: number;
+
+  /** Document or page title */
+  title: string;
+
+  /** Link to the source, if Gemini shows one */
+  url?: string;
+}
+
+/**
+ * Class of the canonical citation markers in extracted message HTML
+ */
+export const CITATION_MARKER_CLASS = 'gemini-citation';
+
+/**
+ * Citation chips inside the response body, in the forms Gemini Business has used
+ */
+const CITATION_CHIP_SELECTOR = 'ucs-citation, ucs-source-chip, .citation-chip, sup.citation, [data-citation-index]';
+
+/**
+ * Source list below the response
+ */
+const SOURCE_LIST_SELECTOR = 'ucs-sources-list, ucs-grounding-sources, .sources-list, .citations-list';
+
+/**
+ * Entries of a source list
+ */
+const SOURCE_ITEM_SELECTOR = 'ucs-source-item, .source-item, li';
+
+/**
+ * Attributes that may hold the number of a chip or source
+ */
+const INDEX_ATTRIBUTES = ['data-citation-index', 'data-index'];
+
+/**
+ * URL schemes that exported files may link to
+ */
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+/**
+ * Read the sources listed under a Gemini response
+ * Looks through the response's shadow roots since the list is rendered by its own component
+ *
+ * @param geminiResponse - ucs-summary element
+ * @returns Sources ordered by number (empty if the response cites nothing)
+ */
+export function extractCitations(geminiResponse: HTMLElement): Citation[] {
+  const list = findInShadowTree(geminiResponse.shadowRoot ?? geminiResponse, SOURCE_LIST_SELECTOR);
+  if (!list) {
+    return [];
+  }
+
+  const root = list.shadowRoot ?? list;
+  let items = Array.from(root.querySelectorAll<HTMLElement>(SOURCE_ITEM_SELECTOR));
+  if (items.length === 0) {
+    items = Array.from(root.querySelectorAll<HTMLElement>('a[href]'));
+  }
+
+  const citations = new Map<number, Citation>();
+  items.forEach((item, position) => {
+    const index = readIndex(item) ?? position + 1;
+    const link = item.matches('a[href]') ? item : item.querySelector<HTMLAnchorElement>('a[href]');
+    const href = link?.getAttribute('href');
+    const url = href && isLinkableUrl(href) ? href : undefined;
+    const titleElement = item.querySelector('.title, .source-title') ?? link ?? item;
+    const title = cleanText(titleElement.getAttribute('title') || titleElement.textContent || '')
+      .replace(/^\[?\d+\]?[.:)]?\s+/, '') || url || '';
+
+    if (title && !citations.has(index)) {
+      citations.set(index, url ? { index, title, url } : { index, title });
+    }
+  });
+
+  return Array.from(citations.values()).sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Link of a source that can be written to an exported file
+ *
+ * @param citation - Source
+ * @returns Its URL if the scheme is http, https or mailto, undefined otherwise
+ */
+export function citationLink(citation: Citation): string | undefined {
+  return citation.url && isLinkableUrl(citation.url) ? citation.url : undefined;
+}
+
+/**
+ * Rewrite the citation chips of a response as canonical markers
+ * and drop a source list rendered inside the body (it is exported separately)
+ *
+ * @param html - Response HTML
+ * @returns HTML with canonical markers
+ */
+export function normalizeCitationMarkers(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const lists = container.querySelectorAll(SOURCE_LIST_SELECTOR);
+  const chips = Array.from(container.querySelectorAll<HTMLElement>(CITATION_CHIP_SELECTOR))
+    .filter(chip => !chip.classList.contains(CITATION_MARKER_CLASS));
+  if (lists.length === 0 && chips.length === 0) {
+    return html;
+  }
+
+  lists.forEach(list => list.remove());
+
+  chips.forEach(chip => {
+    // Chips nested in a chip that was already replaced are gone
+    if (!container.contains(chip)) {
+      return;
+    }
+
+    const indices = readIndices(chip);
+    if (indices.length === 0) {
+      chip.remove();
+      return;
+    }
+    chip.replaceWith(...indices.map(index => createMarker(index)));
+  });
+
+  return container.innerHTML;
+}
+
+/**
+ * Turn the citation markers of a message into links
+ *
+ * @param html - Message HTML with canonical markers
+ * @param citations - Sources of the message
+ * @param linkAttributes - Attributes of the link for a source, or null to leave its markers as text
+ * @returns Message HTML
+ */
+export function linkCitationMarkers(
+  html: string,
+  citations: Citation[],
+  linkAttributes: (citation: Citation) => Record<string, string> | null
+): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  container.querySelectorAll<HTMLElement>(`sup.${CITATION_MARKER_CLASS}`).forEach(marker => {
+    const citation = citations.find(entry => entry.index === Number(marker.dataset.citation));
+    const attributes = citation ? linkAttributes(citation) : null;
+    if (!attributes) {
+      return;
+    }
+
+    const link = document.createElement('a');
+    Object.entries(attributes).forEach(([name, value]) => link.setAttribute(name, value));
+    link.append(...Array.from(marker.childNodes));
+    marker.appendChild(link);
+  });
+
+  return container.innerHTML;
+}
+
+/**
+ * Render the sources of a message as a footnote list
+ *
+ * @param citations - Sources of the message
+ * @param idPrefix - Prefix of the footnote ids (`${idPrefix}-${index}`), omitted when not given
+ * @returns HTML of the list, or an empty string when there are no sources
+ */
+export function renderCitationList(citations: Citation[], idPrefix?: string): string {
+  if (citations.length === 0) {
+    return '';
+  }
+
+  const section = document.createElement('div');
+  section.className = 'citations';
+
+  const heading = document.createElement('p');
+  heading.className = 'citations-title';
+  heading.textContent = t('documentSources');
+
+  const list = document.createElement('ol');
+  citations.forEach(citation => {
+    const item = document.createElement('li');
+    item.value = citation.index;
+    if (idPrefix) {
+      item.id = `${idPrefix}-${citation.index}`;
+    }
+
+    const url = citationLink(citation);
+    if (url) {
+      const link = document.createElement('a');
+      link.setAttribute('href', url);
+      link.textContent = citation.title;
+      item.appendChild(link);
+    } else {
+      item.textContent = citation.title;
+    }
+    list.appendChild(item);
+  });
+
+  section.append(heading, list);
+  return section.outerHTML;
+}
+
+/**
+ * Check the scheme of a link (relative links are resolved against the page)
+ */
+function isLinkableUrl(url: string): boolean {
+  try {
+    return LINK_PROTOCOLS.includes(new URL(url, document.baseURI).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function createMarker(index: number): HTMLElement {
+  const marker = document.createElement('sup');
+  marker.className = CITATION_MARKER_CLASS;
+  marker.dataset.citation = String(index);
+  marker.textContent = `[${index}]`;
+  return marker;
+}
+
+/**
+ * Numbers of a chip: from its attributes, otherwise every number in its text ("[1, 3]")
+ */
+function readIndices(chip: HTMLElement): number[] {
+  const index = readIndex(chip);
+  if (index !== null) {
+    return [index];
+  }
+  return (chip.textContent?.match(/\d+/g) ?? []).map(Number).filter(value => value > 0);
+}
+
+function readIndex(element: HTMLElement): number | null {
+  for (const name of INDEX_ATTRIBUTES) {
+    const value = Number(element.getAttribute(name));
+    if (Number.isInteger(value) && value > 0) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Find the first element matching a selector in a root or any shadow root below it
+ */
+function findInShadowTree(root: ParentNode, selector: string): HTMLElement | null {
+  const match = root.querySelector<HTMLElement>(selector);
+  if (match) {
+    return match;
+  }
+
+  for (const element of Array.from(root.querySelectorAll<HTMLElement>('*'))) {
+    if (element.shadowRoot) {
+      const nested = findInShadowTree(element.shadowRoot, selector);
+      if (nested) {
+        return nested;
+      }
+    }
+  }
+  return null;
+}
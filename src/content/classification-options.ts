@@ -0,0 +1,67 @@
+/**
+ * Classification levels
+ *
+ * Kept apart from the stamping code so the settings and the options page can
+ * read the levels without bundling the PDF renderers.
+ */
+
+import { t, MessageKey } from '../utils/i18n';
+
+/**
+ * Classification levels, from least to most sensitive
+ */
+export type ClassificationLevel = 'public' | 'internal' | 'confidential' | 'restricted';
+
+/**
+ * Information about a classification level
+ */
+export interface ClassificationInfo {
+  /** Identifier, as stored in settings and written to Markdown front matter */
+  id: ClassificationLevel;
+
+  /** Message key of the localized label */
+  labelKey: MessageKey;
+
+  /** Color of the banner and the watermark */
+  color: string;
+}
+
+/**
+ * Supported levels, in the order shown on the options page
+ */
+export const CLASSIFICATION_LEVELS: ReadonlyArray<ClassificationInfo> = [
+  { id: 'public', labelKey: 'classificationPublic', color: '#188038' },
+  { id: 'internal', labelKey: 'classificationInternal', color: '#1a73e8' },
+  { id: 'confidential', labelKey: 'classificationConfidential', color: '#e37400' },
+  { id: 'restricted', labelKey: 'classificationRestricted', color: '#d93025' }
+];
+
+/**
+ * Check whether a value is a supported classification level
+ *
+ * @param value - Value to check
+ * @returns True if the value is a ClassificationLevel
+ */
+export function isClassificationLevel(value: unknown): value is ClassificationLevel {
+  return CLASSIFICATION_LEVELS.some(level => level.id === value);
+}
+
+/**
+ * Get information about a classification level
+ *
+ * @param level - Classification level
+ * @returns Label key and color of the level
+ */
+export function getClassificationInfo(level: ClassificationLevel): ClassificationInfo {
+  return CLASSIFICATION_LEVELS.find(info => info.id === level) as ClassificationInfo;
+}
+
+/**
+ * Localized label of a classification level, e.g. "Confidential"
+ *
+ * @param level - Classification level
+ * @returns Label in the current language
+ */
+export function classificationLabel(level: ClassificationLevel): string {
+  return t(getClassificationInfo(level).labelKey);
+}
@@ -0,0 +1,126 @@
+/**
+ * Classification - Confidentiality level stamped on exported documents
+ *
+ * Company policy can require every exported chat to carry its classification.
+ * This module:
+ * - Draws a diagonal watermark on every page of a PDF (both PDF renderers)
+ * - Adds a banner to the top of HTML exports
+ * - Writes a front matter field for Markdown exports
+ *
+ * The level comes from the settings, or from the administrator's default
+ * (chrome.storage.managed) when the user has not chosen one. The levels are
+ * listed in classification-options.ts.
+ */
+
+import type { GState, jsPDF } from 'jspdf';
+import { ClassificationLevel, classificationLabel, getClassificationInfo } from './classification-options';
+
+/**
+ * Opacity of the PDF watermark, light enough to read the text under it
+ */
+const WATERMARK_OPACITY = 0.12;
+
+/**
+ * Largest font size of the PDF watermark in pt (long labels are made smaller to fit the page)
+ */
+const WATERMARK_MAX_FONT_SIZE = 72;
+
+/**
+ * Styles of the HTML banner; it stays at the top of the window while scrolling
+ */
+const BANNER_STYLES = `
+  .classification-banner {
+    position: sticky;
+    top: 0;
+    z-index: 1;
+    margin: 0 0 20px;
+    padding: 6px 12px;
+    border-radius: 4px;
+    color: #fff;
+    font-weight: bold;
+    letter-spacing: 0.1em;
+    text-align: center;
+    text-transform: uppercase;
+  }
+
+  @media print {
+    .classification-banner {
+      position: static;
+      -webkit-print-color-adjust: exact;
+      print-color-adjust: exact;
+    }
+  }
+`;
+
+/**
+ * YAML front matter with the classification, to put at the start of a Markdown file
+ * The level is written as its identifier so that tools can read it in any language
+ *
+ * @param level - Classification level
+ * @returns Front matter block followed by a blank line
+ */
+export function classificationFrontMatter(level: ClassificationLevel): string {
+  return `---\nclassification: ${level}\n---\n\n`;
+}
+
+/**
+ * Add the classification banner to the top of a styled document, with its
+ * styles and a "classification" meta element
+ *
+ * @param doc - Document parsed from PDFGenerator.applyStyles output
+ * @param level - Classification level
+ */
+export function addClassificationBanner(doc: Document, level: ClassificationLevel): void {
+  const meta = doc.createElement('meta');
+  meta.name = 'classification';
+  meta.content = level;
+  doc.head.appendChild(meta);
+
+  const style = doc.createElement('style');
+  style.textContent = BANNER_STYLES;
+  doc.head.appendChild(style);
+
+  const banner = doc.createElement('div');
+  banner.className = 'classification-banner';
+  banner.dataset.classification = level;
+  banner.setAttribute('role', 'note');
+  banner.style.backgroundColor = getClassificationInfo(level).color;
+  banner.textContent = classificationLabel(level);
+  doc.body.prepend(banner);
+}
+
+/**
+ * Draw the classification diagonally across every page of a document, under
+ * a low opacity so the content stays readable
+ *
+ * @param doc - Finished document (all pages added)
+ * @param level - Classification level
+ * @param font - jsPDF font family able to draw the label, registered by the caller
+ */
+export function drawClassificationWatermark(doc: jsPDF, level: ClassificationLevel, font: string): void {
+  const text = classificationLabel(level).toLocaleUpperCase();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const angle = Math.atan2(height, width);
+
+  doc.setFont(font, 'normal');
+  doc.setFontSize(WATERMARK_MAX_FONT_SIZE);
+  // Fit the label in two thirds of the page diagonal
+  const fontSize = Math.min(WATERMARK_MAX_FONT_SIZE, WATERMARK_MAX_FONT_SIZE * Math.hypot(width, height) * 2 / 3 / doc.getTextWidth(text));
+  doc.setFontSize(fontSize);
+  const textWidth = doc.getTextWidth(text);
+
+  // Start the text so that its middle is at the center of the page
+  const x = (width - textWidth * Math.cos(angle)) / 2;
+  const y = (height + textWidth * Math.sin(angle)) / 2;
+
+  for (let page = 1; page <= doc.getNumberOfPages(); page++) {
+    doc.setPage(page);
+    doc.saveGraphicsState();
+    // jsPDF types GState on the document as a method, but it is the GState class
+    doc.setGState(new (doc.GState as unknown as typeof GState)({ opacity: WATERMARK_OPACITY }));
+    doc.setTextColor(getClassificationInfo(level).color);
+    doc.text(text, x, y, { angle: angle * 180 / Math.PI, baseline: 'middle' });
+    doc.restoreGraphicsState();
+  }
+}
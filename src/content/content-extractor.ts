@@ -9,13 +9,19 @@
  */
 
 import { Logger } from '../utils/logger';
-import { DOMError } from '../utils/error-handler';
+import { DOMError, throwIfCancelled } from '../utils/error-handler';
 import { 
   getChatContainer, 
+  getConversationTurns,
   getMessageElements, 
   extractUserMessageContent, 
   extractGeminiResponseContent 
 } from '../utils/shadow-dom-utils';
+import { TurnSelection } from './turn-selector';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+import { Citation, extractCitations, normalizeCitationMarkers } from './citations';
+import { normalizeMathMarkers } from './math';
+import { Attachment, extractAttachments } from './attachments';
 
 /**
  * Represents a single chat message
@@ -29,6 +35,8 @@ export interface Message {
     hasTable: boolean;
     hasList: boolean;
   };
+  attachments?: Attachment[]; // Files attached to a user message
+  citations?: Citation[]; // Sources cited by a Gemini response, numbered like its markers
 }
 
 /**
@@ -54,19 +62,33 @@ export class ContentExtractor {
   private readonly USER_MESSAGE_SELECTOR = 'ucs-text-streamer, ucs-fast-markdown';
   private readonly GEMINI_MESSAGE_SELECTOR = 'ucs-summary, ucs-response-markdown';
 
+  private progress = new ProgressEmitter();
+
   constructor() {
     Logger.info('ContentExtractor initialized');
   }
 
+  /**
+   * Listen for the progress of extractChatContent ('extracting' stage)
+   * @param listener - Called after each message
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
   /**
    * Extract all chat content from the DOM
    * Finds the chat container and extracts all messages
    * 
+   * @param selection - Zero-based indices of the turns to include (all turns if omitted)
+   * @param signal - Checked before each message
    * @returns ChatContent object containing all messages and metadata
+   * @throws ExportCancelledError if the signal is aborted
    * 
    * Requirements: 3.1
    */
-  extractChatContent(): ChatContent {
+  extractChatContent(selection?: TurnSelection, signal?: AbortSignal): ChatContent {
     Logger.info('Starting to extract chat content');
 
     try {
@@ -79,16 +101,23 @@ export class ContentExtractor {
       Logger.info('Chat container found');
 
       // Find all message elements
-      const messageElements = this.findMessageElements(chatContainer);
+      let messageElements = this.findMessageElements(chatContainer);
       Logger.info(`Found ${messageElements.length} message elements`);
 
+      if (selection) {
+        messageElements = this.filterBySelection(messageElements, selection);
+        Logger.info(`Kept ${messageElements.length} message elements from ${selection.size} selected turns`);
+      }
+
       if (messageElements.length === 0) {
         Logger.warn('No messages found in chat container');
       }
 
       // Extract each message
       const messages: Message[] = [];
-      for (const messageElement of messageElements) {
+      this.progress.emit('extracting', 0, messageElements.length);
+      for (const [index, messageElement] of messageElements.entries()) {
+        throwIfCancelled(signal);
         try {
           const message = this.extractMessage(messageElement);
           messages.push(message);
@@ -96,6 +125,7 @@ export class ContentExtractor {
           Logger.warn('Failed to extract message', error);
           // Continue with other messages (graceful error handling)
         }
+        this.progress.emit('extracting', index + 1, messageElements.length);
       }
 
       // Calculate metadata
@@ -180,6 +210,29 @@ export class ContentExtractor {
     return Array.from(new Set(messageElements));
   }
 
+  /**
+   * Keep only the message elements that belong to the selected turns
+   * A message belongs to the div.turn containing it; if turns cannot be found,
+   * every user message starts a new turn
+   * 
+   * @param messageElements - Message elements in conversation order
+   * @param selection - Zero-based indices of the turns to keep
+   * @returns Filtered message elements
+   */
+  private filterBySelection(messageElements: HTMLElement[], selection: TurnSelection): HTMLElement[] {
+    const turns = getConversationTurns();
+    let sequentialTurn = -1;
+
+    return messageElements.filter(element => {
+      if (this.identifySender(element) === 'user' || sequentialTurn < 0) {
+        sequentialTurn++;
+      }
+
+      const containingTurn = turns.findIndex(turn => turn.contains(element));
+      return selection.has(containingTurn >= 0 ? containingTurn : sequentialTurn);
+    });
+  }
+
   /**
    * Extract a single message from a message element
    * Handles Shadow DOM for Gemini Business custom elements
@@ -198,15 +251,26 @@ export class ContentExtractor {
 
       // Extract HTML content based on sender type
       let content = '';
+      let attachments: Attachment[] = [];
+      let citations: Citation[] = [];
       
       if (sender === 'user') {
         // Extract user message content from ucs-fast-markdown
         content = extractUserMessageContent(messageElement);
         Logger.info(`User message content extracted: ${content.substring(0, 100)}...`);
+
+        attachments = extractAttachments(messageElement);
       } else {
         // Extract gemini response content from ucs-summary
         content = extractGeminiResponseContent(messageElement);
         Logger.info(`Gemini message content extracted: ${content.substring(0, 100)}...`);
+
+        // Citation chips become canonical markers, the source list a separate field
+        citations = extractCitations(messageElement);
+        content = normalizeCitationMarkers(content);
+
+        // Rendered formulas become markers holding their TeX source
+        content = normalizeMathMarkers(content);
       }
 
       // If content is still empty, try fallback methods
@@ -242,6 +306,12 @@ export class ContentExtractor {
         timestamp,
         metadata
       };
+      if (attachments.length > 0) {
+        message.attachments = attachments;
+      }
+      if (citations.length > 0) {
+        message.citations = citations;
+      }
 
       Logger.info(`Message extracted: sender=${sender}, contentLength=${content.length}, hasCode=${metadata.hasCodeBlock}, hasTable=${metadata.hasTable}, hasList=${metadata.hasList}`);
       return message;
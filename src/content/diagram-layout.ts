@@ -0,0 +1,692 @@
+/**
+ * Diagram layout - Parsed diagrams as scenes of simple shapes
+ *
+ * Lays out the diagrams read by diagram-parser:
+ * - Graphs in layers along their edges, ordered to reduce crossings, long edges routed
+ *   through placeholder nodes
+ * - Sequence diagrams in one lane per participant
+ *
+ * Scenes are drawn as SVG by diagrams and directly by the vector PDF.
+ */
+
+import { Diagram, GraphDiagram, GraphEdge, GraphNode, SequenceDiagram } from './diagram-parser';
+
+/**
+ * A point of a scene, in px
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Drawing primitive of a laid out diagram (coordinates in px, y measured from the top)
+ */
+export type DiagramShape =
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; radius: number; fill: string; stroke: string }
+  | { kind: 'ellipse'; cx: number; cy: number; rx: number; ry: number; fill: string; stroke: string }
+  | { kind: 'polygon'; points: Point[]; fill: string; stroke: string }
+  | { kind: 'line'; points: Point[]; stroke: string; width: number; dashed: boolean }
+  | { kind: 'text'; x: number; y: number; text: string; size: number; color: string; anchor: 'middle' | 'start'; bold?: boolean };
+
+/**
+ * A laid out diagram
+ */
+export interface DiagramScene {
+  width: number;
+  height: number;
+  shapes: DiagramShape[];
+}
+
+/**
+ * Measurements of scenes, in px
+ */
+const FONT_SIZE = 14;
+const LINE_HEIGHT = 18;
+const PADDING_X = 14;
+const PADDING_Y = 9;
+const NODE_GAP = 30;
+const RANK_GAP = 48;
+const MARGIN = 12;
+const ARROW_LENGTH = 9;
+
+/**
+ * Colors of scenes
+ */
+const COLORS = {
+  nodeFill: '#e8f0fe',
+  nodeStroke: '#1a73e8',
+  text: '#202124',
+  edge: '#5f6368',
+  labelBackground: '#ffffff',
+  noteFill: '#fff8c5',
+  noteStroke: '#d4a72c'
+};
+
+/**
+ * Lay out a parsed diagram
+ *
+ * @param diagram - Parsed diagram
+ * @returns The scene
+ */
+export function layoutDiagram(diagram: Diagram): DiagramScene {
+  return diagram.kind === 'graph' ? layoutGraph(diagram) : layoutSequence(diagram);
+}
+
+/**
+ * A node of the layered layout: a diagram node, or a placeholder routing a long edge
+ */
+interface LayoutNode {
+  width: number;
+  height: number;
+  rank: number;
+  order: number;
+  /** Position across the ranks, then the center of the node in the scene */
+  cross: number;
+  x: number;
+  y: number;
+  above: LayoutNode[];
+  below: LayoutNode[];
+  node?: GraphNode;
+}
+
+/**
+ * Layered layout: ranks along the direction of the edges, nodes ordered within
+ * a rank to reduce crossings, long edges routed through placeholder nodes
+ */
+function layoutGraph(graph: GraphDiagram): DiagramScene {
+  const horizontal = graph.direction === 'LR' || graph.direction === 'RL';
+  const ranks = assignRanks(graph);
+
+  const createNode = (width: number, height: number, rank: number, node?: GraphNode): LayoutNode =>
+    ({ width, height, rank, order: 0, cross: 0, x: 0, y: 0, above: [], below: [], node });
+
+  const layout: Record<string, LayoutNode> = {};
+  const all: LayoutNode[] = graph.nodes.map(node => {
+    const { width, height } = nodeSize(node);
+    layout[node.id] = createNode(width, height, ranks[node.id], node);
+    return layout[node.id];
+  });
+
+  // Chains of layout nodes from the lower to the higher rank; long edges get placeholders
+  const chains = graph.edges.map(edge => {
+    const [low, high] = ranks[edge.from] <= ranks[edge.to] ? [layout[edge.from], layout[edge.to]] : [layout[edge.to], layout[edge.from]];
+    if (low === high) {
+      return [low];
+    }
+    const chain = [low];
+    for (let rank = low.rank + 1; rank < high.rank; rank++) {
+      const placeholder = createNode(8, 8, rank);
+      all.push(placeholder);
+      chain.push(placeholder);
+    }
+    chain.push(high);
+    for (let i = 1; i < chain.length; i++) {
+      chain[i].above.push(chain[i - 1]);
+      chain[i - 1].below.push(chain[i]);
+    }
+    return chain;
+  });
+
+  const layers: LayoutNode[][] = Array.from({ length: Math.max(...all.map(node => node.rank)) + 1 }, () => []);
+  all.forEach(node => layers[node.rank].push(node));
+  orderLayers(layers);
+
+  // Position along the ranks (main axis) and across them (cross axis)
+  const breadth = (node: LayoutNode) => (horizontal ? node.height : node.width);
+  const thickness = layers.map(layer => Math.max(0, ...layer.map(node => (horizontal ? node.width : node.height))));
+  const labelRoom = layers.map(() => 0);
+  graph.edges.forEach((edge, index) => {
+    if (edge.label && chains[index].length > 1) {
+      const size = horizontal ? maxLineWidth(edge.label) + 16 : lineCount(edge.label) * LINE_HEIGHT + 8;
+      labelRoom[chains[index][0].rank] = Math.max(labelRoom[chains[index][0].rank], size);
+    }
+  });
+
+  let main = 0;
+  const mainCenters = layers.map((_, rank) => {
+    const center = main + thickness[rank] / 2;
+    main += thickness[rank] + RANK_GAP + labelRoom[rank];
+    return center;
+  });
+
+  // Nodes follow their parents down the layers, then parents center over their children
+  placeLayer(layers[0], breadth, () => null);
+  for (let rank = 1; rank < layers.length; rank++) {
+    placeLayer(layers[rank], breadth, node => average(node.above.map(parent => parent.cross)));
+  }
+  for (let rank = layers.length - 2; rank >= 0; rank--) {
+    placeLayer(layers[rank], breadth, node => average(node.below.map(child => child.cross)));
+  }
+
+  const mainLength = main - RANK_GAP;
+  const reversed = graph.direction === 'BT' || graph.direction === 'RL';
+  all.forEach(node => {
+    const along = reversed ? mainLength - mainCenters[node.rank] : mainCenters[node.rank];
+    node.x = horizontal ? along : node.cross;
+    node.y = horizontal ? node.cross : along;
+  });
+
+  const shapes: DiagramShape[] = [];
+  const labels: DiagramShape[] = [];
+  graph.edges.forEach((edge, index) => {
+    const chain = chains[index];
+    const from = layout[edge.from];
+    const to = layout[edge.to];
+    if (chain.length === 1) {
+      drawEdge(edge, selfLoop(from), from, to, true, shapes, labels);
+      return;
+    }
+    const points = chain.map(node => ({ x: node.x, y: node.y }));
+    if (chain[0] !== from) {
+      points.reverse();
+    }
+    drawEdge(edge, points, from, to, false, shapes, labels);
+  });
+  graph.nodes.forEach(node => drawNode(layout[node.id], shapes));
+
+  return finishScene([...shapes, ...labels]);
+}
+
+/**
+ * Rank of every node: longest path from the sources, ignoring edges that close a cycle
+ */
+function assignRanks(graph: GraphDiagram): Record<string, number> {
+  const outgoing: Record<string, string[]> = {};
+  graph.nodes.forEach(node => (outgoing[node.id] = []));
+  graph.edges.forEach(edge => {
+    if (edge.from !== edge.to) {
+      outgoing[edge.from].push(edge.to);
+    }
+  });
+
+  // Depth-first search leaves out the edges going back to a node on the current path
+  const state: Record<string, 'active' | 'done'> = {};
+  const forward: Array<[string, string]> = [];
+  const visit = (id: string) => {
+    state[id] = 'active';
+    outgoing[id].forEach(target => {
+      if (state[target] === 'active') {
+        return;
+      }
+      forward.push([id, target]);
+      if (!state[target]) {
+        visit(target);
+      }
+    });
+    state[id] = 'done';
+  };
+  graph.nodes.forEach(node => {
+    if (!state[node.id]) {
+      visit(node.id);
+    }
+  });
+
+  const incoming: Record<string, number> = {};
+  const ranks: Record<string, number> = {};
+  graph.nodes.forEach(node => {
+    incoming[node.id] = 0;
+    ranks[node.id] = 0;
+  });
+  forward.forEach(([, to]) => incoming[to]++);
+
+  const queue = graph.nodes.filter(node => incoming[node.id] === 0).map(node => node.id);
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    forward.forEach(([from, to]) => {
+      if (from !== id) {
+        return;
+      }
+      ranks[to] = Math.max(ranks[to], ranks[id] + 1);
+      if (--incoming[to] === 0) {
+        queue.push(to);
+      }
+    });
+  }
+  return ranks;
+}
+
+/**
+ * Order the nodes of each layer by the average position of their neighbors (barycenter heuristic)
+ */
+function orderLayers(layers: LayoutNode[][]): void {
+  const renumber = (layer: LayoutNode[]) => layer.forEach((node, index) => (node.order = index));
+  layers.forEach(renumber);
+
+  const sweep = (layer: LayoutNode[], side: 'above' | 'below') => {
+    const keys = new Map(layer.map(node => [node, average(node[side].map(neighbor => neighbor.order)) ?? node.order]));
+    layer.sort((a, b) => (keys.get(a) as number) - (keys.get(b) as number) || a.order - b.order);
+    renumber(layer);
+  };
+
+  for (let iteration = 0; iteration < 4; iteration++) {
+    layers.slice(1).forEach(layer => sweep(layer, 'above'));
+    layers.slice(0, -1).reverse().forEach(layer => sweep(layer, 'below'));
+  }
+}
+
+/**
+ * Place the nodes of a layer in order, each as close as possible to its preferred position
+ * Nodes without a preference keep their position (or follow the previous node)
+ */
+function placeLayer(layer: LayoutNode[], breadth: (node: LayoutNode) => number, preferred: (node: LayoutNode) => number | null): void {
+  let end = -Infinity;
+  const deviations: number[] = [];
+  layer.forEach((node, index) => {
+    const half = breadth(node) / 2;
+    const wanted = preferred(node);
+    const fallback = index === 0 && end === -Infinity ? half : end + half;
+    node.cross = Math.max(wanted ?? (node.cross || fallback), end + half);
+    if (wanted !== null) {
+      deviations.push(node.cross - wanted);
+    }
+    end = node.cross + half + NODE_GAP;
+  });
+
+  // Nodes pushed aside by their neighbors move the whole layer back towards its preferred positions
+  const shift = average(deviations) ?? 0;
+  layer.forEach(node => (node.cross -= shift));
+}
+
+/**
+ * Size of a node box around its label
+ */
+function nodeSize(node: GraphNode): { width: number; height: number } {
+  const textWidth = maxLineWidth(node.label);
+  const textHeight = lineCount(node.label) * LINE_HEIGHT;
+  const width = textWidth + 2 * PADDING_X;
+  const height = textHeight + 2 * PADDING_Y;
+
+  switch (node.shape) {
+    case 'circle': {
+      const diameter = Math.max(width, height) + 4;
+      return { width: diameter, height: diameter };
+    }
+    case 'ellipse':
+      return { width: width * 1.2, height: height * 1.15 };
+    case 'diamond':
+      return { width: textWidth * 1.5 + 2 * PADDING_X, height: textHeight * 1.5 + 2 * PADDING_Y + 8 };
+    case 'hexagon':
+      return { width: width + height / 2, height };
+    case 'none':
+      return { width: textWidth + 8, height: textHeight + 4 };
+    default:
+      return { width, height };
+  }
+}
+
+/**
+ * Add the shape and label of a placed node
+ */
+function drawNode(node: LayoutNode, shapes: DiagramShape[]): void {
+  const graphNode = node.node as GraphNode;
+  const { x, y, width: w, height: h } = node;
+  const fill = COLORS.nodeFill;
+  const stroke = COLORS.nodeStroke;
+
+  switch (graphNode.shape) {
+    case 'circle':
+    case 'ellipse':
+      shapes.push({ kind: 'ellipse', cx: x, cy: y, rx: w / 2, ry: h / 2, fill, stroke });
+      break;
+    case 'diamond':
+      shapes.push({
+        kind: 'polygon', fill, stroke,
+        points: [{ x, y: y - h / 2 }, { x: x + w / 2, y }, { x, y: y + h / 2 }, { x: x - w / 2, y }]
+      });
+      break;
+    case 'hexagon': {
+      const inset = h / 4;
+      shapes.push({
+        kind: 'polygon', fill, stroke,
+        points: [
+          { x: x - w / 2 + inset, y: y - h / 2 }, { x: x + w / 2 - inset, y: y - h / 2 }, { x: x + w / 2, y },
+          { x: x + w / 2 - inset, y: y + h / 2 }, { x: x - w / 2 + inset, y: y + h / 2 }, { x: x - w / 2, y }
+        ]
+      });
+      break;
+    }
+    case 'none':
+      break;
+    default: {
+      const radius = graphNode.shape === 'stadium' ? h / 2 : graphNode.shape === 'round' ? 8 : 2;
+      shapes.push({ kind: 'rect', x: x - w / 2, y: y - h / 2, w, h, radius, fill, stroke });
+    }
+  }
+
+  pushText(shapes, graphNode.label, x, y, COLORS.text);
+}
+
+/**
+ * Add an edge along its route, clipped to the node borders, with its arrowheads and label
+ * Labels go to their own list so they are drawn over every line
+ */
+function drawEdge(
+  edge: GraphEdge,
+  points: Point[],
+  from: LayoutNode,
+  to: LayoutNode,
+  loop: boolean,
+  shapes: DiagramShape[],
+  labels: DiagramShape[]
+): void {
+  if (!loop) {
+    points[0] = clipToNode(from, points[1]);
+    points[points.length - 1] = clipToNode(to, points[points.length - 2]);
+  }
+
+  const width = edge.line === 'thick' ? 2.5 : 1.3;
+  if (edge.arrow !== 'none') {
+    points[points.length - 1] = pushArrow(shapes, points[points.length - 1], points[points.length - 2]);
+  }
+  if (edge.arrow === 'both') {
+    points[0] = pushArrow(shapes, points[0], points[1]);
+  }
+  shapes.push({ kind: 'line', points, stroke: COLORS.edge, width, dashed: edge.line === 'dotted' });
+
+  if (edge.label) {
+    const middle = pointAlong(points, 0.5);
+    const w = maxLineWidth(edge.label) + 8;
+    const h = lineCount(edge.label) * LINE_HEIGHT + 2;
+    labels.push({
+      kind: 'rect', x: middle.x - w / 2, y: middle.y - h / 2, w, h, radius: 2,
+      fill: COLORS.labelBackground, stroke: COLORS.labelBackground
+    });
+    pushText(labels, edge.label, middle.x, middle.y, COLORS.edge);
+  }
+}
+
+/**
+ * Route of an edge from a node back to itself, on its right side
+ */
+function selfLoop(node: LayoutNode): Point[] {
+  const right = node.x + node.width / 2;
+  const top = node.y - node.height / 4;
+  const bottom = node.y + node.height / 4;
+  return [{ x: right, y: top }, { x: right + 22, y: top }, { x: right + 22, y: bottom }, { x: right, y: bottom }];
+}
+
+/**
+ * Point where the segment from the center of a node towards `toward` leaves the node
+ */
+function clipToNode(node: LayoutNode, toward: Point): Point {
+  const dx = toward.x - node.x;
+  const dy = toward.y - node.y;
+  if (dx === 0 && dy === 0) {
+    return { x: node.x, y: node.y };
+  }
+
+  const halfWidth = node.width / 2;
+  const halfHeight = node.height / 2;
+  let scale: number;
+  switch (node.node?.shape) {
+    case 'circle':
+    case 'ellipse':
+      scale = 1 / Math.sqrt((dx / halfWidth) ** 2 + (dy / halfHeight) ** 2);
+      break;
+    case 'diamond':
+      scale = 1 / (Math.abs(dx) / halfWidth + Math.abs(dy) / halfHeight);
+      break;
+    default:
+      scale = Math.min(dx ? halfWidth / Math.abs(dx) : Infinity, dy ? halfHeight / Math.abs(dy) : Infinity);
+  }
+  scale = Math.min(1, scale);
+  return { x: node.x + dx * scale, y: node.y + dy * scale };
+}
+
+/**
+ * Add an arrowhead pointing at `tip` and return where the line should end
+ */
+function pushArrow(shapes: DiagramShape[], tip: Point, from: Point): Point {
+  const length = Math.hypot(tip.x - from.x, tip.y - from.y) || 1;
+  const ux = (tip.x - from.x) / length;
+  const uy = (tip.y - from.y) / length;
+  const base = { x: tip.x - ux * ARROW_LENGTH, y: tip.y - uy * ARROW_LENGTH };
+  const spread = ARROW_LENGTH * 0.45;
+  shapes.push({
+    kind: 'polygon', fill: COLORS.edge, stroke: COLORS.edge,
+    points: [tip, { x: base.x - uy * spread, y: base.y + ux * spread }, { x: base.x + uy * spread, y: base.y - ux * spread }]
+  });
+  return base;
+}
+
+/**
+ * Point at a fraction of the length of a polyline
+ */
+function pointAlong(points: Point[], fraction: number): Point {
+  const lengths = points.slice(1).map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) * fraction;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const ratio = remaining / lengths[i];
+      return {
+        x: points[i].x + (points[i + 1].x - points[i].x) * ratio,
+        y: points[i].y + (points[i + 1].y - points[i].y) * ratio
+      };
+    }
+    remaining -= lengths[i];
+  }
+  return points[points.length - 1];
+}
+
+/**
+ * Sequence diagram: one lane per participant, messages from top to bottom
+ */
+function layoutSequence(diagram: SequenceDiagram): DiagramScene {
+  const index: Record<string, number> = {};
+  diagram.participants.forEach((participant, position) => (index[participant.id] = position));
+  const boxWidths = diagram.participants.map(participant => maxLineWidth(participant.label) + 2 * PADDING_X);
+  const boxHeight = Math.max(...diagram.participants.map(participant => lineCount(participant.label))) * LINE_HEIGHT + 2 * PADDING_Y;
+
+  // Distance between neighboring lanes: room for the boxes, then for the messages between them
+  const gaps = boxWidths.slice(1).map((width, position) => (boxWidths[position] + width) / 2 + 24);
+  const widen = (low: number, high: number, needed: number) => {
+    const current = gaps.slice(low, high).reduce((sum, gap) => sum + gap, 0);
+    if (current < needed && high > low) {
+      gaps[high - 1] += needed - current;
+    }
+  };
+  diagram.events.forEach(event => {
+    if (event.kind !== 'message') {
+      return;
+    }
+    const [low, high] = [index[event.from], index[event.to]].sort((a, b) => a - b);
+    if (low === high) {
+      if (low < gaps.length) {
+        widen(low, low + 1, maxLineWidth(event.text) + 50);
+      }
+    } else {
+      widen(low, high, maxLineWidth(event.text) + 30);
+    }
+  });
+
+  const centers = [boxWidths[0] / 2];
+  gaps.forEach(gap => centers.push(centers[centers.length - 1] + gap));
+
+  const body: DiagramShape[] = [];
+  let y = boxHeight + 20;
+  diagram.events.forEach(event => {
+    if (event.kind === 'note') {
+      const lanes = event.over.map(id => centers[index[id]]);
+      const width = Math.max(maxLineWidth(event.text) + 2 * PADDING_X, Math.max(...lanes) - Math.min(...lanes) + 40);
+      const height = lineCount(event.text) * LINE_HEIGHT + 2 * PADDING_Y;
+      const x = event.side === 'left'
+        ? lanes[0] - 12 - width
+        : event.side === 'right' ? lanes[0] + 12 : (Math.max(...lanes) + Math.min(...lanes)) / 2 - width / 2;
+      body.push({ kind: 'rect', x, y, w: width, h: height, radius: 0, fill: COLORS.noteFill, stroke: COLORS.noteStroke });
+      pushText(body, event.text, x + width / 2, y + height / 2, COLORS.text);
+      y += height + 14;
+      return;
+    }
+
+    const from = centers[index[event.from]];
+    const to = centers[index[event.to]];
+    const lines = lineCount(event.text);
+    if (from === to) {
+      pushText(body, event.text, from + 8, y + (lines * LINE_HEIGHT) / 2, COLORS.text, 'start');
+      y += lines * LINE_HEIGHT + 4;
+      const points = [{ x: from, y }, { x: from + 34, y }, { x: from + 34, y: y + 20 }, { x: from, y: y + 20 }];
+      if (event.arrow) {
+        points[3] = pushArrow(body, points[3], points[2]);
+      }
+      body.push({ kind: 'line', points, stroke: COLORS.edge, width: 1.3, dashed: event.dashed });
+      y += 34;
+      return;
+    }
+
+    if (event.text) {
+      pushText(body, event.text, (from + to) / 2, y + (lines * LINE_HEIGHT) / 2, COLORS.text);
+      y += lines * LINE_HEIGHT + 4;
+    }
+    const points = [{ x: from, y }, { x: to, y }];
+    if (event.arrow) {
+      points[1] = pushArrow(body, points[1], points[0]);
+    }
+    body.push({ kind: 'line', points, stroke: COLORS.edge, width: 1.3, dashed: event.dashed });
+    y += 22;
+  });
+
+  const footer = y + 6;
+  const shapes: DiagramShape[] = centers.map(x => ({
+    kind: 'line', points: [{ x, y: boxHeight }, { x, y: footer }], stroke: '#9aa0a6', width: 1, dashed: true
+  }));
+  shapes.push(...body);
+  [0, footer].forEach(top => diagram.participants.forEach((participant, position) => {
+    const width = boxWidths[position];
+    shapes.push({
+      kind: 'rect', x: centers[position] - width / 2, y: top, w: width, h: boxHeight, radius: 3,
+      fill: COLORS.nodeFill, stroke: COLORS.nodeStroke
+    });
+    pushText(shapes, participant.label, centers[position], top + boxHeight / 2, COLORS.text);
+  }));
+
+  return finishScene(shapes);
+}
+
+/**
+ * Add a (possibly multi-line) label centered on a point, or starting at it
+ */
+function pushText(
+  shapes: DiagramShape[],
+  text: string,
+  x: number,
+  y: number,
+  color: string,
+  anchor: 'middle' | 'start' = 'middle'
+): void {
+  const lines = text.split('\n');
+  lines.forEach((line, index) => {
+    shapes.push({
+      kind: 'text', x, y: y + (index - (lines.length - 1) / 2) * LINE_HEIGHT,
+      text: line, size: FONT_SIZE, color, anchor
+    });
+  });
+}
+
+/**
+ * Move the shapes so the scene starts at the margin and compute its size
+ */
+function finishScene(shapes: DiagramShape[]): DiagramScene {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const include = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+
+  shapes.forEach(shape => {
+    switch (shape.kind) {
+      case 'rect':
+        include(shape.x, shape.y);
+        include(shape.x + shape.w, shape.y + shape.h);
+        break;
+      case 'ellipse':
+        include(shape.cx - shape.rx, shape.cy - shape.ry);
+        include(shape.cx + shape.rx, shape.cy + shape.ry);
+        break;
+      case 'polygon':
+      case 'line':
+        shape.points.forEach(point => include(point.x, point.y));
+        break;
+      case 'text': {
+        const width = textWidth(shape.text, shape.size);
+        const left = shape.anchor === 'middle' ? shape.x - width / 2 : shape.x;
+        include(left, shape.y - shape.size / 2);
+        include(left + width, shape.y + shape.size / 2);
+        break;
+      }
+    }
+  });
+
+  const dx = MARGIN - minX;
+  const dy = MARGIN - minY;
+  const move = (point: Point): Point => ({ x: round(point.x + dx), y: round(point.y + dy) });
+  const moved = shapes.map((shape): DiagramShape => {
+    switch (shape.kind) {
+      case 'rect':
+        return { ...shape, x: round(shape.x + dx), y: round(shape.y + dy), w: round(shape.w), h: round(shape.h), radius: round(shape.radius) };
+      case 'ellipse':
+        return { ...shape, cx: round(shape.cx + dx), cy: round(shape.cy + dy), rx: round(shape.rx), ry: round(shape.ry) };
+      case 'polygon':
+      case 'line':
+        return { ...shape, points: shape.points.map(move) };
+      case 'text':
+        return { ...shape, x: round(shape.x + dx), y: round(shape.y + dy) };
+    }
+  });
+
+  return { width: Math.ceil(maxX - minX + 2 * MARGIN), height: Math.ceil(maxY - minY + 2 * MARGIN), shapes: moved };
+}
+
+/**
+ * Estimated width of a line of text (the scene is laid out before any font is measured)
+ */
+function textWidth(text: string, size = FONT_SIZE): number {
+  let width = 0;
+  for (const char of text) {
+    if (/[\u1100-\u11ff\u2e80-\ua4cf\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]/.test(char)) {
+      width += 1;
+    } else if (/[il.,:;'|!()[\]\s]/.test(char)) {
+      width += 0.32;
+    } else if (/[mwMW@%]/.test(char)) {
+      width += 0.88;
+    } else if (/[A-Z]/.test(char)) {
+      width += 0.68;
+    } else {
+      width += 0.58;
+    }
+  }
+  return width * size;
+}
+
+/**
+ * Width of the longest line of a label
+ */
+function maxLineWidth(text: string): number {
+  return Math.max(0, ...text.split('\n').map(line => textWidth(line)));
+}
+
+/**
+ * Number of lines of a label
+ */
+function lineCount(text: string): number {
+  return text.split('\n').length;
+}
+
+/**
+ * Average of values, or null when there are none
+ */
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Round a coordinate to a tenth of a px
+ */
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,595 @@
+/**
+ * Diagram parser - Mermaid and Graphviz source as diagrams
+ *
+ * Reads the diagram source of code blocks into graphs (Mermaid flowcharts, DOT graphs)
+ * and sequence diagrams, which diagram-layout turns into scenes. Statements that are
+ * not drawn (styles, interactions, blocks) are skipped.
+ */
+
+/**
+ * Shape of a graph node
+ */
+export type NodeShape = 'rect' | 'round' | 'stadium' | 'circle' | 'ellipse' | 'diamond' | 'hexagon' | 'none';
+
+/**
+ * Line style of a graph edge
+ */
+export type EdgeLine = 'solid' | 'dotted' | 'thick';
+
+/**
+ * A node of a flowchart or DOT graph
+ */
+export interface GraphNode {
+  id: string;
+  label: string;
+  shape: NodeShape;
+}
+
+/**
+ * An edge of a flowchart or DOT graph
+ */
+export interface GraphEdge {
+  from: string;
+  to: string;
+  label: string;
+  line: EdgeLine;
+  arrow: 'none' | 'end' | 'both';
+}
+
+/**
+ * A flowchart or DOT graph
+ */
+export interface GraphDiagram {
+  kind: 'graph';
+  direction: 'TB' | 'BT' | 'LR' | 'RL';
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+/**
+ * A sequence diagram: participants and the messages and notes between them, in order
+ */
+export interface SequenceDiagram {
+  kind: 'sequence';
+  participants: Array<{ id: string; label: string }>;
+  events: Array<
+    | { kind: 'message'; from: string; to: string; text: string; dashed: boolean; arrow: boolean }
+    | { kind: 'note'; over: string[]; side: 'left' | 'right' | 'over'; text: string }
+  >;
+}
+
+/**
+ * A parsed diagram
+ */
+export type Diagram = GraphDiagram | SequenceDiagram;
+
+/**
+ * First lines of Mermaid flowcharts and sequence diagrams, and the start of DOT graphs
+ */
+export const MERMAID_FLOWCHART_HEADER = /^(?:graph|flowchart)(?:\s+(TB|TD|BT|RL|LR))?\s*$/i;
+export const MERMAID_SEQUENCE_HEADER = /^sequenceDiagram\s*$/;
+export const DOT_HEADER = /^\s*(?:strict\s+)?(?:di)?graph\b[^{]*\{/i;
+
+/**
+ * Parse a Mermaid flowchart or sequence diagram
+ *
+ * @param source - Mermaid source
+ * @returns The diagram, or null if its type is not supported or it has no content
+ */
+export function parseMermaid(source: string): Diagram | null {
+  const lines = source.split('\n').map(line => line.trim());
+
+  // Front matter (--- title: ... ---) and %% comments/directives are not part of the diagram
+  if (lines[0] === '---') {
+    const end = lines.indexOf('---', 1);
+    lines.splice(0, end + 1);
+  }
+  const statements = lines.filter(line => line && !line.startsWith('%%'));
+  if (statements.length === 0) {
+    return null;
+  }
+
+  if (MERMAID_SEQUENCE_HEADER.test(statements[0])) {
+    return parseSequence(statements.slice(1));
+  }
+
+  const [header, ...rest] = splitStatements(statements[0]);
+  const match = MERMAID_FLOWCHART_HEADER.exec(header);
+  if (!match) {
+    return null;
+  }
+
+  const direction = (match[1] || 'TB').toUpperCase().replace('TD', 'TB') as GraphDiagram['direction'];
+  const body = [...rest, ...statements.slice(1).flatMap(splitStatements)];
+  return parseFlowchart(direction, body);
+}
+
+/**
+ * Flowchart statements that are not drawn (styles, subgraph borders, interactions)
+ */
+const FLOWCHART_IGNORED = /^(?:classDef|class|style|linkStyle|click|subgraph|end|direction|accTitle|accDescr)\b/;
+/**
+ * Pieces of a flowchart statement, read in place (sticky): node ids, :::class suffixes,
+ * & between nodes, and links with their text
+ */
+const FLOWCHART_NODE_ID = /\s*([\p{L}\p{N}_]+)/uy;
+const FLOWCHART_CLASS_SUFFIX = /:::[\w-]+/y;
+const FLOWCHART_AMPERSAND = /\s*&\s*/y;
+const FLOWCHART_TEXT_LINK = /\s*(<)?(--|==|-\.)\s+([^|]+?)\s+(-{2,}|={2,}|\.+-)(>|[xo](?=\s))?\s*/y;
+const FLOWCHART_LINK = /\s*(<)?(-{2,}|={2,}|-?\.+-?|~~~)(>|[xo](?=\s))?(?:\s*\|([^|]*)\|)?\s*/y;
+
+/**
+ * Node shapes by their brackets; the first pair that closes wins
+ */
+const FLOWCHART_SHAPES: Array<[string, string, NodeShape]> = [
+  ['([', '])', 'stadium'], ['((', '))', 'circle'], ['[(', ')]', 'rect'], ['[[', ']]', 'rect'],
+  ['[/', '/]', 'rect'], ['[/', '\\]', 'rect'], ['[\\', '\\]', 'rect'], ['[\\', '/]', 'rect'],
+  ['{{', '}}', 'hexagon'], ['[', ']', 'rect'], ['(', ')', 'round'], ['{', '}', 'diamond'], ['>', ']', 'rect']
+];
+
+/**
+ * Flowchart from its statements: chains of node groups joined by links (A & B --> C -.-> D)
+ */
+function parseFlowchart(direction: GraphDiagram['direction'], statements: string[]): GraphDiagram | null {
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+
+  statements.forEach(statement => {
+    if (FLOWCHART_IGNORED.test(statement)) {
+      return;
+    }
+
+    let position = 0;
+    const readGroup = (): string[] | null => {
+      const ids: string[] = [];
+      for (;;) {
+        const node = readFlowchartNode(statement, position);
+        if (!node) {
+          return ids.length > 0 ? ids : null;
+        }
+        position = node.position;
+        const existing = nodes.get(node.id);
+        if (!existing) {
+          nodes.set(node.id, { id: node.id, label: node.label ?? node.id, shape: node.shape ?? 'rect' });
+        } else if (node.label !== undefined) {
+          existing.label = node.label;
+          existing.shape = node.shape ?? existing.shape;
+        }
+        ids.push(node.id);
+
+        FLOWCHART_AMPERSAND.lastIndex = position;
+        if (!FLOWCHART_AMPERSAND.test(statement)) {
+          return ids;
+        }
+        position = FLOWCHART_AMPERSAND.lastIndex;
+      }
+    };
+
+    let sources = readGroup();
+    while (sources && position < statement.length) {
+      const link = readFlowchartLink(statement, position);
+      if (!link) {
+        return;
+      }
+      position = link.position;
+      const targets = readGroup();
+      if (!targets) {
+        return;
+      }
+      sources.forEach(from => targets.forEach(to => {
+        edges.push({ from, to, label: link.label, line: link.line, arrow: link.arrow });
+      }));
+      sources = targets;
+    }
+  });
+
+  return nodes.size > 0 ? { kind: 'graph', direction, nodes: Array.from(nodes.values()), edges } : null;
+}
+
+/**
+ * Read a node at a position of a statement: its id, and its label and shape when it has brackets
+ */
+function readFlowchartNode(
+  statement: string,
+  start: number
+): { id: string; label?: string; shape?: NodeShape; position: number } | null {
+  FLOWCHART_NODE_ID.lastIndex = start;
+  const idMatch = FLOWCHART_NODE_ID.exec(statement);
+  if (!idMatch) {
+    return null;
+  }
+
+  const id = idMatch[1];
+  let position = FLOWCHART_NODE_ID.lastIndex;
+  let label: string | undefined;
+  let shape: NodeShape | undefined;
+
+  for (const [open, close, candidate] of FLOWCHART_SHAPES) {
+    if (!statement.startsWith(open, position)) {
+      continue;
+    }
+    const textStart = position + open.length;
+    const quoted = /^\s*"/.exec(statement.slice(textStart));
+    const searchFrom = quoted ? statement.indexOf('"', textStart + quoted[0].length) + 1 : textStart;
+    const end = quoted && searchFrom === 0 ? -1 : statement.indexOf(close, searchFrom);
+    if (end < 0) {
+      continue;
+    }
+    label = cleanLabel(statement.slice(textStart, end));
+    shape = candidate;
+    position = end + close.length;
+    break;
+  }
+
+  FLOWCHART_CLASS_SUFFIX.lastIndex = position;
+  if (FLOWCHART_CLASS_SUFFIX.test(statement)) {
+    position = FLOWCHART_CLASS_SUFFIX.lastIndex;
+  }
+  return { id, label, shape, position };
+}
+
+/**
+ * Read a link at a position of a statement, with its text, line style and arrowheads
+ */
+function readFlowchartLink(
+  statement: string,
+  start: number
+): { label: string; line: EdgeLine; arrow: GraphEdge['arrow']; position: number } | null {
+  for (const pattern of [FLOWCHART_TEXT_LINK, FLOWCHART_LINK]) {
+    pattern.lastIndex = start;
+    const match = pattern.exec(statement);
+    if (!match) {
+      continue;
+    }
+
+    const textLink = pattern === FLOWCHART_TEXT_LINK;
+    const stroke = textLink ? match[2] + match[4] : match[2];
+    const head = textLink ? match[5] : match[3];
+    const label = cleanLabel((textLink ? match[3] : match[4]) || '');
+    const line: EdgeLine = stroke.includes('=') ? 'thick' : stroke.includes('.') ? 'dotted' : 'solid';
+    const arrow = !head ? 'none' : match[1] ? 'both' : 'end';
+    return { label, line, arrow: stroke === '~~~' ? 'none' : arrow, position: pattern.lastIndex };
+  }
+  return null;
+}
+
+/**
+ * Split a line into statements at semicolons outside of labels
+ */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (const char of line) {
+    if (char === '"') {
+      quoted = !quoted;
+    } else if (!quoted && '[({'.includes(char)) {
+      depth++;
+    } else if (!quoted && '])}'.includes(char)) {
+      depth = Math.max(0, depth - 1);
+    } else if (char === ';' && !quoted && depth === 0) {
+      statements.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  statements.push(current.trim());
+  return statements.filter(Boolean);
+}
+
+/**
+ * Sequence diagram statements: participant declarations, messages and notes
+ */
+const SEQUENCE_PARTICIPANT = /^(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/i;
+const SEQUENCE_MESSAGE = /^([^\s:+\->]+)\s*(--?(?:>>|>|x|\)))\s*[+-]?\s*([^\s:+\->]+)\s*:\s*(.*)$/;
+const SEQUENCE_NOTE = /^note\s+(left of|right of|over)\s+([^:]+?)\s*:\s*(.*)$/i;
+
+/**
+ * Sequence diagram from its statements; participants are declared or first used
+ */
+function parseSequence(statements: string[]): SequenceDiagram | null {
+  const participants = new Map<string, { id: string; label: string }>();
+  const events: SequenceDiagram['events'] = [];
+
+  const participant = (id: string, label = id) => {
+    if (!participants.has(id)) {
+      participants.set(id, { id, label: cleanLabel(label) });
+    }
+  };
+
+  statements.forEach(statement => {
+    const declared = SEQUENCE_PARTICIPANT.exec(statement);
+    if (declared) {
+      participant(declared[2], declared[3]);
+      return;
+    }
+
+    const message = SEQUENCE_MESSAGE.exec(statement);
+    if (message) {
+      const [, from, arrow, to, text] = message;
+      participant(from);
+      participant(to);
+      events.push({
+        kind: 'message', from, to, text: cleanLabel(text),
+        dashed: arrow.startsWith('--'), arrow: !/^--?>$/.test(arrow)
+      });
+      return;
+    }
+
+    const note = SEQUENCE_NOTE.exec(statement);
+    if (note) {
+      const over = note[2].split(',').map(id => id.trim()).filter(Boolean);
+      over.forEach(id => participant(id));
+      const side = note[1].toLowerCase().startsWith('left') ? 'left' : note[1].toLowerCase().startsWith('right') ? 'right' : 'over';
+      events.push({ kind: 'note', over, side, text: cleanLabel(note[3]) });
+    }
+    // Blocks (loop, alt, opt...), activations and autonumber are not drawn
+  });
+
+  return participants.size > 0 ? { kind: 'sequence', participants: Array.from(participants.values()), events } : null;
+}
+
+/**
+ * A DOT token: an id (quoted strings and HTML labels included) or punctuation
+ */
+type DotToken = { type: 'id' | 'punct'; value: string };
+
+/**
+ * Node shapes of the DOT shape attribute
+ */
+const DOT_SHAPES: Record<string, NodeShape> = {
+  box: 'rect', rect: 'rect', rectangle: 'rect', square: 'rect', record: 'rect', mrecord: 'round', note: 'rect',
+  tab: 'rect', folder: 'rect', component: 'rect', cylinder: 'rect', ellipse: 'ellipse', oval: 'ellipse',
+  circle: 'circle', doublecircle: 'circle', point: 'circle', diamond: 'diamond', hexagon: 'hexagon',
+  plaintext: 'none', plain: 'none', none: 'none'
+};
+
+/**
+ * Parse a Graphviz DOT graph: nodes, edges, subgraphs and the attributes that change the drawing
+ *
+ * @param source - DOT source
+ * @returns The graph, or null if it has no nodes
+ */
+export function parseDot(source: string): GraphDiagram | null {
+  const tokens = tokenizeDot(source);
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const accept = (value: string) => {
+    if (peek()?.value === value && peek().type === 'punct') {
+      position++;
+      return true;
+    }
+    return false;
+  };
+
+  if (peek()?.value.toLowerCase() === 'strict') {
+    next();
+  }
+  const kind = next()?.value.toLowerCase();
+  if (kind !== 'graph' && kind !== 'digraph') {
+    return null;
+  }
+  if (peek()?.type === 'id') {
+    next();
+  }
+  if (!accept('{')) {
+    return null;
+  }
+
+  const directed = kind === 'digraph';
+  const nodes = new Map<string, GraphNode>();
+  const edges: GraphEdge[] = [];
+  let direction: GraphDiagram['direction'] = 'TB';
+
+  const readAttributes = (): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    while (accept('[')) {
+      while (peek() && !accept(']')) {
+        const name = next();
+        if (name.type !== 'id') {
+          continue;
+        }
+        attributes[name.value.toLowerCase()] = accept('=') ? next()?.value ?? '' : 'true';
+      }
+    }
+    return attributes;
+  };
+
+  const addNode = (id: string, attributes: Record<string, string>, defaults: Record<string, string>) => {
+    const merged = { ...defaults, ...attributes };
+    const node = nodes.get(id) ?? { id, label: id, shape: 'ellipse' as NodeShape };
+    if (merged.label !== undefined) {
+      node.label = cleanLabel(merged.label.replace(/\\[nlr]/g, '\n')).replace(/\\N/g, id);
+    }
+    if (merged.shape) {
+      node.shape = DOT_SHAPES[merged.shape.toLowerCase()] ?? 'rect';
+    }
+    nodes.set(id, node);
+  };
+
+  const parseStatements = (nodeDefaults: Record<string, string>, edgeDefaults: Record<string, string>): string[] => {
+    const ids: string[] = [];
+
+    // An operand of an edge: a node or a group of nodes
+    const readOperand = (): string[] | null => {
+      if (peek()?.value.toLowerCase() === 'subgraph' && peek().type === 'id') {
+        next();
+        if (peek()?.type === 'id') {
+          next();
+        }
+      }
+      if (accept('{')) {
+        return parseStatements({ ...nodeDefaults }, { ...edgeDefaults });
+      }
+      if (peek()?.type !== 'id') {
+        return null;
+      }
+      const id = next().value;
+      // Ports (node:port) only matter to Graphviz's own layout
+      while (accept(':')) {
+        next();
+      }
+      return [id];
+    };
+
+    while (peek() && !accept('}')) {
+      if (accept(';') || accept(',')) {
+        continue;
+      }
+
+      const keyword = peek().type === 'id' ? peek().value.toLowerCase() : '';
+      if (['graph', 'node', 'edge'].includes(keyword) && tokens[position + 1]?.value === '[') {
+        next();
+        const attributes = readAttributes();
+        if (keyword === 'node') {
+          Object.assign(nodeDefaults, attributes);
+        } else if (keyword === 'edge') {
+          Object.assign(edgeDefaults, attributes);
+        } else if (attributes.rankdir) {
+          direction = normalizeDirection(attributes.rankdir, direction);
+        }
+        continue;
+      }
+
+      if (peek().type === 'id' && tokens[position + 1]?.value === '=') {
+        const name = next().value.toLowerCase();
+        next();
+        const value = next()?.value ?? '';
+        if (name === 'rankdir') {
+          direction = normalizeDirection(value, direction);
+        }
+        continue;
+      }
+
+      const first = readOperand();
+      if (!first) {
+        next();
+        continue;
+      }
+
+      const chain = [first];
+      while (peek()?.value === '->' || peek()?.value === '--') {
+        next();
+        const operand = readOperand();
+        if (!operand) {
+          break;
+        }
+        chain.push(operand);
+      }
+
+      const attributes = readAttributes();
+      chain.forEach(group => group.forEach(id => {
+        addNode(id, chain.length === 1 ? attributes : {}, nodeDefaults);
+        ids.push(id);
+      }));
+
+      const edgeAttributes = { ...edgeDefaults, ...attributes };
+      for (let i = 1; i < chain.length; i++) {
+        chain[i - 1].forEach(from => chain[i].forEach(to => {
+          edges.push(dotEdge(from, to, edgeAttributes, directed));
+        }));
+      }
+    }
+
+    return ids;
+  };
+
+  parseStatements({}, {});
+  return nodes.size > 0 ? { kind: 'graph', direction, nodes: Array.from(nodes.values()), edges } : null;
+}
+
+/**
+ * Edge of a DOT edge statement, with its label, line style and arrowheads
+ */
+function dotEdge(from: string, to: string, attributes: Record<string, string>, directed: boolean): GraphEdge {
+  const style = (attributes.style || '').toLowerCase();
+  const dir = (attributes.dir || (directed ? 'forward' : 'none')).toLowerCase();
+  const edge: GraphEdge = {
+    from,
+    to,
+    label: cleanLabel((attributes.label || '').replace(/\\[nlr]/g, '\n')),
+    line: style.includes('dashed') || style.includes('dotted') ? 'dotted' : style.includes('bold') ? 'thick' : 'solid',
+    arrow: dir === 'both' ? 'both' : dir === 'none' || attributes.arrowhead === 'none' ? 'none' : 'end'
+  };
+  // dir=back draws the arrow at the tail
+  return dir === 'back' ? { ...edge, from: to, to: from } : edge;
+}
+
+/**
+ * Graph direction of a rankdir value, or the fallback when it is not one
+ */
+function normalizeDirection(value: string, fallback: GraphDiagram['direction']): GraphDiagram['direction'] {
+  const direction = value.toUpperCase();
+  return direction === 'TB' || direction === 'BT' || direction === 'LR' || direction === 'RL' ? direction : fallback;
+}
+
+/**
+ * Split DOT source into tokens, dropping comments and preprocessor lines
+ */
+function tokenizeDot(source: string): DotToken[] {
+  const text = source
+    .replace(/\/\*[\s\S]*?\*\//g, ' ')
+    .replace(/(^|[^:"])\/\/.*$/gm, '$1')
+    .replace(/^\s*#.*$/gm, '');
+
+  const tokens: DotToken[] = [];
+  let position = 0;
+  while (position < text.length) {
+    const char = text[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '"') {
+      let value = '';
+      position++;
+      while (position < text.length && text[position] !== '"') {
+        if (text[position] === '\\' && text[position + 1] === '"') {
+          position++;
+        }
+        value += text[position++];
+      }
+      position++;
+      tokens.push({ type: 'id', value });
+    } else if (char === '<') {
+      // HTML label: balanced angle brackets, written as plain text
+      let depth = 0;
+      const start = position;
+      do {
+        depth += text[position] === '<' ? 1 : text[position] === '>' ? -1 : 0;
+        position++;
+      } while (position < text.length && depth > 0);
+      tokens.push({ type: 'id', value: text.slice(start + 1, position - 1).replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '') });
+    } else if (text.startsWith('->', position) || text.startsWith('--', position)) {
+      tokens.push({ type: 'punct', value: text.slice(position, position + 2) });
+      position += 2;
+    } else if ('{}[]=;,:'.includes(char)) {
+      tokens.push({ type: 'punct', value: char });
+      position++;
+    } else {
+      const match = /^[^\s{}[\]=;,:"<-]+(?:-(?![->])[^\s{}[\]=;,:"<-]*)*/.exec(text.slice(position));
+      const value = match?.[0] || char;
+      tokens.push({ type: 'id', value });
+      position += value.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Text of a label: line breaks for <br>, no markup, entities decoded
+ */
+function cleanLabel(text: string): string {
+  return text
+    .trim()
+    .replace(/^"([\s\S]*)"$/, '$1')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]*>/g, '')
+    .replace(/#quot;/g, '"')
+    .replace(/&(?:amp|lt|gt|quot|#39);/g, entity => ({ '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&#39;': "'" })[entity] as string)
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n');
+}
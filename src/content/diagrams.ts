@@ -0,0 +1,286 @@
+/**
+ * Diagrams - Mermaid and Graphviz code blocks drawn as diagrams
+ *
+ * Gemini answers with diagram source (```mermaid, ```dot) that its own page
+ * leaves as code. This module draws them offline, without a diagram library:
+ * - Parses Mermaid flowcharts and sequence diagrams, and Graphviz DOT graphs (see diagram-parser)
+ * - Lays them out into a scene of simple shapes (see diagram-layout)
+ * - Renders scenes as inline SVG for the PDF and HTML exports; the vector PDF draws them directly
+ * - Keeps the source of every drawn diagram for an appendix
+ *
+ * Diagram types that are not supported stay code blocks.
+ */
+
+import { detectCodeLanguage } from './html-to-markdown';
+import { DOT_HEADER, MERMAID_FLOWCHART_HEADER, MERMAID_SEQUENCE_HEADER, parseDot, parseMermaid } from './diagram-parser';
+import { DiagramScene, DiagramShape, Point, layoutDiagram } from './diagram-layout';
+import { Logger } from '../utils/logger';
+import { t } from '../utils/i18n';
+
+/**
+ * Diagram languages drawn from code blocks
+ */
+export type DiagramLanguage = 'mermaid' | 'graphviz';
+
+/**
+ * Class of the <figure> replacing a diagram code block
+ */
+export const DIAGRAM_CLASS = 'gemini-diagram';
+
+/**
+ * Source of a drawn diagram, listed in the appendix
+ */
+export interface DiagramSource {
+  /** Number of the diagram in the document, from 1 */
+  number: number;
+  language: DiagramLanguage;
+  source: string;
+}
+
+/**
+ * Code block languages of each diagram language
+ */
+const LANGUAGE_ALIASES: Record<string, DiagramLanguage> = {
+  mermaid: 'mermaid', mmd: 'mermaid', dot: 'graphviz', graphviz: 'graphviz', gv: 'graphviz'
+};
+
+/**
+ * Display names of the diagram languages
+ */
+const LANGUAGE_NAMES: Record<DiagramLanguage, string> = { mermaid: 'Mermaid', graphviz: 'Graphviz' };
+
+/**
+ * Elements Gemini wraps code blocks in (header with the language name and a copy button)
+ */
+const CODE_BLOCK_WRAPPER_SELECTOR = '.code-block, code-block, .code-container';
+
+/**
+ * Styles of drawn diagrams and of the source appendix
+ */
+export const DIAGRAM_STYLES = `
+  figure.${DIAGRAM_CLASS} {
+    margin: 12px 0;
+    text-align: center;
+    page-break-inside: avoid;
+  }
+
+  figure.${DIAGRAM_CLASS} svg {
+    max-width: 100%;
+    height: auto;
+  }
+
+  figure.${DIAGRAM_CLASS} figcaption {
+    color: #666;
+    font-size: 0.85em;
+    margin-top: 4px;
+  }
+
+  figure.${DIAGRAM_CLASS} figcaption a {
+    color: #1a73e8;
+  }
+
+  .diagram-appendix {
+    margin-top: 30px;
+    padding-top: 10px;
+    border-top: 1px solid #ddd;
+  }
+
+  .diagram-appendix summary {
+    font-weight: bold;
+    cursor: pointer;
+  }
+
+  .diagram-appendix pre {
+    background-color: #f8f8f8;
+    padding: 12px;
+    border-radius: 4px;
+    white-space: pre-wrap;
+    font-size: 9pt;
+  }
+`;
+
+/**
+ * Diagram language of a code block
+ * Blocks without a language are recognized by their first line
+ *
+ * @param pre - <pre> element of the code block
+ * @returns Diagram language, or null if the block is not a diagram
+ */
+export function findDiagramLanguage(pre: HTMLElement): DiagramLanguage | null {
+  const language = detectCodeLanguage(pre);
+  if (language) {
+    return LANGUAGE_ALIASES[language] ?? null;
+  }
+
+  const firstLine = (pre.textContent || '').trim().split('\n')[0].split(';')[0].trim();
+  if (MERMAID_FLOWCHART_HEADER.test(firstLine) || MERMAID_SEQUENCE_HEADER.test(firstLine)) {
+    return 'mermaid';
+  }
+  return DOT_HEADER.test(pre.textContent || '') ? 'graphviz' : null;
+}
+
+/**
+ * Parse and lay out diagram source
+ *
+ * @param source - Diagram source
+ * @param language - Diagram language
+ * @returns The scene, or null if the diagram type is not supported or the source has no content
+ */
+export function renderDiagram(source: string, language: DiagramLanguage): DiagramScene | null {
+  try {
+    const diagram = language === 'mermaid' ? parseMermaid(source) : parseDot(source);
+    if (!diagram) {
+      return null;
+    }
+    return layoutDiagram(diagram);
+  } catch (error) {
+    Logger.warn(`Diagrams: Could not draw ${language} diagram`, error);
+    return null;
+  }
+}
+
+/**
+ * Render a scene as an SVG element
+ *
+ * @param scene - Laid out diagram
+ * @param label - Accessible name of the diagram
+ * @returns SVG markup
+ */
+export function diagramToSvg(scene: DiagramScene, label: string): string {
+  const shapes = scene.shapes.map(shapeToSvg).join('');
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}" `
+    + `viewBox="0 0 ${scene.width} ${scene.height}" role="img" aria-label="${escapeXml(label)}" `
+    + `font-family="'DejaVu Sans', Arial, Helvetica, sans-serif">${shapes}</svg>`;
+}
+
+/**
+ * Replace the diagram code blocks of message HTML with drawn diagrams
+ * Each figure links to its source in the appendix (see renderDiagramAppendix)
+ *
+ * @param html - Message HTML
+ * @param firstNumber - Number of the first diagram of the message in the document
+ * @returns HTML with figures, and the sources of the drawn diagrams
+ */
+export function renderDiagramBlocks(html: string, firstNumber = 1): { html: string; diagrams: DiagramSource[] } {
+  if (!html.includes('<pre')) {
+    return { html, diagrams: [] };
+  }
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const diagrams: DiagramSource[] = [];
+  container.querySelectorAll<HTMLElement>('pre').forEach(pre => {
+    const language = findDiagramLanguage(pre);
+    if (!language) {
+      return;
+    }
+
+    const source = (pre.textContent || '').replace(/\n$/, '');
+    const scene = renderDiagram(source, language);
+    if (!scene) {
+      return;
+    }
+
+    const number = firstNumber + diagrams.length;
+    diagrams.push({ number, language, source });
+
+    const figure = document.createElement('figure');
+    figure.className = DIAGRAM_CLASS;
+    figure.dataset.diagram = language;
+    figure.innerHTML = diagramToSvg(scene, t('documentDiagram', number));
+
+    const caption = document.createElement('figcaption');
+    const link = document.createElement('a');
+    link.href = `#diagram-source-${number}`;
+    link.textContent = t('documentDiagramSource');
+    caption.append(`${t('documentDiagram', number)} · `, link);
+    figure.appendChild(caption);
+
+    // The code block header (language name, copy button) goes with the code
+    const wrapper = pre.closest<HTMLElement>(CODE_BLOCK_WRAPPER_SELECTOR);
+    const target = wrapper && container.contains(wrapper) && wrapper.querySelectorAll('pre').length === 1 ? wrapper : pre;
+    target.replaceWith(figure);
+  });
+
+  return diagrams.length > 0 ? { html: container.innerHTML, diagrams } : { html, diagrams };
+}
+
+/**
+ * Render the appendix listing the source of every drawn diagram
+ *
+ * @param diagrams - Drawn diagrams of the document
+ * @returns HTML of a collapsible section, or an empty string when there are no diagrams
+ */
+export function renderDiagramAppendix(diagrams: DiagramSource[]): string {
+  if (diagrams.length === 0) {
+    return '';
+  }
+
+  const section = document.createElement('section');
+  section.className = 'diagram-appendix';
+
+  const details = document.createElement('details');
+  details.open = true;
+  const summary = document.createElement('summary');
+  summary.textContent = t('documentDiagramSources');
+  details.appendChild(summary);
+
+  diagrams.forEach(diagram => {
+    const entry = document.createElement('div');
+    entry.className = 'diagram-source';
+    entry.id = `diagram-source-${diagram.number}`;
+
+    const title = document.createElement('p');
+    title.textContent = `${t('documentDiagram', diagram.number)} (${LANGUAGE_NAMES[diagram.language]})`;
+
+    const pre = document.createElement('pre');
+    const code = document.createElement('code');
+    code.className = `language-${diagram.language === 'graphviz' ? 'dot' : 'mermaid'}`;
+    code.textContent = diagram.source;
+    pre.appendChild(code);
+
+    entry.append(title, pre);
+    details.appendChild(entry);
+  });
+
+  section.appendChild(details);
+  return section.outerHTML;
+}
+
+/**
+ * Display name of a diagram language (Mermaid, Graphviz)
+ */
+export function diagramLanguageName(language: DiagramLanguage): string {
+  return LANGUAGE_NAMES[language];
+}
+
+/**
+ * Render a shape of a scene as an SVG element
+ */
+function shapeToSvg(shape: DiagramShape): string {
+  const points = (list: Point[]) => list.map(point => `${point.x},${point.y}`).join(' ');
+  switch (shape.kind) {
+    case 'rect':
+      return `<rect x="${shape.x}" y="${shape.y}" width="${shape.w}" height="${shape.h}" rx="${shape.radius}" `
+        + `fill="${shape.fill}" stroke="${shape.stroke}"/>`;
+    case 'ellipse':
+      return `<ellipse cx="${shape.cx}" cy="${shape.cy}" rx="${shape.rx}" ry="${shape.ry}" fill="${shape.fill}" stroke="${shape.stroke}"/>`;
+    case 'polygon':
+      return `<polygon points="${points(shape.points)}" fill="${shape.fill}" stroke="${shape.stroke}"/>`;
+    case 'line':
+      return `<polyline points="${points(shape.points)}" fill="none" stroke="${shape.stroke}" stroke-width="${shape.width}"`
+        + `${shape.dashed ? ' stroke-dasharray="5,4"' : ''}/>`;
+    case 'text':
+      return `<text x="${shape.x}" y="${shape.y}" font-size="${shape.size}" fill="${shape.color}" `
+        + `text-anchor="${shape.anchor}" dominant-baseline="central"${shape.bold ? ' font-weight="bold"' : ''}>`
+        + `${escapeXml(shape.text)}</text>`;
+  }
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
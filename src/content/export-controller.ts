@@ -2,20 +2,45 @@
  * ExportController - Main controller for orchestrating PDF export
  * 
  * Responsibilities:
- * - Initialize all dependencies (UIInjector, MessageExpander, ContentExtractor, TitleExtractor, PDFGenerator)
+ * - Initialize all dependencies (UIInjector, MessageExpander, ContentExtractor, TitleExtractor, ImageInliner,
+ *   PDFGenerator, MarkdownGenerator, HtmlGenerator, JsonGenerator, TurnSelector, BatchExporter)
  * - Setup extension when page loads
  * - Orchestrate the complete export flow
+ * - Redact sensitive data before any format is generated
  * - Handle errors and logging
  */
 
 import { UIInjector } from './ui-injector';
 import { MessageExpander } from './message-expander';
+import { HistoryLoader } from './history-loader';
 import { ContentExtractor, ChatContent } from './content-extractor';
 import { TitleExtractor } from './title-extractor';
+import { ImageInliner } from './image-inliner';
 import { PDFGenerator } from './pdf-generator';
 import { MarkdownGenerator } from './markdown-generator';
+import { HtmlGenerator } from './html-generator';
+import { JsonGenerator } from './json-generator';
+import { TurnSelector, TurnSelection } from './turn-selector';
+import { BatchExporter, ConversationTarget } from './batch-exporter';
+import { BatchExportPanel } from './batch-export-panel';
+import { RedactionPipeline, RedactionSummaryItem } from './redaction';
+import { RedactionSummaryDialog } from './redaction-summary-dialog';
+import { DEFAULT_REDACTION_OPTIONS, RedactionOptions } from './redaction-options';
+import { ExportFormat, getExportFormatInfo } from './export-formats';
+import { ExportProgress, ExportProgressListener, ProgressEmitter } from './export-progress';
+import {
+  ExtensionSettings,
+  ManagedPolicy,
+  loadManagedPolicy,
+  loadSettings,
+  onSettingsChanged,
+  resolveClassification
+} from '../utils/settings';
 import { Logger } from '../utils/logger';
-import { ErrorHandler } from '../utils/error-handler';
+import { ErrorHandler, ExportCancelledError, throwIfCancelled } from '../utils/error-handler';
+import { setLanguage, t } from '../utils/i18n';
+import { ConversationStatus, TurnRange, onExportRequest, onStatusRequest, reportExportProgress } from '../utils/messaging';
+import { getConversationTurns } from '../utils/shadow-dom-utils';
 
 /**
  * ExportController interface
@@ -30,8 +55,10 @@ export interface IExportController {
   /**
    * Handle the export action
    * Orchestrates the complete export flow
+   * @param format - Format to export to (defaults to the selected format)
+   * @param turns - Turns to export (defaults to the turns chosen in the page)
    */
-  handleExport(): Promise<void>;
+  handleExport(format?: ExportFormat, turns?: TurnSelection): Promise<void>;
 
   /**
    * Handle errors during export
@@ -56,15 +83,29 @@ export interface IExportController {
 export class ExportController implements IExportController {
   // Dependencies
   private uiInjector: UIInjector;
+  private historyLoader: HistoryLoader;
   private messageExpander: MessageExpander;
   private contentExtractor: ContentExtractor;
   private titleExtractor: TitleExtractor;
+  private imageInliner: ImageInliner;
   private pdfGenerator: PDFGenerator;
   private markdownGenerator: MarkdownGenerator;
+  private htmlGenerator: HtmlGenerator;
+  private jsonGenerator: JsonGenerator;
+  private turnSelector: TurnSelector;
+  private batchExporter: BatchExporter;
+  private batchPanel: BatchExportPanel;
+  private redactionDialog: RedactionSummaryDialog;
 
   // State
   private isExporting: boolean = false;
-  private exportFormat: 'pdf' | 'markdown' = 'markdown'; // Default to markdown since PDF has issues
+  private exportFormat: ExportFormat = 'markdown'; // Default to markdown since PDF has issues
+  private progressFormat: ExportFormat | null = null; // Format of the running single export
+  private abortController: AbortController | null = null; // Cancels the running export
+  private progress = new ProgressEmitter();
+  private managedPolicy: ManagedPolicy = {}; // Administrator defaults, loaded once
+  private redactionOptions: RedactionOptions = DEFAULT_REDACTION_OPTIONS;
+  private redactionPipeline: RedactionPipeline;
 
   /**
    * Create a new ExportController instance
@@ -77,11 +118,31 @@ export class ExportController implements IExportController {
 
     // Initialize all dependencies
     this.uiInjector = new UIInjector();
+    this.historyLoader = new HistoryLoader();
     this.messageExpander = new MessageExpander();
     this.contentExtractor = new ContentExtractor();
     this.titleExtractor = new TitleExtractor();
+    this.imageInliner = new ImageInliner();
     this.pdfGenerator = new PDFGenerator();
     this.markdownGenerator = new MarkdownGenerator();
+    this.htmlGenerator = new HtmlGenerator(this.pdfGenerator);
+    this.jsonGenerator = new JsonGenerator();
+    this.turnSelector = new TurnSelector();
+    this.batchExporter = new BatchExporter(this.historyLoader, this.messageExpander, this.contentExtractor, this.titleExtractor);
+    this.batchPanel = new BatchExportPanel();
+    this.redactionDialog = new RedactionSummaryDialog();
+    this.redactionPipeline = RedactionPipeline.fromOptions(this.redactionOptions);
+    this.batchExporter.setRedactionPipeline(this.redactionPipeline, (summary) => this.confirmRedaction(summary));
+
+    [
+      this.messageExpander,
+      this.contentExtractor,
+      this.imageInliner,
+      this.pdfGenerator,
+      this.markdownGenerator,
+      this.htmlGenerator,
+      this.jsonGenerator
+    ].forEach(component => component.onProgress(progress => this.handleProgress(progress)));
 
     Logger.info('ExportController: All dependencies initialized');
   }
@@ -97,7 +158,57 @@ export class ExportController implements IExportController {
       Logger.info('ExportController: Starting initialization');
 
       // Inject the export button into the page
-      this.uiInjector.injectButton();
+      this.uiInjector.injectButton(this.exportFormat);
+
+      // Follow the format chosen in the button's format menu
+      const selectedFormat = this.uiInjector.getSelectedFormat();
+      if (selectedFormat) {
+        this.exportFormat = selectedFormat;
+      }
+      this.uiInjector.onFormatChange((format) => {
+        this.setExportFormat(format);
+      });
+      this.uiInjector.onCancel(() => {
+        this.cancelExport();
+      });
+
+      // Apply the preferences from the options page and follow later changes
+      Promise.all([loadSettings(), loadManagedPolicy()]).then(([settings, policy]) => {
+        this.managedPolicy = policy;
+        this.applySettings(settings);
+      }).catch((error) => {
+        Logger.error('ExportController: Failed to apply settings, keeping the defaults', error);
+      });
+      onSettingsChanged((settings) => this.applySettings(settings));
+
+      // Run exports started from keyboard shortcuts, the context menu and the toolbar popup
+      onExportRequest((request) => {
+        if (this.isExporting) {
+          return false;
+        }
+        this.handleExport(request.format ?? this.exportFormat, request.turns && this.rangeToSelection(request.turns));
+        return true;
+      });
+      onStatusRequest(() => this.getStatus());
+
+      // Let the user pick which turns to export
+      this.uiInjector.addMenuAction('select-turns', t('menuSelectTurns'), () => {
+        this.turnSelector.toggle();
+      });
+      this.turnSelector.onActiveChange((active) => {
+        this.uiInjector.setMenuActionActive('select-turns', active);
+      });
+
+      // Let the user export several conversations into one ZIP
+      this.uiInjector.addMenuAction('batch-export', t('menuBatchExport'), () => {
+        this.batchPanel.toggle();
+      });
+      this.batchPanel.onActiveChange((active) => {
+        this.uiInjector.setMenuActionActive('batch-export', active);
+      });
+      this.batchPanel.onStart((targets) => {
+        this.handleBatchExport(targets);
+      });
 
       // Get the button and attach click event listener
       const button = this.uiInjector.getButton();
@@ -121,16 +232,22 @@ export class ExportController implements IExportController {
    * Handle the export action
    * Orchestrates the complete export flow:
    * 1. Show loading and disable button
-   * 2. Expand all messages
-   * 3. Extract content
-   * 4. Get title and generate filename
-   * 5. Generate and download PDF
+   * 2. Load older turns (whole conversation only) and expand all messages
+   * 3. Extract content and title, redact sensitive data (after the user confirms the summary)
+   *    and inline the images
+   * 4. Generate filename
+   * 5. Generate and download the file in the selected format (PDF, Markdown, HTML or JSON;
+   *    Markdown with separate image files is downloaded as a ZIP)
    * 6. Show success notification
    * 7. Cleanup memory
+   * cancelExport stops the flow at the next step; cleanup still runs
+   * 
+   * @param format - Format to export to (defaults to the format selected in the button)
+   * @param turns - Turns to export (defaults to the turns chosen in selection mode, or all)
    * 
    * Validates: Requirements 2.1, 2.2, 2.3, 2.4, 2.5, 3.1, 3.2, 3.3, 4.1, 4.2, 5.1, 5.6, 5.7, 6.1, 6.2, 6.5, 7.5
    */
-  async handleExport(): Promise<void> {
+  async handleExport(format: ExportFormat = this.exportFormat, turns?: TurnSelection): Promise<void> {
     // Prevent multiple simultaneous exports
     if (this.isExporting) {
       Logger.warn('ExportController: Export already in progress, ignoring click');
@@ -138,18 +255,34 @@ export class ExportController implements IExportController {
     }
 
     this.isExporting = true;
+    this.progressFormat = format;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
     let content: ChatContent | null = null;
 
     try {
+      // Turns chosen in selection mode (null exports the whole conversation)
+      const selection = turns ?? this.turnSelector.getSelectedTurns();
+      if (selection && selection.size === 0) {
+        throw new Error(t('errorNoTurnsSelected'));
+      }
+
       // Step 1: Show loading and disable button
-      const formatName = this.exportFormat === 'pdf' ? 'PDF' : 'Markdown';
+      const formatName = getExportFormatInfo(format)?.label ?? format;
       this.log(`Bắt đầu export ${formatName}`, 'info');
       this.uiInjector.showLoading();
       this.uiInjector.disableButton();
 
-      // Step 2: Expand all messages
+      // Step 2: Load older turns and expand all messages
+      // A selection refers to the turns shown when it was made, so loading more would shift it
+      if (!selection) {
+        this.log('Đang tải các lượt cũ...', 'info');
+        const history = await this.historyLoader.loadHistory(signal);
+        this.log(`Đã tải thêm ${history.loaded} lượt cũ (tổng ${history.totalTurns} lượt)`, history.complete ? 'info' : 'warn');
+      }
+
       this.log('Đang mở rộng messages...', 'info');
-      const expandResult = await this.messageExpander.expandAllMessages();
+      const expandResult = await this.messageExpander.expandAllMessages(signal);
       this.log(
         `Đã mở rộng ${expandResult.expanded}/${expandResult.totalFound} messages`,
         'info'
@@ -163,35 +296,88 @@ export class ExportController implements IExportController {
       }
 
       // Step 3: Extract content
+      throwIfCancelled(signal);
       this.log('Đang trích xuất nội dung...', 'info');
-      content = this.contentExtractor.extractChatContent();
+      content = this.contentExtractor.extractChatContent(selection ?? undefined, signal);
       this.log(`Đã trích xuất ${content.messages.length} messages`, 'info');
 
+      // Every format is generated from the redacted content and title
+      const redaction = this.redactionPipeline.redact(content, this.titleExtractor.extractTitle());
+      content = redaction.content;
+      const title = redaction.title;
+      if (redaction.total > 0) {
+        this.log(`Đã ẩn ${redaction.total} dữ liệu nhạy cảm`, 'info');
+        if (!(await this.confirmRedaction(redaction.summary))) {
+          throw new ExportCancelledError();
+        }
+        // Cancelled from the button while the summary was shown
+        throwIfCancelled(signal);
+      }
+
+      const imageOptions = this.imageInliner.getOptions();
+      const imageFiles = format === 'markdown' && imageOptions.markdownSidecar;
+      if (imageOptions.inline || imageFiles) {
+        this.log('Đang nhúng hình ảnh...', 'info');
+        content = await this.imageInliner.inlineImages(content, signal);
+      }
+
       // Step 4: Get title and generate filename
       this.log('Đang tạo filename...', 'info');
-      const title = this.titleExtractor.extractTitle();
-      const baseFilename = this.titleExtractor.generateFilename(title);
+      const filename = this.titleExtractor.generateFilename(title, {
+        format,
+        messageCount: content.messages.length,
+        turnCount: content.messages.filter(message => message.sender === 'user').length,
+        workspace: this.titleExtractor.extractWorkspace()
+      });
+      // Untitled chats are titled like their fallback file name
+      const documentTitle = title ?? filename.replace(/\.[^.]+$/, '');
       
       // Step 5: Generate file based on format
-      if (this.exportFormat === 'markdown') {
+      if (format === 'markdown') {
         this.log('Đang tạo Markdown...', 'info');
-        const filename = baseFilename.replace('.pdf', '.md');
-        const markdown = this.markdownGenerator.generateMarkdown(content, title);
-        this.markdownGenerator.downloadMarkdown(markdown, filename);
+        if (imageFiles) {
+          const bundle = this.markdownGenerator.generateMarkdownBundle(content, documentTitle, filename, signal);
+          this.markdownGenerator.downloadMarkdown(bundle, `${filename.replace(/\.md$/, '')}.zip`);
+        } else {
+          const markdown = this.markdownGenerator.generateMarkdown(content, documentTitle, signal);
+          this.markdownGenerator.downloadMarkdown(markdown, filename);
+        }
         this.log('Markdown đã được tạo và tải xuống', 'info');
-        this.uiInjector.showNotification('Đã xuất Markdown thành công!', 'success');
+        this.uiInjector.showNotification(t('exportSucceeded', 'Markdown'), 'success');
+      } else if (format === 'html') {
+        this.log('Đang tạo HTML...', 'info');
+        const html = await this.htmlGenerator.generateHTML(content, documentTitle, signal);
+        this.htmlGenerator.downloadHTML(html, filename);
+        this.log('HTML đã được tạo và tải xuống', 'info');
+        this.uiInjector.showNotification(t('exportSucceeded', 'HTML'), 'success');
+      } else if (format === 'json') {
+        this.log('Đang tạo JSON...', 'info');
+        const json = this.jsonGenerator.generateJSON(content, documentTitle, signal);
+        this.jsonGenerator.downloadJSON(json, filename);
+        this.log('JSON đã được tạo và tải xuống', 'info');
+        this.uiInjector.showNotification(t('exportSucceeded', 'JSON'), 'success');
       } else {
         this.log('Đang tạo PDF...', 'info');
-        await this.pdfGenerator.generatePDF(content, baseFilename);
+        await this.pdfGenerator.generatePDF(content, filename, documentTitle, signal);
         this.log('PDF đã được tạo và tải xuống', 'info');
-        this.uiInjector.showNotification('Đã xuất PDF thành công!', 'success');
+        this.uiInjector.showNotification(t('exportSucceeded', 'PDF'), 'success');
       }
 
+      reportExportProgress({ stage: 'done', format });
     } catch (error) {
-      // Handle any errors that occur during export
-      this.handleError(error as Error);
+      if (signal.aborted) {
+        this.handleCancelled();
+        reportExportProgress({ stage: 'cancelled', format });
+      } else {
+        // Handle any errors that occur during export
+        this.handleError(error as Error);
+        reportExportProgress({ stage: 'failed', format, error: (error as Error).message });
+      }
     } finally {
       // Step 7: Cleanup - hide loading, enable button, and free memory
+      // (also after a cancellation, which leaves observers and object URLs behind)
+      this.progressFormat = null;
+      this.abortController = null;
       this.uiInjector.hideLoading();
       this.uiInjector.enableButton();
       
@@ -210,6 +396,171 @@ export class ExportController implements IExportController {
     }
   }
 
+  /**
+   * Handle the batch export action
+   * Exports every chosen conversation in the selected format and downloads one ZIP
+   *
+   * @param targets - Conversations chosen in the batch panel
+   */
+  async handleBatchExport(targets: ConversationTarget[]): Promise<void> {
+    if (this.isExporting) {
+      Logger.warn('ExportController: Export already in progress, ignoring batch export');
+      return;
+    }
+
+    const format = getExportFormatInfo(this.exportFormat);
+    if (!format || targets.length === 0) {
+      return;
+    }
+
+    this.isExporting = true;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
+
+    try {
+      this.log(`Bắt đầu export ${targets.length} cuộc trò chuyện (${format.label})`, 'info');
+      this.uiInjector.showLoading();
+      this.uiInjector.disableButton();
+      this.batchPanel.setRunning(true);
+
+      const result = await this.batchExporter.exportConversations(
+        targets,
+        format,
+        (content, title) => this.renderConversation(content, title, this.exportFormat, signal),
+        (progress) => this.batchPanel.showProgress(progress),
+        signal
+      );
+
+      const succeeded = result.entries.filter(entry => entry.status === 'success').length;
+      this.batchExporter.downloadZip(result.zip, this.generateZipFilename());
+      this.batchPanel.showResult(result.entries);
+      this.log(`Đã xuất ${succeeded}/${targets.length} cuộc trò chuyện`, 'info');
+      this.uiInjector.showNotification(
+        t('batchResult', succeeded, targets.length),
+        succeeded === targets.length ? 'success' : 'error'
+      );
+    } catch (error) {
+      if (signal.aborted) {
+        this.handleCancelled();
+      } else {
+        this.handleError(error as Error);
+      }
+    } finally {
+      this.batchPanel.setRunning(false);
+      this.uiInjector.hideLoading();
+      this.uiInjector.enableButton();
+      this.pdfGenerator.cleanup();
+      this.abortController = null;
+      this.isExporting = false;
+    }
+  }
+
+  /**
+   * Render one conversation into a file of the given format
+   *
+   * @param content - Extracted chat content
+   * @param title - Conversation title
+   * @param format - Export format
+   * @param signal - Signal of the running batch export
+   * @returns File data
+   */
+  private async renderConversation(content: ChatContent, title: string, format: ExportFormat, signal?: AbortSignal): Promise<Blob> {
+    const mimeType = getExportFormatInfo(format)?.mimeType ?? 'application/octet-stream';
+
+    // Every conversation is one file of the ZIP, so Markdown images stay inline
+    if (this.imageInliner.getOptions().inline) {
+      content = await this.imageInliner.inlineImages(content, signal);
+    }
+
+    switch (format) {
+      case 'markdown':
+        return new Blob([this.markdownGenerator.generateMarkdown(content, title, signal)], { type: mimeType });
+      case 'html':
+        return new Blob([await this.htmlGenerator.generateHTML(content, title, signal)], { type: mimeType });
+      case 'json':
+        return new Blob([this.jsonGenerator.generateJSON(content, title, signal)], { type: mimeType });
+      default:
+        return this.pdfGenerator.createPDFBlob(content, title, signal);
+    }
+  }
+
+  /**
+   * Cancel the running export (single or batch)
+   * The export stops at its next step; nothing is downloaded
+   *
+   * @returns False if no export was running
+   */
+  cancelExport(): boolean {
+    if (!this.abortController || this.abortController.signal.aborted) {
+      return false;
+    }
+
+    this.log('Đang hủy export...', 'info');
+    this.abortController.abort();
+    this.redactionDialog.close();
+    return true;
+  }
+
+  /**
+   * Show the redaction summary when the settings ask for it (single and batch exports)
+   * Declining cancels the running export
+   *
+   * @param summary - Replacements by kind
+   * @returns True to export the redacted content
+   */
+  private async confirmRedaction(summary: RedactionSummaryItem[]): Promise<boolean> {
+    if (!this.redactionOptions.confirm || (await this.redactionDialog.confirm(summary))) {
+      return true;
+    }
+    this.cancelExport();
+    return false;
+  }
+
+  /**
+   * Tell the user that the export was cancelled
+   */
+  private handleCancelled(): void {
+    this.log('Đã hủy export', 'info');
+    this.uiInjector.showNotification(t('exportCancelled'), 'info');
+  }
+
+  /**
+   * Forward a component's progress to the button, the extension's pages and the listeners
+   * Only single exports are forwarded; batch exports show their own progress panel
+   */
+  private handleProgress(progress: ExportProgress): void {
+    if (this.progressFormat === null) {
+      return;
+    }
+
+    this.uiInjector.showProgress(progress);
+    reportExportProgress({ stage: progress.stage, format: this.progressFormat, progress });
+    this.progress.emit(progress.stage, progress.completed, progress.total);
+  }
+
+  /**
+   * Convert a range of turns numbered from 1 into the zero-based selection used by the extractor
+   */
+  private rangeToSelection(range: TurnRange): TurnSelection {
+    const selection = new Set<number>();
+    for (let turn = range.from; turn <= range.to; turn++) {
+      selection.add(turn - 1);
+    }
+    return selection;
+  }
+
+  /**
+   * Generate the ZIP filename for a batch export
+   * @returns Filename such as gemini-chats-20240315-143052.zip
+   */
+  private generateZipFilename(): string {
+    const now = new Date();
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`;
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    return `gemini-chats-${date}-${time}.zip`;
+  }
+
   /**
    * Handle errors during export
    * Logs the error and displays an error notification to the user
@@ -222,25 +573,81 @@ export class ExportController implements IExportController {
     this.log(`Lỗi: ${error.message}`, 'error');
     ErrorHandler.handle(error, 'Export PDF');
     this.uiInjector.showNotification(
-      `Không thể xuất PDF: ${error.message}`,
+      t('exportFailed', error.message),
       'error'
     );
   }
 
   /**
-   * Set the export format (PDF or Markdown)
+   * Set the export format
+   * Keeps the button's format menu in sync with the chosen format
    * @param format - Export format to use
    */
-  setExportFormat(format: 'pdf' | 'markdown'): void {
+  setExportFormat(format: ExportFormat): void {
     this.exportFormat = format;
+    this.uiInjector.setSelectedFormat(format);
     Logger.info(`ExportController: Export format set to ${format}`);
   }
 
+  /**
+   * Apply extension settings to the export pipeline
+   * The default format only replaces a format the user has not picked in this session.
+   * A language change relabels the button and its menu; panels pick it up when next opened.
+   * Without a classification in the settings, the administrator's default applies.
+   * Redaction labels follow the language, so the pipeline is rebuilt after it is set.
+   *
+   * @param settings - Settings loaded from or changed in chrome.storage.sync
+   */
+  applySettings(settings: ExtensionSettings): void {
+    if (setLanguage(settings.language)) {
+      this.uiInjector.refreshLabels();
+      this.uiInjector.setMenuActionLabel('select-turns', t('menuSelectTurns'));
+      this.uiInjector.setMenuActionLabel('batch-export', t('menuBatchExport'));
+    }
+
+    const classification = resolveClassification(settings, this.managedPolicy);
+    this.pdfGenerator.setOptions({ ...settings.pdf, classification });
+    this.markdownGenerator.setClassification(classification);
+    this.imageInliner.setOptions(settings.images);
+    this.titleExtractor.setFilenamePattern(settings.filenamePattern);
+    this.redactionOptions = settings.redaction;
+    this.redactionPipeline = RedactionPipeline.fromOptions(settings.redaction);
+    this.batchExporter.setRedactionPipeline(this.redactionPipeline, (summary) => this.confirmRedaction(summary));
+
+    if (this.uiInjector.applyDefaultFormat(settings.defaultFormat)) {
+      this.exportFormat = settings.defaultFormat;
+    }
+
+    Logger.info('ExportController: Settings applied');
+  }
+
+  /**
+   * Listen for the progress of single exports
+   * @param listener - Called with each progress event of the running export
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
+  /**
+   * Describe the conversation for the toolbar popup
+   * @returns Title, turn count, selected format and whether an export is running
+   */
+  getStatus(): ConversationStatus {
+    return {
+      title: this.titleExtractor.extractTitle(),
+      turnCount: getConversationTurns().length,
+      format: this.exportFormat,
+      exporting: this.isExporting
+    };
+  }
+
   /**
    * Get the current export format
    * @returns Current export format
    */
-  getExportFormat(): 'pdf' | 'markdown' {
+  getExportFormat(): ExportFormat {
     return this.exportFormat;
   }
 
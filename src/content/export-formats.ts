@@ -0,0 +1,79 @@
+/**
+ * Export format registry
+ *
+ * Single source of truth for the formats the extension can export to.
+ * The UI builds its format picker from this list and the controller
+ * uses it to resolve labels and file extensions.
+ */
+
+/**
+ * Identifier of a supported export format
+ */
+export type ExportFormat = 'pdf' | 'markdown' | 'html' | 'json';
+
+/**
+ * Description of a registered export format
+ */
+export interface ExportFormatInfo {
+  /** Format identifier */
+  id: ExportFormat;
+
+  /** Short human-readable label, e.g. 'PDF' */
+  label: string;
+
+  /** File extension without the leading dot, e.g. 'pdf' */
+  extension: string;
+
+  /** MIME type of the generated file */
+  mimeType: string;
+}
+
+/**
+ * All registered export formats, in the order they are shown in the UI
+ */
+export const EXPORT_FORMATS: ReadonlyArray<ExportFormatInfo> = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    extension: 'pdf',
+    mimeType: 'application/pdf'
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extension: 'md',
+    mimeType: 'text/markdown'
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    extension: 'html',
+    mimeType: 'text/html'
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json'
+  }
+];
+
+/**
+ * Look up a registered export format
+ *
+ * @param id - Format identifier
+ * @returns Format description or undefined if the format is not registered
+ */
+export function getExportFormatInfo(id: string): ExportFormatInfo | undefined {
+  return EXPORT_FORMATS.find(format => format.id === id);
+}
+
+/**
+ * Check whether a value is a registered export format identifier
+ *
+ * @param value - Value to check
+ * @returns True if value names a registered format
+ */
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && getExportFormatInfo(value) !== undefined;
+}
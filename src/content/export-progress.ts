@@ -0,0 +1,113 @@
+/**
+ * Export progress events
+ *
+ * Each component of the export pipeline reports how far its stage got; the
+ * ExportController forwards the events to the export button, the toolbar popup
+ * and its own listeners.
+ */
+
+import { Logger } from '../utils/logger';
+
+/**
+ * Stage of the export pipeline, in the order they run
+ */
+export type ExportStage = 'expanding' | 'extracting' | 'inlining' | 'rendering' | 'downloading';
+
+/**
+ * All stages, in order
+ */
+export const EXPORT_STAGES: ReadonlyArray<ExportStage> = ['expanding', 'extracting', 'inlining', 'rendering', 'downloading'];
+
+/**
+ * Progress of an export
+ */
+export interface ExportProgress {
+  /** Current stage */
+  stage: ExportStage;
+
+  /** Items of the stage done so far (messages, images...) */
+  completed: number;
+
+  /** Items of the stage in total (0 when the stage has nothing to do) */
+  total: number;
+
+  /** Progress of the whole export, 0-100 */
+  percent: number;
+}
+
+/**
+ * Receives progress events
+ */
+export type ExportProgressListener = (progress: ExportProgress) => void;
+
+/**
+ * Share of the whole export taken by each stage, as [start, end] percent
+ * Expansion waits for the page, so it is the slowest stage
+ */
+const STAGE_PERCENT: Record<ExportStage, [number, number]> = {
+  expanding: [0, 40],
+  extracting: [40, 60],
+  inlining: [60, 70],
+  rendering: [70, 95],
+  downloading: [95, 100]
+};
+
+/**
+ * Build a progress event
+ *
+ * @param stage - Current stage
+ * @param completed - Items of the stage done so far
+ * @param total - Items of the stage in total
+ * @returns Progress with the overall percentage
+ */
+export function createExportProgress(stage: ExportStage, completed: number, total: number): ExportProgress {
+  const [start, end] = STAGE_PERCENT[stage];
+  const fraction = total > 0 ? Math.min(Math.max(completed / total, 0), 1) : 1;
+
+  return {
+    stage,
+    completed,
+    total,
+    percent: Math.round(start + (end - start) * fraction)
+  };
+}
+
+/**
+ * Keeps the progress listeners of a pipeline component
+ */
+export class ProgressEmitter {
+  private listeners: Set<ExportProgressListener> = new Set();
+
+  /**
+   * Add a listener
+   * @param listener - Called with every progress event
+   * @returns Function that removes the listener
+   */
+  on(listener: ExportProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Notify the listeners
+   * A failing listener does not interrupt the export
+   *
+   * @param stage - Current stage
+   * @param completed - Items of the stage done so far
+   * @param total - Items of the stage in total
+   */
+  emit(stage: ExportStage, completed: number, total: number): void {
+    if (this.listeners.size === 0) {
+      return;
+    }
+
+    const progress = createExportProgress(stage, completed, total);
+    this.listeners.forEach(listener => {
+      try {
+        listener(progress);
+      } catch (error) {
+        Logger.warn('Export progress listener failed', error);
+      }
+    });
+  }
+}
@@ -0,0 +1,218 @@
+/**
+ * Filename templates
+ *
+ * A template is plain text with tokens in braces, e.g.
+ * `{date:YYYY-MM-DD}_{title}_{turns}.{ext}`. Tokens are replaced with
+ * values describing the export; the result is sanitized by TitleExtractor.
+ */
+
+import { ExportFormatInfo } from './export-formats';
+import { MessageKey, t } from '../utils/i18n';
+
+/**
+ * Template used when none is configured: the conversation title only
+ */
+export const DEFAULT_FILENAME_TEMPLATE = '{title}';
+
+/**
+ * Values a template can refer to
+ */
+export interface FilenameContext {
+  /** Sanitized conversation title (already falling back when missing) */
+  title: string;
+
+  /** Export time */
+  date: Date;
+
+  /** Number of exported messages */
+  messageCount: number;
+
+  /** Number of exported turns (user prompts) */
+  turnCount: number;
+
+  /** Workspace name, if known */
+  workspace: string | null;
+
+  /** Export format */
+  format: ExportFormatInfo;
+}
+
+/**
+ * Description of a template token, shown in the settings page
+ */
+export interface FilenameTokenInfo {
+  /** Token as written in a template */
+  token: string;
+
+  /** Catalog key of the description of what it is replaced with */
+  descriptionKey: MessageKey;
+}
+
+/**
+ * Supported tokens
+ */
+export const FILENAME_TOKENS: ReadonlyArray<FilenameTokenInfo> = [
+  { token: '{title}', descriptionKey: 'tokenTitle' },
+  { token: '{date}', descriptionKey: 'tokenDate' },
+  { token: '{time}', descriptionKey: 'tokenTime' },
+  { token: '{timestamp}', descriptionKey: 'tokenTimestamp' },
+  { token: '{messages}', descriptionKey: 'tokenMessages' },
+  { token: '{turns}', descriptionKey: 'tokenTurns' },
+  { token: '{workspace}', descriptionKey: 'tokenWorkspace' },
+  { token: '{format}', descriptionKey: 'tokenFormat' },
+  { token: '{ext}', descriptionKey: 'tokenExt' }
+];
+
+/**
+ * Tokens whose value is a date, with their default format
+ */
+const DATE_TOKENS: Record<string, string> = {
+  date: 'YYYYMMDD',
+  time: 'HHmmss'
+};
+
+/**
+ * Tokens that take no argument
+ */
+const PLAIN_TOKENS = new Set(['title', 'timestamp', 'messages', 'turns', 'workspace', 'format', 'ext']);
+
+/**
+ * Parts of a date format and the literal characters allowed between them
+ */
+const DATE_PART_PATTERN = /YYYY|YY|MM|DD|HH|mm|ss/g;
+const DATE_LITERAL_PATTERN = /^[-_. ]*$/;
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+/**
+ * Check a template for mistakes
+ * Error messages are in the current language
+ *
+ * @param template - Template to check
+ * @returns Error messages (empty if the template is valid)
+ */
+export function validateFilenameTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  if (!template.trim()) {
+    return [t('templateEmpty')];
+  }
+
+  if (template.replace(TOKEN_PATTERN, '').match(/[{}]/)) {
+    errors.push(t('templateUnbalanced'));
+  }
+
+  for (const [, body] of template.matchAll(TOKEN_PATTERN)) {
+    const [name, argument] = splitToken(body);
+
+    if (name in DATE_TOKENS) {
+      if (argument !== undefined && !isValidDateFormat(argument)) {
+        errors.push(t('templateInvalidDate', `{${body}}`));
+      }
+    } else if (PLAIN_TOKENS.has(name)) {
+      if (argument !== undefined) {
+        errors.push(t('templateUnexpectedArgument', `{${name}}`));
+      }
+    } else {
+      errors.push(t('templateUnknownToken', `{${body}}`));
+    }
+  }
+
+  if (!template.replace(/\.\{ext\}$/, '').replace(TOKEN_PATTERN, 'x').replace(/[\s._-]/g, '')) {
+    errors.push(t('templateEmptyResult'));
+  }
+
+  return errors;
+}
+
+/**
+ * Replace the tokens of a template
+ * A trailing ".{ext}" is removed: the caller always appends the extension
+ *
+ * @param template - Valid template
+ * @param context - Token values
+ * @returns Filename without extension (not sanitized)
+ */
+export function renderFilenameTemplate(template: string, context: FilenameContext): string {
+  return template
+    .replace(/\.\{ext\}$/, '')
+    .replace(TOKEN_PATTERN, (match, body: string) => {
+      const [name, argument] = splitToken(body);
+
+      switch (name) {
+        case 'title':
+          return context.title;
+        case 'date':
+        case 'time':
+          return formatDate(context.date, argument ?? DATE_TOKENS[name]);
+        case 'timestamp':
+          return formatDate(context.date, 'YYYYMMDD-HHmmss');
+        case 'messages':
+          return String(context.messageCount);
+        case 'turns':
+          return String(context.turnCount);
+        case 'workspace':
+          return context.workspace ?? '';
+        case 'format':
+          return context.format.label;
+        case 'ext':
+          return context.format.extension;
+        default:
+          return match;
+      }
+    });
+}
+
+/**
+ * Check whether a template refers to the export date or time
+ *
+ * @param template - Template to check
+ * @returns True if it contains {date}, {time} or {timestamp}
+ */
+export function templateHasDate(template: string): boolean {
+  return Array.from(template.matchAll(TOKEN_PATTERN))
+    .some(([, body]) => ['date', 'time', 'timestamp'].includes(splitToken(body)[0]));
+}
+
+/**
+ * Format a date with YYYY, YY, MM, DD, HH, mm and ss placeholders
+ *
+ * @param date - Date to format
+ * @param format - Format string
+ * @returns Formatted date
+ */
+export function formatDate(date: Date, format: string): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getFullYear()),
+    YY: String(date.getFullYear()).slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+
+  return format.replace(DATE_PART_PATTERN, part => parts[part]);
+}
+
+/**
+ * Split the body of a token, "name:argument", into its parts
+ *
+ * @param body - Text between the braces
+ * @returns Name and argument (undefined without a colon)
+ */
+export function splitToken(body: string): [string, string | undefined] {
+  const separator = body.indexOf(':');
+  return separator === -1
+    ? [body.trim(), undefined]
+    : [body.slice(0, separator).trim(), body.slice(separator + 1)];
+}
+
+/**
+ * A date format must contain at least one placeholder and only separators besides
+ */
+function isValidDateFormat(format: string): boolean {
+  const parts = format.match(DATE_PART_PATTERN);
+  return !!parts && DATE_LITERAL_PATTERN.test(format.replace(DATE_PART_PATTERN, ''));
+}
@@ -0,0 +1,141 @@
+/**
+ * HistoryLoader - Loads the older turns of a lazily rendered conversation
+ *
+ * Gemini Business only renders the latest turns of a long conversation and adds
+ * older ones when the user scrolls up. Before exporting, the loader:
+ * - Scrolls the chat-mode-scroller to the top, again and again
+ * - Watches the conversation for new div.turn nodes with a MutationObserver
+ * - Stops when a scroll brings no new turn or a limit is reached
+ * - Puts the user's view back where it was and reports how many turns were loaded
+ */
+
+import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+import { getChatContainer, getChatScroller, getConversationTurns } from '../utils/shadow-dom-utils';
+
+/**
+ * Limits and timings of the history loader
+ */
+export interface HistoryLoaderOptions {
+  /** Maximum number of scrolls to the top */
+  maxRounds: number;
+
+  /** Stop once the conversation has this many turns */
+  maxTurns: number;
+
+  /** Time to wait for new turns after each scroll before the history counts as complete (ms) */
+  roundTimeout: number;
+}
+
+const DEFAULT_HISTORY_OPTIONS: HistoryLoaderOptions = {
+  maxRounds: 50,
+  maxTurns: 1000,
+  roundTimeout: 1500
+};
+
+/**
+ * Outcome of loading the history
+ */
+export interface HistoryLoadResult {
+  /** Turns added by the loader */
+  loaded: number;
+
+  /** Turns in the conversation afterwards */
+  totalTurns: number;
+
+  /** True if the loader reached the beginning of the conversation, false if a limit stopped it */
+  complete: boolean;
+}
+
+/**
+ * HistoryLoader class
+ */
+export class HistoryLoader {
+  private options: HistoryLoaderOptions;
+
+  /**
+   * Create a new HistoryLoader
+   * @param options - Limit and timing overrides
+   */
+  constructor(options: Partial<HistoryLoaderOptions> = {}) {
+    this.options = { ...DEFAULT_HISTORY_OPTIONS, ...options };
+  }
+
+  /**
+   * Load every older turn of the open conversation
+   *
+   * @param signal - Checked before each scroll (the user's view is still restored)
+   * @returns How many turns were loaded
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  async loadHistory(signal?: AbortSignal): Promise<HistoryLoadResult> {
+    const scroller = getChatScroller();
+    const container = getChatContainer();
+    const initialTurns = getConversationTurns().length;
+
+    if (!scroller || !container) {
+      Logger.warn('HistoryLoader: conversation not found');
+      return { loaded: 0, totalTurns: initialTurns, complete: false };
+    }
+
+    // Older turns are added above the view, so keep the distance to the bottom
+    const offsetFromBottom = scroller.scrollHeight - scroller.scrollTop;
+    let complete = false;
+
+    try {
+      for (let round = 0; round < this.options.maxRounds; round++) {
+        throwIfCancelled(signal);
+        if (getConversationTurns().length >= this.options.maxTurns) {
+          Logger.info(`HistoryLoader: stopped at ${this.options.maxTurns} turns`);
+          break;
+        }
+
+        const newTurns = this.waitForNewTurns(container);
+        scroller.scrollTop = 0;
+        scroller.dispatchEvent(new Event('scroll'));
+
+        if (!(await newTurns)) {
+          complete = true;
+          break;
+        }
+      }
+    } finally {
+      scroller.scrollTop = scroller.scrollHeight - offsetFromBottom;
+    }
+
+    const totalTurns = getConversationTurns().length;
+    const loaded = totalTurns - initialTurns;
+    Logger.info(`HistoryLoader: loaded ${loaded} older turns (${totalTurns} in total${complete ? '' : ', limit reached'})`);
+
+    return { loaded, totalTurns, complete };
+  }
+
+  /**
+   * Wait until a turn is added to the conversation
+   *
+   * @param container - Chat container holding the div.turn elements
+   * @returns True if a turn appeared before the round timeout
+   */
+  private waitForNewTurns(container: HTMLElement): Promise<boolean> {
+    return new Promise(resolve => {
+      const observer = new MutationObserver(mutations => {
+        const added = mutations.some(mutation => Array.from(mutation.addedNodes).some(node =>
+          node instanceof HTMLElement && (node.matches('div.turn') || node.querySelector('div.turn') !== null)
+        ));
+        if (added) {
+          finish(true);
+        }
+      });
+
+      const timeout = setTimeout(() => finish(false), this.options.roundTimeout);
+
+      const finish = (result: boolean) => {
+        clearTimeout(timeout);
+        observer.disconnect();
+        resolve(result);
+      };
+
+      observer.observe(container, { childList: true, subtree: true });
+    });
+  }
+}
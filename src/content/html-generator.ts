@@ -0,0 +1,266 @@
+/**
+ * HtmlGenerator - Handles standalone HTML generation from chat content
+ *
+ * This module is responsible for:
+ * - Building a single self-contained .html file from PDFGenerator.applyStyles output
+ * - Embedding the math font when the chat has formulas
+ * - Collapsing the appendix with the source of the diagrams
+ * - Adding a table of contents linking to every user turn
+ * - Adding a banner with the classification of the document
+ * - Adding light/dark and print-friendly styling
+ * - Triggering HTML file downloads
+ */
+
+import { ChatContent } from './content-extractor';
+import { PDFGenerator } from './pdf-generator';
+import { loadBundledFont } from './vector-pdf-renderer';
+import { loadMathFontFace } from './math';
+import { addTableOfContents, tableOfContentsEntries } from './table-of-contents';
+import { addClassificationBanner } from './classification';
+import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+
+/**
+ * Styles added on top of the PDF styles:
+ * anchor scrolling, dark color scheme and print overrides
+ */
+const HTML_EXPORT_STYLES = `
+  .message {
+    scroll-margin-top: 16px;
+  }
+
+  @media (prefers-color-scheme: dark) {
+    body {
+      background-color: #1e1f22;
+      color: #e3e3e3;
+    }
+
+    .message.user {
+      background-color: #1f3550;
+    }
+
+    .message.gemini {
+      background-color: #2b2d31;
+    }
+
+    .message-header,
+    .pdf-header .export-date {
+      color: #a8abb0;
+    }
+
+    .message-content {
+      color: #e3e3e3;
+    }
+
+    .message-content code,
+    .message-content th {
+      background-color: #383a40;
+    }
+
+    .message-content pre {
+      background-color: #232428;
+    }
+
+    .message-content th,
+    .message-content td,
+    .toc {
+      border-color: #4e5058;
+    }
+
+    figure.gemini-diagram svg {
+      background-color: #fff;
+      border-radius: 4px;
+    }
+
+    .diagram-appendix pre {
+      background-color: #232428;
+    }
+
+    .pdf-header h1,
+    .message-content a,
+    .toc a {
+      color: #8ab4f8;
+    }
+  }
+
+  @media print {
+    body {
+      max-width: none;
+      background-color: #fff;
+      color: #333;
+    }
+
+    .toc {
+      page-break-after: always;
+      border: none;
+    }
+
+    .toc a,
+    .message-content a {
+      color: #333;
+    }
+
+    .message-header,
+    .pdf-header .export-date {
+      color: #666;
+    }
+
+    .message-content {
+      color: #333;
+    }
+
+    .message-content code,
+    .message-content th {
+      background-color: #f0f0f0;
+    }
+
+    .message-content pre {
+      background-color: #f8f8f8;
+    }
+
+    .message-content th,
+    .message-content td {
+      border-color: #ddd;
+    }
+
+    .pdf-header h1 {
+      color: #1a73e8;
+    }
+  }
+`;
+
+/**
+ * HtmlGenerator class
+ * Converts chat content to a single self-contained HTML file
+ */
+export class HtmlGenerator {
+  private pdfGenerator: PDFGenerator;
+  private progress = new ProgressEmitter();
+
+  /**
+   * Creates a new HtmlGenerator instance
+   * @param pdfGenerator - PDF generator whose styling and classification (PDFOptions) are reused
+   */
+  constructor(pdfGenerator: PDFGenerator = new PDFGenerator()) {
+    this.pdfGenerator = pdfGenerator;
+  }
+
+  /**
+   * Listen for the progress of generateHTML ('rendering' stage) and downloadHTML ('downloading' stage)
+   *
+   * @param listener - Called with each progress event
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
+  /**
+   * Generate a standalone HTML document from chat content
+   * Images are written as they are in the content: inline them first with
+   * ImageInliner for a file that works offline
+   *
+   * @param content - ChatContent object containing messages
+   * @param title - Chat title for the header
+   * @param signal - Aborting it stops the generation
+   * @returns Complete HTML document as a string
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  async generateHTML(content: ChatContent, title: string, signal?: AbortSignal): Promise<string> {
+    Logger.info('Generating HTML');
+    this.progress.emit('rendering', 0, 1);
+
+    const styledHtml = this.pdfGenerator.applyStyles(content, title);
+    const doc = new DOMParser().parseFromString(styledHtml, 'text/html');
+
+    // Before the head elements, whose dark mode styles override the table of contents
+    addTableOfContents(doc, tableOfContentsEntries(content.messages));
+    const { classification } = this.pdfGenerator.getOptions();
+    if (classification) {
+      addClassificationBanner(doc, classification);
+    }
+    this.addHeadElements(doc);
+    this.collapseDiagramSources(doc);
+    throwIfCancelled(signal);
+    await this.embedMathFont(doc);
+    throwIfCancelled(signal);
+    this.progress.emit('rendering', 1, 1);
+
+    const html = `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+    Logger.info(`HTML generated: ${html.length} characters`);
+    return html;
+  }
+
+  /**
+   * Download HTML file
+   *
+   * @param html - HTML document
+   * @param filename - Filename (should include .html extension)
+   */
+  downloadHTML(html: string, filename: string): void {
+    Logger.info(`Downloading HTML: ${filename}`);
+    this.progress.emit('downloading', 0, 1);
+
+    // Create blob
+    const blob = new Blob([html], { type: 'text/html;charset=utf-8' });
+
+    // Create download link
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+
+    // Trigger download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Cleanup
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+
+    this.progress.emit('downloading', 1, 1);
+    Logger.info('HTML download triggered');
+  }
+
+  /**
+   * Add the color-scheme hint and the HTML-only styles to the document head
+   */
+  private addHeadElements(doc: Document): void {
+    const colorScheme = doc.createElement('meta');
+    colorScheme.name = 'color-scheme';
+    colorScheme.content = 'light dark';
+    doc.head.appendChild(colorScheme);
+
+    const style = doc.createElement('style');
+    style.textContent = HTML_EXPORT_STYLES;
+    doc.head.appendChild(style);
+  }
+
+  /**
+   * Close the diagram source appendix, which is open for the PDF
+   * Links from the diagrams still open it at their source
+   */
+  private collapseDiagramSources(doc: Document): void {
+    doc.querySelectorAll('.diagram-appendix details').forEach(details => details.removeAttribute('open'));
+  }
+
+  /**
+   * Embed the bundled math font so formulas look the same on machines without a math font
+   */
+  private async embedMathFont(doc: Document): Promise<void> {
+    if (!doc.querySelector('math')) {
+      return;
+    }
+
+    const fontFace = await loadMathFontFace(loadBundledFont);
+    if (fontFace) {
+      const style = doc.createElement('style');
+      style.textContent = fontFace;
+      doc.head.appendChild(style);
+    }
+  }
+}
@@ -0,0 +1,474 @@
+/**
+ * HTML to Markdown converter
+ *
+ * Walks the DOM of extracted message HTML and emits GitHub-Flavored Markdown:
+ * - Headings (h1-h6), paragraphs, line breaks and horizontal rules
+ * - Nested bullet/ordered lists (with start numbers) and task lists
+ * - Pipe tables with column alignment
+ * - Fenced code blocks with language info strings
+ * - Links, images, blockquotes, bold, italic, strikethrough and inline code
+ * - Reference-style links for <a data-reference="label"> (the caller writes the definitions)
+ * - Math for elements with data-tex: $...$ inline, $$...$$ blocks for data-display="true"
+ */
+
+/**
+ * Elements whose content is never part of the exported text
+ * (UI chrome such as copy buttons and icons)
+ */
+const SKIPPED_TAGS = new Set(['script', 'style', 'template', 'button', 'svg', 'mat-icon', 'noscript']);
+
+/**
+ * Elements rendered as Markdown blocks (everything else is inline)
+ */
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'details', 'div', 'dl', 'dd', 'dt', 'fieldset',
+  'figcaption', 'figure', 'footer', 'form', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'ul'
+]);
+
+/**
+ * Class names Gemini and common highlighters use to carry the code language
+ */
+const LANGUAGE_CLASS_PATTERN = /(?:^|\s)(?:language|lang)-([\w+#.-]+)/i;
+
+/**
+ * Convert an HTML fragment to GitHub-Flavored Markdown
+ *
+ * @param html - HTML string (e.g. extracted message content)
+ * @returns Markdown string
+ */
+export function htmlToMarkdown(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  return convertBlocks(container).join('\n\n').trim();
+}
+
+/**
+ * Convert the children of a node into a list of Markdown blocks
+ */
+function convertBlocks(parent: Node): string[] {
+  const blocks: string[] = [];
+  let inline = '';
+  // Consecutive lists of the same type need different markers or they merge into one list
+  let previousList = '';
+  let alternateMarker = false;
+
+  const flush = () => {
+    const paragraph = finishInline(inline);
+    if (paragraph) {
+      blocks.push(paragraph);
+    }
+    inline = '';
+  };
+
+  parent.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += escapeText(collapseWhitespace(node.textContent || ''));
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+
+    if (SKIPPED_TAGS.has(tag)) {
+      return;
+    }
+
+    if (isDisplayMath(element)) {
+      flush();
+      previousList = '';
+      blocks.push(`$$\n${element.dataset.tex?.trim()}\n$$`);
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) {
+      inline += convertInline(element);
+      return;
+    }
+
+    flush();
+    if (tag === 'ul' || tag === 'ol') {
+      alternateMarker = previousList === tag && blocks.length > 0 ? !alternateMarker : false;
+      previousList = tag;
+      const list = convertList(element, alternateMarker);
+      if (list) {
+        blocks.push(list);
+      }
+      return;
+    }
+    previousList = '';
+    const block = convertBlock(element);
+    if (block) {
+      blocks.push(block);
+    }
+  });
+
+  flush();
+  return blocks;
+}
+
+/**
+ * Convert a single block-level element
+ */
+function convertBlock(element: HTMLElement): string {
+  const tag = element.tagName.toLowerCase();
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+    case 'h4':
+    case 'h5':
+    case 'h6': {
+      const text = finishInline(convertInlineChildren(element)).replace(/ {2}\n/g, ' ');
+      return text ? `${'#'.repeat(Number(tag[1]))} ${text}` : '';
+    }
+    case 'p':
+      return finishInline(convertInlineChildren(element));
+    case 'hr':
+      return '---';
+    case 'pre':
+      return convertCodeBlock(element);
+    case 'li':
+      // Stray list item outside of a list
+      return convertListItem(element, '-');
+    case 'blockquote':
+      return convertBlocks(element)
+        .join('\n\n')
+        .split('\n')
+        .map(line => (line ? `> ${line}` : '>'))
+        .join('\n');
+    case 'table':
+      return convertTable(element as HTMLTableElement);
+    default:
+      return convertBlocks(element).join('\n\n');
+  }
+}
+
+/**
+ * Convert an inline element (and its children) to Markdown
+ */
+function convertInline(element: HTMLElement): string {
+  const tag = element.tagName.toLowerCase();
+
+  if (SKIPPED_TAGS.has(tag)) {
+    return '';
+  }
+
+  if (element.hasAttribute('data-tex')) {
+    return convertInlineMath(element);
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'strong':
+    case 'b':
+      return wrapInline(convertInlineChildren(element), '**');
+    case 'em':
+    case 'i':
+      return wrapInline(convertInlineChildren(element), '*');
+    case 'del':
+    case 's':
+    case 'strike':
+      return wrapInline(convertInlineChildren(element), '~~');
+    case 'code':
+      return convertInlineCode(element.textContent || '');
+    case 'a':
+      return convertLink(element as HTMLAnchorElement);
+    case 'img':
+      return convertImage(element as HTMLImageElement);
+    case 'input':
+      // Checkboxes outside of task list items have no Markdown equivalent
+      return '';
+    default:
+      if (BLOCK_TAGS.has(tag)) {
+        // Block content nested in an inline context (e.g. a <div> in a table cell)
+        return ` ${convertBlocks(element).join('\n')} `;
+      }
+      return convertInlineChildren(element);
+  }
+}
+
+/**
+ * Write a formula as TeX between dollar signs (double for display formulas)
+ * The TeX is not escaped: Markdown renderers with math support read it as it is
+ */
+function convertInlineMath(element: HTMLElement): string {
+  const tex = collapseWhitespace(element.dataset.tex || '').trim();
+  if (!tex) {
+    return '';
+  }
+  return isDisplayMath(element) ? `$$${tex}$$` : `$${tex}$`;
+}
+
+function isDisplayMath(element: HTMLElement): boolean {
+  return element.hasAttribute('data-tex') && element.dataset.display === 'true';
+}
+
+/**
+ * Convert all child nodes of an element in inline context
+ */
+function convertInlineChildren(element: HTMLElement): string {
+  let result = '';
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      result += escapeText(collapseWhitespace(node.textContent || ''));
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      result += convertInline(node as HTMLElement);
+    }
+  });
+  return result;
+}
+
+/**
+ * Wrap inline content in emphasis delimiters, keeping surrounding spaces outside
+ * (`** bold **` is not valid emphasis)
+ */
+function wrapInline(content: string, delimiter: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content) as RegExpExecArray;
+  const [, leading, text, trailing] = match;
+  if (!text) {
+    return content;
+  }
+  return `${leading}${delimiter}${text}${delimiter}${trailing}`;
+}
+
+/**
+ * Convert inline code, choosing a backtick fence longer than any run inside the code
+ */
+function convertInlineCode(code: string): string {
+  const text = collapseWhitespace(code);
+  if (!text) {
+    return '';
+  }
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+function convertLink(link: HTMLAnchorElement): string {
+  const text = convertInlineChildren(link);
+  const reference = link.getAttribute('data-reference');
+  if (reference && text.trim()) {
+    return `[${text.trim()}][${reference}]`;
+  }
+  const href = link.getAttribute('href') || '';
+  if (!href) {
+    return text;
+  }
+  const label = text.trim() || escapeText(href);
+  const title = link.getAttribute('title');
+  return `[${label}](${formatDestination(href)}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+}
+
+function convertImage(image: HTMLImageElement): string {
+  const src = image.getAttribute('src') || '';
+  if (!src) {
+    return '';
+  }
+  const alt = (image.getAttribute('alt') || '').replace(/([\[\]\\])/g, '\\$1');
+  const title = image.getAttribute('title');
+  return `![${alt}](${formatDestination(src)}${title ? ` "${title.replace(/"/g, '\\"')}"` : ''})`;
+}
+
+/**
+ * Format a link destination, using angle brackets when it contains spaces or parentheses
+ */
+function formatDestination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+/**
+ * Convert a <pre> block into a fenced code block
+ */
+function convertCodeBlock(pre: HTMLElement): string {
+  const code = (pre.textContent || '').replace(/\n$/, '');
+  const language = detectCodeLanguage(pre);
+  const longestRun = Math.max(0, ...(code.match(/^`{3,}/gm) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${code}\n${fence}`;
+}
+
+/**
+ * Detect the language of a code block from classes, data attributes
+ * or the code block header Gemini renders above the <pre>
+ *
+ * @param pre - The <pre> element
+ * @returns Language info string or an empty string
+ */
+export function detectCodeLanguage(pre: HTMLElement): string {
+  const code = pre.querySelector('code');
+  const candidates = [code, pre].filter((element): element is HTMLElement => !!element);
+
+  for (const element of candidates) {
+    const fromData = element.getAttribute('data-language') || element.getAttribute('data-lang');
+    if (fromData) {
+      return normalizeLanguage(fromData);
+    }
+    const fromClass = LANGUAGE_CLASS_PATTERN.exec(element.className || '');
+    if (fromClass) {
+      return normalizeLanguage(fromClass[1]);
+    }
+  }
+
+  // Gemini wraps code blocks with a header showing the language name
+  const wrapper = pre.closest('.code-block, code-block, .code-container');
+  const header = wrapper?.querySelector('.code-block-decoration, .code-block-header, [class*="language-label"]');
+  const headerText = header?.textContent?.trim();
+  if (headerText && /^[\w+#.-]{1,30}$/.test(headerText)) {
+    return normalizeLanguage(headerText);
+  }
+
+  return '';
+}
+
+function normalizeLanguage(language: string): string {
+  return language.trim().toLowerCase().replace(/\s+/g, '-');
+}
+
+/**
+ * Convert a <ul>/<ol> element, including nested lists
+ */
+function convertList(list: HTMLElement, alternateMarker = false): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = ordered ? parseInt(list.getAttribute('start') || '1', 10) || 1 : 1;
+  const bullet = alternateMarker ? '*' : '-';
+  const delimiter = alternateMarker ? ')' : '.';
+
+  const items = Array.from(list.children).filter(child => child.tagName.toLowerCase() === 'li');
+  return items
+    .map((item, index) => convertListItem(item as HTMLElement, ordered ? `${start + index}${delimiter}` : bullet))
+    .join('\n');
+}
+
+function convertListItem(item: HTMLElement, marker: string): string {
+  const clone = item.cloneNode(true) as HTMLElement;
+
+  // Task list items: a leading checkbox becomes "[ ]" / "[x]"
+  let taskPrefix = '';
+  const checkbox = clone.querySelector<HTMLInputElement>('input[type="checkbox"]');
+  if (checkbox && isLeadingElement(clone, checkbox)) {
+    taskPrefix = checkbox.checked || checkbox.hasAttribute('checked') ? '[x] ' : '[ ] ';
+    checkbox.remove();
+  }
+
+  const blocks = convertBlocks(clone);
+  const indent = ' '.repeat(marker.length + 1);
+
+  let body = '';
+  blocks.forEach((block, index) => {
+    if (index > 0) {
+      // Keep nested lists tight, separate other blocks with a blank line
+      body += /^(\s*)([-*+]|\d+[.)]) /.test(block) ? '\n' : '\n\n';
+    }
+    body += block;
+  });
+
+  const lines = (taskPrefix + body).split('\n');
+  return lines
+    .map((line, index) => (index === 0 ? `${marker} ${line}` : line ? `${indent}${line}` : ''))
+    .join('\n')
+    .replace(/ +$/, '');
+}
+
+/**
+ * Check whether `target` is the first meaningful content inside `root`
+ */
+function isLeadingElement(root: HTMLElement, target: HTMLElement): boolean {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT | NodeFilter.SHOW_TEXT);
+  let node = walker.nextNode();
+  while (node) {
+    if (node === target) {
+      return true;
+    }
+    if (node.nodeType === Node.TEXT_NODE && (node.textContent || '').trim()) {
+      return false;
+    }
+    node = walker.nextNode();
+  }
+  return false;
+}
+
+/**
+ * Convert a table into a GFM pipe table
+ */
+function convertTable(table: HTMLTableElement): string {
+  const rows = Array.from(table.querySelectorAll('tr')).filter(row => row.closest('table') === table);
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const cellRows = rows.map(row =>
+    Array.from(row.children)
+      .filter(cell => /^(td|th)$/i.test(cell.tagName))
+      .map(cell => cell as HTMLTableCellElement)
+  );
+  const columns = Math.max(...cellRows.map(cells => cells.length));
+  if (columns === 0) {
+    return '';
+  }
+
+  const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`;
+  const cellText = (cell?: HTMLTableCellElement) =>
+    cell ? finishInline(convertInlineChildren(cell)).replace(/ {2}\n/g, '<br>').replace(/\|/g, '\\|') : '';
+
+  const header = cellRows[0];
+  const alignments = Array.from({ length: columns }, (_, index) => {
+    const cell = header[index];
+    const align = (cell?.getAttribute('align') || cell?.style.textAlign || '').toLowerCase();
+    if (align === 'center') return ':---:';
+    if (align === 'right') return '---:';
+    if (align === 'left') return ':---';
+    return '---';
+  });
+
+  const lines = [
+    formatRow(Array.from({ length: columns }, (_, index) => cellText(header[index]))),
+    formatRow(alignments),
+    ...cellRows.slice(1).map(cells => formatRow(Array.from({ length: columns }, (_, index) => cellText(cells[index]))))
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Tidy up accumulated inline Markdown into a paragraph:
+ * collapse spaces, turn <br> markers into hard line breaks
+ * and escape characters that would start a block at line start
+ */
+function finishInline(inline: string): string {
+  return inline
+    .split('\n')
+    .map(line => escapeLineStart(line.replace(/ {2,}/g, ' ').trim()))
+    .join('  \n')
+    .replace(/^(?: {2}\n)+|(?: {2}\n)+$/g, '')
+    .trim();
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\r\n\f]+/g, ' ');
+}
+
+/**
+ * Escape Markdown syntax characters in plain text
+ */
+function escapeText(text: string): string {
+  // Pipes only matter inside tables and are escaped there
+  return text.replace(/([\\`*_[\]<>~])/g, '\\$1');
+}
+
+/**
+ * Escape characters that would turn a paragraph line into a heading, quote, list or rule
+ */
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(#{1,6})(?=\s|$)/, '\\$1')
+    .replace(/^([+-])(?=\s|$)/, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s|$)/, '$1\\$2')
+    .replace(/^(=+|-{3,})$/, '\\$1');
+}
@@ -0,0 +1,362 @@
+/**
+ * ImageInliner - Makes exported files independent of remote images
+ *
+ * Images in extracted content point at Google-hosted or blob: URLs that break
+ * once the file leaves the browser, and html2canvas often draws them blank
+ * because of CORS. Before rendering, the inliner:
+ * - Reads every image of the ChatContent from within the page (fetch with the
+ *   user's cookies, or a canvas when fetch is refused)
+ * - Downscales images larger than maxDimension
+ * - Replaces the URLs with data URIs, keeping the URL of images above the size cap
+ *
+ * extractImageFiles turns the data URIs back into files for Markdown exports
+ * that keep images next to the .md file.
+ */
+
+import { strToU8 } from 'fflate';
+import { ChatContent, Message } from './content-extractor';
+import { ImageOptions, DEFAULT_IMAGE_OPTIONS } from './image-options';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+
+export type { ImageOptions } from './image-options';
+
+/**
+ * Quality of images re-encoded as JPEG to fit under the size cap
+ */
+const JPEG_QUALITY = 0.85;
+
+/**
+ * File extensions of the image types found in conversations
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp'
+};
+
+/**
+ * ImageInliner class
+ */
+export class ImageInliner {
+  private options: ImageOptions;
+  private progress = new ProgressEmitter();
+
+  /**
+   * Create a new ImageInliner
+   * @param options - Image option overrides
+   */
+  constructor(options: Partial<ImageOptions> = {}) {
+    this.options = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  }
+
+  /**
+   * Update the image options
+   * @param options - Options to change
+   */
+  setOptions(options: Partial<ImageOptions>): void {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Get the current image options
+   * @returns Copy of the options
+   */
+  getOptions(): ImageOptions {
+    return { ...this.options };
+  }
+
+  /**
+   * Listen for the progress of inlineImages ('inlining' stage)
+   * @param listener - Called after each image
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
+  /**
+   * Replace the images of the content with data URIs
+   * Images that cannot be read or stay above the size cap keep their URL
+   *
+   * @param content - Extracted chat content (not modified)
+   * @param signal - Checked before each image and aborts the downloads
+   * @returns Content with inlined images (the same object if it has no images)
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  async inlineImages(content: ChatContent, signal?: AbortSignal): Promise<ChatContent> {
+    const sources = collectImageSources(content);
+    if (sources.length === 0) {
+      return content;
+    }
+
+    Logger.info(`ImageInliner: Inlining ${sources.length} images`);
+    const dataUrls = new Map<string, string>();
+    this.progress.emit('inlining', 0, sources.length);
+
+    for (const [index, src] of sources.entries()) {
+      throwIfCancelled(signal);
+      const dataUrl = await this.toDataUrl(src, signal);
+      if (dataUrl) {
+        dataUrls.set(src, dataUrl);
+      }
+      this.progress.emit('inlining', index + 1, sources.length);
+    }
+    throwIfCancelled(signal);
+
+    Logger.info(`ImageInliner: Inlined ${dataUrls.size}/${sources.length} images`);
+    return replaceImageSources(content, src => dataUrls.get(src));
+  }
+
+  /**
+   * Read an image, downscale it and encode it as a data URI
+   *
+   * @param src - Image URL
+   * @param signal - Aborts the download
+   * @returns Data URI, or null if the image could not be read or is too large
+   */
+  private async toDataUrl(src: string, signal?: AbortSignal): Promise<string | null> {
+    try {
+      const maxBytes = this.options.maxSizeKB * 1024;
+      const blob = await this.downscale(await this.readImage(src, signal), maxBytes);
+
+      if (blob.size > maxBytes) {
+        Logger.warn(`ImageInliner: ${src} is larger than ${this.options.maxSizeKB} KB, keeping its URL`);
+        return null;
+      }
+      return await blobToDataUrl(blob);
+    } catch (error) {
+      if (!signal?.aborted) {
+        Logger.warn(`ImageInliner: Could not inline image ${src}`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Download an image with the page's credentials, using the browser cache first
+   * since the image is already shown in the conversation
+   * Falls back to drawing the image on a canvas when fetch is refused
+   */
+  private async readImage(src: string, signal?: AbortSignal): Promise<Blob> {
+    try {
+      const response = await fetch(src, { credentials: 'include', cache: 'force-cache', signal });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.blob();
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      Logger.warn(`ImageInliner: fetch failed for ${src}, drawing it instead`, error);
+      return this.drawImage(src);
+    }
+  }
+
+  /**
+   * Load an image element and read its pixels through a canvas
+   * Throws if the server does not allow cross-origin reads (tainted canvas)
+   */
+  private async drawImage(src: string): Promise<Blob> {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Image could not be loaded'));
+      image.src = src;
+    });
+
+    const blob = await drawToBlob(image, image.naturalWidth, image.naturalHeight, 'image/png');
+    if (!blob) {
+      throw new Error('Canvas is not available');
+    }
+    return blob;
+  }
+
+  /**
+   * Shrink an image to maxDimension, and re-encode it as JPEG if it is above the size cap
+   * Images the browser cannot decode (or animated/vector formats) are returned as they are
+   */
+  private async downscale(blob: Blob, maxBytes: number): Promise<Blob> {
+    if (typeof createImageBitmap !== 'function' || blob.type === 'image/gif' || blob.type === 'image/svg+xml') {
+      return blob;
+    }
+
+    const bitmap = await createImageBitmap(blob);
+    try {
+      const limit = this.options.maxDimension;
+      const scale = limit > 0 ? Math.min(1, limit / Math.max(bitmap.width, bitmap.height)) : 1;
+      const tooLarge = blob.size > maxBytes;
+      if (scale === 1 && !tooLarge) {
+        return blob;
+      }
+
+      const type = tooLarge || blob.type === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+      const resized = await drawToBlob(
+        bitmap,
+        Math.max(1, Math.round(bitmap.width * scale)),
+        Math.max(1, Math.round(bitmap.height * scale)),
+        type
+      );
+      return resized && resized.size < blob.size ? resized : blob;
+    } finally {
+      bitmap.close();
+    }
+  }
+}
+
+/**
+ * Move the inlined images of the content into files
+ * Used by Markdown exports that write images next to the .md file
+ *
+ * @param content - Content with data URI images (not modified)
+ * @param folder - Folder of the image files, relative to the exported file
+ * @returns Content pointing at the files, and the files by path
+ */
+export function extractImageFiles(
+  content: ChatContent,
+  folder = 'images'
+): { content: ChatContent; files: Record<string, Uint8Array> } {
+  const files: Record<string, Uint8Array> = {};
+  const paths = new Map<string, string>();
+
+  const linked = replaceImageSources(content, src => {
+    if (!paths.has(src)) {
+      const file = decodeDataUrl(src);
+      if (!file) {
+        return undefined;
+      }
+      const path = `${folder}/image-${String(paths.size + 1).padStart(3, '0')}.${file.extension}`;
+      files[path] = file.bytes;
+      paths.set(src, path);
+    }
+    return paths.get(src);
+  });
+
+  return { content: linked, files };
+}
+
+/**
+ * Every image URL of the content: <img> elements of the messages, attached images and thumbnails
+ */
+function collectImageSources(content: ChatContent): string[] {
+  const sources = new Set<string>();
+
+  content.messages.forEach(message => {
+    parseHtml(message.content).querySelectorAll('img[src]').forEach(image => {
+      sources.add(image.getAttribute('src') as string);
+    });
+    message.attachments?.forEach(attachment => {
+      [attachment.imageData, attachment.thumbnail].forEach(src => src && sources.add(src));
+    });
+  });
+
+  sources.delete('');
+  return Array.from(sources);
+}
+
+/**
+ * Copy the content with new image sources
+ *
+ * @param content - Content to copy
+ * @param replace - New source for an image, or undefined to keep it
+ * @returns The copy
+ */
+function replaceImageSources(content: ChatContent, replace: (src: string) => string | undefined): ChatContent {
+  const messages = content.messages.map(message => {
+    const updated: Message = { ...message };
+
+    const container = parseHtml(message.content);
+    let changed = false;
+    container.querySelectorAll('img[src]').forEach(image => {
+      const src = replace(image.getAttribute('src') as string);
+      if (src) {
+        image.setAttribute('src', src);
+        image.removeAttribute('srcset');
+        changed = true;
+      }
+    });
+    if (changed) {
+      updated.content = container.innerHTML;
+    }
+
+    if (message.attachments) {
+      updated.attachments = message.attachments.map(attachment => ({
+        ...attachment,
+        ...(attachment.imageData && { imageData: replace(attachment.imageData) ?? attachment.imageData }),
+        ...(attachment.thumbnail && { thumbnail: replace(attachment.thumbnail) ?? attachment.thumbnail })
+      }));
+    }
+
+    return updated;
+  });
+
+  return { ...content, messages };
+}
+
+function parseHtml(html: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container;
+}
+
+/**
+ * Decode a data URI into file bytes and an extension
+ * @returns The file, or null for anything but an image data URI
+ */
+function decodeDataUrl(src: string): { bytes: Uint8Array; extension: string } | null {
+  const match = /^data:(image\/[^;,]+)((?:;[^;,]+)*),(.*)$/s.exec(src);
+  if (!match) {
+    return null;
+  }
+
+  const [, mimeType, parameters, data] = match;
+  const extension = IMAGE_EXTENSIONS[mimeType.toLowerCase()] ?? mimeType.split('/')[1].replace(/\W.*$/, '');
+
+  if (parameters.split(';').includes('base64')) {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return { bytes, extension };
+  }
+  return { bytes: strToU8(decodeURIComponent(data)), extension };
+}
+
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Draw an image on a canvas of the given size and encode it
+ * JPEG has no transparency, so it gets a white background
+ *
+ * @returns The encoded image, or null if canvases are not available
+ */
+async function drawToBlob(source: CanvasImageSource, width: number, height: number, type: string): Promise<Blob | null> {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return null;
+  }
+
+  if (type === 'image/jpeg') {
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.drawImage(source, 0, 0, width, height);
+  return new Promise(resolve => canvas.toBlob(resolve, type, JPEG_QUALITY));
+}
@@ -0,0 +1,33 @@
+/**
+ * Image export options
+ *
+ * Kept apart from ImageInliner so the options page can read the defaults
+ * without bundling the inliner.
+ */
+
+/**
+ * How images are written into exported files
+ */
+export interface ImageOptions {
+  /** Replace image URLs with data URIs so files work offline and html2canvas can draw them */
+  inline: boolean;
+
+  /** Largest image kept inline, in KB (larger images keep their URL) */
+  maxSizeKB: number;
+
+  /** Downscale images whose width or height exceeds this many pixels (0 keeps the original size) */
+  maxDimension: number;
+
+  /** Markdown exports: write images as files in an images/ folder and download a ZIP */
+  markdownSidecar: boolean;
+}
+
+/**
+ * Default image options
+ */
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  inline: true,
+  maxSizeKB: 2048,
+  maxDimension: 1600,
+  markdownSidecar: false
+};
@@ -0,0 +1,135 @@
+/**
+ * JSON export schema
+ *
+ * Published TypeScript types for the JSON export format. This file has no
+ * runtime dependencies so downstream tools can copy or import it as-is.
+ * See docs/JSON_EXPORT.md for field descriptions and the versioning policy.
+ */
+
+/**
+ * Identifier written to every JSON export
+ */
+export const JSON_EXPORT_SCHEMA = 'gemini-business-chat-export';
+
+/**
+ * Current schema version
+ * Bumped only for breaking changes (removed/renamed fields or changed meaning);
+ * new optional fields are added without a version change
+ *
+ * Version 2: attachments may be non-image files (kind "file", url null) and
+ * carry size and thumbnail; attached images are no longer repeated in html and markdown
+ */
+export const JSON_EXPORT_SCHEMA_VERSION = 2;
+
+/**
+ * Root object of a JSON export (schema version 2)
+ */
+export interface ChatExportDocument {
+  /** Always JSON_EXPORT_SCHEMA */
+  schema: typeof JSON_EXPORT_SCHEMA;
+
+  /** Schema version the document conforms to */
+  schemaVersion: number;
+
+  /** Conversation title */
+  title: string;
+
+  /** When the file was exported (ISO 8601) */
+  exportedAt: string;
+
+  /** When the content was extracted from the page (ISO 8601) */
+  extractedAt: string;
+
+  /** URL of the conversation, or null if unknown */
+  sourceUrl: string | null;
+
+  /** Message counts */
+  stats: ChatExportStats;
+
+  /** Messages in conversation order */
+  messages: ChatExportMessage[];
+}
+
+/**
+ * Message counts of an export
+ */
+export interface ChatExportStats {
+  totalMessages: number;
+  userMessages: number;
+  geminiMessages: number;
+}
+
+/**
+ * A single message of an export
+ */
+export interface ChatExportMessage {
+  /** Zero-based position in the conversation */
+  index: number;
+
+  /** Who sent the message */
+  sender: 'user' | 'gemini';
+
+  /** Timestamp shown by Gemini, if any (as displayed, not normalized) */
+  timestamp: string | null;
+
+  /** Message content as extracted HTML */
+  html: string;
+
+  /** Message content as GitHub-Flavored Markdown */
+  markdown: string;
+
+  /** Content flags detected during extraction, or null if not available */
+  metadata: ChatExportMessageMetadata | null;
+
+  /** Files attached to the message */
+  attachments: ChatExportAttachment[];
+
+  /** Sources cited by a Gemini response, numbered like the [n] markers in html and markdown */
+  citations: ChatExportCitation[];
+}
+
+/**
+ * Content flags of a message
+ */
+export interface ChatExportMessageMetadata {
+  hasCodeBlock: boolean;
+  hasTable: boolean;
+  hasList: boolean;
+}
+
+/**
+ * A file attached to a message
+ */
+export interface ChatExportAttachment {
+  /** Attachment kind: images are embedded, other files are described */
+  kind: 'image' | 'file';
+
+  /** Image URL (may be a data: URI), or null for other files */
+  url: string | null;
+
+  /** File name, or null if none */
+  name: string | null;
+
+  /** MIME type, or null if unknown */
+  mimeType: string | null;
+
+  /** Size in bytes, or null if unknown */
+  size: number | null;
+
+  /** Preview image of a file (may be a data: URI), or null if none */
+  thumbnail: string | null;
+}
+
+/**
+ * A source cited by a message
+ */
+export interface ChatExportCitation {
+  /** Number used by the citation markers (1-based) */
+  index: number;
+
+  /** Document or page title */
+  title: string;
+
+  /** Link to the source, or null if Gemini shows none */
+  url: string | null;
+}
@@ -0,0 +1,155 @@
+/**
+ * JsonGenerator - Handles JSON generation from chat content
+ *
+ * This module is responsible for:
+ * - Serializing ChatContent into the versioned JSON export schema
+ * - Triggering JSON file downloads
+ */
+
+import { ChatContent, Message } from './content-extractor';
+import { htmlToMarkdown } from './html-to-markdown';
+import {
+  ChatExportDocument,
+  ChatExportMessage,
+  JSON_EXPORT_SCHEMA,
+  JSON_EXPORT_SCHEMA_VERSION
+} from './json-export-schema';
+import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+
+/**
+ * JsonGenerator class
+ * Converts chat content to the structured JSON export format
+ */
+export class JsonGenerator {
+  private progress = new ProgressEmitter();
+
+  /**
+   * Listen for the progress of buildDocument ('rendering' stage) and downloadJSON ('downloading' stage)
+   * @param listener - Called with each progress event
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
+  /**
+   * Build the JSON export document from chat content
+   *
+   * @param content - ChatContent object containing messages
+   * @param title - Chat title
+   * @param sourceUrl - URL of the conversation (defaults to the current page)
+   * @param signal - Checked before each message
+   * @returns Export document conforming to the current schema version
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  buildDocument(
+    content: ChatContent,
+    title: string,
+    sourceUrl: string | null = window.location.href,
+    signal?: AbortSignal
+  ): ChatExportDocument {
+    this.progress.emit('rendering', 0, content.messages.length);
+    const messages = content.messages.map((message, index) => {
+      throwIfCancelled(signal);
+      const exported = this.buildMessage(message, index);
+      this.progress.emit('rendering', index + 1, content.messages.length);
+      return exported;
+    });
+
+    return {
+      schema: JSON_EXPORT_SCHEMA,
+      schemaVersion: JSON_EXPORT_SCHEMA_VERSION,
+      title,
+      exportedAt: new Date().toISOString(),
+      extractedAt: content.timestamp.toISOString(),
+      sourceUrl: sourceUrl || null,
+      stats: {
+        totalMessages: messages.length,
+        userMessages: messages.filter(message => message.sender === 'user').length,
+        geminiMessages: messages.filter(message => message.sender === 'gemini').length
+      },
+      messages
+    };
+  }
+
+  /**
+   * Generate JSON from chat content
+   *
+   * @param content - ChatContent object containing messages
+   * @param title - Chat title
+   * @param signal - Checked before each message
+   * @returns Pretty-printed JSON string
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  generateJSON(content: ChatContent, title: string, signal?: AbortSignal): string {
+    Logger.info('Generating JSON');
+
+    const json = JSON.stringify(this.buildDocument(content, title, window.location.href, signal), null, 2);
+
+    Logger.info(`JSON generated: ${json.length} characters`);
+    return json;
+  }
+
+  /**
+   * Download JSON file
+   *
+   * @param json - JSON content
+   * @param filename - Filename (should include .json extension)
+   */
+  downloadJSON(json: string, filename: string): void {
+    Logger.info(`Downloading JSON: ${filename}`);
+    this.progress.emit('downloading', 0, 1);
+
+    // Create blob
+    const blob = new Blob([json], { type: 'application/json;charset=utf-8' });
+
+    // Create download link
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.style.display = 'none';
+
+    // Trigger download
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    // Cleanup
+    setTimeout(() => {
+      URL.revokeObjectURL(url);
+    }, 100);
+
+    this.progress.emit('downloading', 1, 1);
+    Logger.info('JSON download triggered');
+  }
+
+  /**
+   * Convert a single message to its export representation
+   */
+  private buildMessage(message: Message, index: number): ChatExportMessage {
+    return {
+      index,
+      sender: message.sender,
+      timestamp: message.timestamp ?? null,
+      html: message.content,
+      markdown: htmlToMarkdown(message.content),
+      metadata: message.metadata ? { ...message.metadata } : null,
+      attachments: (message.attachments ?? []).map(attachment => ({
+        kind: attachment.kind,
+        url: attachment.imageData ?? null,
+        name: attachment.name,
+        mimeType: attachment.mimeType ?? null,
+        size: attachment.size ?? null,
+        thumbnail: attachment.thumbnail ?? null
+      })),
+      citations: (message.citations ?? []).map(citation => ({
+        index: citation.index,
+        title: citation.title,
+        url: citation.url ?? null
+      }))
+    };
+  }
+}
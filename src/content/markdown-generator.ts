@@ -3,53 +3,88 @@
  * 
  * This module is responsible for:
  * - Converting chat content to Markdown format
- * - Preserving formatting (code blocks, tables, lists)
+ * - Preserving formatting (code blocks, tables, lists) as GitHub-Flavored Markdown
+ * - Listing attached files and the sources of Gemini's responses (as reference-style links)
+ * - Writing the classification of the document as front matter
+ * - Packaging the Markdown with its images as separate files in a ZIP
  * - Triggering Markdown file downloads
  */
 
-import { ChatContent } from './content-extractor';
+import { strToU8, zipSync } from 'fflate';
+import { ChatContent, Message } from './content-extractor';
 import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+import { formatDateTime, t } from '../utils/i18n';
+import { htmlToMarkdown } from './html-to-markdown';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+import { Citation, citationLink, linkCitationMarkers } from './citations';
+import { Attachment, describeAttachment } from './attachments';
+import { extractImageFiles } from './image-inliner';
+import { classificationFrontMatter } from './classification';
+import { ClassificationLevel } from './classification-options';
 
 /**
  * MarkdownGenerator class
  * Converts chat content to Markdown format
  */
 export class MarkdownGenerator {
+  private progress = new ProgressEmitter();
+  private classification?: ClassificationLevel;
+
+  /**
+   * Set the classification written as front matter of generated files
+   * @param classification - Classification level, or undefined for none
+   */
+  setClassification(classification?: ClassificationLevel): void {
+    this.classification = classification;
+  }
+
+  /**
+   * Listen for the progress of generateMarkdown ('rendering' stage) and downloadMarkdown ('downloading' stage)
+   * @param listener - Called with each progress event
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
   /**
    * Generate Markdown from chat content
    * 
    * @param content - ChatContent object containing messages
    * @param title - Chat title for the header
+   * @param signal - Checked before each message
    * @returns Markdown string
+   * @throws ExportCancelledError if the signal is aborted
    */
-  generateMarkdown(content: ChatContent, title: string): string {
+  generateMarkdown(content: ChatContent, title: string, signal?: AbortSignal): string {
     Logger.info('Generating Markdown');
     
-    const exportDate = new Date().toLocaleString('vi-VN', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+    const exportDate = formatDateTime();
 
     // Build markdown header
-    let markdown = `# ${title}\n\n`;
-    markdown += `**Xuất ngày:** ${exportDate}\n\n`;
-    markdown += `**Tổng số tin nhắn:** ${content.messages.length}\n\n`;
+    let markdown = this.classification ? classificationFrontMatter(this.classification) : '';
+    markdown += `# ${title}\n\n`;
+    markdown += `**${t('documentExportDate')}:** ${exportDate}\n\n`;
+    markdown += `**${t('documentMessageCount')}:** ${content.messages.length}\n\n`;
     markdown += `---\n\n`;
 
     // Build messages
-    content.messages.forEach((message) => {
-      const sender = message.sender === 'user' ? '👤 Bạn' : '🤖 Gemini';
+    this.progress.emit('rendering', 0, content.messages.length);
+    content.messages.forEach((message, index) => {
+      throwIfCancelled(signal);
+      const sender = message.sender === 'user' ? `👤 ${t('senderUser')}` : `🤖 ${t('senderGemini')}`;
       
       markdown += `## ${sender}\n\n`;
       
       // Convert HTML to Markdown-friendly format
-      let messageContent = this.htmlToMarkdown(message.content);
+      let messageContent = this.htmlToMarkdown(this.linkCitations(message, index));
       
       markdown += messageContent + '\n\n';
+      markdown += this.formatAttachments(message.attachments ?? []);
+      markdown += this.formatSources(message.citations ?? [], index);
       markdown += `---\n\n`;
+      this.progress.emit('rendering', index + 1, content.messages.length);
     });
 
     Logger.info(`Markdown generated: ${markdown.length} characters`);
@@ -57,102 +92,119 @@ export class MarkdownGenerator {
   }
 
   /**
-   * Convert HTML content to Markdown format
-   * 
-   * @param html - HTML string
-   * @returns Markdown string
+   * Generate a ZIP with the Markdown file and its images in an images/ folder
+   * Images must be inlined first (ImageInliner); images left as URLs stay links
+   *
+   * @param content - ChatContent with data URI images
+   * @param title - Chat title for the header
+   * @param filename - Name of the Markdown file in the ZIP
+   * @param signal - Checked before each message
+   * @returns ZIP data
+   * @throws ExportCancelledError if the signal is aborted
    */
-  private htmlToMarkdown(html: string): string {
-    let markdown = html;
+  generateMarkdownBundle(content: ChatContent, title: string, filename: string, signal?: AbortSignal): Blob {
+    const { content: linked, files } = extractImageFiles(content);
+    const markdown = this.generateMarkdown(linked, title, signal);
 
-    // Remove data-markdown-start-index attributes
-    markdown = markdown.replace(/data-markdown-start-index="\d+"/g, '');
-    
-    // Convert code blocks
-    markdown = markdown.replace(/<pre><code[^>]*>([\s\S]*?)<\/code><\/pre>/g, (_match, code) => {
-      const decodedCode = this.decodeHtml(code);
-      return '\n```\n' + decodedCode + '\n```\n';
-    });
-    
-    // Convert inline code
-    markdown = markdown.replace(/<code[^>]*>(.*?)<\/code>/g, '`$1`');
-    
-    // Convert headers
-    markdown = markdown.replace(/<h1[^>]*>(.*?)<\/h1>/g, '# $1\n');
-    markdown = markdown.replace(/<h2[^>]*>(.*?)<\/h2>/g, '## $1\n');
-    markdown = markdown.replace(/<h3[^>]*>(.*?)<\/h3>/g, '### $1\n');
-    markdown = markdown.replace(/<h4[^>]*>(.*?)<\/h4>/g, '#### $1\n');
-    
-    // Convert bold and italic
-    markdown = markdown.replace(/<strong[^>]*>(.*?)<\/strong>/g, '**$1**');
-    markdown = markdown.replace(/<b[^>]*>(.*?)<\/b>/g, '**$1**');
-    markdown = markdown.replace(/<em[^>]*>(.*?)<\/em>/g, '*$1*');
-    markdown = markdown.replace(/<i[^>]*>(.*?)<\/i>/g, '*$1*');
-    
-    // Convert lists
-    markdown = markdown.replace(/<ul[^>]*>([\s\S]*?)<\/ul>/g, (_match, content) => {
-      return this.convertList(content, '-');
-    });
-    markdown = markdown.replace(/<ol[^>]*>([\s\S]*?)<\/ol>/g, (_match, content) => {
-      return this.convertList(content, '1.');
-    });
-    
-    // Convert paragraphs
-    markdown = markdown.replace(/<p[^>]*>(.*?)<\/p>/g, '$1\n\n');
-    
-    // Convert line breaks
-    markdown = markdown.replace(/<br\s*\/?>/g, '\n');
-    
-    // Remove remaining HTML tags
-    markdown = markdown.replace(/<[^>]+>/g, '');
-    
-    // Decode HTML entities
-    markdown = this.decodeHtml(markdown);
-    
-    // Clean up extra whitespace
-    markdown = markdown.replace(/\n{3,}/g, '\n\n');
-    markdown = markdown.trim();
-    
-    return markdown;
+    Logger.info(`Markdown bundle: ${Object.keys(files).length} image files`);
+    const zip = zipSync({ [filename]: strToU8(markdown), ...files });
+    return new Blob([zip.buffer as ArrayBuffer], { type: 'application/zip' });
   }
 
   /**
-   * Convert HTML list to Markdown
+   * Point the citation markers of a message at its reference definitions
+   * Sources without a linkable URL keep plain [n] markers
    */
-  private convertList(content: string, marker: string): string {
-    const items = content.match(/<li[^>]*>(.*?)<\/li>/g) || [];
-    let markdown = '\n';
-    
-    items.forEach((item, index) => {
-      const text = item.replace(/<li[^>]*>(.*?)<\/li>/, '$1').trim();
-      const cleanText = text.replace(/<[^>]+>/g, '');
-      const itemMarker = marker === '1.' ? `${index + 1}.` : marker;
-      markdown += `${itemMarker} ${cleanText}\n`;
-    });
-    
-    return markdown + '\n';
+  private linkCitations(message: Message, messageIndex: number): string {
+    const citations = message.citations ?? [];
+    if (citations.length === 0) {
+      return message.content;
+    }
+    return linkCitationMarkers(message.content, citations, citation =>
+      citationLink(citation) ? { 'data-reference': this.referenceLabel(messageIndex, citation) } : null
+    );
+  }
+
+  /**
+   * Show attached images inline and list the other files with their type and size
+   *
+   * @param attachments - Attachments of the message
+   * @returns Markdown block (empty when there are no attachments)
+   */
+  private formatAttachments(attachments: Attachment[]): string {
+    const escape = (text: string) => text.replace(/([\\`*_[\]<>~])/g, '\\$1');
+    const images = attachments.filter(attachment => attachment.kind === 'image' && attachment.imageData);
+    const files = attachments.filter(attachment => !images.includes(attachment));
+
+    let block = '';
+    if (images.length > 0) {
+      block += images.map(image => `![${escape(image.name)}](${image.imageData})`).join('\n') + '\n\n';
+    }
+    if (files.length > 0) {
+      const items = files.map(file => {
+        const details = describeAttachment(file);
+        return `- ${escape(file.name)}${details ? ` (${details})` : ''}`;
+      });
+      block += `**${t('documentAttachments')}:**\n\n${items.join('\n')}\n\n`;
+    }
+    return block;
   }
 
   /**
-   * Decode HTML entities
+   * List the sources of a message followed by their reference definitions
+   *
+   * @param citations - Sources of the message
+   * @param messageIndex - Position of the message, keeps labels unique in the document
+   * @returns Markdown block (empty when there are no sources)
    */
-  private decodeHtml(html: string): string {
-    const txt = document.createElement('textarea');
-    txt.innerHTML = html;
-    return txt.value;
+  private formatSources(citations: Citation[], messageIndex: number): string {
+    if (citations.length === 0) {
+      return '';
+    }
+
+    const title = (citation: Citation) => citation.title.replace(/([\\`*_[\]<>~])/g, '\\$1');
+    const items = citations.map(citation => citationLink(citation)
+      ? `${citation.index}. [${title(citation)}][${this.referenceLabel(messageIndex, citation)}]`
+      : `${citation.index}. ${title(citation)}`
+    );
+    const definitions = citations
+      .filter(citation => citationLink(citation))
+      .map(citation => `[${this.referenceLabel(messageIndex, citation)}]: <${citationLink(citation)}> "${citation.title.replace(/"/g, '\\"')}"`);
+
+    let block = `**${t('documentSources')}:**\n\n${items.join('\n')}\n\n`;
+    if (definitions.length > 0) {
+      block += `${definitions.join('\n')}\n\n`;
+    }
+    return block;
+  }
+
+  private referenceLabel(messageIndex: number, citation: Citation): string {
+    return `${messageIndex + 1}-${citation.index}`;
+  }
+
+  /**
+   * Convert HTML content to Markdown format
+   * Delegates to the DOM-based GitHub-Flavored Markdown converter
+   * 
+   * @param html - HTML string
+   * @returns Markdown string
+   */
+  private htmlToMarkdown(html: string): string {
+    return htmlToMarkdown(html);
   }
 
   /**
    * Download Markdown file
    * 
-   * @param markdown - Markdown content
-   * @param filename - Filename (should include .md extension)
+   * @param markdown - Markdown content, or a bundle from generateMarkdownBundle
+   * @param filename - Filename (should include .md extension, or .zip for a bundle)
    */
-  downloadMarkdown(markdown: string, filename: string): void {
+  downloadMarkdown(markdown: string | Blob, filename: string): void {
     Logger.info(`Downloading Markdown: ${filename}`);
+    this.progress.emit('downloading', 0, 1);
     
     // Create blob
-    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+    const blob = typeof markdown === 'string' ? new Blob([markdown], { type: 'text/markdown;charset=utf-8' }) : markdown;
     
     // Create download link
     const url = URL.createObjectURL(blob);
@@ -171,6 +223,7 @@ export class MarkdownGenerator {
       URL.revokeObjectURL(url);
     }, 100);
     
+    this.progress.emit('downloading', 1, 1);
     Logger.info('Markdown download triggered');
   }
 }
@@ -0,0 +1,520 @@
+/**
+ * Math parser - TeX formulas as node trees
+ *
+ * Parses the TeX math subset answers use into a tree of MathNode, which math-render
+ * writes as MathML or as Unicode text. Unknown commands are kept as text, so parsing
+ * never fails.
+ */
+
+/**
+ * How a symbol command is set: as a variable, an operator, a large operator or an integral
+ */
+type SymbolKind = 'ident' | 'op' | 'large' | 'integral';
+
+/**
+ * Symbol commands (\alpha, \leq, \sum...) and the character they stand for
+ */
+export const SYMBOLS: Record<string, [string, SymbolKind]> = {};
+
+/**
+ * Register symbol commands written as "name:char" entries separated by spaces
+ */
+function defineSymbols(kind: SymbolKind, entries: string): void {
+  entries.trim().split(/\s+/).forEach(entry => {
+    const separator = entry.lastIndexOf(':');
+    SYMBOLS[entry.slice(0, separator)] = [entry.slice(separator + 1), kind];
+  });
+}
+
+defineSymbols('ident', `
+  alpha:α beta:β gamma:γ delta:δ epsilon:ϵ varepsilon:ε zeta:ζ eta:η theta:θ vartheta:ϑ iota:ι kappa:κ
+  lambda:λ mu:μ nu:ν xi:ξ pi:π varpi:ϖ rho:ρ varrho:ϱ sigma:σ varsigma:ς tau:τ upsilon:υ phi:ϕ varphi:φ
+  chi:χ psi:ψ omega:ω Gamma:Γ Delta:Δ Theta:Θ Lambda:Λ Xi:Ξ Pi:Π Sigma:Σ Upsilon:Υ Phi:Φ Psi:Ψ Omega:Ω
+  infty:∞ partial:∂ nabla:∇ ell:ℓ hbar:ℏ emptyset:∅ varnothing:∅ aleph:ℵ Re:ℜ Im:ℑ wp:℘
+`);
+
+defineSymbols('op', `
+  pm:± mp:∓ times:× div:÷ cdot:⋅ ast:∗ star:⋆ circ:∘ bullet:∙ oplus:⊕ otimes:⊗ cap:∩ cup:∪ setminus:∖
+  wedge:∧ land:∧ vee:∨ lor:∨ neg:¬ lnot:¬ leq:≤ le:≤ geq:≥ ge:≥ neq:≠ ne:≠ approx:≈ equiv:≡ sim:∼
+  simeq:≃ cong:≅ propto:∝ ll:≪ gg:≫ in:∈ notin:∉ ni:∋ subset:⊂ supset:⊃ subseteq:⊆ supseteq:⊇ perp:⊥
+  parallel:∥ mid:∣ to:→ rightarrow:→ leftarrow:← gets:← leftrightarrow:↔ Rightarrow:⇒ implies:⟹
+  Leftarrow:⇐ Leftrightarrow:⇔ iff:⟺ mapsto:↦ longrightarrow:⟶ longleftarrow:⟵ uparrow:↑ downarrow:↓
+  forall:∀ exists:∃ nexists:∄ therefore:∴ because:∵ ldots:… dots:… cdots:⋯ vdots:⋮ ddots:⋱ prime:′
+  angle:∠ triangle:△ langle:⟨ rangle:⟩ lfloor:⌊ rfloor:⌋ lceil:⌈ rceil:⌉ vert:| Vert:‖ |:‖ lbrace:{
+  rbrace:} {:{ }:} colon:: %:% $:$ #:# &:& _:_
+`);
+
+defineSymbols('large', 'sum:∑ prod:∏ coprod:∐ bigcup:⋃ bigcap:⋂ bigoplus:⨁ bigotimes:⨂ bigvee:⋁ bigwedge:⋀');
+defineSymbols('integral', 'int:∫ iint:∬ iiint:∭ oint:∮');
+
+/**
+ * Function names set upright; the second group takes limits below (lim_{x→0})
+ */
+export const FUNCTION_NAMES = new Set((
+  'sin cos tan cot sec csc arcsin arccos arctan sinh cosh tanh coth log ln lg exp deg det dim gcd ker arg hom Pr'
+).split(' '));
+export const LIMIT_FUNCTION_NAMES = new Set('lim liminf limsup max min sup inf argmax argmin'.split(' '));
+
+/**
+ * Commands with no visible output
+ */
+const IGNORED_COMMANDS = new Set([
+  'displaystyle', 'textstyle', 'scriptstyle', 'limits', 'nolimits', 'hline', 'nonumber', 'notag', 'middle'
+]);
+
+/**
+ * Horizontal spaces, in em
+ */
+const SPACES: Record<string, number> = {
+  ',': 0.167, ':': 0.222, '>': 0.222, ';': 0.278, ' ': 0.333, quad: 1, qquad: 2, enspace: 0.5
+};
+
+/**
+ * Accents: mark drawn over (or under) the body, and its combining character for text output
+ */
+export const ACCENTS: Record<string, { mark: string; combining: string; under?: boolean }> = {
+  hat: { mark: '^', combining: '̂' },
+  widehat: { mark: '^', combining: '̂' },
+  bar: { mark: '¯', combining: '̄' },
+  overline: { mark: '‾', combining: '̅' },
+  vec: { mark: '→', combining: '⃗' },
+  overrightarrow: { mark: '→', combining: '⃗' },
+  dot: { mark: '˙', combining: '̇' },
+  ddot: { mark: '¨', combining: '̈' },
+  tilde: { mark: '~', combining: '̃' },
+  widetilde: { mark: '~', combining: '̃' },
+  underline: { mark: '_', combining: '̲', under: true }
+};
+
+/**
+ * Letter styles of \mathbb, \mathbf and the other alphabet commands
+ */
+export type MathVariant = 'normal' | 'bold' | 'double-struck' | 'script' | 'fraktur' | 'sans-serif' | 'monospace';
+
+/**
+ * Alphabet commands and the variant they set
+ */
+const VARIANT_COMMANDS: Record<string, MathVariant> = {
+  mathrm: 'normal', mathup: 'normal', mathbf: 'bold', boldsymbol: 'bold', bm: 'bold', mathbb: 'double-struck',
+  mathcal: 'script', mathscr: 'script', mathfrak: 'fraktur', mathsf: 'sans-serif', mathtt: 'monospace'
+};
+
+/**
+ * First code points of the Mathematical Alphanumeric Symbols block per variant
+ * (capital letters, small letters, digits) and the letters encoded elsewhere
+ */
+const VARIANT_ALPHABETS: Partial<Record<MathVariant, { upper: number; lower: number; digit?: number; exceptions: Record<string, string> }>> = {
+  bold: { upper: 0x1D400, lower: 0x1D41A, digit: 0x1D7CE, exceptions: {} },
+  'double-struck': {
+    upper: 0x1D538, lower: 0x1D552, digit: 0x1D7D8,
+    exceptions: { C: 'ℂ', H: 'ℍ', N: 'ℕ', P: 'ℙ', Q: 'ℚ', R: 'ℝ', Z: 'ℤ' }
+  },
+  script: {
+    upper: 0x1D49C, lower: 0x1D4B6,
+    exceptions: { B: 'ℬ', E: 'ℰ', F: 'ℱ', H: 'ℋ', I: 'ℐ', L: 'ℒ', M: 'ℳ', R: 'ℛ', e: 'ℯ', g: 'ℊ', o: 'ℴ' }
+  },
+  fraktur: { upper: 0x1D504, lower: 0x1D51E, exceptions: { C: 'ℭ', H: 'ℌ', I: 'ℑ', R: 'ℜ', Z: 'ℨ' } },
+  'sans-serif': { upper: 0x1D5A0, lower: 0x1D5BA, digit: 0x1D7E2, exceptions: {} },
+  monospace: { upper: 0x1D670, lower: 0x1D68A, digit: 0x1D7F6, exceptions: {} }
+};
+
+/**
+ * Fences drawn around matrix environments and cases
+ */
+const ENVIRONMENT_FENCES: Record<string, [string, string]> = {
+  pmatrix: ['(', ')'], bmatrix: ['[', ']'], Bmatrix: ['{', '}'], vmatrix: ['|', '|'], Vmatrix: ['‖', '‖'],
+  cases: ['{', '']
+};
+
+/**
+ * Node of a parsed formula
+ */
+export type MathNode =
+  | { kind: 'ident' | 'number'; value: string; variant?: MathVariant; limits?: boolean }
+  | { kind: 'op'; value: string; large?: boolean; limits?: boolean; fence?: boolean }
+  | { kind: 'text'; value: string }
+  | { kind: 'space'; width: number }
+  | { kind: 'row'; children: MathNode[] }
+  | { kind: 'frac'; num: MathNode; den: MathNode; line: boolean }
+  | { kind: 'sqrt'; body: MathNode; index?: MathNode }
+  | { kind: 'scripts'; base: MathNode; sub?: MathNode; sup?: MathNode }
+  | { kind: 'fenced'; open: string; close: string; body: MathNode }
+  | { kind: 'accent'; accent: string; body: MathNode }
+  | { kind: 'table'; rows: MathNode[][]; align?: 'left' };
+
+/**
+ * Row of nodes, or the node itself when there is only one
+ */
+const row = (children: MathNode[]): MathNode =>
+  children.length === 1 ? children[0] : { kind: 'row', children };
+
+/**
+ * Parse a TeX formula
+ *
+ * @param tex - TeX source (without $ delimiters)
+ * @returns Formula tree
+ */
+export function parseTex(tex: string): MathNode {
+  return new TexParser(tex).parse();
+}
+
+/**
+ * Recursive descent parser for the TeX math subset answers use
+ * Unknown commands are kept as text, so parsing never fails
+ */
+class TexParser {
+  private position = 0;
+
+  constructor(private source: string) {}
+
+  /**
+   * Parse the whole source; unbalanced closing braces are skipped
+   */
+  parse(): MathNode {
+    const nodes: MathNode[] = [];
+    while (this.peek() !== null) {
+      nodes.push(...this.parseList(token => token === '}'));
+      if (this.peek() === '}') {
+        this.next();
+      }
+    }
+    return row(nodes);
+  }
+
+  /**
+   * Parse items until the stop token (not consumed) or the end of the source
+   */
+  private parseList(stop: (token: string) => boolean): MathNode[] {
+    const nodes: MathNode[] = [];
+    for (;;) {
+      const token = this.peek();
+      if (token === null || stop(token)) {
+        return nodes;
+      }
+
+      if (token === '^' || token === '_' || token === "'") {
+        this.next();
+        const base = nodes.pop() ?? row([]);
+        const script = token === "'" ? { kind: 'op' as const, value: '′' } : this.parseArgument();
+        nodes.push(attachScript(base, token === '_' ? 'sub' : 'sup', script));
+        continue;
+      }
+
+      const node = this.parsePrimary();
+      if (node) {
+        nodes.push(node);
+      }
+    }
+  }
+
+  /**
+   * Argument of a command or script: a group, a command or a single character
+   */
+  private parseArgument(): MathNode {
+    this.skipSpaces();
+    if (/\d/.test(this.source[this.position] ?? '')) {
+      return { kind: 'number', value: this.source[this.position++] };
+    }
+    return this.parsePrimary() ?? row([]);
+  }
+
+  /**
+   * Next item: a group, a command, a number, a letter or an operator (null for tokens with no output)
+   */
+  private parsePrimary(): MathNode | null {
+    const token = this.next();
+    if (token === null || token === '}' || token === '&') {
+      return null;
+    }
+    if (token === '{') {
+      const children = this.parseList(next => next === '}');
+      this.next();
+      return row(children);
+    }
+    if (token.startsWith('\\')) {
+      return this.parseCommand(token.slice(1));
+    }
+    if (/^[\d.]+$/.test(token)) {
+      return { kind: 'number', value: token };
+    }
+    if (/^\p{L}$/u.test(token)) {
+      return { kind: 'ident', value: token };
+    }
+    if (token === '~') {
+      return { kind: 'space', width: SPACES[' '] };
+    }
+    return { kind: 'op', value: token === '-' ? '−' : token === '*' ? '∗' : token };
+  }
+
+  /**
+   * Command after its backslash; unknown commands are kept as text
+   */
+  private parseCommand(name: string): MathNode | null {
+    switch (name) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+      case 'cfrac':
+        return { kind: 'frac', num: this.parseArgument(), den: this.parseArgument(), line: true };
+      case 'binom':
+      case 'dbinom':
+      case 'tbinom':
+        return {
+          kind: 'fenced', open: '(', close: ')',
+          body: { kind: 'frac', num: this.parseArgument(), den: this.parseArgument(), line: false }
+        };
+      case 'sqrt': {
+        this.skipSpaces();
+        let index: MathNode | undefined;
+        if (this.source[this.position] === '[') {
+          this.position++;
+          index = row(this.parseList(token => token === ']'));
+          this.next();
+        }
+        return index ? { kind: 'sqrt', body: this.parseArgument(), index } : { kind: 'sqrt', body: this.parseArgument() };
+      }
+      case 'left': {
+        const open = this.readDelimiter();
+        const body = row(this.parseList(token => token === '\\right'));
+        this.next();
+        return { kind: 'fenced', open, close: this.readDelimiter(), body };
+      }
+      case 'right':
+        this.readDelimiter();
+        return null;
+      case 'big': case 'Big': case 'bigg': case 'Bigg':
+      case 'bigl': case 'Bigl': case 'biggl': case 'Biggl':
+      case 'bigr': case 'Bigr': case 'biggr': case 'Biggr': {
+        const delimiter = this.readDelimiter();
+        return delimiter ? { kind: 'op', value: delimiter, fence: true } : null;
+      }
+      case 'begin':
+        return this.parseEnvironment(this.readRawGroup());
+      case 'end':
+        this.readRawGroup();
+        return null;
+      case 'text': case 'textrm': case 'textnormal': case 'textit': case 'textbf': case 'mbox': case 'hbox':
+        return { kind: 'text', value: this.readRawGroup() };
+      case 'operatorname':
+        return { kind: 'ident', value: this.readRawGroup().trim(), variant: 'normal' };
+      case 'color':
+      case 'tag':
+      case 'label':
+        this.readRawGroup();
+        return null;
+      case 'textcolor':
+        this.readRawGroup();
+        return this.parseArgument();
+      case 'boxed':
+      case 'mathit':
+        return this.parseArgument();
+      case '\\':
+        return null;
+    }
+
+    if (name in VARIANT_COMMANDS) {
+      return applyVariant(this.parseArgument(), VARIANT_COMMANDS[name]);
+    }
+    if (name in ACCENTS) {
+      return { kind: 'accent', accent: name, body: this.parseArgument() };
+    }
+    if (name in SPACES) {
+      return { kind: 'space', width: SPACES[name] };
+    }
+    if (name === '!' || IGNORED_COMMANDS.has(name)) {
+      return null;
+    }
+    if (FUNCTION_NAMES.has(name) || LIMIT_FUNCTION_NAMES.has(name)) {
+      return { kind: 'ident', value: name, limits: LIMIT_FUNCTION_NAMES.has(name) };
+    }
+
+    const symbol = SYMBOLS[name];
+    if (symbol) {
+      const [value, kind] = symbol;
+      if (kind === 'ident') {
+        return { kind: 'ident', value };
+      }
+      return kind === 'op' ? { kind: 'op', value } : { kind: 'op', value, large: true, limits: kind === 'large' };
+    }
+
+    return { kind: 'text', value: `\\${name}` };
+  }
+
+  /**
+   * \begin{...} environment as a table, fenced for matrices and cases
+   */
+  private parseEnvironment(name: string): MathNode {
+    const environment = name.replace(/\*$/, '');
+    if (environment === 'array') {
+      this.readRawGroup();
+    }
+
+    const rows: MathNode[][] = [];
+    let cells: MathNode[] = [];
+    for (;;) {
+      cells.push(row(this.parseList(token => token === '&' || token === '\\\\' || token === '\\end')));
+      const token = this.next();
+      if (token === '&') {
+        continue;
+      }
+      rows.push(cells);
+      cells = [];
+      if (token !== '\\\\') {
+        if (token === '\\end') {
+          this.readRawGroup();
+        }
+        break;
+      }
+    }
+
+    // A trailing \\ leaves an empty last row
+    const last = rows[rows.length - 1];
+    if (rows.length > 1 && last.length === 1 && last[0].kind === 'row' && last[0].children.length === 0) {
+      rows.pop();
+    }
+
+    const table: MathNode = environment === 'cases'
+      ? { kind: 'table', rows, align: 'left' }
+      : { kind: 'table', rows };
+    const fences = ENVIRONMENT_FENCES[environment];
+    return fences ? { kind: 'fenced', open: fences[0], close: fences[1], body: table } : table;
+  }
+
+  /**
+   * Delimiter after \left, \right or \big: a character or a symbol command ("." is none)
+   */
+  private readDelimiter(): string {
+    const token = this.next();
+    if (token === null || token === '.') {
+      return '';
+    }
+    if (token.startsWith('\\')) {
+      return SYMBOLS[token.slice(1)]?.[0] ?? '';
+    }
+    return token;
+  }
+
+  /**
+   * Raw text of a {group} (nested braces included), or of the next character
+   */
+  private readRawGroup(): string {
+    this.skipSpaces();
+    if (this.source[this.position] !== '{') {
+      return this.next() ?? '';
+    }
+
+    let depth = 0;
+    const start = this.position + 1;
+    for (; this.position < this.source.length; this.position++) {
+      const char = this.source[this.position];
+      if (char === '\\') {
+        this.position++;
+      } else if (char === '{') {
+        depth++;
+      } else if (char === '}' && --depth === 0) {
+        return this.source.slice(start, this.position++);
+      }
+    }
+    return this.source.slice(start);
+  }
+
+  /**
+   * Skip whitespace, which TeX math mode ignores
+   */
+  private skipSpaces(): void {
+    while (/\s/.test(this.source[this.position] ?? '')) {
+      this.position++;
+    }
+  }
+
+  /**
+   * Next token, without consuming it
+   */
+  private peek(): string | null {
+    const start = this.position;
+    const token = this.next();
+    this.position = start;
+    return token;
+  }
+
+  /**
+   * Consume the next token: a command, a number or a single character (null at the end)
+   */
+  private next(): string | null {
+    this.skipSpaces();
+    if (this.position >= this.source.length) {
+      return null;
+    }
+
+    const rest = this.source.slice(this.position);
+    const token = /^\\(?:[A-Za-z]+|.)/s.exec(rest)?.[0]
+      ?? /^\d+(?:\.\d+)?/.exec(rest)?.[0]
+      ?? String.fromCodePoint(rest.codePointAt(0) as number);
+    this.position += token.length;
+    return token;
+  }
+}
+
+/**
+ * Attach a subscript or superscript to the node before it
+ */
+function attachScript(base: MathNode, position: 'sub' | 'sup', script: MathNode): MathNode {
+  if (base.kind === 'scripts' && !base[position]) {
+    return { ...base, [position]: script };
+  }
+  // Primes stack up: f'' is f with a ″ superscript
+  if (base.kind === 'scripts' && position === 'sup' && base.sup?.kind === 'op' && script.kind === 'op' && script.value === '′') {
+    return { ...base, sup: { kind: 'op', value: `${base.sup.value}′` } };
+  }
+  return { kind: 'scripts', base, [position]: script };
+}
+
+/**
+ * Set the variant of the letters and digits of a node
+ */
+function applyVariant(node: MathNode, variant: MathVariant): MathNode {
+  switch (node.kind) {
+    case 'ident':
+    case 'number':
+      return { ...node, variant };
+    case 'row':
+      return { kind: 'row', children: node.children.map(child => applyVariant(child, variant)) };
+    case 'scripts':
+      return { ...node, base: applyVariant(node.base, variant) };
+    default:
+      return node;
+  }
+}
+
+/**
+ * Letters and digits of a variant as Mathematical Alphanumeric Symbols
+ *
+ * @param text - Plain letters and digits
+ * @param variant - Variant to apply
+ * @param bmpOnly - Only use characters of the Basic Multilingual Plane (ℝ, ℕ...), for fonts without the others
+ */
+export function styleText(text: string, variant: MathVariant | undefined, bmpOnly = false): string {
+  const alphabet = variant ? VARIANT_ALPHABETS[variant] : undefined;
+  if (!alphabet) {
+    return text;
+  }
+
+  return Array.from(text).map(char => {
+    if (alphabet.exceptions[char]) {
+      return alphabet.exceptions[char];
+    }
+    if (bmpOnly) {
+      return char;
+    }
+    if (/[A-Z]/.test(char)) {
+      return String.fromCodePoint(alphabet.upper + char.charCodeAt(0) - 65);
+    }
+    if (/[a-z]/.test(char)) {
+      return String.fromCodePoint(alphabet.lower + char.charCodeAt(0) - 97);
+    }
+    if (/\d/.test(char) && alphabet.digit) {
+      return String.fromCodePoint(alphabet.digit + char.charCodeAt(0) - 48);
+    }
+    return char;
+  }).join('');
+}
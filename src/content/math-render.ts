@@ -0,0 +1,291 @@
+/**
+ * Math render - Formula trees as MathML and Unicode text
+ *
+ * Writes the formulas parsed by math-parser:
+ * - As MathML, for the HTML and PDF exports
+ * - As a line of Unicode text, for the vector PDF, which cannot draw MathML
+ */
+
+import { ACCENTS, FUNCTION_NAMES, LIMIT_FUNCTION_NAMES, MathNode, parseTex, styleText } from './math-parser';
+
+/**
+ * A piece of a formula written as Unicode text
+ */
+export interface MathTextPart {
+  text: string;
+  /** Single-letter variables are set in italics */
+  italic: boolean;
+}
+
+/**
+ * Operators written with spaces around them in text output
+ */
+const SPACED_OPERATORS = new Set(Array.from('=≠<>≤≥≈≡∼≃≅∝≪≫∈∉∋⊂⊃⊆⊇→←↔⇒⟹⇐⇔⟺↦⟶+−±∓×÷⋅∩∪∧∨⊕⊗'));
+
+/**
+ * Unicode superscript characters, for text output
+ */
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '−': '⁻', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', '′': '′', a: 'ᵃ', b: 'ᵇ', c: 'ᶜ', d: 'ᵈ',
+  e: 'ᵉ', f: 'ᶠ', g: 'ᵍ', h: 'ʰ', i: 'ⁱ', j: 'ʲ', k: 'ᵏ', l: 'ˡ', m: 'ᵐ', n: 'ⁿ', o: 'ᵒ', p: 'ᵖ', r: 'ʳ',
+  s: 'ˢ', t: 'ᵗ', u: 'ᵘ', v: 'ᵛ', w: 'ʷ', x: 'ˣ', y: 'ʸ', z: 'ᶻ', T: 'ᵀ'
+};
+
+/**
+ * Unicode subscript characters, for text output
+ */
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '−': '₋', '-': '₋', '=': '₌', '(': '₍', ')': '₎', a: 'ₐ', e: 'ₑ', h: 'ₕ', i: 'ᵢ', j: 'ⱼ',
+  k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', o: 'ₒ', p: 'ₚ', r: 'ᵣ', s: 'ₛ', t: 'ₜ', u: 'ᵤ', v: 'ᵥ', x: 'ₓ'
+};
+
+/**
+ * Convert TeX to a MathML <math> element
+ *
+ * @param tex - TeX source (without $ delimiters)
+ * @param display - Display (block) formula
+ * @returns MathML markup, with the TeX kept as an annotation
+ */
+export function texToMathML(tex: string, display = false): string {
+  const body = nodeToMathML(parseTex(tex), true);
+  return `<math${display ? ' display="block"' : ''}><semantics>${body}`
+    + `<annotation encoding="application/x-tex">${escapeXml(tex)}</annotation></semantics></math>`;
+}
+
+/**
+ * Write a node as MathML
+ *
+ * @param node - Formula node
+ * @param single - The node is a single argument, so a lone row needs no <mrow>
+ */
+function nodeToMathML(node: MathNode, single = false): string {
+  switch (node.kind) {
+    case 'ident': {
+      const normal = node.variant === 'normal' && Array.from(node.value).length === 1;
+      return `<mi${normal ? ' mathvariant="normal"' : ''}>${escapeXml(styleText(node.value, node.variant))}</mi>`;
+    }
+    case 'number':
+      return `<mn>${escapeXml(styleText(node.value, node.variant))}</mn>`;
+    case 'op': {
+      const attributes = (node.large ? ' largeop="true"' : '') + (node.fence ? ' fence="true" stretchy="true"' : '');
+      return `<mo${attributes}>${escapeXml(node.value)}</mo>`;
+    }
+    case 'text':
+      return `<mtext>${escapeXml(node.value)}</mtext>`;
+    case 'space':
+      return `<mspace width="${node.width}em"></mspace>`;
+    case 'row': {
+      const children = node.children.map(child => nodeToMathML(child)).join('');
+      return single && node.children.length === 1 ? children : `<mrow>${children}</mrow>`;
+    }
+    case 'frac':
+      return `<mfrac${node.line ? '' : ' linethickness="0"'}>${nodeToMathML(node.num, true)}${nodeToMathML(node.den, true)}</mfrac>`;
+    case 'sqrt':
+      return node.index
+        ? `<mroot>${nodeToMathML(node.body, true)}${nodeToMathML(node.index, true)}</mroot>`
+        : `<msqrt>${nodeToMathML(node.body)}</msqrt>`;
+    case 'scripts': {
+      const limits = (node.base.kind === 'op' || node.base.kind === 'ident') && node.base.limits;
+      const [sub, sup, both] = limits ? ['munder', 'mover', 'munderover'] : ['msub', 'msup', 'msubsup'];
+      const base = nodeToMathML(node.base, true);
+      if (node.sub && node.sup) {
+        return `<${both}>${base}${nodeToMathML(node.sub, true)}${nodeToMathML(node.sup, true)}</${both}>`;
+      }
+      const [tag, script] = node.sub ? [sub, node.sub] : [sup, node.sup as MathNode];
+      return `<${tag}>${base}${nodeToMathML(script, true)}</${tag}>`;
+    }
+    case 'fenced': {
+      const fence = (value: string) => (value ? `<mo fence="true" stretchy="true">${escapeXml(value)}</mo>` : '');
+      return `<mrow>${fence(node.open)}${nodeToMathML(node.body)}${fence(node.close)}</mrow>`;
+    }
+    case 'accent': {
+      const { mark, under } = ACCENTS[node.accent];
+      const [tag, attribute] = under ? ['munder', 'accentunder'] : ['mover', 'accent'];
+      return `<${tag} ${attribute}="true">${nodeToMathML(node.body, true)}<mo>${escapeXml(mark)}</mo></${tag}>`;
+    }
+    case 'table': {
+      const rows = node.rows.map(cells =>
+        `<mtr>${cells.map(cell => `<mtd>${nodeToMathML(cell)}</mtd>`).join('')}</mtr>`
+      ).join('');
+      return `<mtable${node.align ? ` columnalign="${node.align}"` : ''}>${rows}</mtable>`;
+    }
+  }
+}
+
+/**
+ * Write TeX as a line of Unicode text (x² + √(y + 1), ∑ᵢ aᵢ/n...)
+ * Used where MathML cannot be drawn (vector PDF)
+ *
+ * @param tex - TeX source
+ * @returns Text parts; single-letter variables are italic
+ */
+export function texToText(tex: string): MathTextPart[] {
+  const parts: MathTextPart[] = [];
+  nodeToText(parseTex(tex), parts);
+
+  const merged: MathTextPart[] = [];
+  parts.forEach(part => {
+    const last = merged[merged.length - 1];
+    if (last && last.italic === part.italic) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  });
+
+  merged.forEach(part => {
+    part.text = part.text.replace(/ {2,}/g, ' ');
+  });
+  if (merged.length > 0) {
+    merged[0].text = merged[0].text.trimStart();
+    merged[merged.length - 1].text = merged[merged.length - 1].text.trimEnd();
+  }
+  return merged.filter(part => part.text);
+}
+
+/**
+ * Append a node as text parts
+ *
+ * @param node - Formula node
+ * @param parts - Parts written so far
+ * @param first - The node starts its row, so a leading sign is not spaced (−x, not " − x")
+ */
+function nodeToText(node: MathNode, parts: MathTextPart[], first = true): void {
+  const push = (text: string, italic = false) => parts.push({ text, italic });
+
+  switch (node.kind) {
+    case 'ident':
+      if (FUNCTION_NAMES.has(node.value) || LIMIT_FUNCTION_NAMES.has(node.value)) {
+        push(`${node.value} `);
+      } else {
+        push(styleText(node.value, node.variant, true), node.value.length === 1 && /\p{L}/u.test(node.value) && !node.variant);
+      }
+      break;
+    case 'number':
+      push(styleText(node.value, node.variant, true));
+      break;
+    case 'op':
+      if (node.value === ',' || node.value === ';') {
+        push(`${node.value} `);
+      } else if (node.large) {
+        push(`${node.value} `);
+      } else {
+        push(SPACED_OPERATORS.has(node.value) && !(first && '+−±'.includes(node.value)) ? ` ${node.value} ` : node.value);
+      }
+      break;
+    case 'text':
+      push(node.value);
+      break;
+    case 'space':
+      push(' ');
+      break;
+    case 'row':
+      node.children.forEach((child, index) => nodeToText(child, parts, index === 0));
+      break;
+    case 'frac':
+      if (node.line) {
+        nodeToGroupedText(node.num, parts);
+        push('/');
+        nodeToGroupedText(node.den, parts);
+      } else {
+        nodeToText(node.num, parts);
+        push(' ');
+        nodeToText(node.den, parts);
+      }
+      break;
+    case 'sqrt':
+      if (node.index) {
+        push(toScript(plainText(node.index), SUPERSCRIPTS, '^'));
+      }
+      push('√');
+      nodeToGroupedText(node.body, parts);
+      break;
+    case 'scripts': {
+      nodeToText(node.base, parts);
+      // Large operators and functions keep their scripts next to the symbol: ∑ᵢ x, lim_(x → 0) f
+      const last = parts[parts.length - 1];
+      const spaced = (node.base.kind === 'ident' || (node.base.kind === 'op' && !!node.base.large))
+        && !!last?.text.endsWith(' ');
+      if (spaced) {
+        parts[parts.length - 1] = { ...last, text: last.text.trimEnd() };
+      }
+      if (node.sub) {
+        push(toScript(plainText(node.sub), SUBSCRIPTS, '_'));
+      }
+      if (node.sup) {
+        push(toScript(plainText(node.sup), SUPERSCRIPTS, '^'));
+      }
+      if (spaced) {
+        push(' ');
+      }
+      break;
+    }
+    case 'fenced':
+      push(node.open);
+      nodeToText(node.body, parts);
+      push(node.close);
+      break;
+    case 'accent': {
+      const { combining } = ACCENTS[node.accent];
+      const text = plainText(node.body);
+      push(Array.from(text).map(char => char + combining).join(''), text.length === 1 && /\p{L}/u.test(text));
+      break;
+    }
+    case 'table':
+      node.rows.forEach((cells, rowIndex) => {
+        if (rowIndex > 0) {
+          push('; ');
+        }
+        cells.forEach((cell, cellIndex) => {
+          if (cellIndex > 0) {
+            push(', ');
+          }
+          nodeToText(cell, parts);
+        });
+      });
+      break;
+  }
+}
+
+/**
+ * Write a node, in parentheses when it has several terms (fraction parts, radicands)
+ */
+function nodeToGroupedText(node: MathNode, parts: MathTextPart[]): void {
+  const grouped = (node.kind === 'row' && node.children.length > 1) || node.kind === 'frac';
+  if (grouped) {
+    parts.push({ text: '(', italic: false });
+  }
+  nodeToText(node, parts);
+  if (grouped) {
+    parts.push({ text: ')', italic: false });
+  }
+}
+
+/**
+ * A node as a single string, for scripts, radical indices and accents
+ */
+function plainText(node: MathNode): string {
+  const parts: MathTextPart[] = [];
+  nodeToText(node, parts);
+  return parts.map(part => part.text).join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Superscript or subscript text: Unicode script characters when they exist, otherwise ^(...)
+ */
+function toScript(text: string, characters: Record<string, string>, marker: string): string {
+  const chars = Array.from(text.replace(/ /g, ''));
+  if (chars.every(char => characters[char])) {
+    return chars.map(char => characters[char]).join('');
+  }
+  return chars.length === 1 ? `${marker}${text}` : `${marker}(${text})`;
+}
+
+/**
+ * Escape text for XML content and attribute values
+ */
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,363 @@
+/**
+ * Math - Formulas in Gemini responses
+ *
+ * Gemini renders TeX formulas with a math renderer (KaTeX, MathJax or its own
+ * data-math elements) whose HTML is unreadable once it leaves the page. This module:
+ * - Recovers the TeX source of rendered formulas and rewrites them as canonical markers:
+ *   <span class="gemini-math" data-tex="...">...</span>
+ *   (display formulas: <div class="gemini-math" data-tex="..." data-display="true">)
+ * - Renders the markers as MathML for the HTML and PDF exports (TeX is parsed by math-parser
+ *   and written by math-render)
+ * - Builds the @font-face of the bundled math font for exported documents
+ */
+
+import { Logger } from '../utils/logger';
+import { FUNCTION_NAMES, LIMIT_FUNCTION_NAMES, SYMBOLS } from './math-parser';
+import { texToMathML } from './math-render';
+
+/**
+ * Class of the canonical math markers in extracted message HTML
+ */
+export const MATH_MARKER_CLASS = 'gemini-math';
+
+/**
+ * Bundled math font (shipped in the extension's fonts/ folder)
+ */
+export const MATH_FONT_FILE = 'DejaVuMathTeXGyre.ttf';
+
+/**
+ * Font family of the bundled math font in exported documents
+ */
+export const MATH_FONT_FAMILY = 'DejaVu Math TeX Gyre';
+
+/**
+ * Rendered formulas in the forms math renderers produce, outermost first
+ * MathJax 2 keeps the TeX in a <script> next to its output
+ */
+const MATH_SELECTOR = [
+  '[data-math]', '[data-tex]', '[data-latex]', '.katex-display', '.katex', 'mjx-container',
+  '.MathJax_Display', '.MathJax', 'math', 'script[type^="math/tex"]'
+].join(', ');
+
+/**
+ * Output MathJax 2 renders before the <script> holding the TeX
+ */
+const MATHJAX2_OUTPUT_SELECTOR = '.MathJax_Preview, .MathJax, .MathJax_Display, .MathJax_SVG, .MathJax_CHTML';
+
+/**
+ * Attributes renderers keep the TeX source in
+ */
+const TEX_ATTRIBUTES = ['data-math', 'data-tex', 'data-latex'];
+
+/**
+ * Styles of rendered formulas, shared by the PDF and HTML exports
+ */
+export const MATH_STYLES = `
+  .message-content math {
+    font-family: '${MATH_FONT_FAMILY}', 'STIX Two Math', 'Cambria Math', math;
+  }
+
+  .message-content div.${MATH_MARKER_CLASS} {
+    margin: 10px 0;
+    overflow-x: auto;
+    page-break-inside: avoid;
+  }
+`;
+
+/**
+ * Styles that make formulas visible to html2canvas, which only paints CSS boxes and text:
+ * fraction bars and radical overlines are drawn as borders (see prepareMathForCanvas)
+ */
+const CANVAS_MATH_STYLES = `
+  .message-content mfrac.canvas-fraction > :first-child {
+    padding-bottom: 0.1em;
+    border-bottom: 0.06em solid currentColor;
+  }
+
+  .message-content .canvas-radicand {
+    border-top: 0.06em solid currentColor;
+  }
+`;
+
+/**
+ * Rewrite the formulas of a response as canonical markers holding their TeX
+ * Formulas whose TeX cannot be recovered are left as they are
+ *
+ * @param html - Response HTML
+ * @returns HTML with canonical markers
+ */
+export function normalizeMathMarkers(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const nodes = Array.from(container.querySelectorAll<HTMLElement>(MATH_SELECTOR))
+    .filter(node => !node.classList.contains(MATH_MARKER_CLASS));
+  if (nodes.length === 0) {
+    return html;
+  }
+
+  let changed = false;
+  nodes.forEach(node => {
+    // Nodes inside a formula that was already replaced are gone
+    if (!container.contains(node)) {
+      return;
+    }
+
+    const formula = readFormula(node);
+    if (!formula) {
+      return;
+    }
+
+    if (node.matches('script')) {
+      let previous = node.previousElementSibling;
+      while (previous && previous.matches(MATHJAX2_OUTPUT_SELECTOR)) {
+        const output = previous;
+        previous = previous.previousElementSibling;
+        output.remove();
+      }
+    }
+
+    node.replaceWith(createMarker(formula.tex, formula.display));
+    changed = true;
+  });
+
+  return changed ? container.innerHTML : html;
+}
+
+/**
+ * Replace the math markers of message HTML with MathML
+ *
+ * @param html - Message HTML with canonical markers
+ * @returns HTML with rendered formulas (unchanged if it has none)
+ */
+export function renderMathMarkers(html: string): string {
+  if (!html.includes(MATH_MARKER_CLASS)) {
+    return html;
+  }
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const markers = container.querySelectorAll<HTMLElement>(`.${MATH_MARKER_CLASS}[data-tex]`);
+  if (markers.length === 0) {
+    return html;
+  }
+
+  markers.forEach(marker => {
+    marker.innerHTML = texToMathML(marker.dataset.tex as string, marker.dataset.display === 'true');
+  });
+  return container.innerHTML;
+}
+
+/**
+ * Rewrite rendered MathML so html2canvas can draw it: fraction bars and radicals
+ * are painted by the browser's MathML layout, which html2canvas does not see
+ *
+ * @param html - Document with MathML formulas
+ * @returns Document for the raster PDF, with the styles it needs
+ */
+export function prepareMathForCanvas(html: string): string {
+  if (!html.includes('<math')) {
+    return html;
+  }
+
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+
+  doc.querySelectorAll('mfrac').forEach(fraction => {
+    if (fraction.getAttribute('linethickness') !== '0') {
+      fraction.setAttribute('linethickness', '0');
+      fraction.classList.add('canvas-fraction');
+    }
+  });
+
+  // The radical sign is a glyph html2canvas can draw; the bar over the radicand becomes a border
+  doc.querySelectorAll('msqrt').forEach(root => {
+    const radicand = doc.createElementNS(root.namespaceURI, 'mrow');
+    radicand.classList.add('canvas-radicand');
+    radicand.append(...Array.from(root.childNodes));
+
+    const sign = doc.createElementNS(root.namespaceURI, 'mo');
+    sign.textContent = '√';
+
+    const replacement = doc.createElementNS(root.namespaceURI, 'mrow');
+    replacement.append(sign, radicand);
+    root.replaceWith(replacement);
+  });
+
+  const style = doc.createElement('style');
+  style.textContent = CANVAS_MATH_STYLES;
+  doc.head.appendChild(style);
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
+
+/**
+ * Math font @font-face, loaded once
+ */
+let mathFontFace: Promise<string | null> | null = null;
+
+/**
+ * CSS @font-face embedding the bundled math font as a data URI
+ * Loaded once; exports fall back to the system math fonts when it cannot be read
+ *
+ * @param loadFont - Reads a bundled font file
+ * @returns The @font-face rule, or null if the font is not available
+ */
+export function loadMathFontFace(loadFont: (file: string) => Promise<ArrayBuffer>): Promise<string | null> {
+  if (!mathFontFace) {
+    mathFontFace = loadFont(MATH_FONT_FILE)
+      .then(data => `@font-face { font-family: '${MATH_FONT_FAMILY}'; src: url(data:font/ttf;base64,${toBase64(data)}) format('truetype'); }`)
+      .catch(error => {
+        Logger.warn('Math font could not be loaded, using system fonts', error);
+        mathFontFace = null;
+        return null;
+      });
+  }
+  return mathFontFace;
+}
+
+/**
+ * Canonical marker of a formula (a <div> for display formulas, a <span> otherwise)
+ */
+function createMarker(tex: string, display: boolean): HTMLElement {
+  const marker = document.createElement(display ? 'div' : 'span');
+  marker.className = MATH_MARKER_CLASS;
+  marker.dataset.tex = tex;
+  if (display) {
+    marker.dataset.display = 'true';
+  }
+  marker.textContent = tex;
+  return marker;
+}
+
+/**
+ * TeX of a rendered formula: from data attributes, a TeX annotation, a MathJax 2 script,
+ * or rebuilt from its MathML
+ */
+function readFormula(node: HTMLElement): { tex: string; display: boolean } | null {
+  let tex = TEX_ATTRIBUTES.map(name => node.getAttribute(name)).find(value => value?.trim()) ?? null;
+
+  if (tex === null && node.matches('script')) {
+    tex = node.textContent;
+  }
+  if (tex === null) {
+    tex = node.querySelector('annotation[encoding="application/x-tex"]')?.textContent ?? null;
+  }
+  if (tex === null) {
+    const math = node.matches('math') ? node : node.querySelector('math');
+    tex = math ? mathMLToTex(math) : null;
+  }
+
+  tex = tex?.trim() ?? null;
+  if (!tex) {
+    return null;
+  }
+  return { tex, display: isDisplayFormula(node) };
+}
+
+/**
+ * Whether a rendered formula is a display (block) formula
+ */
+function isDisplayFormula(node: HTMLElement): boolean {
+  if (node.matches('script')) {
+    return /mode\s*=\s*display/.test(node.getAttribute('type') || '');
+  }
+  if (node.matches('.katex-display, .MathJax_Display, .math-block, .math-display, [data-display="true"]')) {
+    return true;
+  }
+  const display = node.getAttribute('display') ?? node.querySelector('math')?.getAttribute('display');
+  if (display === 'true' || display === 'block') {
+    return true;
+  }
+  return node.tagName.toLowerCase() === 'div' && TEX_ATTRIBUTES.some(name => node.hasAttribute(name));
+}
+
+/**
+ * Rebuild TeX from MathML (MathJax 3 keeps only MathML for assistive technology)
+ */
+function mathMLToTex(element: Element): string {
+  const children = Array.from(element.children);
+  const child = (index: number) => (children[index] ? group(mathMLToTex(children[index])) : '{}');
+  const all = () => children.map(mathMLToTex).join('');
+
+  switch (element.tagName.toLowerCase()) {
+    case 'mi':
+    case 'mn':
+    case 'mo':
+      return symbolToTex(element.textContent?.trim() || '');
+    case 'mtext':
+      return `\\text{${element.textContent || ''}}`;
+    case 'mspace':
+      return '\\,';
+    case 'msup':
+      return `${child(0)}^${child(1)}`;
+    case 'msub':
+    case 'munder':
+      return `${child(0)}_${child(1)}`;
+    case 'mover':
+      return `${child(0)}^${child(1)}`;
+    case 'msubsup':
+    case 'munderover':
+      return `${child(0)}_${child(1)}^${child(2)}`;
+    case 'mfrac':
+      return `\\frac{${children[0] ? mathMLToTex(children[0]).trim() : ''}}{${children[1] ? mathMLToTex(children[1]).trim() : ''}}`;
+    case 'msqrt':
+      return `\\sqrt{${all()}}`;
+    case 'mroot':
+      return `\\sqrt[${mathMLToTex(children[1])}]${child(0)}`;
+    case 'mtable':
+      return `\\begin{matrix}${children.map(tableRow =>
+        Array.from(tableRow.children).map(mathMLToTex).join(' & ')
+      ).join(' \\\\ ')}\\end{matrix}`;
+    case 'semantics':
+      return children[0] ? mathMLToTex(children[0]) : '';
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    default:
+      return all();
+  }
+}
+
+/**
+ * TeX command of each symbol character, built on first use
+ */
+let texCommands: Map<string, string> | null = null;
+
+/**
+ * TeX of the text of a MathML token: function names and symbols as commands
+ */
+function symbolToTex(text: string): string {
+  if (!texCommands) {
+    texCommands = new Map();
+    Object.entries(SYMBOLS).forEach(([name, [char]]) => {
+      if (/^[A-Za-z]+$/.test(name) && !texCommands?.has(char)) {
+        texCommands?.set(char, `\\${name} `);
+      }
+    });
+    texCommands.set('−', '-');
+  }
+  if (FUNCTION_NAMES.has(text) || LIMIT_FUNCTION_NAMES.has(text)) {
+    return `\\${text} `;
+  }
+  return Array.from(text).map(char => texCommands?.get(char) ?? char).join('');
+}
+
+/**
+ * Script or argument: single characters and commands as they are, anything else in braces
+ */
+function group(tex: string): string {
+  const trimmed = tex.trim();
+  return /^(?:.|\\[A-Za-z]+)$/su.test(trimmed) ? trimmed : `{${trimmed}}`;
+}
+
+/**
+ * Base64 of binary data, converted in chunks to stay under the argument limit
+ */
+function toBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -9,8 +9,9 @@
  */
 
 import { Logger } from '../utils/logger';
-import { ExpansionError } from '../utils/error-handler';
+import { ExpansionError, ExportCancelledError, throwIfCancelled } from '../utils/error-handler';
 import { getCollapsedMessages } from '../utils/shadow-dom-utils';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
 
 /**
  * Result of expanding all messages
@@ -44,10 +45,21 @@ export class MessageExpander {
   // Track active observers for cleanup
   private activeObservers: Set<MutationObserver> = new Set();
 
+  private progress = new ProgressEmitter();
+
   constructor() {
     Logger.info('MessageExpander initialized');
   }
 
+  /**
+   * Listen for the progress of expandAllMessages ('expanding' stage)
+   * @param listener - Called after each message
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
   /**
    * Find all collapsed messages in the chat container
    *
@@ -182,11 +194,13 @@ export class MessageExpander {
    * Preserves scroll position and handles errors gracefully
    * For large conversations (>200 messages), processes in batches using requestIdleCallback
    *
+   * @param signal - Aborting it stops before the next message (the scroll position is still restored)
    * @returns Promise that resolves with ExpandResult containing statistics
+   * @throws ExportCancelledError if the signal is aborted
    *
    * Requirements: 2.1, 2.2, 2.3, 2.4, 2.5, 7.4
    */
-  async expandAllMessages(): Promise<ExpandResult> {
+  async expandAllMessages(signal?: AbortSignal): Promise<ExpandResult> {
     Logger.info('Starting to expand all messages');
 
     const result: ExpandResult = {
@@ -196,15 +210,16 @@ export class MessageExpander {
       errors: []
     };
 
-    try {
-      // Save current scroll position
-      const scrollX = window.scrollX;
-      const scrollY = window.scrollY;
-      Logger.info(`Saved scroll position: (${scrollX}, ${scrollY})`);
+    // Save current scroll position
+    const scrollX = window.scrollX;
+    const scrollY = window.scrollY;
+    Logger.info(`Saved scroll position: (${scrollX}, ${scrollY})`);
 
+    try {
       // Find all collapsed messages
       const collapsedMessages = this.findCollapsedMessages();
       result.totalFound = collapsedMessages.length;
+      this.progress.emit('expanding', 0, result.totalFound);
 
       if (collapsedMessages.length === 0) {
         Logger.info('No collapsed messages found');
@@ -214,10 +229,10 @@ export class MessageExpander {
       // Use chunking for large conversations
       if (collapsedMessages.length > this.CHUNKING_THRESHOLD) {
         Logger.info(`Large conversation detected (${collapsedMessages.length} messages), using chunked processing`);
-        await this.expandMessagesInChunks(collapsedMessages, result);
+        await this.expandMessagesInChunks(collapsedMessages, result, signal);
       } else {
         // Process all messages sequentially for smaller conversations
-        await this.expandMessagesSequentially(collapsedMessages, result);
+        await this.expandMessagesSequentially(collapsedMessages, result, signal);
       }
 
       // Restore scroll position
@@ -227,6 +242,12 @@ export class MessageExpander {
       Logger.info(`Expansion complete: ${result.expanded}/${result.totalFound} successful, ${result.failed} failed`);
 
     } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        window.scrollTo(scrollX, scrollY);
+        Logger.info(`Expansion cancelled after ${result.expanded + result.failed}/${result.totalFound} messages`);
+        throw error;
+      }
+
       Logger.error('Error in expandAllMessages', error);
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       result.errors.push(errorMessage);
@@ -240,12 +261,15 @@ export class MessageExpander {
    *
    * @param messages - Array of message elements to expand
    * @param result - ExpandResult object to update with statistics
+   * @param signal - Checked before each message
    */
   private async expandMessagesSequentially(
     messages: HTMLElement[],
-    result: ExpandResult
+    result: ExpandResult,
+    signal?: AbortSignal
   ): Promise<void> {
     for (const message of messages) {
+      throwIfCancelled(signal);
       try {
         await this.expandMessage(message);
         result.expanded++;
@@ -256,6 +280,7 @@ export class MessageExpander {
         Logger.warn(`Failed to expand message: ${errorMessage}`);
         // Continue with next message (graceful error handling)
       }
+      this.progress.emit('expanding', result.expanded + result.failed, result.totalFound);
     }
   }
 
@@ -264,12 +289,14 @@ export class MessageExpander {
    *
    * @param messages - Array of message elements to expand
    * @param result - ExpandResult object to update with statistics
+   * @param signal - Checked before each message
    *
    * Requirements: 7.4
    */
   private async expandMessagesInChunks(
     messages: HTMLElement[],
-    result: ExpandResult
+    result: ExpandResult,
+    signal?: AbortSignal
   ): Promise<void> {
     // Split messages into batches
     const batches: HTMLElement[][] = [];
@@ -289,6 +316,7 @@ export class MessageExpander {
 
       // Process all messages in the current batch
       for (const message of batch) {
+        throwIfCancelled(signal);
         try {
           await this.expandMessage(message);
           result.expanded++;
@@ -299,6 +327,7 @@ export class MessageExpander {
           Logger.warn(`Failed to expand message: ${errorMessage}`);
           // Continue with next message (graceful error handling)
         }
+        this.progress.emit('expanding', result.expanded + result.failed, result.totalFound);
       }
     }
   }
@@ -0,0 +1,267 @@
+/**
+ * Page templates - Running header and footer of PDF pages
+ *
+ * A template is plain text with tokens in braces, like filename templates, e.g.
+ * `{title}|{label}|{page} / {pages}`. "|" splits it into up to three sections:
+ * one section is centered, two are aligned left and right, three left, center
+ * and right. An empty template draws nothing. This module:
+ * - Checks and renders templates
+ * - Draws the header and footer on every page of a jsPDF document (both PDF renderers)
+ */
+
+import type { jsPDF } from 'jspdf';
+import { FilenameTokenInfo, formatDate, splitToken } from './filename-template';
+import { PDFOptions } from './pdf-options';
+import { classificationLabel } from './classification-options';
+import { formatDateTime, t } from '../utils/i18n';
+
+/**
+ * Header used when none is configured: the confidentiality label, if any
+ */
+export const DEFAULT_PAGE_HEADER = '{label}';
+
+/**
+ * Footer used when none is configured: "page / pages"
+ */
+export const DEFAULT_PAGE_FOOTER = '{page} / {pages}';
+
+/**
+ * Supported tokens
+ */
+export const PAGE_TEMPLATE_TOKENS: ReadonlyArray<FilenameTokenInfo> = [
+  { token: '{title}', descriptionKey: 'tokenTitle' },
+  { token: '{date}', descriptionKey: 'tokenPageDate' },
+  { token: '{page}', descriptionKey: 'tokenPage' },
+  { token: '{pages}', descriptionKey: 'tokenPages' },
+  { token: '{label}', descriptionKey: 'tokenLabel' }
+];
+
+/**
+ * Values a template can refer to
+ */
+export interface PageTemplateContext {
+  /** Conversation title */
+  title: string;
+
+  /** Export time */
+  date: Date;
+
+  /** Confidentiality label (empty when not set) */
+  label: string;
+
+  /** Page number (1-based) */
+  page: number;
+
+  /** Number of pages */
+  pages: number;
+}
+
+/**
+ * Rendered text of a header or footer, by alignment
+ */
+export interface PageSections {
+  left: string;
+  center: string;
+  right: string;
+}
+
+/**
+ * Font and margins of the pages the header and footer are drawn on
+ */
+export interface PageTemplateLayout {
+  /** jsPDF font family, registered by the caller */
+  font: string;
+
+  /** Font size in pt */
+  fontSize: number;
+
+  /** Page margins in mm; the header and footer are centered in the top and bottom margins */
+  margin: { top: number; right: number; bottom: number; left: number };
+}
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+const DATE_PART_PATTERN = /YYYY|YY|MM|DD|HH|mm|ss/;
+const PLAIN_TOKENS = new Set(['title', 'page', 'pages', 'label']);
+const MAX_SECTIONS = 3;
+const TEXT_COLOR = '#888888';
+
+/**
+ * Header and footer templates of a PDF, with the defaults filled in
+ *
+ * @param options - PDF options
+ * @returns Templates to pass to drawPageTemplates
+ */
+export function pageTemplates(options: PDFOptions): { header: string; footer: string } {
+  return {
+    header: options.header ?? DEFAULT_PAGE_HEADER,
+    footer: options.footer ?? DEFAULT_PAGE_FOOTER
+  };
+}
+
+/**
+ * Token values shared by all pages of a PDF
+ * The label defaults to the classification of the document
+ *
+ * @param options - PDF options
+ * @param title - Conversation title
+ * @returns Context to pass to drawPageTemplates
+ */
+export function pageTemplateContext(options: PDFOptions, title: string): Omit<PageTemplateContext, 'page' | 'pages'> {
+  return {
+    title,
+    date: new Date(),
+    label: options.confidentialityLabel ?? (options.classification ? classificationLabel(options.classification) : '')
+  };
+}
+
+/**
+ * Check a template for mistakes
+ * Error messages are in the current language
+ *
+ * @param template - Template to check (empty is valid and draws nothing)
+ * @returns Error messages (empty if the template is valid)
+ */
+export function validatePageTemplate(template: string): string[] {
+  const errors: string[] = [];
+
+  if (template.replace(TOKEN_PATTERN, '').match(/[{}]/)) {
+    errors.push(t('templateUnbalanced'));
+  }
+
+  for (const [, body] of template.matchAll(TOKEN_PATTERN)) {
+    const [name, argument] = splitToken(body);
+
+    if (name === 'date') {
+      if (argument !== undefined && !DATE_PART_PATTERN.test(argument)) {
+        errors.push(t('templatePageInvalidDate', `{${body}}`));
+      }
+    } else if (PLAIN_TOKENS.has(name)) {
+      if (argument !== undefined) {
+        errors.push(t('templateUnexpectedArgument', `{${name}}`));
+      }
+    } else {
+      errors.push(t('templateUnknownToken', `{${body}}`));
+    }
+  }
+
+  if (template.split('|').length > MAX_SECTIONS) {
+    errors.push(t('templateTooManySections'));
+  }
+
+  return errors;
+}
+
+/**
+ * Replace the tokens of a template and split it into its sections
+ *
+ * @param template - Valid template
+ * @param context - Token values
+ * @returns Text of each section (empty strings where there is none)
+ */
+export function renderPageTemplate(template: string, context: PageTemplateContext): PageSections {
+  const sections = template.split('|').map(section => section
+    .replace(TOKEN_PATTERN, (match, body: string) => {
+      const [name, argument] = splitToken(body);
+
+      switch (name) {
+        case 'title':
+          return context.title;
+        case 'date':
+          return argument !== undefined ? formatDate(context.date, argument) : formatDateTime(context.date);
+        case 'page':
+          return String(context.page);
+        case 'pages':
+          return String(context.pages);
+        case 'label':
+          return context.label;
+        default:
+          return match;
+      }
+    })
+    .trim());
+
+  switch (sections.length) {
+    case 1:
+      return { left: '', center: sections[0], right: '' };
+    case 2:
+      return { left: sections[0], center: '', right: sections[1] };
+    default:
+      return { left: sections[0], center: sections[1], right: sections[2] };
+  }
+}
+
+/**
+ * Check whether text has characters outside Latin-1, which the standard PDF
+ * fonts cannot draw
+ *
+ * @param text - Text to draw
+ * @returns True if a Unicode font is needed
+ */
+export function needsUnicodeFont(text: string): boolean {
+  return /[^\u0000-\u00ff]/.test(text);
+}
+
+/**
+ * Check whether the header or footer has text outside Latin-1
+ * The standard PDF fonts cannot draw it, so the caller has to embed a Unicode font
+ *
+ * @param templates - Header and footer templates
+ * @param context - Token values shared by all pages
+ * @returns True if a Unicode font is needed
+ */
+export function pageTemplatesNeedUnicode(
+  templates: { header: string; footer: string },
+  context: Omit<PageTemplateContext, 'page' | 'pages'>
+): boolean {
+  return [templates.header, templates.footer].some(template => {
+    const sections = renderPageTemplate(template, { ...context, page: 1, pages: 1 });
+    return needsUnicodeFont(sections.left + sections.center + sections.right);
+  });
+}
+
+/**
+ * Draw the header and footer on every page of a document
+ *
+ * @param doc - Finished document (all pages added)
+ * @param templates - Header and footer templates
+ * @param context - Token values shared by all pages
+ * @param layout - Font and page margins
+ */
+export function drawPageTemplates(
+  doc: jsPDF,
+  templates: { header: string; footer: string },
+  context: Omit<PageTemplateContext, 'page' | 'pages'>,
+  layout: PageTemplateLayout
+): void {
+  if (!templates.header.trim() && !templates.footer.trim()) {
+    return;
+  }
+
+  const pages = doc.getNumberOfPages();
+  const width = doc.internal.pageSize.getWidth();
+  const height = doc.internal.pageSize.getHeight();
+  const left = layout.margin.left;
+  const right = width - layout.margin.right;
+
+  const drawSections = (sections: PageSections, y: number) => {
+    if (sections.left) {
+      doc.text(sections.left, left, y, { baseline: 'middle' });
+    }
+    if (sections.center) {
+      doc.text(sections.center, (left + right) / 2, y, { baseline: 'middle', align: 'center' });
+    }
+    if (sections.right) {
+      doc.text(sections.right, right, y, { baseline: 'middle', align: 'right' });
+    }
+  };
+
+  for (let page = 1; page <= pages; page++) {
+    doc.setPage(page);
+    doc.setFont(layout.font, 'normal');
+    doc.setFontSize(layout.fontSize);
+    doc.setTextColor(TEXT_COLOR);
+
+    drawSections(renderPageTemplate(templates.header, { ...context, page, pages }), layout.margin.top / 2);
+    drawSections(renderPageTemplate(templates.footer, { ...context, page, pages }), height - layout.margin.bottom / 2);
+  }
+}
@@ -2,57 +2,59 @@
  * PDFGenerator - Handles PDF generation from chat content
  * 
  * This module is responsible for:
- * - Converting HTML content to PDF using html2pdf.js
+ * - Converting HTML content to PDF using html2pdf.js (raster renderer)
+ * - Delegating to VectorPDFRenderer for text-based PDFs (vector renderer)
  * - Applying styling to ensure readable and professional PDFs
+ * - Listing the user's questions in a table of contents, with page numbers
+ *   and bookmarks to every question in the PDF
+ * - Drawing the running header and footer (page templates) and the classification watermark on every page
  * - Triggering PDF downloads with appropriate filenames
  */
 
 import html2pdf from 'html2pdf.js';
+import type { jsPDF } from 'jspdf';
 import { ChatContent } from './content-extractor';
+import { VectorPDFRenderer, embedTextFont, loadBundledFont } from './vector-pdf-renderer';
+import { PDFOptions, DEFAULT_PDF_OPTIONS } from './pdf-options';
+import { ExportProgressListener, ProgressEmitter } from './export-progress';
+import { linkCitationMarkers, renderCitationList } from './citations';
+import { renderAttachmentList } from './attachments';
+import { codeThemeStyles, highlightCodeBlocks } from './syntax-highlighter';
+import { MATH_STYLES, loadMathFontFace, prepareMathForCanvas, renderMathMarkers } from './math';
+import { DIAGRAM_STYLES, DiagramSource, renderDiagramAppendix, renderDiagramBlocks } from './diagrams';
+import { TocEntry, messageAnchor, prepareTableOfContentsForCanvas, tableOfContentsEntries } from './table-of-contents';
+import {
+  drawPageTemplates,
+  needsUnicodeFont,
+  pageTemplateContext,
+  pageTemplates,
+  pageTemplatesNeedUnicode
+} from './page-template';
+import { drawClassificationWatermark } from './classification';
+import { classificationLabel } from './classification-options';
+import { ExportCancelledError, throwIfCancelled } from '../utils/error-handler';
+import { formatDateTime, getLanguage, t } from '../utils/i18n';
+
+export type { PDFOptions } from './pdf-options';
 
 /**
- * Configuration options for PDF generation
+ * Page size computed by html2pdf (in mm), with the jsPDF scale factor k
  */
-export interface PDFOptions {
-  /** Page format (A4 or Letter) */
-  format: 'A4' | 'Letter';
-  
-  /** Page margins */
-  margin: {
-    top: string;    // e.g., '20mm'
-    right: string;
-    bottom: string;
-    left: string;
-  };
-  
-  /** Typography settings */
-  fontSize: string;      // e.g., '12pt'
-  fontFamily: string;    // e.g., 'Arial, sans-serif'
-  lineHeight: number;    // e.g., 1.5
-  
-  /** Message background colors */
-  userMessageBg: string;    // e.g., '#e3f2fd'
-  geminiMessageBg: string;  // e.g., '#f5f5f5'
+interface Html2PdfPageSize {
+  k: number;
+  inner: { width: number; height: number };
 }
 
 /**
- * Default PDF generation options
- * Based on design document specifications for optimal readability
+ * Where the user turns landed in a PDF laid out by html2pdf
  */
-const DEFAULT_PDF_OPTIONS: PDFOptions = {
-  format: 'A4',
-  margin: {
-    top: '20mm',
-    right: '20mm',
-    bottom: '20mm',
-    left: '20mm'
-  },
-  fontSize: '12pt',
-  fontFamily: 'Arial, Helvetica, sans-serif',
-  lineHeight: 1.5,
-  userMessageBg: '#e3f2fd',
-  geminiMessageBg: '#f5f5f5'
-};
+interface TurnLayout {
+  /** Bookmark of every user turn */
+  turns: Array<{ label: string; page: number }>;
+
+  /** Areas of the table of contents that link to the page of a turn */
+  links: Array<{ page: number; x: number; y: number; w: number; h: number; target: number }>;
+}
 
 /**
  * PDFGenerator class
@@ -63,6 +65,8 @@ const DEFAULT_PDF_OPTIONS: PDFOptions = {
 export class PDFGenerator {
   private options: PDFOptions;
   private objectUrls: Set<string> = new Set();
+  private vectorRenderer: VectorPDFRenderer | null = null;
+  private progress = new ProgressEmitter();
 
   /**
    * Creates a new PDFGenerator instance
@@ -80,6 +84,17 @@ export class PDFGenerator {
     };
   }
 
+  /**
+   * Listen for the progress of createPDFBlob ('rendering' stage) and downloadPDF ('downloading' stage)
+   * The PDF is rendered in one step, so rendering only reports its start and end
+   *
+   * @param listener - Called with each progress event
+   * @returns Function that removes the listener
+   */
+  onProgress(listener: ExportProgressListener): () => void {
+    return this.progress.on(listener);
+  }
+
   /**
    * Gets the current PDF options
    * @returns Current PDFOptions configuration
@@ -109,6 +124,7 @@ export class PDFGenerator {
    * - PDF_STYLES template for consistent formatting
    * - Header with chat title and export date
    * - Styled message containers with different backgrounds for user vs gemini
+   * - Code blocks highlighted with the codeTheme (and numbered with codeLineNumbers)
    *
    * Validates: Requirements 5.2, 5.4, 5.5
    *
@@ -117,22 +133,19 @@ export class PDFGenerator {
    * @returns Styled HTML string ready for PDF conversion
    */
   applyStyles(content: ChatContent, title?: string): string {
-    const exportDate = new Date().toLocaleString('vi-VN', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit'
-    });
+    const exportDate = formatDateTime();
 
     const chatTitle = title || 'Gemini Chat';
+    const codeTheme = this.options.codeTheme ?? 'light';
+    const lineNumbers = this.options.codeLineNumbers ?? false;
 
     console.log(`[PDFGenerator] Applying styles to ${content.messages.length} messages`);
 
-    // Build messages HTML
+    // Build messages HTML; diagram code blocks are drawn and their sources listed in an appendix
+    const diagrams: DiagramSource[] = [];
     const messagesHtml = content.messages.map((message, index) => {
       const senderClass = message.sender === 'user' ? 'user' : 'gemini';
-      const senderLabel = message.sender === 'user' ? 'Bạn' : 'Gemini';
+      const senderLabel = message.sender === 'user' ? t('senderUser') : t('senderGemini');
 
       console.log(`[PDFGenerator] Message ${index + 1}: sender=${message.sender}, contentLength=${message.content.length}`);
       
@@ -146,10 +159,24 @@ export class PDFGenerator {
         .replace(/<span>\s*<\/span>/g, '') // Remove empty spans
         .trim();
 
+      const drawn = renderDiagramBlocks(cleanContent, diagrams.length + 1);
+      diagrams.push(...drawn.diagrams);
+
+      // Citation markers link to the message's footnotes
+      const citations = message.citations ?? [];
+      const footnoteId = `cite-${index + 1}`;
+      const linkedContent = renderMathMarkers(highlightCodeBlocks(
+        citations.length > 0
+          ? linkCitationMarkers(drawn.html, citations, citation => ({ href: `#${footnoteId}-${citation.index}` }))
+          : drawn.html,
+        { theme: codeTheme, lineNumbers }
+      ));
+
       return `
         <div class="message ${senderClass}">
           <div class="message-header">${senderLabel}</div>
-          <div class="message-content">${cleanContent}</div>
+          <div class="message-content">${linkedContent}${renderAttachmentList(message.attachments ?? [])}</div>
+          ${renderCitationList(citations, footnoteId)}
         </div>
       `;
     }).join('\n');
@@ -214,6 +241,19 @@ export class PDFGenerator {
           box-shadow: 0 1px 3px rgba(0,0,0,0.1);
         }
 
+        .message-content .attachments-title {
+          margin: 10px 0 4px;
+          font-weight: bold;
+          font-size: 10pt;
+          color: #666;
+        }
+
+        .message-content ul.attached-files {
+          margin: 0 0 10px;
+          padding-left: 20px;
+          font-size: 10pt;
+        }
+
         .message-content code {
           background-color: #f0f0f0;
           padding: 2px 6px;
@@ -236,6 +276,12 @@ export class PDFGenerator {
           padding: 0;
         }
 
+        ${codeThemeStyles(codeTheme)}
+
+        ${MATH_STYLES}
+
+        ${DIAGRAM_STYLES}
+
         .message-content table {
           border-collapse: collapse;
           width: 100%;
@@ -274,6 +320,35 @@ export class PDFGenerator {
           text-decoration: underline;
         }
 
+        .message-content sup.gemini-citation {
+          font-size: 8pt;
+          line-height: 0;
+        }
+
+        .citations {
+          margin-top: 10px;
+          padding-top: 8px;
+          border-top: 1px solid #ddd;
+          font-size: 9pt;
+          color: #666;
+        }
+
+        .citations .citations-title {
+          margin: 0 0 4px;
+          font-weight: bold;
+        }
+
+        .citations ol {
+          margin: 0;
+          padding-left: 24px;
+        }
+
+        .citations a {
+          color: #1a73e8;
+          text-decoration: none;
+          word-break: break-all;
+        }
+
         h1, h2, h3, h4, h5, h6 {
           margin-top: 20px;
           margin-bottom: 10px;
@@ -303,7 +378,7 @@ export class PDFGenerator {
     // Construct complete HTML document
     const styledHtml = `
       <!DOCTYPE html>
-      <html lang="vi">
+      <html lang="${getLanguage()}">
       <head>
         <meta charset="UTF-8">
         <meta name="viewport" content="width=device-width, initial-scale=1.0">
@@ -313,9 +388,10 @@ export class PDFGenerator {
       <body>
         <div class="pdf-header">
           <h1>${chatTitle}</h1>
-          <div class="export-date">Xuất ngày: ${exportDate}</div>
+          <div class="export-date">${t('documentExportDate')}: ${exportDate}</div>
         </div>
         ${messagesHtml}
+        ${renderDiagramAppendix(diagrams)}
       </body>
       </html>
     `;
@@ -328,63 +404,238 @@ export class PDFGenerator {
    * Generate PDF from chat content and trigger download
    *
    * This method orchestrates the full PDF generation flow:
-   * 1. Convert ChatContent to styled HTML using applyStyles
-   * 2. Call html2pdf with configured options
-   * 3. Generate PDF blob
-   * 4. Call downloadPDF to trigger browser download
+   * 1. Generate the PDF blob with createPDFBlob
+   * 2. Call downloadPDF to trigger browser download
    *
    * Validates: Requirements 5.1, 5.3, 5.6
    *
    * @param content - ChatContent object containing messages to export
    * @param filename - Desired filename for the PDF (should include .pdf extension)
+   * @param title - Chat title for the header, <title> and page templates
+   *   (defaults to the filename without extension, which a filename template may have changed)
+   * @param signal - Aborting it stops the export before the download
    * @returns Promise that resolves when PDF generation and download are complete
    * @throws Error if PDF generation fails
+   * @throws ExportCancelledError if the signal is aborted
    */
-  async generatePDF(content: ChatContent, filename: string): Promise<void> {
+  async generatePDF(content: ChatContent, filename: string, title?: string, signal?: AbortSignal): Promise<void> {
     try {
-      // Step 1: Convert ChatContent to styled HTML
-      const styledHtml = this.applyStyles(content, filename.replace('.pdf', ''));
-
-      // Step 2: Configure html2pdf options
-      const html2pdfOptions = {
-        margin: [
-          parseFloat(this.options.margin.top),
-          parseFloat(this.options.margin.right),
-          parseFloat(this.options.margin.bottom),
-          parseFloat(this.options.margin.left)
-        ],
-        filename: filename,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: {
-          scale: 2,
-          useCORS: true,
-          letterRendering: true
-        },
-        jsPDF: {
-          unit: 'mm',
-          format: this.options.format.toLowerCase() as 'a4' | 'letter',
-          orientation: 'portrait'
-        }
+      const blob = await this.createPDFBlob(content, title ?? filename.replace(/\.pdf$/, ''), signal);
+      this.downloadPDF(blob, filename);
+    } catch (error) {
+      if (error instanceof ExportCancelledError) {
+        throw error;
+      }
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      throw new Error(`Failed to generate PDF: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Generate a PDF blob from chat content without downloading it
+   *
+   * 1. Convert ChatContent to styled HTML using applyStyles
+   * 2. Call html2pdf with configured options
+   * 3. Generate PDF blob
+   *
+   * With the 'vector' renderer, these steps are replaced by VectorPDFRenderer
+   * html2pdf cannot be interrupted, so a cancelled export discards its result
+   *
+   * @param content - ChatContent object containing messages to export
+   * @param title - Chat title for the header
+   * @param signal - Aborting it stops the export
+   * @returns PDF data as a Blob
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  async createPDFBlob(content: ChatContent, title: string, signal?: AbortSignal): Promise<Blob> {
+    throwIfCancelled(signal);
+    this.progress.emit('rendering', 0, 1);
+    const blob = await this.renderPDFBlob(content, title, signal);
+    throwIfCancelled(signal);
+    this.progress.emit('rendering', 1, 1);
+    return blob;
+  }
+
+  /**
+   * Render the PDF blob with the configured renderer
+   */
+  private async renderPDFBlob(content: ChatContent, title: string, signal?: AbortSignal): Promise<Blob> {
+    if (this.options.renderer === 'vector') {
+      return this.getVectorRenderer().render(content, title, signal);
+    }
+
+    // Step 1: Convert ChatContent to styled HTML with a table of contents
+    const entries = tableOfContentsEntries(content.messages);
+    const styledHtml = prepareTableOfContentsForCanvas(await this.prepareMath(this.applyStyles(content, title)), entries);
+
+    // Step 2: Configure html2pdf options
+    const html2pdfOptions = {
+      margin: [
+        parseFloat(this.options.margin.top),
+        parseFloat(this.options.margin.right),
+        parseFloat(this.options.margin.bottom),
+        parseFloat(this.options.margin.left)
+      ],
+      filename: `${title}.pdf`,
+      image: { type: 'jpeg', quality: 0.98 },
+      html2canvas: {
+        scale: 2,
+        useCORS: true,
+        letterRendering: true
+      },
+      jsPDF: {
+        unit: 'mm',
+        format: this.options.format.toLowerCase() as 'a4' | 'letter',
+        orientation: 'portrait'
+      }
+    };
+
+    // Step 3: Lay out the document and number the table of contents
+    const worker = html2pdf()
+      .set(html2pdfOptions)
+      .from(styledHtml)
+      .toContainer();
+    const layout = this.numberTableOfContents(
+      await worker.get('container'),
+      await worker.get('pageSize'),
+      entries,
+      html2pdfOptions.margin
+    );
+
+    // Step 4: Generate PDF blob using html2pdf, with links and bookmarks to the user turns,
+    // the classification watermark, the header and the footer
+    const pdf: jsPDF = await worker.toPdf().get('pdf');
+    this.addTurnNavigation(pdf, layout);
+    await this.stampPages(pdf, title, html2pdfOptions.margin);
+    const pdfBlob = await worker.outputPdf('blob');
+
+    // Convert string to Blob if needed
+    return typeof pdfBlob === 'string'
+      ? new Blob([pdfBlob], { type: 'application/pdf' })
+      : pdfBlob;
+  }
+
+  /**
+   * Write the page of every user turn into the table of contents of a document laid out by html2pdf
+   * html2pdf slices the layout into pages of the inner page height, so the page of an
+   * element follows from its offset in the container
+   *
+   * @param container - Container html2pdf rendered the document into
+   * @param pageSize - Page size html2pdf computed for the options
+   * @param entries - User turns listed in the table of contents
+   * @param margin - Page margins in mm (top, right, bottom, left)
+   * @returns Bookmarks and table of contents links to add to the PDF
+   */
+  private numberTableOfContents(
+    container: HTMLElement,
+    pageSize: Html2PdfPageSize,
+    entries: TocEntry[],
+    margin: number[]
+  ): TurnLayout {
+    const origin = container.getBoundingClientRect();
+    const toUnit = (px: number) => px * 72 / 96 / pageSize.k;
+    const locate = (element: Element) => {
+      const rect = element.getBoundingClientRect();
+      const top = toUnit(rect.top - origin.top);
+      return {
+        page: Math.floor(top / pageSize.inner.height) + 1,
+        x: margin[3] + toUnit(rect.left - origin.left),
+        y: margin[0] + top % pageSize.inner.height,
+        w: toUnit(rect.width),
+        h: toUnit(rect.height)
       };
+    };
 
-      // Step 3: Generate PDF blob using html2pdf
-      const pdfBlob = await html2pdf()
-        .set(html2pdfOptions)
-        .from(styledHtml)
-        .outputPdf('blob');
+    const pages: Record<string, number> = {};
+    const turns = entries.map(entry => {
+      const anchor = messageAnchor(entry.messageIndex);
+      const message = container.querySelector(`#${anchor}`);
+      pages[anchor] = message ? locate(message).page : 1;
+      return { label: entry.label, page: pages[anchor] };
+    });
 
-      // Convert string to Blob if needed
-      const blob = typeof pdfBlob === 'string'
-        ? new Blob([pdfBlob], { type: 'application/pdf' })
-        : pdfBlob;
+    const links: TurnLayout['links'] = [];
+    container.querySelectorAll('nav.toc li').forEach(item => {
+      const target = pages[item.querySelector<HTMLElement>('.toc-link')?.dataset.target || ''];
+      const number = item.querySelector('.toc-page');
+      if (!target || !number) {
+        return;
+      }
+      number.textContent = String(target);
+      links.push({ ...locate(item), target });
+    });
 
-      // Step 4: Trigger download
-      this.downloadPDF(blob, filename);
+    return { turns, links };
+  }
 
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      throw new Error(`Failed to generate PDF: ${errorMessage}`);
+  /**
+   * Link the table of contents entries to their pages and bookmark every user turn
+   */
+  private addTurnNavigation(pdf: jsPDF, layout: TurnLayout): void {
+    layout.links.forEach(link => {
+      pdf.setPage(link.page);
+      pdf.link(link.x, link.y, link.w, link.h, { pageNumber: link.target });
+    });
+    layout.turns.forEach(turn => {
+      pdf.outline.add(null, turn.label, { pageNumber: turn.page });
+    });
+    pdf.setPage(pdf.getNumberOfPages());
+  }
+
+  /**
+   * Draw the classification watermark, the header and the footer on every page of the html2pdf output
+   * The standard PDF fonts only cover Latin-1, so the bundled font is embedded
+   * when the text needs more (such as Vietnamese)
+   *
+   * @param margin - Page margins in mm: [top, right, bottom, left]
+   */
+  private async stampPages(pdf: jsPDF, title: string, margin: number[]): Promise<void> {
+    const { classification } = this.options;
+    const templates = pageTemplates(this.options);
+    const context = pageTemplateContext(this.options, title);
+    if (!classification && !templates.header.trim() && !templates.footer.trim()) {
+      return;
+    }
+
+    const unicode = pageTemplatesNeedUnicode(templates, context) ||
+      (classification !== undefined && needsUnicodeFont(classificationLabel(classification).toLocaleUpperCase()));
+    const font = unicode ? await embedTextFont(pdf) : 'helvetica';
+
+    if (classification) {
+      drawClassificationWatermark(pdf, classification, font);
     }
+    drawPageTemplates(pdf, templates, context, {
+      font,
+      fontSize: (parseFloat(this.options.fontSize) || 12) * 0.7,
+      margin: { top: margin[0], right: margin[1], bottom: margin[2], left: margin[3] }
+    });
+  }
+
+  /**
+   * Make the formulas of a styled document drawable by html2canvas,
+   * with the bundled math font embedded
+   */
+  private async prepareMath(styledHtml: string): Promise<string> {
+    if (!styledHtml.includes('<math')) {
+      return styledHtml;
+    }
+
+    const fontFace = await loadMathFontFace(loadBundledFont);
+    const html = prepareMathForCanvas(styledHtml);
+    return fontFace ? html.replace('</head>', `<style>${fontFace}</style></head>`) : html;
+  }
+
+  /**
+   * Get the vector renderer, created on first use with the current options
+   * @returns VectorPDFRenderer instance
+   */
+  private getVectorRenderer(): VectorPDFRenderer {
+    if (!this.vectorRenderer) {
+      this.vectorRenderer = new VectorPDFRenderer(this.options);
+    } else {
+      this.vectorRenderer.setOptions(this.options);
+    }
+    return this.vectorRenderer;
   }
 
   /**
@@ -399,6 +650,8 @@ export class PDFGenerator {
    * @param filename - Filename for the downloaded PDF
    */
   downloadPDF(pdfBlob: Blob, filename: string): void {
+    this.progress.emit('downloading', 0, 1);
+
     // Create object URL from blob
     const url = URL.createObjectURL(pdfBlob);
 
@@ -416,6 +669,7 @@ export class PDFGenerator {
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
+      this.progress.emit('downloading', 1, 1);
 
     } finally {
       // Cleanup: revoke object URL to free memory
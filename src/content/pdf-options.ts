@@ -0,0 +1,92 @@
+/**
+ * PDF generation options
+ *
+ * Kept apart from PDFGenerator so the options page can read the defaults
+ * without bundling the PDF renderers.
+ */
+
+import type { ClassificationLevel } from './classification-options';
+
+/**
+ * Colour themes of code blocks ('none' keeps plain grey blocks)
+ */
+export type CodeTheme = 'light' | 'dark' | 'none';
+
+/**
+ * Supported code themes, in the order shown on the options page
+ */
+export const CODE_THEMES: readonly CodeTheme[] = ['light', 'dark', 'none'];
+
+/**
+ * Configuration options for PDF generation
+ */
+export interface PDFOptions {
+  /** Page format (A4 or Letter) */
+  format: 'A4' | 'Letter';
+  
+  /** Page margins */
+  margin: {
+    top: string;    // e.g., '20mm'
+    right: string;
+    bottom: string;
+    left: string;
+  };
+  
+  /** Typography settings */
+  fontSize: string;      // e.g., '12pt'
+  fontFamily: string;    // e.g., 'Arial, sans-serif'
+  lineHeight: number;    // e.g., 1.5
+  
+  /** Message background colors */
+  userMessageBg: string;    // e.g., '#e3f2fd'
+  geminiMessageBg: string;  // e.g., '#f5f5f5'
+
+  /**
+   * PDF backend:
+   * - 'raster' (default): html2pdf.js screenshot of the styled HTML
+   * - 'vector': selectable, searchable text with embedded fonts (fontFamily is ignored)
+   */
+  renderer?: 'raster' | 'vector';
+
+  /** Syntax highlighting theme of code blocks in PDF and HTML exports (default 'light') */
+  codeTheme?: CodeTheme;
+
+  /** Number the lines of code blocks (default false) */
+  codeLineNumbers?: boolean;
+
+  /**
+   * Header and footer templates drawn on every page, e.g. "{title}|{page} / {pages}"
+   * (default DEFAULT_PAGE_HEADER and DEFAULT_PAGE_FOOTER; empty for none)
+   * See PAGE_TEMPLATE_TOKENS for the supported tokens
+   */
+  header?: string;
+  footer?: string;
+
+  /**
+   * Confidentiality label for the {label} token of the header and footer
+   * (default the classification label, if any)
+   */
+  confidentialityLabel?: string;
+
+  /** Classification stamped as a diagonal watermark on every page (default none) */
+  classification?: ClassificationLevel;
+}
+
+/**
+ * Default PDF generation options
+ * Based on design document specifications for optimal readability
+ */
+export const DEFAULT_PDF_OPTIONS: PDFOptions = {
+  format: 'A4',
+  margin: {
+    top: '20mm',
+    right: '20mm',
+    bottom: '20mm',
+    left: '20mm'
+  },
+  fontSize: '12pt',
+  fontFamily: 'Arial, Helvetica, sans-serif',
+  lineHeight: 1.5,
+  userMessageBg: '#e3f2fd',
+  geminiMessageBg: '#f5f5f5'
+};
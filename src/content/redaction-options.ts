@@ -0,0 +1,67 @@
+/**
+ * Redaction options
+ *
+ * Kept apart from the redaction pipeline so the options page can read the
+ * defaults without bundling the detectors.
+ */
+
+/**
+ * Kinds of sensitive data found by the built-in rules
+ */
+export type RedactionKind = 'email' | 'phone' | 'apiKey' | 'creditCard' | 'nationalId';
+
+/**
+ * Built-in rules, in the order shown on the options page
+ */
+export const REDACTION_KINDS: readonly RedactionKind[] = ['email', 'phone', 'apiKey', 'creditCard', 'nationalId'];
+
+/**
+ * How sensitive data is scrubbed from chats before they are exported
+ */
+export interface RedactionOptions {
+  /** Run the redaction pass on every export */
+  enabled: boolean;
+
+  /** Built-in rules to run */
+  kinds: RedactionKind[];
+
+  /** Extra regular expressions (source text, matched case-insensitively) */
+  customPatterns: string[];
+
+  /** Show what will be redacted and ask before exporting */
+  confirm: boolean;
+}
+
+/**
+ * Default redaction options: every built-in rule, with the summary
+ */
+export const DEFAULT_REDACTION_OPTIONS: RedactionOptions = {
+  enabled: true,
+  kinds: [...REDACTION_KINDS],
+  customPatterns: [],
+  confirm: true
+};
+
+/**
+ * Check whether a value is a built-in redaction kind
+ *
+ * @param value - Value to check
+ * @returns True if the value is a RedactionKind
+ */
+export function isRedactionKind(value: unknown): value is RedactionKind {
+  return REDACTION_KINDS.includes(value as RedactionKind);
+}
+
+/**
+ * Check that a custom pattern is a valid regular expression that cannot match empty text
+ *
+ * @param pattern - Regular expression source
+ * @returns True if the pattern can be used
+ */
+export function isValidRedactionPattern(pattern: string): boolean {
+  try {
+    return pattern.trim() !== '' && !new RegExp(pattern, 'iu').test('');
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * RedactionSummaryDialog - Shows what will be redacted before an export
+ *
+ * Responsibilities:
+ * - List each kind of sensitive data found with its count and some of the values
+ * - Let the user continue with the redacted export or cancel it
+ */
+
+import { RedactionSummaryItem } from './redaction';
+import { t } from '../utils/i18n';
+
+/**
+ * Number of values listed for each kind; the rest are only counted
+ */
+const MAX_LISTED_VALUES = 5;
+
+/**
+ * RedactionSummaryDialog class
+ */
+export class RedactionSummaryDialog {
+  private dialog: HTMLDivElement | null = null;
+  private resolve: ((proceed: boolean) => void) | null = null;
+
+  /**
+   * Check whether the dialog is shown
+   * @returns True if the dialog is open
+   */
+  isOpen(): boolean {
+    return this.dialog !== null;
+  }
+
+  /**
+   * Show the summary and wait for the user's choice
+   * A dialog still open is closed as cancelled
+   *
+   * @param summary - Replacements by kind
+   * @returns True to export the redacted chat, false to cancel
+   */
+  confirm(summary: RedactionSummaryItem[]): Promise<boolean> {
+    this.close();
+
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.dialog = this.createDialog(summary);
+      document.body.appendChild(this.dialog);
+      this.dialog.querySelector<HTMLButtonElement>('button.continue')?.focus();
+    });
+  }
+
+  /**
+   * Remove the dialog, cancelling the pending choice
+   */
+  close(): void {
+    this.finish(false);
+  }
+
+  /**
+   * Remove the dialog and report the choice
+   * @param proceed - Whether to continue the export
+   */
+  private finish(proceed: boolean): void {
+    this.dialog?.remove();
+    this.dialog = null;
+
+    const resolve = this.resolve;
+    this.resolve = null;
+    resolve?.(proceed);
+  }
+
+  /**
+   * Create the dialog element
+   * @param summary - Replacements by kind
+   * @returns Dialog element
+   */
+  private createDialog(summary: RedactionSummaryItem[]): HTMLDivElement {
+    const dialog = document.createElement('div');
+    dialog.className = 'gemini-pdf-export-redaction-dialog';
+    dialog.setAttribute('role', 'dialog');
+    dialog.setAttribute('aria-label', t('redactionSummaryTitle'));
+    dialog.addEventListener('keydown', event => {
+      if (event.key === 'Escape') {
+        this.finish(false);
+      }
+    });
+
+    const heading = document.createElement('div');
+    heading.className = 'gemini-pdf-export-redaction-heading';
+    heading.textContent = t('redactionSummaryTitle');
+
+    const total = summary.reduce((sum, item) => sum + item.count, 0);
+    const intro = document.createElement('div');
+    intro.className = 'gemini-pdf-export-redaction-total';
+    intro.textContent = t('redactionSummaryTotal', total);
+
+    const list = document.createElement('ul');
+    list.className = 'gemini-pdf-export-redaction-list';
+    summary.forEach(item => {
+      const entry = document.createElement('li');
+      entry.dataset.kind = item.id;
+
+      const label = document.createElement('strong');
+      label.textContent = t('redactionSummaryItem', item.label, item.count);
+
+      const values = document.createElement('ul');
+      values.className = 'gemini-pdf-export-redaction-values';
+      item.values.slice(0, MAX_LISTED_VALUES).forEach(value => {
+        const listed = document.createElement('li');
+        listed.textContent = value;
+        values.appendChild(listed);
+      });
+      if (item.values.length > MAX_LISTED_VALUES) {
+        const more = document.createElement('li');
+        more.textContent = t('redactionSummaryMore', item.values.length - MAX_LISTED_VALUES);
+        values.appendChild(more);
+      }
+
+      entry.append(label, values);
+      list.appendChild(entry);
+    });
+
+    const createButton = (className: string, label: string, proceed: boolean) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = className;
+      button.textContent = label;
+      button.addEventListener('click', () => this.finish(proceed));
+      return button;
+    };
+
+    const actions = document.createElement('div');
+    actions.className = 'gemini-pdf-export-redaction-actions';
+    actions.append(
+      createButton('continue', t('redactionSummaryContinue'), true),
+      createButton('cancel', t('buttonCancel'), false)
+    );
+
+    dialog.append(heading, intro, list, actions);
+    return dialog;
+  }
+}
@@ -0,0 +1,362 @@
+/**
+ * Redaction - Scrubs sensitive data from chats before they are exported
+ *
+ * Runs between ContentExtractor.extractChatContent and the generators, so
+ * every format is written from the same redacted content. This module:
+ * - Finds emails, phone numbers, API keys, credit card numbers, national IDs
+ *   and custom regular expressions; more rules can be plugged in with RedactionPipeline.use
+ * - Replaces matches with labelled placeholders such as [EMAIL 1]; the same
+ *   value gets the same placeholder throughout the chat
+ * - Summarizes what is redacted, for the confirmation shown before exporting
+ *
+ * Message text, link targets, image descriptions, source titles and links,
+ * attachment names and the chat title are scanned; image data is not.
+ */
+
+import { ChatContent, Message } from './content-extractor';
+import { RedactionKind, RedactionOptions, isValidRedactionPattern } from './redaction-options';
+import { Logger } from '../utils/logger';
+import { t, MessageKey } from '../utils/i18n';
+
+/**
+ * A kind of sensitive data and how to find it
+ */
+export interface RedactionRule {
+  /** Identifier, e.g. "email"; rules sharing an identifier share their placeholders */
+  id: string;
+
+  /** Name of the data in placeholders and in the summary, e.g. "Email" */
+  label: string;
+
+  /** Pattern of the candidates (searched globally) */
+  pattern: RegExp;
+
+  /** Check of each candidate, e.g. the checksum of card numbers */
+  accept?: (match: string) => boolean;
+}
+
+/**
+ * What one rule redacted
+ */
+export interface RedactionSummaryItem {
+  /** Rule identifier */
+  id: string;
+
+  /** Rule label */
+  label: string;
+
+  /** Number of occurrences replaced */
+  count: number;
+
+  /** Distinct values replaced, in order of appearance */
+  values: string[];
+}
+
+/**
+ * Redacted chat with the summary of the replacements
+ * Title is the type of the title given to redact (string or null)
+ */
+export interface RedactionResult<Title extends string | null = string | null> {
+  /** Content with placeholders (the original object when nothing was found) */
+  content: ChatContent;
+
+  /** Chat title with placeholders, or null if the chat has no title */
+  title: Title;
+
+  /** Replacements by rule, in rule order (rules that found nothing are left out) */
+  summary: RedactionSummaryItem[];
+
+  /** Total number of occurrences replaced */
+  total: number;
+}
+
+/**
+ * Placeholders given so far, by rule identifier
+ */
+type RedactionState = Map<string, { label: string; count: number; values: Map<string, number> }>;
+
+/**
+ * Attributes that can hold text of the chat (image sources are left alone)
+ */
+const REDACTED_ATTRIBUTES = ['href', 'title', 'alt'];
+
+/**
+ * Built-in rules, in the order they claim text: specific formats before
+ * loose digit runs, so a card number is not also read as a phone number
+ */
+const BUILT_IN_RULES: Array<{ kind: RedactionKind; labelKey: MessageKey; pattern: RegExp; accept?: (match: string) => boolean }> = [
+  {
+    kind: 'apiKey',
+    labelKey: 'redactionApiKey',
+    pattern: /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}|AIza[0-9A-Za-z_-]{35}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,}|xox[abposr]-[A-Za-z0-9-]{10,}|AKIA[0-9A-Z]{16}|glpat-[A-Za-z0-9_-]{20,}|eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})/g
+  },
+  {
+    kind: 'email',
+    labelKey: 'redactionEmail',
+    pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu
+  },
+  {
+    kind: 'creditCard',
+    labelKey: 'redactionCreditCard',
+    pattern: /(?<!\p{N})(?:\d[ -]?){12,18}\d(?!\p{N})/gu,
+    accept: match => isLuhnValid(match.replace(/\D/g, ''))
+  },
+  {
+    kind: 'nationalId',
+    labelKey: 'redactionNationalId',
+    // US Social Security numbers and Vietnamese citizen ID numbers (CCCD: province code 001-096)
+    pattern: /(?<![\p{L}\p{N}-])(?:\d{3}-\d{2}-\d{4}|0\d{11})(?![\p{L}\p{N}-])/gu,
+    accept: match => match.includes('-')
+      ? !/^(?:000|666|9\d\d)|^\d{3}-00|0000$/.test(match)
+      : /^0(?:0[1-9]|[1-8]\d|9[0-6])/.test(match)
+  },
+  {
+    kind: 'phone',
+    labelKey: 'redactionPhone',
+    pattern: /(?<![\p{L}\p{N}+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,5}(?:[ .-]?\d{2,5}){1,4}(?![\p{L}\p{N}])/gu,
+    // International numbers (9 to 15 digits), national numbers with a trunk prefix
+    // (10 or 11 digits) and NANP-formatted numbers, so that plain numbers, dates and amounts are kept
+    accept: match => {
+      const digits = match.replace(/\D/g, '').length;
+      return /^[+(]/.test(match)
+        ? digits >= 9 && digits <= 15
+        : (match.startsWith('0') && digits >= 10 && digits <= 11) || /^\d{3}[-.]\d{3}[-.]\d{4}$/.test(match);
+    }
+  }
+];
+
+/**
+ * RedactionPipeline class
+ * Applies its rules in order; text matched by a rule is not seen by the later ones
+ */
+export class RedactionPipeline {
+  private rules: RedactionRule[] = [];
+
+  /**
+   * Create a pipeline
+   * @param rules - Initial rules, in order
+   */
+  constructor(rules: RedactionRule[] = []) {
+    rules.forEach(rule => this.use(rule));
+  }
+
+  /**
+   * Create the pipeline configured by the redaction options
+   * Labels are localized in the current language
+   *
+   * @param options - Redaction options
+   * @returns Pipeline with the chosen built-in rules, then the custom patterns
+   */
+  static fromOptions(options: RedactionOptions): RedactionPipeline {
+    const pipeline = new RedactionPipeline();
+    if (!options.enabled) {
+      return pipeline;
+    }
+
+    BUILT_IN_RULES
+      .filter(rule => options.kinds.includes(rule.kind))
+      .forEach(rule => pipeline.use({ id: rule.kind, label: t(rule.labelKey), pattern: rule.pattern, accept: rule.accept }));
+
+    options.customPatterns.forEach(source => {
+      if (isValidRedactionPattern(source)) {
+        pipeline.use({ id: 'custom', label: t('redactionCustom'), pattern: new RegExp(source, 'giu') });
+      } else {
+        Logger.warn(`RedactionPipeline: Ignoring invalid pattern ${source}`);
+      }
+    });
+
+    return pipeline;
+  }
+
+  /**
+   * Add a rule after the current ones
+   * @param rule - Rule to add
+   * @returns This pipeline
+   */
+  use(rule: RedactionRule): this {
+    const pattern = rule.pattern.global ? rule.pattern : new RegExp(rule.pattern.source, `${rule.pattern.flags}g`);
+    this.rules.push({ ...rule, pattern });
+    return this;
+  }
+
+  /**
+   * Check whether the pipeline has any rule
+   * @returns True if redact can change anything
+   */
+  isEmpty(): boolean {
+    return this.rules.length === 0;
+  }
+
+  /**
+   * Replace the sensitive data of a chat with placeholders
+   *
+   * @param content - Extracted chat content (not modified)
+   * @param title - Chat title, or null if the chat has none
+   * @returns Redacted content and title, with the summary
+   */
+  redact<Title extends string | null>(content: ChatContent, title: Title): RedactionResult<Title> {
+    const state: RedactionState = new Map();
+    let changed = false;
+    const text = (value: string) => {
+      const redacted = this.redactText(value, state);
+      changed = changed || redacted !== value;
+      return redacted;
+    };
+
+    const redactedTitle = (title === null ? null : text(title)) as Title;
+    const messages = content.messages.map(message => {
+      const updated: Message = { ...message, content: this.redactHtml(message.content, state) };
+      changed = changed || updated.content !== message.content;
+
+      if (message.citations) {
+        updated.citations = message.citations.map(citation => ({
+          ...citation,
+          title: text(citation.title),
+          ...(citation.url && { url: text(citation.url) })
+        }));
+      }
+      if (message.attachments) {
+        updated.attachments = message.attachments.map(attachment => ({ ...attachment, name: text(attachment.name) }));
+      }
+      return updated;
+    });
+
+    const summary = Array.from(state, ([id, entry]) => ({
+      id,
+      label: entry.label,
+      count: entry.count,
+      values: Array.from(entry.values.keys())
+    }));
+    const total = summary.reduce((sum, item) => sum + item.count, 0);
+    if (total > 0) {
+      Logger.info(`RedactionPipeline: Redacted ${total} occurrences (${summary.map(item => `${item.id}: ${item.count}`).join(', ')})`);
+    }
+
+    return {
+      content: changed ? { ...content, messages } : content,
+      title: redactedTitle,
+      summary,
+      total
+    };
+  }
+
+  /**
+   * Replace the sensitive data of a title alone, e.g. of a conversation that could not be exported
+   *
+   * @param title - Title
+   * @returns Title with placeholders numbered as in redact
+   */
+  redactTitle(title: string): string {
+    return this.redactText(title, new Map());
+  }
+
+  /**
+   * Redact the text and the text attributes of message HTML
+   * @returns The same string when nothing was found
+   */
+  private redactHtml(html: string, state: RedactionState): string {
+    // A template parses the HTML without loading its images
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    let changed = false;
+
+    const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const value = node.nodeValue ?? '';
+      const redacted = this.redactText(value, state);
+      if (redacted !== value) {
+        node.nodeValue = redacted;
+        changed = true;
+      }
+    }
+
+    template.content.querySelectorAll(REDACTED_ATTRIBUTES.map(name => `[${name}]`).join(', ')).forEach(element => {
+      REDACTED_ATTRIBUTES.forEach(name => {
+        const value = element.getAttribute(name);
+        if (value === null || value.startsWith('data:')) {
+          return;
+        }
+        const redacted = this.redactText(value, state);
+        if (redacted !== value) {
+          element.setAttribute(name, redacted);
+          changed = true;
+        }
+      });
+    });
+
+    return changed ? template.innerHTML : html;
+  }
+
+  /**
+   * Replace the matches of every rule in a text
+   * Matches overlapping text claimed by an earlier rule are skipped
+   */
+  private redactText(text: string, state: RedactionState): string {
+    const ranges: Array<{ start: number; end: number; rule: RedactionRule; value: string }> = [];
+
+    this.rules.forEach(rule => {
+      for (const match of text.matchAll(rule.pattern)) {
+        const value = match[0];
+        const start = match.index ?? 0;
+        const end = start + value.length;
+        if (!value || (rule.accept && !rule.accept(value)) || ranges.some(range => start < range.end && range.start < end)) {
+          continue;
+        }
+        ranges.push({ start, end, rule, value });
+      }
+    });
+
+    if (ranges.length === 0) {
+      return text;
+    }
+
+    let result = '';
+    let position = 0;
+    ranges.sort((a, b) => a.start - b.start).forEach(range => {
+      result += text.slice(position, range.start) + this.placeholder(range.rule, range.value, state);
+      position = range.end;
+    });
+    return result + text.slice(position);
+  }
+
+  /**
+   * Placeholder of a value, numbered per rule identifier in order of appearance
+   */
+  private placeholder(rule: RedactionRule, value: string, state: RedactionState): string {
+    let entry = state.get(rule.id);
+    if (!entry) {
+      entry = { label: rule.label, count: 0, values: new Map() };
+      state.set(rule.id, entry);
+    }
+
+    let number = entry.values.get(value);
+    if (number === undefined) {
+      number = entry.values.size + 1;
+      entry.values.set(value, number);
+    }
+    entry.count++;
+
+    return `[${entry.label.toLocaleUpperCase()} ${number}]`;
+  }
+}
+
+/**
+ * Check a card number with the Luhn checksum
+ *
+ * @param digits - Card number digits
+ * @returns True if the checksum is valid
+ */
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && digits.length <= 19 && sum % 10 === 0;
+}
@@ -0,0 +1,621 @@
+/**
+ * SyntaxHighlighter - Token colouring for code blocks in PDF and HTML exports
+ *
+ * A small bundled highlighter (no network access, no grammar files to load)
+ * covering the languages Gemini answers in most often. It:
+ * - Splits code into tokens (keywords, strings, comments, numbers...) with per-language rules
+ * - Rewrites the <pre> blocks of message HTML with coloured spans and optional line numbers
+ * - Provides the colours of each theme for the HTML styles and the vector PDF renderer
+ */
+
+import { CodeTheme } from './pdf-options';
+import { detectCodeLanguage } from './html-to-markdown';
+
+/**
+ * Kinds of highlighted tokens
+ */
+export type TokenType =
+  | 'keyword'
+  | 'literal'
+  | 'type'
+  | 'function'
+  | 'string'
+  | 'number'
+  | 'comment'
+  | 'meta'
+  | 'tag'
+  | 'attribute';
+
+/**
+ * A piece of code; text without a type is drawn in the theme's text colour
+ */
+export interface Token {
+  text: string;
+  type?: TokenType;
+}
+
+/**
+ * Colours of a code block theme
+ */
+export interface CodeThemeColors {
+  background: string;
+  text: string;
+  /** Accent bar on the left of the block */
+  border: string;
+  lineNumber: string;
+  tokens: Partial<Record<TokenType, string>>;
+}
+
+/**
+ * Options of highlightCodeBlocks
+ */
+export interface HighlightOptions {
+  theme: CodeTheme;
+  lineNumbers: boolean;
+}
+
+/**
+ * Colours of the code block themes
+ * 'none' keeps the plain grey blocks of earlier versions
+ */
+export const CODE_THEME_COLORS: Record<CodeTheme, CodeThemeColors> = {
+  light: {
+    background: '#f6f8fa',
+    text: '#24292f',
+    border: '#1a73e8',
+    lineNumber: '#8c959f',
+    tokens: {
+      keyword: '#cf222e',
+      literal: '#0550ae',
+      type: '#953800',
+      function: '#8250df',
+      string: '#0a3069',
+      number: '#0550ae',
+      comment: '#6e7781',
+      meta: '#8250df',
+      tag: '#116329',
+      attribute: '#0550ae'
+    }
+  },
+  dark: {
+    background: '#282c34',
+    text: '#abb2bf',
+    border: '#61afef',
+    lineNumber: '#636d83',
+    tokens: {
+      keyword: '#c678dd',
+      literal: '#d19a66',
+      type: '#e5c07b',
+      function: '#61afef',
+      string: '#98c379',
+      number: '#d19a66',
+      comment: '#7f848e',
+      meta: '#56b6c2',
+      tag: '#e06c75',
+      attribute: '#d19a66'
+    }
+  },
+  none: {
+    background: '#f8f8f8',
+    text: '#333333',
+    border: '#1a73e8',
+    lineNumber: '#999999',
+    tokens: {}
+  }
+};
+
+/**
+ * Class added to the <pre> blocks rewritten with a theme
+ */
+export const HIGHLIGHTED_CODE_CLASS = 'highlighted-code';
+
+/**
+ * Tokenizing rules of a language
+ */
+interface Grammar {
+  /** Sticky patterns tried in order at each position; the first match gives the token */
+  rules: Array<[TokenType, RegExp]>;
+  keywords?: string;
+  literals?: string;
+  types?: string;
+  /** Identifiers followed by "(" are function names */
+  calls?: boolean;
+  /** Capitalized identifiers are class names */
+  classNames?: boolean;
+  /** Keywords match regardless of case (SQL) */
+  ignoreCase?: boolean;
+}
+
+/**
+ * Grammar with the word lists turned into sets
+ */
+interface CompiledGrammar extends Grammar {
+  words: Map<string, TokenType>;
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const CALL = /[ \t]*\(/y;
+const CLASS_NAME = /^[A-Z][a-z0-9]\w*$/;
+
+const LINE_COMMENT = /\/\/[^\n]*/y;
+const BLOCK_COMMENT = /\/\*[\s\S]*?(?:\*\/|$)/y;
+const HASH_COMMENT = /#[^\n]*/y;
+const DOUBLE_STRING = /"(?:[^"\\\n]|\\.)*"?/y;
+const SINGLE_STRING = /'(?:[^'\\\n]|\\.)*'?/y;
+const BACKTICK_STRING = /`(?:[^`\\]|\\[\s\S])*`?/y;
+const NUMBER = /(?:0[xX][\da-fA-F_]+|0[bBoO][0-7_]+|(?:\d[\d_]*(?:\.\d[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[a-zA-Z%]*/y;
+const ANNOTATION = /@[A-Za-z_][\w.]*/y;
+
+const C_RULES: Array<[TokenType, RegExp]> = [
+  ['comment', LINE_COMMENT],
+  ['comment', BLOCK_COMMENT],
+  ['string', DOUBLE_STRING],
+  ['string', SINGLE_STRING],
+  ['number', NUMBER]
+];
+
+const JAVASCRIPT_KEYWORDS = 'async await break case catch class const continue debugger default delete do else export '
+  + 'extends finally for from function get if import in instanceof let new of return set static super switch this '
+  + 'throw try typeof var void while with yield';
+
+const GRAMMARS: Record<string, Grammar> = {
+  javascript: {
+    rules: [['string', BACKTICK_STRING], ...C_RULES],
+    keywords: JAVASCRIPT_KEYWORDS,
+    literals: 'true false null undefined NaN Infinity',
+    calls: true,
+    classNames: true
+  },
+  typescript: {
+    rules: [['string', BACKTICK_STRING], ['meta', ANNOTATION], ...C_RULES],
+    keywords: `${JAVASCRIPT_KEYWORDS} abstract as declare enum implements interface is keyof namespace private `
+      + 'protected public readonly satisfies type',
+    literals: 'true false null undefined NaN Infinity',
+    types: 'any bigint boolean never number object string symbol unknown',
+    calls: true,
+    classNames: true
+  },
+  python: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', /[rRbBuUfF]{0,2}("""|''')[\s\S]*?(?:\1|$)/y],
+      ['string', /[rRbBuUfF]{0,2}"(?:[^"\\\n]|\\.)*"?/y],
+      ['string', /[rRbBuUfF]{0,2}'(?:[^'\\\n]|\\.)*'?/y],
+      ['meta', ANNOTATION],
+      ['number', NUMBER]
+    ],
+    keywords: 'and as assert async await break case class continue def del elif else except finally for from '
+      + 'global if import in is lambda match nonlocal not or pass raise return try while with yield',
+    literals: 'True False None self cls',
+    types: 'bool bytes dict float int list object set str tuple',
+    calls: true,
+    classNames: true
+  },
+  java: {
+    rules: [['meta', ANNOTATION], ...C_RULES],
+    keywords: 'abstract assert break case catch class continue default do else enum extends final finally for '
+      + 'if implements import instanceof interface native new package permits private protected public record '
+      + 'return sealed static super switch synchronized this throw throws transient try var volatile while yield',
+    literals: 'true false null',
+    types: 'boolean byte char double float int long short void',
+    calls: true,
+    classNames: true
+  },
+  kotlin: {
+    rules: [['meta', ANNOTATION], ['string', /"""[\s\S]*?(?:"""|$)/y], ...C_RULES],
+    keywords: 'as break by class companion continue data do else enum for fun if import in init inner '
+      + 'interface is lateinit object open override package private protected public return sealed super '
+      + 'suspend this throw try typealias val var when while',
+    literals: 'true false null',
+    types: 'Any Boolean Byte Char Double Float Int Long Nothing Short String Unit',
+    calls: true,
+    classNames: true
+  },
+  swift: {
+    rules: [['meta', ANNOTATION], ['string', /"""[\s\S]*?(?:"""|$)/y], ...C_RULES],
+    keywords: 'as associatedtype async await break case catch class continue default defer deinit do else enum '
+      + 'extension fallthrough fileprivate for func guard if import in init inout internal is let open operator '
+      + 'private protocol public repeat rethrows return self Self static struct subscript super switch throw '
+      + 'throws try typealias var where while',
+    literals: 'true false nil',
+    types: 'Bool Character Double Float Int String Void',
+    calls: true,
+    classNames: true
+  },
+  c: {
+    rules: [['meta', /#[ \t]*[a-z]+\b[^\n]*/y], ...C_RULES],
+    keywords: 'auto break case const continue default do else enum extern for goto if inline register return '
+      + 'sizeof static struct switch typedef union volatile while',
+    literals: 'true false NULL',
+    types: 'bool char double float int long short signed size_t unsigned void',
+    calls: true
+  },
+  cpp: {
+    rules: [['meta', /#[ \t]*[a-z]+\b[^\n]*/y], ...C_RULES],
+    keywords: 'auto break case catch class const constexpr continue default delete do else enum explicit '
+      + 'extern for friend goto if inline namespace new noexcept operator override private protected public '
+      + 'return sizeof static struct switch template this throw try typedef typename union using virtual '
+      + 'volatile while',
+    literals: 'true false NULL nullptr',
+    types: 'bool char double float int long short signed size_t std string unsigned vector void',
+    calls: true,
+    classNames: true
+  },
+  csharp: {
+    rules: [['meta', /#[ \t]*[a-z]+\b[^\n]*/y], ['string', /@"(?:[^"]|"")*"?/y], ...C_RULES],
+    keywords: 'abstract as async await base break case catch class const continue default delegate do else enum '
+      + 'event explicit extern finally fixed for foreach get goto if implicit in interface internal is lock '
+      + 'namespace new operator out override params private protected public readonly record ref return '
+      + 'sealed set static struct switch this throw try typeof using var virtual volatile while yield',
+    literals: 'true false null',
+    types: 'bool byte char decimal double dynamic float int long object sbyte short string uint ulong ushort void',
+    calls: true,
+    classNames: true
+  },
+  go: {
+    rules: [['string', BACKTICK_STRING], ...C_RULES],
+    keywords: 'break case chan const continue default defer else fallthrough for func go goto if import '
+      + 'interface map package range return select struct switch type var',
+    literals: 'true false nil iota',
+    types: 'any bool byte complex128 complex64 error float32 float64 int int16 int32 int64 int8 rune string '
+      + 'uint uint16 uint32 uint64 uint8 uintptr',
+    calls: true
+  },
+  rust: {
+    rules: [
+      ['meta', /#!?\[[^\]\n]*\]/y],
+      ['function', /[a-z_]\w*!/y],
+      ['comment', LINE_COMMENT],
+      ['comment', BLOCK_COMMENT],
+      ['string', DOUBLE_STRING],
+      // Character literals; a quote followed by a name is a lifetime
+      ['string', /'(?:[^'\\\n]|\\[^'\n]*)'/y],
+      ['meta', /'[A-Za-z_]\w*/y],
+      ['number', NUMBER]
+    ],
+    keywords: 'as async await break const continue crate dyn else enum extern fn for if impl in let loop match '
+      + 'mod move mut pub ref return self Self static struct super trait type unsafe use where while',
+    literals: 'true false None Some Ok Err',
+    types: 'bool char f32 f64 i128 i16 i32 i64 i8 isize str u128 u16 u32 u64 u8 usize',
+    calls: true,
+    classNames: true
+  },
+  php: {
+    rules: [['comment', HASH_COMMENT], ['meta', /\$[A-Za-z_]\w*/y], ...C_RULES],
+    keywords: 'abstract and array as break case catch class clone const continue declare default do echo else '
+      + 'elseif empty extends final finally fn for foreach function global if implements include instanceof '
+      + 'interface isset list match namespace new or print private protected public readonly require '
+      + 'require_once return static switch throw trait try unset use var while yield',
+    literals: 'true false null TRUE FALSE NULL',
+    calls: true,
+    classNames: true
+  },
+  ruby: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_STRING],
+      ['string', SINGLE_STRING],
+      ['literal', /:[A-Za-z_]\w*[?!]?/y],
+      ['meta', /@{1,2}[A-Za-z_]\w*/y],
+      ['number', NUMBER]
+    ],
+    keywords: 'alias and begin break case class def do else elsif end ensure for if in module next not or redo '
+      + 'require rescue retry return self super then undef unless until when while yield',
+    literals: 'true false nil',
+    classNames: true
+  },
+  shell: {
+    rules: [
+      ['meta', /\$(?:\{[^}\n]*\}?|[A-Za-z_]\w*|[@#?$!*\d-])/y],
+      ['comment', HASH_COMMENT],
+      ['string', DOUBLE_STRING],
+      ['string', SINGLE_STRING],
+      ['number', /\b\d+\b/y]
+    ],
+    keywords: 'break case continue declare do done elif else esac exit export fi for function if in local '
+      + 'readonly return select shift then time unset until while',
+    literals: 'true false'
+  },
+  sql: {
+    rules: [
+      ['comment', /--[^\n]*/y],
+      ['comment', BLOCK_COMMENT],
+      ['string', SINGLE_STRING],
+      ['string', DOUBLE_STRING],
+      ['number', NUMBER]
+    ],
+    keywords: 'add all alter and as asc between by case constraint create cross default delete desc distinct drop '
+      + 'else end exists foreign from full group having if in index inner insert into is join key left like '
+      + 'limit not offset on or order outer primary references returning right select set table then union '
+      + 'unique update using values view when where with',
+    literals: 'null true false',
+    types: 'bigint boolean char date decimal float int integer json jsonb numeric real serial smallint text '
+      + 'timestamp uuid varchar',
+    calls: true,
+    ignoreCase: true
+  },
+  json: {
+    rules: [
+      ['attribute', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/y],
+      ['string', DOUBLE_STRING],
+      ['comment', LINE_COMMENT],
+      ['number', /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y]
+    ],
+    literals: 'true false null'
+  },
+  yaml: {
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['attribute', /(?<=(?:^|\n)[ \t]*(?:-[ \t]+)?)[\w./-][^:\n#]*(?=:(?:[ \t]|\n|$))/y],
+      ['string', DOUBLE_STRING],
+      ['string', SINGLE_STRING],
+      ['meta', /(?:---|\.\.\.)(?=\n|$)|[&*][\w-]+/y],
+      ['number', NUMBER]
+    ],
+    literals: 'true false null yes no on off'
+  },
+  markup: {
+    rules: [
+      ['comment', /<!--[\s\S]*?(?:-->|$)/y],
+      ['meta', /<![A-Za-z][^>]*>?|<\?[\s\S]*?(?:\?>|$)/y],
+      ['tag', /<\/?[A-Za-z][\w:.-]*|\/?>/y],
+      ['attribute', /[A-Za-z_:][\w:.-]*(?=\s*=)/y],
+      ['string', /(?<==\s*)(?:"[^"]*"?|'[^']*'?)/y],
+      ['literal', /&#?\w+;/y]
+    ]
+  },
+  css: {
+    rules: [
+      ['comment', BLOCK_COMMENT],
+      ['comment', /(?<=^|\s)\/\/[^\n]*/y],
+      ['meta', /@[\w-]+/y],
+      ['attribute', /(?<=[{;]\s*)-{0,2}[A-Za-z][\w-]*(?=\s*:)/y],
+      ['string', DOUBLE_STRING],
+      ['string', SINGLE_STRING],
+      ['number', /#[\da-fA-F]{3,8}\b/y],
+      ['number', NUMBER],
+      ['keyword', /!important\b/y]
+    ],
+    calls: true
+  }
+};
+
+/**
+ * Other names of the supported languages, as found in code block headers and classes
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', mjs: 'javascript', cjs: 'javascript', node: 'javascript',
+  ts: 'typescript', tsx: 'typescript',
+  py: 'python', python3: 'python',
+  kt: 'kotlin', kts: 'kotlin',
+  h: 'c',
+  'c++': 'cpp', cc: 'cpp', cxx: 'cpp', hpp: 'cpp',
+  cs: 'csharp', 'c#': 'csharp',
+  golang: 'go',
+  rs: 'rust',
+  rb: 'ruby',
+  sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', shellscript: 'shell',
+  mysql: 'sql', postgresql: 'sql', postgres: 'sql', sqlite: 'sql', plsql: 'sql', tsql: 'sql',
+  jsonc: 'json', json5: 'json',
+  yml: 'yaml',
+  html: 'markup', xml: 'markup', svg: 'markup', xhtml: 'markup', vue: 'markup',
+  scss: 'css', less: 'css'
+};
+
+const compiledGrammars = new Map<string, CompiledGrammar>();
+
+/**
+ * Split code into highlighted tokens
+ *
+ * @param code - Source code
+ * @param language - Language name or alias (e.g. from detectCodeLanguage)
+ * @returns Tokens covering the whole code; a single plain token for unsupported languages
+ */
+export function tokenize(code: string, language: string): Token[] {
+  const grammar = getGrammar(language);
+  if (!grammar) {
+    return code ? [{ text: code }] : [];
+  }
+
+  const tokens: Token[] = [];
+  let plain = '';
+  let position = 0;
+
+  const push = (text: string, type?: TokenType) => {
+    if (!type) {
+      plain += text;
+      return;
+    }
+    if (plain) {
+      tokens.push({ text: plain });
+      plain = '';
+    }
+    tokens.push({ text, type });
+  };
+
+  while (position < code.length) {
+    const rule = matchRule(grammar, code, position);
+    if (rule) {
+      push(rule.text, rule.type);
+      position += rule.text.length;
+      continue;
+    }
+
+    IDENTIFIER.lastIndex = position;
+    const word = IDENTIFIER.exec(code)?.[0];
+    if (word) {
+      push(word, classifyWord(grammar, word, code, position + word.length));
+      position += word.length;
+      continue;
+    }
+
+    push(code[position]);
+    position++;
+  }
+
+  if (plain) {
+    tokens.push({ text: plain });
+  }
+  return tokens;
+}
+
+/**
+ * Split tokens into lines (tokens spanning lines, such as block comments, are cut)
+ *
+ * @param tokens - Tokens of a code block
+ * @returns Tokens of each line
+ */
+export function splitTokenLines(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((text, index) => {
+      if (index > 0) {
+        lines.push([]);
+      }
+      if (text) {
+        lines[lines.length - 1].push(token.type ? { text, type: token.type } : { text });
+      }
+    });
+  });
+  return lines;
+}
+
+/**
+ * Whether a language (or alias) has highlighting rules
+ */
+export function isSupportedLanguage(language: string): boolean {
+  return getGrammar(language) !== null;
+}
+
+/**
+ * Rewrite the code blocks of message HTML with coloured tokens and line numbers
+ * Tokens become <span class="tok-{type}"> elements coloured by codeThemeStyles
+ *
+ * @param html - Message HTML
+ * @param options - Theme and line numbers
+ * @returns HTML with highlighted code blocks (unchanged if there is nothing to do)
+ */
+export function highlightCodeBlocks(html: string, options: HighlightOptions): string {
+  if (options.theme === 'none' && !options.lineNumbers) {
+    return html;
+  }
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const blocks = Array.from(container.querySelectorAll<HTMLElement>('pre'));
+  if (blocks.length === 0) {
+    return html;
+  }
+
+  blocks.forEach(pre => {
+    const language = detectCodeLanguage(pre);
+    const code = (pre.textContent || '').replace(/\n$/, '');
+    const tokens = options.theme === 'none' ? [{ text: code }] : tokenize(code, language);
+    const lines = splitTokenLines(tokens);
+    const numberWidth = String(lines.length).length;
+
+    const element = document.createElement('code');
+    if (language) {
+      element.className = `language-${language}`;
+    }
+    lines.forEach((line, index) => {
+      if (index > 0) {
+        element.append('\n');
+      }
+      if (options.lineNumbers) {
+        const number = document.createElement('span');
+        number.className = 'code-line-number';
+        number.textContent = String(index + 1).padStart(numberWidth);
+        element.appendChild(number);
+      }
+      line.forEach(token => {
+        if (!token.type) {
+          element.append(token.text);
+          return;
+        }
+        const span = document.createElement('span');
+        span.className = `tok-${token.type}`;
+        span.textContent = token.text;
+        element.appendChild(span);
+      });
+    });
+
+    pre.replaceChildren(element);
+    if (options.theme !== 'none') {
+      pre.classList.add(HIGHLIGHTED_CODE_CLASS);
+    }
+  });
+
+  return container.innerHTML;
+}
+
+/**
+ * CSS colouring the blocks rewritten by highlightCodeBlocks
+ * Selectors are more specific than `.message-content pre` so the theme wins over
+ * the page's own (dark mode, print) code block colours
+ *
+ * @param theme - Code theme
+ * @returns CSS rules
+ */
+export function codeThemeStyles(theme: CodeTheme): string {
+  const colors = CODE_THEME_COLORS[theme];
+  const block = `.message-content pre.${HIGHLIGHTED_CODE_CLASS}`;
+  const tokenRules = Object.entries(colors.tokens).map(([type, color]) =>
+    `${block} .tok-${type} { color: ${color};${type === 'comment' ? ' font-style: italic;' : ''} }`
+  );
+
+  return [
+    `${block} { background-color: ${colors.background}; color: ${colors.text}; border-left-color: ${colors.border}; }`,
+    ...tokenRules,
+    `.message-content pre .code-line-number { margin-right: 1em; color: ${colors.lineNumber}; user-select: none; }`
+  ].join('\n');
+}
+
+function getGrammar(language: string): CompiledGrammar | null {
+  const name = LANGUAGE_ALIASES[language.toLowerCase()] ?? language.toLowerCase();
+  const grammar = GRAMMARS[name];
+  if (!grammar) {
+    return null;
+  }
+
+  let compiled = compiledGrammars.get(name);
+  if (!compiled) {
+    const words = new Map<string, TokenType>();
+    const addWords = (list: string | undefined, type: TokenType) => list?.split(' ').forEach(word => {
+      words.set(grammar.ignoreCase ? word.toLowerCase() : word, type);
+    });
+    addWords(grammar.types, 'type');
+    addWords(grammar.literals, 'literal');
+    addWords(grammar.keywords, 'keyword');
+
+    compiled = { ...grammar, words };
+    compiledGrammars.set(name, compiled);
+  }
+  return compiled;
+}
+
+function matchRule(grammar: CompiledGrammar, code: string, position: number): Token | null {
+  for (const [type, pattern] of grammar.rules) {
+    pattern.lastIndex = position;
+    const match = pattern.exec(code);
+    if (match && match[0]) {
+      return { text: match[0], type };
+    }
+  }
+  return null;
+}
+
+function classifyWord(grammar: CompiledGrammar, word: string, code: string, end: number): TokenType | undefined {
+  const known = grammar.words.get(grammar.ignoreCase ? word.toLowerCase() : word);
+  if (known) {
+    return known;
+  }
+
+  if (grammar.calls) {
+    CALL.lastIndex = end;
+    if (CALL.test(code)) {
+      return 'function';
+    }
+  }
+  return grammar.classNames && CLASS_NAME.test(word) ? 'type' : undefined;
+}
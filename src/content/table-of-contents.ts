@@ -0,0 +1,213 @@
+/**
+ * Table of contents - Index of the user's questions
+ *
+ * Long research chats are read by jumping from question to question. This module:
+ * - Lists the user's prompts (truncated) with the anchor of their message
+ * - Adds the list after the header of the styled document of the PDF and HTML
+ *   exports, and an anchor (message-N) to every message
+ * - Prepares the list for the raster PDF, where it links to pages instead of anchors
+ */
+
+import { Message } from './content-extractor';
+import { t } from '../utils/i18n';
+
+/**
+ * Maximum length of a table of contents entry before it is truncated
+ */
+export const TOC_ENTRY_MAX_LENGTH = 80;
+
+/**
+ * A user turn listed in the table of contents
+ */
+export interface TocEntry {
+  /** Number of the user turn (1-based) */
+  turn: number;
+
+  /** Index of the message in the chat */
+  messageIndex: number;
+
+  /** Text of the prompt, truncated to TOC_ENTRY_MAX_LENGTH */
+  label: string;
+}
+
+/**
+ * Styles of the table of contents
+ * The page number floats right of the entry and stays empty outside the raster PDF
+ */
+const TOC_STYLES = `
+  .toc {
+    margin: 0 0 30px;
+    padding: 15px 20px;
+    border: 1px solid #ddd;
+    border-radius: 8px;
+  }
+
+  .toc h2 {
+    margin: 0 0 10px;
+    font-size: 13pt;
+  }
+
+  .toc ol {
+    margin: 0;
+    padding-left: 24px;
+  }
+
+  .toc li {
+    margin: 4px 0;
+  }
+
+  .toc a,
+  .toc .toc-link {
+    color: #1a73e8;
+    text-decoration: none;
+  }
+
+  .toc a:hover {
+    text-decoration: underline;
+  }
+
+  .toc .toc-page {
+    float: right;
+    margin-left: 12px;
+    color: #666;
+  }
+`;
+
+/**
+ * Styles added for html2canvas: the page number keeps its room while it is
+ * empty, so writing it in after the layout does not move the entries
+ */
+const CANVAS_TOC_STYLES = `
+  .toc .toc-page {
+    min-width: 2.5em;
+    min-height: 1em;
+    text-align: right;
+  }
+`;
+
+/**
+ * Anchor id of a message in the PDF and HTML exports
+ *
+ * @param messageIndex - Index of the message in the chat
+ * @returns Id such as "message-3"
+ */
+export function messageAnchor(messageIndex: number): string {
+  return `message-${messageIndex + 1}`;
+}
+
+/**
+ * List the user turns of a chat
+ * Prompts without text (only attachments) are labelled with their turn number
+ *
+ * @param messages - Messages of the chat
+ * @returns One entry per user message, in chat order
+ */
+export function tableOfContentsEntries(messages: Message[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+
+  messages.forEach((message, messageIndex) => {
+    if (message.sender !== 'user') {
+      return;
+    }
+
+    // A template parses the HTML without loading its images
+    const template = document.createElement('template');
+    template.innerHTML = message.content;
+    const text = (template.content.textContent || '').replace(/\s+/g, ' ').trim();
+    const turn = entries.length + 1;
+
+    entries.push({
+      turn,
+      messageIndex,
+      label: text.length > TOC_ENTRY_MAX_LENGTH
+        ? `${text.slice(0, TOC_ENTRY_MAX_LENGTH).trimEnd()}…`
+        : text || t('documentMessage', turn)
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Give every message of a styled document an anchor and insert the table of
+ * contents after the header, with its styles appended to the head
+ * Styles added to the head afterwards (such as color scheme overrides) take precedence
+ *
+ * @param doc - Document parsed from PDFGenerator.applyStyles output
+ * @param entries - User turns from tableOfContentsEntries
+ */
+export function addTableOfContents(doc: Document, entries: TocEntry[]): void {
+  doc.querySelectorAll('.message').forEach((message, index) => {
+    message.id = messageAnchor(index);
+  });
+
+  if (entries.length === 0) {
+    return;
+  }
+
+  const style = doc.createElement('style');
+  style.textContent = TOC_STYLES;
+  doc.head.appendChild(style);
+
+  const toc = createTableOfContents(doc, entries);
+  const header = doc.querySelector('.pdf-header');
+  if (header) {
+    header.after(toc);
+  } else {
+    doc.body.prepend(toc);
+  }
+}
+
+/**
+ * Add the table of contents to a styled document for html2pdf
+ * html2pdf only writes URL links, which cannot point inside the PDF; the
+ * entries keep their target in data-target so the PDF can link them to pages
+ * once the page numbers are known
+ *
+ * @param html - Styled document from PDFGenerator.applyStyles
+ * @param entries - User turns from tableOfContentsEntries
+ * @returns Document with anchored messages and an unlinked table of contents
+ */
+export function prepareTableOfContentsForCanvas(html: string, entries: TocEntry[]): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  addTableOfContents(doc, entries);
+
+  doc.querySelectorAll('nav.toc a[href^="#"]').forEach(link => {
+    const entry = doc.createElement('span');
+    entry.className = 'toc-link';
+    entry.dataset.target = (link.getAttribute('href') as string).slice(1);
+    entry.textContent = link.textContent;
+    link.replaceWith(entry);
+  });
+
+  const style = doc.createElement('style');
+  style.textContent = CANVAS_TOC_STYLES;
+  doc.head.appendChild(style);
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`;
+}
+
+function createTableOfContents(doc: Document, entries: TocEntry[]): HTMLElement {
+  const toc = doc.createElement('nav');
+  toc.className = 'toc';
+
+  const heading = doc.createElement('h2');
+  heading.textContent = t('documentContents');
+
+  const list = doc.createElement('ol');
+  entries.forEach(entry => {
+    const page = doc.createElement('span');
+    page.className = 'toc-page';
+
+    const link = doc.createElement('a');
+    link.setAttribute('href', `#${messageAnchor(entry.messageIndex)}`);
+    link.textContent = entry.label;
+
+    const item = doc.createElement('li');
+    item.append(page, link);
+    list.appendChild(item);
+  });
+
+  toc.append(heading, list);
+  return toc;
+}
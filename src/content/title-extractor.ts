@@ -4,11 +4,39 @@
  * Trách nhiệm:
  * - Tìm và trích xuất tiêu đề chat từ DOM (bao gồm Shadow DOM)
  * - Sanitize tên file để loại bỏ ký tự không hợp lệ
- * - Tạo tên file fallback nếu không có title
+ * - Tạo tên file theo filename template, với fallback nếu không có title
  * - Giới hạn độ dài tên file
  */
 
-import { getChatTitleElement } from '../utils/shadow-dom-utils';
+import { getChatTitleElement, getWorkspaceName } from '../utils/shadow-dom-utils';
+import { ExportFormat, ExportFormatInfo, getExportFormatInfo } from './export-formats';
+import {
+  DEFAULT_FILENAME_TEMPLATE,
+  formatDate,
+  renderFilenameTemplate,
+  templateHasDate,
+  validateFilenameTemplate
+} from './filename-template';
+
+/**
+ * Thông tin cho filename template
+ */
+export interface FilenameOptions {
+  /** Định dạng xuất, quyết định extension (mặc định PDF) */
+  format?: ExportFormat;
+
+  /** Số tin nhắn được xuất ({messages}) */
+  messageCount?: number;
+
+  /** Số lượt hỏi-đáp được xuất ({turns}) */
+  turnCount?: number;
+
+  /** Tên workspace ({workspace}) */
+  workspace?: string | null;
+
+  /** Thời điểm xuất (mặc định: bây giờ) */
+  date?: Date;
+}
 
 /**
  * Interface cho TitleExtractor
@@ -23,9 +51,10 @@ export interface ITitleExtractor {
   /**
    * Tạo filename từ title
    * @param title - Title string hoặc null
-   * @returns Filename hợp lệ với extension .pdf
+   * @param options - Định dạng và thông tin cho filename template
+   * @returns Filename hợp lệ với extension của định dạng
    */
-  generateFilename(title: string | null): string;
+  generateFilename(title: string | null, options?: FilenameOptions): string;
 
   /**
    * Sanitize filename để loại bỏ ký tự không hợp lệ
@@ -55,6 +84,8 @@ const SELECTORS = {
  * TitleExtractor class implementation
  */
 export class TitleExtractor implements ITitleExtractor {
+  private filenameTemplate: string = DEFAULT_FILENAME_TEMPLATE;
+
   /**
    * Trích xuất chat title từ DOM (bao gồm Shadow DOM)
    * Tìm title element bằng selector và lấy textContent
@@ -89,6 +120,15 @@ export class TitleExtractor implements ITitleExtractor {
     }
   }
 
+  /**
+   * Trích xuất tên workspace Gemini Business (cho token {workspace})
+   *
+   * @returns Tên workspace hoặc null nếu không tìm thấy
+   */
+  extractWorkspace(): string | null {
+    return getWorkspaceName();
+  }
+
   /**
    * Sanitize filename để loại bỏ ký tự không hợp lệ
    * Replace các ký tự không hợp lệ: / \ : * ? " < > |
@@ -148,54 +188,51 @@ export class TitleExtractor implements ITitleExtractor {
   }
 
   /**
-   * Tạo filename từ title
+   * Tạo filename từ title theo filename template
    * Nếu title tồn tại: sanitize và truncate title
-   * Nếu title null/empty: tạo fallback "gemini-chat-[timestamp]"
-   * Luôn thêm extension ".pdf"
+   * Nếu title null/empty: fallback "gemini-chat-[timestamp]" (hoặc "gemini-chat" nếu template đã có ngày giờ)
+   * Extension luôn lấy theo định dạng xuất (mặc định .pdf)
    * 
    * @param title - Title string hoặc null
-   * @returns Filename hợp lệ với extension .pdf
+   * @param options - Định dạng và thông tin cho các token của template
+   * @returns Filename hợp lệ với extension của định dạng
    * @validates Requirements 4.2, 4.3, 4.4, 4.5
    */
-  generateFilename(title: string | null): string {
-    let filename: string;
-
-    if (title && title.trim()) {
-      // Sử dụng title làm base filename
-      filename = this.sanitizeFilename(title);
-      filename = this.truncateFilename(filename, 100);
-      
-      // Nếu sau khi sanitize filename rỗng, tạo fallback
-      if (!filename) {
-        const timestamp = this.formatTimestamp(new Date());
-        filename = `gemini-chat-${timestamp}`;
-      }
-    } else {
-      // Tạo fallback filename với timestamp
-      const timestamp = this.formatTimestamp(new Date());
-      filename = `gemini-chat-${timestamp}`;
-    }
-
-    // Luôn thêm extension .pdf
-    return `${filename}.pdf`;
+  generateFilename(title: string | null, options: FilenameOptions = {}): string {
+    const date = options.date ?? new Date();
+    const format = getExportFormatInfo(options.format ?? 'pdf') as ExportFormatInfo;
+    const fallbackTitle = templateHasDate(this.filenameTemplate)
+      ? 'gemini-chat'
+      : `gemini-chat-${formatDate(date, 'YYYYMMDD-HHmmss')}`;
+
+    // Sử dụng title đã sanitize, hoặc fallback nếu title rỗng
+    const sanitizedTitle = title && title.trim()
+      ? this.truncateFilename(this.sanitizeFilename(title), 100)
+      : '';
+
+    const rendered = renderFilenameTemplate(this.filenameTemplate, {
+      title: sanitizedTitle || fallbackTitle,
+      date,
+      messageCount: options.messageCount ?? 0,
+      turnCount: options.turnCount ?? 0,
+      workspace: options.workspace ? this.sanitizeFilename(options.workspace) : null,
+      format
+    });
+
+    const filename = this.truncateFilename(this.sanitizeFilename(rendered), 100) || fallbackTitle;
+
+    return `${filename}.${format.extension}`;
   }
 
   /**
-   * Format timestamp cho fallback filename
-   * Format: YYYYMMDD-HHMMSS
-   * 
-   * @param date - Date object
-   * @returns Formatted timestamp string
-   * @private
+   * Đặt filename template dùng cho generateFilename
+   * Template không hợp lệ bị bỏ qua (dùng template mặc định "{title}")
+   *
+   * @param template - Filename template, xem FILENAME_TOKENS
    */
-  private formatTimestamp(date: Date): string {
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const hours = String(date.getHours()).padStart(2, '0');
-    const minutes = String(date.getMinutes()).padStart(2, '0');
-    const seconds = String(date.getSeconds()).padStart(2, '0');
-
-    return `${year}${month}${day}-${hours}${minutes}${seconds}`;
+  setFilenamePattern(template: string): void {
+    this.filenameTemplate = validateFilenameTemplate(template).length === 0
+      ? template.trim()
+      : DEFAULT_FILENAME_TEMPLATE;
   }
 }
@@ -0,0 +1,328 @@
+/**
+ * TurnSelector - Lets the user choose which conversation turns to export
+ *
+ * Responsibilities:
+ * - Overlay a checkbox on every conversation turn (div.turn) in selection mode
+ * - Provide "from turn N to M" range controls
+ * - Report the selected turn indices to the export pipeline
+ */
+
+import { getChatContainer, getConversationTurns } from '../utils/shadow-dom-utils';
+import { Logger } from '../utils/logger';
+import { t } from '../utils/i18n';
+
+/**
+ * Zero-based indices of the conversation turns to export
+ */
+export type TurnSelection = ReadonlySet<number>;
+
+/**
+ * Class of the checkbox bar inserted at the top of each turn
+ */
+const OVERLAY_CLASS = 'gemini-pdf-export-turn-select';
+
+/**
+ * Inline styles for the overlay: turns live inside Gemini's shadow DOM,
+ * where the extension stylesheet does not apply
+ */
+const OVERLAY_STYLE = [
+  'display: flex',
+  'align-items: center',
+  'gap: 6px',
+  'margin: 0 0 6px',
+  'padding: 4px 8px',
+  'border-left: 3px solid #1a73e8',
+  'border-radius: 4px',
+  'background: rgba(26, 115, 232, 0.08)',
+  'color: #1a73e8',
+  'font: 500 12px/1.4 sans-serif',
+  'cursor: pointer',
+  'user-select: none'
+].join('; ');
+
+/**
+ * TurnSelector class
+ * Manages selection mode, checkbox overlays and the range panel
+ */
+export class TurnSelector {
+  private active: boolean = false;
+  private turns: HTMLElement[] = [];
+  private selected: Set<HTMLElement> = new Set();
+  private panel: HTMLDivElement | null = null;
+  private observer: MutationObserver | null = null;
+  private changeListeners: Array<(active: boolean) => void> = [];
+
+  /**
+   * Check whether selection mode is on
+   * @returns True if checkboxes are shown on the turns
+   */
+  isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Turn selection mode on
+   * Every turn starts selected; turns loaded later start unselected
+   */
+  enable(): void {
+    if (this.active) {
+      return;
+    }
+
+    this.active = true;
+    this.turns = getConversationTurns();
+    this.selected = new Set(this.turns);
+    this.turns.forEach(turn => this.addOverlay(turn));
+    this.panel = this.createPanel();
+    document.body.appendChild(this.panel);
+    this.observeNewTurns();
+    this.update();
+
+    Logger.info(`Turn selection enabled for ${this.turns.length} turns`);
+    this.changeListeners.forEach(listener => listener(true));
+  }
+
+  /**
+   * Turn selection mode off and remove all overlays
+   */
+  disable(): void {
+    if (!this.active) {
+      return;
+    }
+
+    this.active = false;
+    this.observer?.disconnect();
+    this.observer = null;
+    this.turns.forEach(turn => turn.querySelector(`:scope > .${OVERLAY_CLASS}`)?.remove());
+    this.turns = [];
+    this.selected.clear();
+    this.panel?.remove();
+    this.panel = null;
+
+    Logger.info('Turn selection disabled');
+    this.changeListeners.forEach(listener => listener(false));
+  }
+
+  /**
+   * Toggle selection mode
+   */
+  toggle(): void {
+    if (this.active) {
+      this.disable();
+    } else {
+      this.enable();
+    }
+  }
+
+  /**
+   * Register a listener called when selection mode is turned on or off
+   * @param listener - Callback receiving whether selection mode is on
+   */
+  onActiveChange(listener: (active: boolean) => void): void {
+    this.changeListeners.push(listener);
+  }
+
+  /**
+   * Get the number of turns currently in the conversation
+   * @returns Turn count (only tracked while selection mode is on)
+   */
+  getTurnCount(): number {
+    return this.turns.length;
+  }
+
+  /**
+   * Get the turns chosen for export
+   * @returns Zero-based turn indices, or null when selection mode is off (export everything)
+   */
+  getSelectedTurns(): TurnSelection | null {
+    if (!this.active) {
+      return null;
+    }
+
+    const indices = new Set<number>();
+    this.turns.forEach((turn, index) => {
+      if (this.selected.has(turn)) {
+        indices.add(index);
+      }
+    });
+    return indices;
+  }
+
+  /**
+   * Select or deselect a single turn
+   * @param index - Zero-based turn index
+   * @param selected - Whether the turn should be exported
+   */
+  setTurnSelected(index: number, selected: boolean): void {
+    const turn = this.turns[index];
+    if (!turn) {
+      return;
+    }
+
+    if (selected) {
+      this.selected.add(turn);
+    } else {
+      this.selected.delete(turn);
+    }
+    this.update();
+  }
+
+  /**
+   * Select exactly the turns from `from` to `to` (1-based, inclusive)
+   * Out-of-range bounds are clamped and reversed bounds are swapped
+   *
+   * @param from - First turn number
+   * @param to - Last turn number
+   */
+  selectRange(from: number, to: number): void {
+    if (this.turns.length === 0) {
+      return;
+    }
+
+    const clamp = (value: number) => Math.min(Math.max(Math.round(value), 1), this.turns.length);
+    const start = clamp(Math.min(from, to));
+    const end = clamp(Math.max(from, to));
+
+    this.selected = new Set(this.turns.slice(start - 1, end));
+    this.update();
+  }
+
+  /**
+   * Select every turn
+   */
+  selectAll(): void {
+    this.selected = new Set(this.turns);
+    this.update();
+  }
+
+  /**
+   * Deselect every turn
+   */
+  clearSelection(): void {
+    this.selected.clear();
+    this.update();
+  }
+
+  /**
+   * Insert the checkbox bar at the top of a turn
+   * @param turn - Turn element (div.turn)
+   */
+  private addOverlay(turn: HTMLElement): void {
+    if (turn.querySelector(`:scope > .${OVERLAY_CLASS}`)) {
+      return;
+    }
+
+    const label = document.createElement('label');
+    label.className = OVERLAY_CLASS;
+    label.setAttribute('style', OVERLAY_STYLE);
+
+    const checkbox = document.createElement('input');
+    checkbox.type = 'checkbox';
+    checkbox.addEventListener('change', () => {
+      this.setTurnSelected(this.turns.indexOf(turn), checkbox.checked);
+    });
+
+    const text = document.createElement('span');
+    label.append(checkbox, text);
+    turn.prepend(label);
+  }
+
+  /**
+   * Pick up turns that appear while selection mode is on (e.g. older history being loaded)
+   */
+  private observeNewTurns(): void {
+    const container = getChatContainer();
+    if (!container || typeof MutationObserver === 'undefined') {
+      return;
+    }
+
+    this.observer = new MutationObserver(() => {
+      const turns = getConversationTurns();
+      if (turns.length === this.turns.length && turns.every((turn, index) => turn === this.turns[index])) {
+        return;
+      }
+      this.turns = turns;
+      turns.forEach(turn => this.addOverlay(turn));
+      this.update();
+    });
+    this.observer.observe(container, { childList: true, subtree: true });
+  }
+
+  /**
+   * Create the floating panel with range controls
+   * @returns Panel element
+   */
+  private createPanel(): HTMLDivElement {
+    const panel = document.createElement('div');
+    panel.className = 'gemini-pdf-export-turn-panel';
+    panel.setAttribute('role', 'group');
+    panel.setAttribute('aria-label', t('turnSelectorTitle'));
+
+    const createNumberInput = (name: string, value: number) => {
+      const input = document.createElement('input');
+      input.type = 'number';
+      input.name = name;
+      input.min = '1';
+      input.value = String(value);
+      return input;
+    };
+
+    const from = createNumberInput('from', 1);
+    const to = createNumberInput('to', Math.max(this.turns.length, 1));
+
+    const range = document.createElement('div');
+    range.className = 'gemini-pdf-export-turn-range';
+    range.append(`${t('turnRangeFrom')} `, from, ` ${t('turnRangeTo')} `, to);
+
+    const createButton = (className: string, label: string, onClick: () => void) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.className = className;
+      button.textContent = label;
+      button.addEventListener('click', onClick);
+      return button;
+    };
+
+    const actions = document.createElement('div');
+    actions.className = 'gemini-pdf-export-turn-actions';
+    actions.append(
+      createButton('apply', t('buttonApply'), () => this.selectRange(Number(from.value), Number(to.value))),
+      createButton('select-all', t('buttonSelectAll'), () => this.selectAll()),
+      createButton('clear', t('buttonClear'), () => this.clearSelection()),
+      createButton('close', t('buttonClose'), () => this.disable())
+    );
+
+    const summary = document.createElement('div');
+    summary.className = 'gemini-pdf-export-turn-summary';
+
+    panel.append(range, actions, summary);
+    return panel;
+  }
+
+  /**
+   * Sync checkboxes, turn numbers and the panel summary with the selection
+   */
+  private update(): void {
+    this.turns.forEach((turn, index) => {
+      const overlay = turn.querySelector(`:scope > .${OVERLAY_CLASS}`);
+      const checkbox = overlay?.querySelector('input');
+      const text = overlay?.querySelector('span');
+      if (checkbox) {
+        checkbox.checked = this.selected.has(turn);
+      }
+      if (text) {
+        text.textContent = t('turnLabel', index + 1);
+      }
+    });
+
+    const summary = this.panel?.querySelector('.gemini-pdf-export-turn-summary');
+    if (summary) {
+      const count = this.turns.filter(turn => this.selected.has(turn)).length;
+      summary.textContent = t('turnSelectionSummary', count, this.turns.length);
+    }
+    const to = this.panel?.querySelector<HTMLInputElement>('input[name="to"]');
+    if (to) {
+      to.max = String(Math.max(this.turns.length, 1));
+    }
+  }
+}
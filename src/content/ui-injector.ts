@@ -8,10 +8,19 @@
  */
 
 import { Logger } from '../utils/logger';
+import { t } from '../utils/i18n';
 import { getHeaderElement } from '../utils/shadow-dom-utils';
+import { EXPORT_FORMATS, ExportFormat, ExportFormatInfo, getExportFormatInfo } from './export-formats';
+import { ExportProgress } from './export-progress';
 
 export class UIInjector {
   private button: HTMLButtonElement | null = null;
+  private container: HTMLDivElement | null = null;
+  private menu: HTMLDivElement | null = null;
+  private selectedFormat: ExportFormat = EXPORT_FORMATS[0].id;
+  private pickedFormat: ExportFormat | null = null; // Last format the user picked in this tab (kept in memory only)
+  private formatChangeListeners: Array<(format: ExportFormat) => void> = [];
+  private cancelListeners: Array<() => void> = [];
 
   constructor() {
     // Logger is a static class, no need to instantiate
@@ -19,35 +28,60 @@ export class UIInjector {
 
   /**
    * Inject export button into the Gemini Business page
-   * Creates button with icon, text, and tooltip
+   * Creates a split button: the main part runs the export, the arrow part
+   * opens a menu listing every registered export format
    * Uses fixed position to avoid conflicts with Gemini UI
    * 
+   * @param defaultFormat - Format to select when no choice was remembered in this tab
+   * 
    * Requirements: 1.1, 1.3, 1.4
    */
-  injectButton(): void {
+  injectButton(defaultFormat: ExportFormat = EXPORT_FORMATS[0].id): void {
     try {
       Logger.info('Injecting export button into page');
 
+      this.selectedFormat = this.pickedFormat ?? defaultFormat;
+
+      // Create split button container
+      this.container = document.createElement('div');
+      this.container.className = 'gemini-pdf-export-split';
+
       // Create button element
       this.button = document.createElement('button');
       this.button.className = 'gemini-pdf-export-button';
-      this.button.setAttribute('title', 'Xuất cuộc trò chuyện thành PDF');
       
       // Create icon element (using SVG for PDF icon)
       const icon = this.createIcon();
       
       // Create text element
       const text = document.createElement('span');
-      text.textContent = 'Xuất PDF';
       
       // Append icon and text to button
       this.button.appendChild(icon);
       this.button.appendChild(text);
+
+      // Create dropdown toggle and format menu
+      const toggle = this.createMenuToggle();
+      this.menu = this.createFormatMenu();
+
+      this.container.appendChild(this.button);
+      this.container.appendChild(this.createCancelButton());
+      this.container.appendChild(toggle);
+      this.container.appendChild(this.menu);
+
+      this.updateButtonLabel();
       
       // Inject button with fixed position
-      document.body.appendChild(this.button);
+      document.body.appendChild(this.container);
       Logger.info('Button injected with fixed position');
 
+      // Close the menu when clicking anywhere else on the page
+      document.addEventListener('click', (event) => {
+        if (this.container && !this.container.contains(event.target as Node)) {
+          this.closeMenu();
+        }
+      });
+
       Logger.info('Export button successfully injected');
     } catch (error) {
       Logger.error('Failed to inject button', error);
@@ -55,6 +89,81 @@ export class UIInjector {
     }
   }
 
+  /**
+   * Create the arrow button that opens the format menu
+   * @returns Toggle button element
+   */
+  private createMenuToggle(): HTMLButtonElement {
+    const toggle = document.createElement('button');
+    toggle.className = 'gemini-pdf-export-toggle';
+    toggle.setAttribute('aria-haspopup', 'menu');
+    toggle.setAttribute('aria-expanded', 'false');
+    toggle.setAttribute('title', t('formatMenuTitle'));
+    toggle.textContent = '▾';
+
+    toggle.addEventListener('click', (event) => {
+      event.stopPropagation();
+      if (this.isMenuOpen()) {
+        this.closeMenu();
+      } else {
+        this.openMenu();
+      }
+    });
+
+    return toggle;
+  }
+
+  /**
+   * Create the button that cancels the running export (shown while loading)
+   * @returns Cancel button element
+   */
+  private createCancelButton(): HTMLButtonElement {
+    const cancel = document.createElement('button');
+    cancel.className = 'gemini-pdf-export-cancel';
+    cancel.setAttribute('title', t('cancelExportTitle'));
+    cancel.setAttribute('aria-label', t('cancelExportTitle'));
+    cancel.textContent = '✕';
+    cancel.hidden = true;
+
+    cancel.addEventListener('click', (event) => {
+      event.stopPropagation();
+      cancel.disabled = true;
+      Logger.info('Export cancel requested');
+      this.cancelListeners.forEach(listener => listener());
+    });
+
+    return cancel;
+  }
+
+  /**
+   * Create the dropdown menu with one item per registered export format
+   * @returns Menu element (hidden until opened)
+   */
+  private createFormatMenu(): HTMLDivElement {
+    const menu = document.createElement('div');
+    menu.className = 'gemini-pdf-export-menu';
+    menu.setAttribute('role', 'menu');
+    menu.hidden = true;
+
+    EXPORT_FORMATS.forEach(format => {
+      const item = document.createElement('button');
+      item.className = 'gemini-pdf-export-menu-item';
+      item.setAttribute('role', 'menuitemradio');
+      item.setAttribute('data-format', format.id);
+      item.textContent = format.label;
+
+      item.addEventListener('click', (event) => {
+        event.stopPropagation();
+        this.setSelectedFormat(format.id);
+        this.closeMenu();
+      });
+
+      menu.appendChild(item);
+    });
+
+    return menu;
+  }
+
   /**
    * Create SVG icon for the export button
    * @returns SVG element representing a PDF/download icon
@@ -118,11 +227,18 @@ export class UIInjector {
     // Update button text
     const text = this.button.querySelector('span');
     if (text) {
-      text.textContent = 'Đang xuất...';
+      text.textContent = t('exportButtonBusy');
     }
     
     // Disable button
     this.disableButton();
+
+    // Offer to cancel the export
+    const cancel = this.getCancelButton();
+    if (cancel) {
+      cancel.hidden = false;
+      cancel.disabled = false;
+    }
   }
 
   /**
@@ -146,10 +262,51 @@ export class UIInjector {
       spinner.replaceWith(icon);
     }
     
+    // Remove the progress bar and the cancel button
+    this.button.querySelector('.gemini-pdf-export-progress')?.remove();
+    const cancel = this.getCancelButton();
+    if (cancel) {
+      cancel.hidden = true;
+    }
+
     // Restore button text
+    this.updateButtonLabel();
+  }
+
+  /**
+   * Show the progress of the running export on the button
+   * Adds a progress bar along the bottom edge and the percentage to the text
+   *
+   * @param progress - Progress reported by the export pipeline
+   */
+  showProgress(progress: ExportProgress): void {
+    if (!this.button) {
+      return;
+    }
+
+    let bar = this.button.querySelector<HTMLElement>('.gemini-pdf-export-progress');
+    if (!bar) {
+      bar = document.createElement('div');
+      bar.className = 'gemini-pdf-export-progress';
+      bar.setAttribute('role', 'progressbar');
+      bar.setAttribute('aria-valuemin', '0');
+      bar.setAttribute('aria-valuemax', '100');
+
+      const fill = document.createElement('div');
+      fill.className = 'gemini-pdf-export-progress-fill';
+      bar.appendChild(fill);
+      this.button.appendChild(bar);
+    }
+
+    bar.setAttribute('aria-valuenow', String(progress.percent));
+    const fill = bar.querySelector<HTMLElement>('.gemini-pdf-export-progress-fill');
+    if (fill) {
+      fill.style.width = `${progress.percent}%`;
+    }
+
     const text = this.button.querySelector('span');
     if (text) {
-      text.textContent = 'Xuất PDF';
+      text.textContent = t('exportButtonProgress', progress.percent);
     }
   }
 
@@ -165,6 +322,7 @@ export class UIInjector {
     }
 
     this.button.disabled = true;
+    this.setMenuDisabled(true);
     Logger.info('Button disabled');
   }
 
@@ -180,6 +338,7 @@ export class UIInjector {
     }
 
     this.button.disabled = false;
+    this.setMenuDisabled(false);
     Logger.info('Button enabled');
   }
 
@@ -187,11 +346,11 @@ export class UIInjector {
    * Show notification to user
    * 
    * @param message - Message to display
-   * @param type - Notification type (success or error)
+   * @param type - Notification type (success, error or info)
    * 
    * Requirements: 5.7, 6.3, 6.4
    */
-  showNotification(message: string, type: 'success' | 'error'): void {
+  showNotification(message: string, type: 'success' | 'error' | 'info'): void {
     Logger.info(`Showing ${type} notification: ${message}`);
 
     // Create notification element
@@ -216,4 +375,224 @@ export class UIInjector {
   getButton(): HTMLButtonElement | null {
     return this.button;
   }
+
+  /**
+   * Get the currently selected export format
+   * @returns Selected format identifier
+   */
+  getSelectedFormat(): ExportFormat {
+    return this.selectedFormat;
+  }
+
+  /**
+   * Select an export format
+   * Updates the button label and tooltip, remembers the choice for this
+   * tab and notifies format change listeners
+   * 
+   * @param format - Format identifier to select
+   */
+  setSelectedFormat(format: ExportFormat): void {
+    if (!getExportFormatInfo(format)) {
+      Logger.warn(`Ignoring unknown export format: ${format}`);
+      return;
+    }
+
+    const changed = format !== this.selectedFormat;
+    this.selectedFormat = format;
+    this.updateButtonLabel();
+    this.pickedFormat = format;
+
+    if (changed) {
+      Logger.info(`Export format selected: ${format}`);
+      this.formatChangeListeners.forEach(listener => listener(format));
+    }
+  }
+
+  /**
+   * Apply the default format from the settings
+   * Has no effect once the user has picked a format in this tab;
+   * the default is not remembered so later changes to it still apply
+   *
+   * @param format - Default format identifier
+   * @returns True if the selected format changed
+   */
+  applyDefaultFormat(format: ExportFormat): boolean {
+    if (!getExportFormatInfo(format) || this.pickedFormat || format === this.selectedFormat) {
+      return false;
+    }
+
+    this.selectedFormat = format;
+    this.updateButtonLabel();
+    Logger.info(`Default export format applied: ${format}`);
+    return true;
+  }
+
+  /**
+   * Register a listener called when the user picks another format
+   * @param listener - Callback receiving the new format
+   */
+  onFormatChange(listener: (format: ExportFormat) => void): void {
+    this.formatChangeListeners.push(listener);
+  }
+
+  /**
+   * Register a listener called when the user cancels the running export
+   * @param listener - Callback that stops the export
+   */
+  onCancel(listener: () => void): void {
+    this.cancelListeners.push(listener);
+  }
+
+  /**
+   * Add an action entry below the formats in the format menu
+   * (e.g. switching to turn selection mode)
+   * 
+   * @param id - Action identifier, stored in data-action
+   * @param label - Menu item text
+   * @param onSelect - Called when the item is clicked
+   */
+  addMenuAction(id: string, label: string, onSelect: () => void): void {
+    if (!this.menu) {
+      Logger.warn(`Cannot add menu action before the button is injected: ${id}`);
+      return;
+    }
+
+    if (!this.menu.querySelector('.gemini-pdf-export-menu-separator')) {
+      const separator = document.createElement('div');
+      separator.className = 'gemini-pdf-export-menu-separator';
+      separator.setAttribute('role', 'separator');
+      this.menu.appendChild(separator);
+    }
+
+    const item = document.createElement('button');
+    item.className = 'gemini-pdf-export-menu-action';
+    item.setAttribute('role', 'menuitemcheckbox');
+    item.setAttribute('aria-checked', 'false');
+    item.setAttribute('data-action', id);
+    item.textContent = label;
+
+    item.addEventListener('click', (event) => {
+      event.stopPropagation();
+      this.closeMenu();
+      onSelect();
+    });
+
+    this.menu.appendChild(item);
+  }
+
+  /**
+   * Change the text of a menu action
+   * @param id - Action identifier
+   * @param label - New menu item text
+   */
+  setMenuActionLabel(id: string, label: string): void {
+    const item = this.menu?.querySelector(`.gemini-pdf-export-menu-action[data-action="${id}"]`);
+    if (item) {
+      item.textContent = label;
+    }
+  }
+
+  /**
+   * Show a menu action as switched on or off
+   * @param id - Action identifier
+   * @param active - Whether the action's mode is on
+   */
+  setMenuActionActive(id: string, active: boolean): void {
+    const item = this.menu?.querySelector(`.gemini-pdf-export-menu-action[data-action="${id}"]`);
+    item?.setAttribute('aria-checked', String(active));
+    item?.classList.toggle('selected', active);
+  }
+
+  /**
+   * Open the format menu
+   */
+  openMenu(): void {
+    if (!this.menu || this.button?.disabled) {
+      return;
+    }
+
+    this.menu.hidden = false;
+    this.container?.querySelector('.gemini-pdf-export-toggle')?.setAttribute('aria-expanded', 'true');
+  }
+
+  /**
+   * Close the format menu
+   */
+  closeMenu(): void {
+    if (!this.menu) {
+      return;
+    }
+
+    this.menu.hidden = true;
+    this.container?.querySelector('.gemini-pdf-export-toggle')?.setAttribute('aria-expanded', 'false');
+  }
+
+  /**
+   * Check whether the format menu is open
+   * @returns True if the menu is visible
+   */
+  isMenuOpen(): boolean {
+    return !!this.menu && !this.menu.hidden;
+  }
+
+  /**
+   * Re-translate the button and toggle after the language changed
+   */
+  refreshLabels(): void {
+    this.container?.querySelector('.gemini-pdf-export-toggle')?.setAttribute('title', t('formatMenuTitle'));
+    const cancel = this.getCancelButton();
+    cancel?.setAttribute('title', t('cancelExportTitle'));
+    cancel?.setAttribute('aria-label', t('cancelExportTitle'));
+
+    if (this.button?.querySelector('.spinner')) {
+      const text = this.button.querySelector('span');
+      if (text) {
+        text.textContent = t('exportButtonBusy');
+      }
+    } else {
+      this.updateButtonLabel();
+    }
+  }
+
+  private getCancelButton(): HTMLButtonElement | null {
+    return this.container?.querySelector<HTMLButtonElement>('.gemini-pdf-export-cancel') ?? null;
+  }
+
+  /**
+   * Update button text, tooltip and menu check marks for the selected format
+   */
+  private updateButtonLabel(): void {
+    if (!this.button) {
+      return;
+    }
+
+    const format = getExportFormatInfo(this.selectedFormat) as ExportFormatInfo;
+
+    this.button.setAttribute('title', t('exportButtonTitle', format.label));
+
+    const text = this.button.querySelector('span');
+    if (text) {
+      text.textContent = t('exportButtonLabel', format.label);
+    }
+
+    this.menu?.querySelectorAll('.gemini-pdf-export-menu-item').forEach(item => {
+      const checked = item.getAttribute('data-format') === this.selectedFormat;
+      item.setAttribute('aria-checked', String(checked));
+      item.classList.toggle('selected', checked);
+    });
+  }
+
+  /**
+   * Enable or disable the dropdown toggle together with the main button
+   * @param disabled - Whether the toggle should be disabled
+   */
+  private setMenuDisabled(disabled: boolean): void {
+    const toggle = this.container?.querySelector<HTMLButtonElement>('.gemini-pdf-export-toggle');
+    if (toggle) {
+      toggle.disabled = disabled;
+    }
+    if (disabled) {
+      this.closeMenu();
+    }
+  }
 }
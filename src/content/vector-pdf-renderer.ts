@@ -0,0 +1,1208 @@
+/**
+ * VectorPDFRenderer - Lays out chat content directly into PDF text objects
+ *
+ * This module is responsible for:
+ * - Converting message HTML into a simple block model (paragraphs, headings, lists, code, tables)
+ * - Laying out blocks into pages with word wrapping and page breaks
+ * - Listing the user's questions in a table of contents with page numbers, and as PDF bookmarks
+ * - Drawing the running header and footer (page templates) and the classification watermark on every page
+ * - Colouring code block tokens with the code theme
+ * - Writing formulas as Unicode text (x² + √(y + 1))
+ * - Drawing Mermaid/Graphviz diagrams with vector shapes, their sources in an appendix
+ * - Drawing real, selectable PDF text with embedded Unicode fonts (Vietnamese diacritics included)
+ *
+ * Unlike the html2pdf.js path, nothing is rasterized: the output is small,
+ * sharp at any zoom level, searchable and copyable.
+ */
+
+import { jsPDF } from 'jspdf';
+import { ChatContent, Message } from './content-extractor';
+import { citationLink, linkCitationMarkers, renderCitationList } from './citations';
+import { renderAttachmentList } from './attachments';
+import { PDFOptions } from './pdf-options';
+import { detectCodeLanguage } from './html-to-markdown';
+import { CODE_THEME_COLORS, Token, splitTokenLines, tokenize } from './syntax-highlighter';
+import { texToText } from './math-render';
+import { DiagramScene, Point } from './diagram-layout';
+import { DiagramLanguage, diagramLanguageName, findDiagramLanguage, renderDiagram } from './diagrams';
+import { TocEntry, tableOfContentsEntries } from './table-of-contents';
+import { drawPageTemplates, pageTemplateContext, pageTemplates } from './page-template';
+import { drawClassificationWatermark } from './classification';
+import { Logger } from '../utils/logger';
+import { throwIfCancelled } from '../utils/error-handler';
+import { formatDateTime, t } from '../utils/i18n';
+
+/**
+ * Loads a bundled font file by name and returns its bytes
+ */
+export type FontLoader = (file: string) => Promise<ArrayBuffer>;
+
+/**
+ * Font style variants available in the embedded font families
+ */
+type FontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+/**
+ * Embedded font files, registered with jsPDF under the given family/style
+ */
+const EMBEDDED_FONTS: Array<{ file: string; family: string; style: FontStyle }> = [
+  { file: 'DejaVuSans.ttf', family: 'DejaVuSans', style: 'normal' },
+  { file: 'DejaVuSans-Bold.ttf', family: 'DejaVuSans', style: 'bold' },
+  { file: 'DejaVuSans-Oblique.ttf', family: 'DejaVuSans', style: 'italic' },
+  { file: 'DejaVuSans-BoldOblique.ttf', family: 'DejaVuSans', style: 'bolditalic' },
+  { file: 'DejaVuSansMono.ttf', family: 'DejaVuSansMono', style: 'normal' }
+];
+
+const TEXT_FONT = 'DejaVuSans';
+const MONO_FONT = 'DejaVuSansMono';
+
+/** Millimetres per typographic point */
+const PT_TO_MM = 0.3528;
+
+/** Millimetres per CSS pixel (diagram scenes are laid out in px) */
+const PX_TO_MM = 25.4 / 96;
+
+/**
+ * Default font loader: fetches fonts shipped in the extension package
+ * (declared as web accessible resources in manifest.json)
+ */
+export const loadBundledFont: FontLoader = async (file: string) => {
+  const response = await fetch(chrome.runtime.getURL(`fonts/${file}`));
+  if (!response.ok) {
+    throw new Error(`Could not load font ${file}: HTTP ${response.status}`);
+  }
+  return response.arrayBuffer();
+};
+
+/**
+ * Register the regular text font with a document that was not laid out by
+ * this renderer (such as the html2pdf.js output), for Unicode text drawn over it
+ *
+ * @param doc - Document to register the font with
+ * @param fontLoader - Loader of the font file
+ * @returns Font family to pass to setFont
+ */
+export async function embedTextFont(doc: jsPDF, fontLoader: FontLoader = loadBundledFont): Promise<string> {
+  const font = EMBEDDED_FONTS[0];
+  doc.addFileToVFS(font.file, arrayBufferToBase64(await fontLoader(font.file)));
+  doc.addFont(font.file, font.family, font.style, undefined, 'Identity-H');
+  return font.family;
+}
+
+/**
+ * A run of inline text sharing the same style
+ */
+export interface TextRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  link?: string;
+}
+
+/**
+ * Block-level content derived from message HTML
+ */
+export type Block =
+  | { type: 'paragraph'; runs: TextRun[]; indent: number; marker?: string; quote?: boolean }
+  | { type: 'heading'; level: number; runs: TextRun[] }
+  | { type: 'code'; lines: string[]; language?: string }
+  | { type: 'table'; rows: Array<{ header: boolean; cells: string[] }> }
+  | { type: 'image'; src: string; alt: string }
+  | { type: 'diagram'; scene: DiagramScene; language: DiagramLanguage; source: string }
+  | { type: 'rule' };
+
+/**
+ * Positioned drawing operation on a page (coordinates in mm, y measured from the top)
+ */
+type DrawOp =
+  | { kind: 'text'; x: number; y: number; text: string; font: string; style: FontStyle; size: number; color: string; link?: string; target?: number; width: number }
+  | { kind: 'rect'; x: number; y: number; w: number; h: number; fill?: string; stroke?: string }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; color: string }
+  | { kind: 'image'; data: string; x: number; y: number; w: number; h: number }
+  | { kind: 'diagram'; scene: DiagramScene; x: number; y: number; scale: number };
+
+/**
+ * Draw operations of a single page; backgrounds are painted before content
+ */
+interface PageOps {
+  backgrounds: DrawOp[];
+  content: DrawOp[];
+}
+
+/**
+ * Text ops of a table of contents entry, completed once the page of its turn is known
+ */
+interface TocOps {
+  entry: TocEntry;
+  labels: Array<Extract<DrawOp, { kind: 'text' }>>;
+  page: Extract<DrawOp, { kind: 'text' }>;
+}
+
+/**
+ * Inline segment placed on a wrapped line
+ */
+interface LineSegment {
+  text: string;
+  style: FontStyle;
+  font: string;
+  link?: string;
+  width: number;
+}
+
+/**
+ * Convert an HTML fragment into the block model used for layout
+ *
+ * @param html - Message HTML content
+ * @returns Ordered list of blocks
+ */
+export function htmlToBlocks(html: string): Block[] {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const blocks: Block[] = [];
+  collectBlocks(container, blocks, 0, false);
+  return blocks;
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'pre', 'table', 'blockquote', 'hr', 'img', 'figure'
+]);
+
+function collectBlocks(parent: Node, blocks: Block[], indent: number, quote: boolean): void {
+  const pendingRuns: TextRun[] = [];
+
+  // Emptied in place: collectRuns keeps appending to the same list after an image
+  const flush = () => {
+    const runs = normalizeRuns(pendingRuns.splice(0));
+    if (runs.length > 0) {
+      blocks.push({ type: 'paragraph', runs, indent, quote });
+    }
+  };
+
+  parent.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      pendingRuns.push({ text: node.textContent || '', bold: false, italic: false, code: false });
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+
+    if (tag === 'br') {
+      flush();
+      return;
+    }
+
+    // Display formulas are set apart like a quotation, inline ones join the text
+    if (element.hasAttribute('data-tex')) {
+      const runs = collectMathRuns(element, { text: '', bold: false, italic: false, code: false });
+      if (element.dataset.display === 'true') {
+        flush();
+        const formula = normalizeRuns(runs);
+        if (formula.length > 0) {
+          blocks.push({ type: 'paragraph', runs: formula, indent: indent + 1, quote });
+        }
+      } else {
+        pendingRuns.push(...runs);
+      }
+      return;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) {
+      // Images inside inline elements (such as a linked image) split the paragraph
+      collectRuns(element, { text: '', bold: false, italic: false, code: false }, pendingRuns, image => {
+        flush();
+        blocks.push(image);
+      });
+      return;
+    }
+
+    flush();
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const runs = normalizeRuns(collectRuns(element, { text: '', bold: true, italic: false, code: false }));
+        if (runs.length > 0) {
+          blocks.push({ type: 'heading', level: Number(tag[1]), runs });
+        }
+        break;
+      }
+      case 'ul':
+      case 'ol': {
+        const start = Number(element.getAttribute('start')) || 1;
+        let index = 0;
+        Array.from(element.children).forEach(child => {
+          if (child.tagName.toLowerCase() !== 'li') {
+            return;
+          }
+          const marker = tag === 'ol' ? `${start + index}.` : '•';
+          index++;
+          collectListItem(child as HTMLElement, blocks, indent + 1, marker, quote);
+        });
+        break;
+      }
+      case 'li':
+        collectListItem(element, blocks, indent + 1, '•', quote);
+        break;
+      case 'pre': {
+        const code = (element.textContent || '').replace(/\n$/, '');
+        const diagramLanguage = findDiagramLanguage(element);
+        const scene = diagramLanguage ? renderDiagram(code, diagramLanguage) : null;
+        if (diagramLanguage && scene) {
+          blocks.push({ type: 'diagram', scene, language: diagramLanguage, source: code });
+          break;
+        }
+        const language = detectCodeLanguage(element);
+        blocks.push(language ? { type: 'code', lines: code.split('\n'), language } : { type: 'code', lines: code.split('\n') });
+        break;
+      }
+      case 'table':
+        blocks.push({ type: 'table', rows: collectTableRows(element as HTMLTableElement) });
+        break;
+      case 'blockquote':
+        collectBlocks(element, blocks, indent + 1, true);
+        break;
+      case 'hr':
+        blocks.push({ type: 'rule' });
+        break;
+      case 'img': {
+        const src = element.getAttribute('src') || '';
+        if (src) {
+          blocks.push({ type: 'image', src, alt: element.getAttribute('alt') || '' });
+        }
+        break;
+      }
+      default:
+        collectBlocks(element, blocks, indent, quote);
+    }
+  });
+
+  flush();
+}
+
+function collectListItem(item: HTMLElement, blocks: Block[], indent: number, marker: string, quote: boolean): void {
+  const firstBlock = blocks.length;
+  collectBlocks(item, blocks, indent, quote);
+
+  const first = blocks[firstBlock];
+  if (first && first.type === 'paragraph' && first.marker === undefined && first.indent === indent) {
+    first.marker = marker;
+  } else {
+    blocks.splice(firstBlock, 0, {
+      type: 'paragraph',
+      runs: [{ text: ' ', bold: false, italic: false, code: false }],
+      indent,
+      marker,
+      quote
+    });
+  }
+}
+
+function collectTableRows(table: HTMLTableElement): Array<{ header: boolean; cells: string[] }> {
+  return Array.from(table.querySelectorAll('tr')).map(row => {
+    const cells = Array.from(row.children).filter(cell => /^(td|th)$/i.test(cell.tagName));
+    return {
+      header: cells.length > 0 && cells.every(cell => cell.tagName.toLowerCase() === 'th'),
+      cells: cells.map(cell => (cell.textContent || '').replace(/\s+/g, ' ').trim())
+    };
+  });
+}
+
+/**
+ * Collect the text runs of an inline element
+ *
+ * @param element - Inline element
+ * @param style - Style inherited from the parents
+ * @param runs - List the runs are appended to
+ * @param onImage - Called with the images met on the way, after the runs before them are appended; images are skipped without it
+ * @returns The list of runs
+ */
+function collectRuns(element: HTMLElement, style: TextRun, runs: TextRun[] = [], onImage?: (image: Block) => void): TextRun[] {
+  const tag = element.tagName.toLowerCase();
+  const next: TextRun = {
+    text: '',
+    bold: style.bold || tag === 'strong' || tag === 'b',
+    italic: style.italic || tag === 'em' || tag === 'i',
+    code: style.code || tag === 'code',
+    link: tag === 'a' ? element.getAttribute('href') || style.link : style.link
+  };
+
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      runs.push({ ...next, text: node.textContent || '' });
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const child = node as HTMLElement;
+      const childTag = child.tagName.toLowerCase();
+      if (childTag === 'br') {
+        runs.push({ ...next, text: '\n' });
+      } else if (childTag === 'img') {
+        const src = child.getAttribute('src') || '';
+        if (src && onImage) {
+          onImage({ type: 'image', src, alt: child.getAttribute('alt') || '' });
+        }
+      } else if (child.hasAttribute('data-tex')) {
+        runs.push(...collectMathRuns(child, next));
+      } else {
+        collectRuns(child, next, runs, onImage);
+      }
+    }
+  });
+  return runs;
+}
+
+/**
+ * Runs of a formula marker, written from its TeX
+ */
+function collectMathRuns(element: HTMLElement, style: TextRun): TextRun[] {
+  return texToText(element.dataset.tex || '').map(part => ({
+    ...style,
+    text: part.text,
+    italic: style.italic || part.italic
+  }));
+}
+
+/**
+ * Collapse whitespace like a browser would and drop empty runs
+ */
+function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const normalized = runs
+    .map(run => ({ ...run, text: run.text.normalize('NFC').replace(/[ \t\r\n\f]+/g, ' ') }))
+    .filter(run => run.text.length > 0);
+
+  if (normalized.length > 0) {
+    normalized[0].text = normalized[0].text.replace(/^ +/, '');
+    const last = normalized[normalized.length - 1];
+    last.text = last.text.replace(/ +$/, '');
+  }
+
+  const result = normalized.filter(run => run.text.length > 0);
+  return result.every(run => !run.text.trim()) ? [] : result;
+}
+
+/**
+ * VectorPDFRenderer class
+ *
+ * Produces a text-based PDF from ChatContent using jsPDF and embedded TrueType fonts
+ */
+export class VectorPDFRenderer {
+  private options: PDFOptions;
+  private fontLoader: FontLoader;
+  private fontData: Map<string, string> | null = null;
+  private diagrams: Array<Extract<Block, { type: 'diagram' }>> = [];
+
+  private doc!: jsPDF;
+  private pages: PageOps[] = [];
+  private y = 0;
+  private pageWidth = 0;
+  private pageHeight = 0;
+  private left = 0;
+  private right = 0;
+  private top = 0;
+  private bottom = 0;
+
+  /**
+   * Creates a new VectorPDFRenderer instance
+   * @param options - PDF options (page format, margins, typography, colors)
+   * @param fontLoader - Loader for the embedded font files
+   */
+  constructor(options: PDFOptions, fontLoader: FontLoader = loadBundledFont) {
+    this.options = options;
+    this.fontLoader = fontLoader;
+  }
+
+  /**
+   * Updates the options used for subsequent renders
+   * @param options - New PDF options
+   */
+  setOptions(options: PDFOptions): void {
+    this.options = options;
+  }
+
+  /**
+   * Render chat content to a PDF blob
+   *
+   * @param content - ChatContent object containing messages
+   * @param title - Chat title for the document header
+   * @param signal - Checked once the fonts are loaded and before each message
+   * @returns PDF data as a Blob
+   * @throws ExportCancelledError if the signal is aborted
+   */
+  async render(content: ChatContent, title?: string, signal?: AbortSignal): Promise<Blob> {
+    const fonts = await this.loadFonts();
+    throwIfCancelled(signal);
+
+    this.doc = new jsPDF({
+      unit: 'mm',
+      format: this.options.format.toLowerCase(),
+      orientation: 'portrait'
+    });
+
+    fonts.forEach((data, file) => {
+      this.doc.addFileToVFS(file, data);
+    });
+    EMBEDDED_FONTS.forEach(font => {
+      this.doc.addFont(font.file, font.family, font.style, undefined, 'Identity-H');
+    });
+
+    this.pageWidth = this.doc.internal.pageSize.getWidth();
+    this.pageHeight = this.doc.internal.pageSize.getHeight();
+    this.top = parseFloat(this.options.margin.top);
+    this.right = this.pageWidth - parseFloat(this.options.margin.right);
+    this.bottom = this.pageHeight - parseFloat(this.options.margin.bottom);
+    this.left = parseFloat(this.options.margin.left);
+
+    this.pages = [];
+    this.diagrams = [];
+    this.newPage();
+
+    const chatTitle = title || 'Gemini Chat';
+    this.layoutHeader(chatTitle);
+    const toc = this.layoutTableOfContents(tableOfContentsEntries(content.messages));
+    const messagePages = content.messages.map(message => {
+      throwIfCancelled(signal);
+      return this.layoutMessage(message.sender, this.messageHtml(message));
+    });
+    this.layoutDiagramSources();
+    this.numberTableOfContents(toc, messagePages);
+
+    this.paint();
+    if (this.options.classification) {
+      drawClassificationWatermark(this.doc, this.options.classification, TEXT_FONT);
+    }
+    drawPageTemplates(
+      this.doc,
+      pageTemplates(this.options),
+      pageTemplateContext(this.options, chatTitle),
+      {
+        font: TEXT_FONT,
+        fontSize: this.baseSize * 0.7,
+        margin: {
+          top: this.top,
+          right: this.pageWidth - this.right,
+          bottom: this.pageHeight - this.bottom,
+          left: this.left
+        }
+      }
+    );
+    toc.forEach(({ entry }) => {
+      this.doc.outline.add(null, entry.label, { pageNumber: messagePages[entry.messageIndex] });
+    });
+    this.doc.setProperties({ title: chatTitle, creator: 'Gemini Business to PDF' });
+
+    Logger.info(`VectorPDFRenderer: Rendered ${content.messages.length} messages on ${this.pages.length} pages`);
+    return this.doc.output('blob');
+  }
+
+  /**
+   * Load and cache the embedded fonts as base64 strings
+   */
+  private async loadFonts(): Promise<Map<string, string>> {
+    if (this.fontData) {
+      return this.fontData;
+    }
+
+    const entries = await Promise.all(
+      EMBEDDED_FONTS.map(async font => [font.file, arrayBufferToBase64(await this.fontLoader(font.file))] as const)
+    );
+    this.fontData = new Map(entries);
+    return this.fontData;
+  }
+
+  /**
+   * Message HTML followed by its attachments and its sources as footnotes
+   * The PDF has no anchors, so citation markers link straight to the source
+   */
+  private messageHtml(message: Message): string {
+    const citations = message.citations ?? [];
+    const content = citations.length > 0
+      ? linkCitationMarkers(message.content, citations, citation => {
+        const url = citationLink(citation);
+        return url ? { href: url } : null;
+      })
+      : message.content;
+
+    return content + renderAttachmentList(message.attachments ?? []) + renderCitationList(citations);
+  }
+
+  private get baseSize(): number {
+    return parseFloat(this.options.fontSize) || 12;
+  }
+
+  private lineHeightFor(sizePt: number): number {
+    return sizePt * PT_TO_MM * this.options.lineHeight;
+  }
+
+  private newPage(): void {
+    this.pages.push({ backgrounds: [], content: [] });
+    this.y = this.top;
+  }
+
+  private get currentPage(): PageOps {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Start a new page if the next `height` mm do not fit on the current one
+   */
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.bottom && this.y > this.top) {
+      this.newPage();
+    }
+  }
+
+  private measure(text: string, font: string, style: FontStyle, sizePt: number): number {
+    this.doc.setFont(font, style);
+    this.doc.setFontSize(sizePt);
+    return this.doc.getTextWidth(text);
+  }
+
+  private layoutHeader(title: string): void {
+    const exportDate = formatDateTime();
+
+    const titleSize = this.baseSize * 1.8;
+    this.layoutRuns(
+      [{ text: title, bold: true, italic: false, code: false }],
+      this.left, this.right, titleSize, '#1a73e8', 'center'
+    );
+    this.y += 1.5;
+    this.layoutRuns(
+      [{ text: `${t('documentExportDate')}: ${exportDate}`, bold: false, italic: false, code: false }],
+      this.left, this.right, this.baseSize * 0.85, '#666666', 'center'
+    );
+    this.y += 4;
+    this.currentPage.content.push({ kind: 'line', x1: this.left, y1: this.y, x2: this.right, y2: this.y, color: '#1a73e8' });
+    this.y += 8;
+  }
+
+  /**
+   * Table of contents after the header, one line or more per user turn
+   * The page numbers are written by numberTableOfContents once the messages are laid out
+   *
+   * @returns Ops of every entry
+   */
+  private layoutTableOfContents(entries: TocEntry[]): TocOps[] {
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const size = this.baseSize;
+    const lineHeight = this.lineHeightFor(size);
+    const numberWidth = this.measure('0000', TEXT_FONT, 'normal', size);
+    const labelLeft = this.left + this.measure('000.', TEXT_FONT, 'normal', size) + 1.5;
+
+    this.layoutRuns(
+      [{ text: t('documentContents'), bold: true, italic: false, code: false }],
+      this.left, this.right, size * 1.1, '#222222'
+    );
+    this.y += 2;
+
+    const toc = entries.map(entry => {
+      const lines = this.wrapPlain(entry.label, TEXT_FONT, 'normal', size, this.right - numberWidth - labelLeft);
+      this.ensureSpace(lineHeight * Math.min(lines.length, 2));
+
+      const marker = `${entry.turn}.`;
+      this.currentPage.content.push({
+        kind: 'text', x: labelLeft - this.measure(marker, TEXT_FONT, 'normal', size) - 1.5, y: this.y, text: marker,
+        font: TEXT_FONT, style: 'normal', size, color: '#666666', width: 0
+      });
+
+      const labels = lines.map((line, index) => {
+        if (index > 0) {
+          this.y += lineHeight;
+          this.ensureSpace(lineHeight);
+        }
+        const op: Extract<DrawOp, { kind: 'text' }> = {
+          kind: 'text', x: labelLeft, y: this.y, text: line, font: TEXT_FONT, style: 'normal', size,
+          color: '#1a73e8', width: this.measure(line, TEXT_FONT, 'normal', size)
+        };
+        this.currentPage.content.push(op);
+        return op;
+      });
+
+      const page: Extract<DrawOp, { kind: 'text' }> = {
+        kind: 'text', x: this.right, y: this.y, text: '', font: TEXT_FONT, style: 'normal', size, color: '#666666', width: 0
+      };
+      this.currentPage.content.push(page);
+      this.y += lineHeight + 1;
+
+      return { entry, labels, page };
+    });
+
+    this.y += 6;
+    return toc;
+  }
+
+  /**
+   * Write the page of every user turn into the table of contents and link the entries to it
+   *
+   * @param toc - Ops from layoutTableOfContents
+   * @param messagePages - Page (1-based) each message starts on
+   */
+  private numberTableOfContents(toc: TocOps[], messagePages: number[]): void {
+    toc.forEach(({ entry, labels, page }) => {
+      const target = messagePages[entry.messageIndex];
+      page.text = String(target);
+      page.width = this.measure(page.text, page.font, page.style, page.size);
+      page.x = this.right - page.width;
+      page.target = target;
+      labels.forEach(label => {
+        label.target = target;
+      });
+    });
+  }
+
+  /**
+   * Lay out a message box
+   *
+   * @returns Page (1-based) the message starts on
+   */
+  private layoutMessage(sender: 'user' | 'gemini', html: string): number {
+    const padding = 4;
+    const inset = 10;
+    const isUser = sender === 'user';
+    const boxLeft = isUser ? this.left + inset : this.left;
+    const boxRight = isUser ? this.right : this.right - inset;
+    const contentLeft = boxLeft + padding;
+    const contentRight = boxRight - padding;
+    const background = isUser ? this.options.userMessageBg : this.options.geminiMessageBg;
+
+    this.ensureSpace(this.lineHeightFor(this.baseSize) * 3);
+
+    const startPage = this.pages.length - 1;
+    const startY = this.y;
+    this.y += padding;
+
+    this.layoutRuns(
+      [{ text: isUser ? t('senderUser') : t('senderGemini'), bold: true, italic: false, code: false }],
+      contentLeft, contentRight, this.baseSize * 0.9, '#666666'
+    );
+    this.y += 2;
+
+    htmlToBlocks(html).forEach(block => {
+      this.layoutBlock(block, contentLeft, contentRight);
+    });
+
+    this.y += padding;
+
+    // Paint the message background on every page the message spans
+    for (let page = startPage; page < this.pages.length; page++) {
+      const segmentTop = page === startPage ? startY : this.top - padding;
+      const segmentBottom = page === this.pages.length - 1 ? this.y : this.bottom + padding;
+      this.pages[page].backgrounds.push({
+        kind: 'rect',
+        x: boxLeft,
+        y: segmentTop,
+        w: boxRight - boxLeft,
+        h: segmentBottom - segmentTop,
+        fill: background
+      });
+    }
+
+    this.y += 6;
+    return startPage + 1;
+  }
+
+  private layoutBlock(block: Block, left: number, right: number): void {
+    const size = this.baseSize;
+
+    switch (block.type) {
+      case 'paragraph': {
+        const indentWidth = block.indent * 6;
+        const textLeft = left + indentWidth;
+        if (block.quote) {
+          const startPage = this.pages.length - 1;
+          const startY = this.y;
+          this.layoutParagraph(block, textLeft + 2, right, size, '#555555');
+          if (this.pages.length - 1 === startPage) {
+            this.currentPage.content.push({ kind: 'line', x1: textLeft - 1, y1: startY, x2: textLeft - 1, y2: this.y, color: '#cccccc' });
+          }
+        } else {
+          this.layoutParagraph(block, textLeft, right, size, '#333333');
+        }
+        this.y += 1.5;
+        break;
+      }
+      case 'heading': {
+        const scale = [1.6, 1.4, 1.25, 1.1, 1, 0.95][block.level - 1];
+        this.y += 2;
+        this.ensureSpace(this.lineHeightFor(size * scale) * 2);
+        this.layoutRuns(block.runs, left, right, size * scale, '#222222');
+        this.y += 1.5;
+        break;
+      }
+      case 'code':
+        this.layoutCode(block, left, right, size * 0.85);
+        break;
+      case 'table':
+        this.layoutTable(block.rows, left, right, size * 0.9);
+        break;
+      case 'image':
+        this.layoutImage(block, left, right, size);
+        break;
+      case 'diagram':
+        this.layoutDiagram(block, left, right, size);
+        break;
+      case 'rule':
+        this.ensureSpace(4);
+        this.y += 2;
+        this.currentPage.content.push({ kind: 'line', x1: left, y1: this.y, x2: right, y2: this.y, color: '#dddddd' });
+        this.y += 2;
+        break;
+    }
+  }
+
+  private layoutParagraph(
+    block: Extract<Block, { type: 'paragraph' }>,
+    left: number,
+    right: number,
+    size: number,
+    color: string
+  ): void {
+    if (block.marker) {
+      const markerWidth = this.measure(block.marker, TEXT_FONT, 'normal', size);
+      this.ensureSpace(this.lineHeightFor(size));
+      this.currentPage.content.push({
+        kind: 'text', x: left - markerWidth - 1.5, y: this.y, text: block.marker,
+        font: TEXT_FONT, style: 'normal', size, color, width: markerWidth
+      });
+    }
+    this.layoutRuns(block.runs, left, right, size, color);
+  }
+
+  /**
+   * Word-wrap styled runs between `left` and `right`, emitting one text op per styled segment
+   */
+  private layoutRuns(
+    runs: TextRun[],
+    left: number,
+    right: number,
+    size: number,
+    color: string,
+    align: 'left' | 'center' = 'left'
+  ): void {
+    const maxWidth = right - left;
+    const lineHeight = this.lineHeightFor(size);
+    const lines: LineSegment[][] = [[]];
+    let lineWidth = 0;
+
+    const push = (segment: LineSegment) => {
+      const line = lines[lines.length - 1];
+      const previous = line[line.length - 1];
+      if (previous && previous.style === segment.style && previous.font === segment.font && previous.link === segment.link) {
+        previous.text += segment.text;
+        previous.width += segment.width;
+      } else {
+        line.push(segment);
+      }
+      lineWidth += segment.width;
+    };
+
+    const breakLine = () => {
+      const line = lines[lines.length - 1];
+      const last = line[line.length - 1];
+      if (last && last.text.endsWith(' ')) {
+        const trimmed = last.text.replace(/ +$/, '');
+        last.width -= this.measure(last.text.slice(trimmed.length), last.font, last.style, size);
+        last.text = trimmed;
+      }
+      lines.push([]);
+      lineWidth = 0;
+    };
+
+    runs.forEach(run => {
+      const style: FontStyle = run.bold && run.italic ? 'bolditalic' : run.bold ? 'bold' : run.italic ? 'italic' : 'normal';
+      const font = run.code ? MONO_FONT : TEXT_FONT;
+      const fontStyle: FontStyle = run.code ? 'normal' : style;
+
+      run.text.split(/(\n| +)/).forEach(token => {
+        if (!token) {
+          return;
+        }
+        if (token === '\n') {
+          breakLine();
+          return;
+        }
+
+        const width = this.measure(token, font, fontStyle, size);
+        if (token.startsWith(' ')) {
+          if (lineWidth > 0) {
+            push({ text: ' ', style: fontStyle, font, link: run.link, width: this.measure(' ', font, fontStyle, size) });
+          }
+          return;
+        }
+
+        if (lineWidth + width > maxWidth && lineWidth > 0) {
+          breakLine();
+        }
+
+        if (width <= maxWidth) {
+          push({ text: token, style: fontStyle, font, link: run.link, width });
+          return;
+        }
+
+        // Word longer than a full line: hard-break it by characters
+        let chunk = '';
+        for (const char of Array.from(token)) {
+          const candidate = chunk + char;
+          if (this.measure(candidate, font, fontStyle, size) + lineWidth > maxWidth && chunk) {
+            push({ text: chunk, style: fontStyle, font, link: run.link, width: this.measure(chunk, font, fontStyle, size) });
+            breakLine();
+            chunk = char;
+          } else {
+            chunk = candidate;
+          }
+        }
+        if (chunk) {
+          push({ text: chunk, style: fontStyle, font, link: run.link, width: this.measure(chunk, font, fontStyle, size) });
+        }
+      });
+    });
+
+    lines.forEach(line => {
+      if (line.length === 0) {
+        return;
+      }
+      this.ensureSpace(lineHeight);
+      const total = line.reduce((sum, segment) => sum + segment.width, 0);
+      let x = align === 'center' ? left + (maxWidth - total) / 2 : left;
+      line.forEach(segment => {
+        this.currentPage.content.push({
+          kind: 'text', x, y: this.y, text: segment.text, font: segment.font, style: segment.style,
+          size, color: segment.link ? '#1a73e8' : color, link: segment.link, width: segment.width
+        });
+        x += segment.width;
+      });
+      this.y += lineHeight;
+    });
+  }
+
+  private layoutCode(block: Extract<Block, { type: 'code' }>, left: number, right: number, size: number): void {
+    const theme = this.options.codeTheme ?? 'light';
+    const colors = CODE_THEME_COLORS[theme];
+    const code = block.lines.join('\n');
+    const lines = splitTokenLines(theme === 'none' ? [{ text: code }] : tokenize(code, block.language ?? ''));
+
+    const lineHeight = size * PT_TO_MM * 1.35;
+    const padding = 2;
+    const numberWidth = String(lines.length).length;
+    const gutter = this.options.codeLineNumbers
+      ? this.measure(`${'0'.repeat(numberWidth)}  `, MONO_FONT, 'normal', size)
+      : 0;
+    const numberLeft = left + padding + 1;
+    const textLeft = numberLeft + gutter;
+    const maxWidth = right - textLeft - padding;
+
+    // Wrap long code lines by characters; monospace keeps this predictable
+    const rows: Array<{ number?: number; tokens: Token[] }> = [];
+    lines.forEach((line, index) => {
+      let row: Token[] = [];
+      let rowText = '';
+      rows.push({ number: index + 1, tokens: row });
+
+      line.forEach(token => {
+        for (const char of Array.from(token.text.replace(/\t/g, '    '))) {
+          if (rowText && this.measure(rowText + char, MONO_FONT, 'normal', size) > maxWidth) {
+            row = [];
+            rowText = '';
+            rows.push({ tokens: row });
+          }
+          const last = row[row.length - 1];
+          if (last && last.type === token.type) {
+            last.text += char;
+          } else {
+            row.push(token.type ? { text: char, type: token.type } : { text: char });
+          }
+          rowText += char;
+        }
+      });
+    });
+
+    this.y += 1;
+    rows.forEach((row, index) => {
+      this.ensureSpace(lineHeight);
+      const first = index === 0;
+      const last = index === rows.length - 1;
+      const rowTop = this.y - (first ? padding : 0);
+      const rowHeight = lineHeight + (first ? padding : 0) + (last ? padding : 0);
+      this.currentPage.content.push({ kind: 'rect', x: left, y: rowTop, w: right - left, h: rowHeight, fill: colors.background });
+      this.currentPage.content.push({ kind: 'rect', x: left, y: rowTop, w: 0.8, h: rowHeight, fill: colors.border });
+
+      if (this.options.codeLineNumbers && row.number !== undefined) {
+        const number = String(row.number).padStart(numberWidth);
+        this.currentPage.content.push({
+          kind: 'text', x: numberLeft, y: this.y, text: number, font: MONO_FONT, style: 'normal',
+          size, color: colors.lineNumber, width: this.measure(number, MONO_FONT, 'normal', size)
+        });
+      }
+
+      let x = textLeft;
+      row.tokens.forEach(token => {
+        const width = this.measure(token.text, MONO_FONT, 'normal', size);
+        if (token.text.trim()) {
+          this.currentPage.content.push({
+            kind: 'text', x, y: this.y, text: token.text, font: MONO_FONT, style: 'normal',
+            size, color: (token.type && colors.tokens[token.type]) || colors.text, width
+          });
+        }
+        x += width;
+      });
+      this.y += lineHeight;
+    });
+    this.y += padding + 2;
+  }
+
+  private layoutTable(rows: Array<{ header: boolean; cells: string[] }>, left: number, right: number, size: number): void {
+    const columns = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+    if (columns === 0) {
+      return;
+    }
+
+    const cellPadding = 1.5;
+    const columnWidth = (right - left) / columns;
+    const lineHeight = this.lineHeightFor(size);
+
+    this.y += 1;
+    rows.forEach(row => {
+      const style: FontStyle = row.header ? 'bold' : 'normal';
+      const cellLines = Array.from({ length: columns }, (_, index) =>
+        this.wrapPlain(row.cells[index] || '', TEXT_FONT, style, size, columnWidth - cellPadding * 2)
+      );
+      const rowHeight = Math.max(...cellLines.map(lines => lines.length), 1) * lineHeight + cellPadding * 2;
+
+      this.ensureSpace(rowHeight);
+      cellLines.forEach((lines, index) => {
+        const x = left + index * columnWidth;
+        this.currentPage.content.push({
+          kind: 'rect', x, y: this.y, w: columnWidth, h: rowHeight,
+          fill: row.header ? '#f0f0f0' : undefined, stroke: '#dddddd'
+        });
+        lines.forEach((line, lineIndex) => {
+          this.currentPage.content.push({
+            kind: 'text', x: x + cellPadding, y: this.y + cellPadding + lineIndex * lineHeight, text: line,
+            font: TEXT_FONT, style, size, color: '#333333', width: this.measure(line, TEXT_FONT, style, size)
+          });
+        });
+      });
+      this.y += rowHeight;
+    });
+    this.y += 2;
+  }
+
+  private layoutImage(block: Extract<Block, { type: 'image' }>, left: number, right: number, size: number): void {
+    const match = /^data:image\/(png|jpe?g|gif|webp);base64,/i.exec(block.src);
+    if (!match) {
+      // Remote images cannot be embedded without a network request; keep a textual trace instead
+      this.layoutRuns(
+        [{ text: block.alt ? t('documentImageWithAlt', block.alt) : t('documentImage'), bold: false, italic: true, code: false }],
+        left, right, size * 0.9, '#666666'
+      );
+      return;
+    }
+
+    const properties = this.doc.getImageProperties(block.src);
+    const maxWidth = right - left;
+    const maxHeight = (this.bottom - this.top) * 0.6;
+    const scale = Math.min(1, maxWidth / properties.width, maxHeight / properties.height);
+    const width = properties.width * scale;
+    const height = properties.height * scale;
+
+    this.ensureSpace(height + 2);
+    this.currentPage.content.push({ kind: 'image', data: block.src, x: left, y: this.y + 1, w: width, h: height });
+    this.y += height + 3;
+  }
+
+  /**
+   * Scale a diagram to the content width (at most its size in px) and number it
+   */
+  private layoutDiagram(block: Extract<Block, { type: 'diagram' }>, left: number, right: number, size: number): void {
+    const maxWidth = right - left;
+    const maxHeight = (this.bottom - this.top) * 0.8;
+    const scale = Math.min(PX_TO_MM, maxWidth / block.scene.width, maxHeight / block.scene.height);
+    const width = block.scene.width * scale;
+    const height = block.scene.height * scale;
+
+    this.ensureSpace(height + this.lineHeightFor(size * 0.85) + 3);
+    this.currentPage.content.push({ kind: 'diagram', scene: block.scene, x: left + (maxWidth - width) / 2, y: this.y + 1, scale });
+    this.y += height + 2;
+
+    this.diagrams.push(block);
+    this.layoutRuns(
+      [{ text: t('documentDiagram', this.diagrams.length), bold: false, italic: true, code: false }],
+      left, right, size * 0.85, '#666666', 'center'
+    );
+    this.y += 2;
+  }
+
+  /**
+   * Appendix with the source of every diagram, after the last message
+   */
+  private layoutDiagramSources(): void {
+    if (this.diagrams.length === 0) {
+      return;
+    }
+
+    this.ensureSpace(this.lineHeightFor(this.baseSize) * 4);
+    this.currentPage.content.push({ kind: 'line', x1: this.left, y1: this.y, x2: this.right, y2: this.y, color: '#dddddd' });
+    this.y += 4;
+    this.layoutRuns(
+      [{ text: t('documentDiagramSources'), bold: true, italic: false, code: false }],
+      this.left, this.right, this.baseSize * 1.25, '#222222'
+    );
+    this.y += 2;
+
+    this.diagrams.forEach((diagram, index) => {
+      this.ensureSpace(this.lineHeightFor(this.baseSize) * 3);
+      this.layoutRuns(
+        [{ text: `${t('documentDiagram', index + 1)} (${diagramLanguageName(diagram.language)})`, bold: true, italic: false, code: false }],
+        this.left, this.right, this.baseSize, '#333333'
+      );
+      this.y += 1;
+      this.layoutCode({ type: 'code', lines: diagram.source.split('\n') }, this.left, this.right, this.baseSize * 0.85);
+    });
+  }
+
+  private wrapPlain(text: string, font: string, style: FontStyle, size: number, maxWidth: number): string[] {
+    const lines: string[] = [];
+    let current = '';
+    text.split(' ').forEach(word => {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && this.measure(candidate, font, style, size) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    });
+    if (current) {
+      lines.push(current);
+    }
+    return lines;
+  }
+
+  /**
+   * Draw all laid out pages into the jsPDF document
+   */
+  private paint(): void {
+    this.pages.forEach((page, index) => {
+      if (index > 0) {
+        this.doc.addPage();
+      }
+      [...page.backgrounds, ...page.content].forEach(op => this.drawOp(op));
+    });
+  }
+
+  private drawOp(op: DrawOp): void {
+    switch (op.kind) {
+      case 'text':
+        this.doc.setFont(op.font, op.style);
+        this.doc.setFontSize(op.size);
+        this.doc.setTextColor(op.color);
+        this.doc.text(op.text, op.x, op.y, { baseline: 'top' });
+        if (op.link) {
+          this.doc.link(op.x, op.y, op.width, op.size * PT_TO_MM, { url: op.link });
+        } else if (op.target) {
+          this.doc.link(op.x, op.y, op.width, op.size * PT_TO_MM, { pageNumber: op.target });
+        }
+        break;
+      case 'rect':
+        if (op.fill) {
+          this.doc.setFillColor(op.fill);
+        }
+        if (op.stroke) {
+          this.doc.setDrawColor(op.stroke);
+          this.doc.setLineWidth(0.2);
+        }
+        this.doc.rect(op.x, op.y, op.w, op.h, op.fill && op.stroke ? 'FD' : op.fill ? 'F' : 'S');
+        break;
+      case 'line':
+        this.doc.setDrawColor(op.color);
+        this.doc.setLineWidth(0.4);
+        this.doc.line(op.x1, op.y1, op.x2, op.y2);
+        break;
+      case 'image':
+        this.doc.addImage(op.data, op.x, op.y, op.w, op.h);
+        break;
+      case 'diagram':
+        this.drawDiagram(op);
+        break;
+    }
+  }
+
+  /**
+   * Draw the shapes of a diagram scene with jsPDF primitives
+   */
+  private drawDiagram(op: Extract<DrawOp, { kind: 'diagram' }>): void {
+    const mm = (value: number) => value * op.scale;
+    const x = (point: Point) => op.x + mm(point.x);
+    const y = (point: Point) => op.y + mm(point.y);
+    // jsPDF draws polylines as segments relative to the first point
+    const segments = (points: Point[]) => points.slice(1).map((point, index) => [
+      mm(point.x - points[index].x),
+      mm(point.y - points[index].y)
+    ]);
+
+    op.scene.shapes.forEach(shape => {
+      switch (shape.kind) {
+        case 'rect':
+          this.doc.setFillColor(shape.fill);
+          this.doc.setDrawColor(shape.stroke);
+          this.doc.setLineWidth(0.25);
+          this.doc.roundedRect(
+            x(shape), y(shape), mm(shape.w), mm(shape.h), mm(shape.radius), mm(shape.radius), 'FD'
+          );
+          break;
+        case 'ellipse':
+          this.doc.setFillColor(shape.fill);
+          this.doc.setDrawColor(shape.stroke);
+          this.doc.setLineWidth(0.25);
+          this.doc.ellipse(x({ x: shape.cx, y: 0 }), y({ x: 0, y: shape.cy }), mm(shape.rx), mm(shape.ry), 'FD');
+          break;
+        case 'polygon':
+          this.doc.setFillColor(shape.fill);
+          this.doc.setDrawColor(shape.stroke);
+          this.doc.setLineWidth(0.25);
+          this.doc.lines(segments(shape.points), x(shape.points[0]), y(shape.points[0]), [1, 1], 'FD', true);
+          break;
+        case 'line':
+          this.doc.setDrawColor(shape.stroke);
+          this.doc.setLineWidth(mm(shape.width));
+          this.doc.setLineDashPattern(shape.dashed ? [mm(5), mm(4)] : [], 0);
+          this.doc.lines(segments(shape.points), x(shape.points[0]), y(shape.points[0]), [1, 1], 'S', false);
+          this.doc.setLineDashPattern([], 0);
+          break;
+        case 'text':
+          this.doc.setFont(TEXT_FONT, shape.bold ? 'bold' : 'normal');
+          this.doc.setFontSize(mm(shape.size) / PT_TO_MM);
+          this.doc.setTextColor(shape.color);
+          this.doc.text(shape.text, x(shape), y(shape), {
+            align: shape.anchor === 'middle' ? 'center' : 'left',
+            baseline: 'middle'
+          });
+          break;
+      }
+    });
+  }
+}
+
+/**
+ * Encode binary data as base64 (as required by jsPDF's virtual file system)
+ */
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
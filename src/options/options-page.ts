@@ -0,0 +1,397 @@
+/**
+ * OptionsPage - Edits the extension settings
+ *
+ * Responsibilities:
+ * - Fill the settings form from chrome.storage.sync
+ * - Validate and preview the filename template
+ * - Validate the page header and footer templates of PDFs
+ * - Offer the classification levels, showing the administrator's default
+ * - Validate the custom redaction patterns
+ * - Save the form, or restore the defaults
+ * - Refresh the form when the settings change elsewhere (e.g. another device)
+ * - Show the page in the chosen language
+ */
+
+import { EXPORT_FORMATS, isExportFormat } from '../content/export-formats';
+import { FILENAME_TOKENS, FilenameTokenInfo, validateFilenameTemplate } from '../content/filename-template';
+import {
+  DEFAULT_PAGE_FOOTER,
+  DEFAULT_PAGE_HEADER,
+  PAGE_TEMPLATE_TOKENS,
+  validatePageTemplate
+} from '../content/page-template';
+import { TitleExtractor } from '../content/title-extractor';
+import { CLASSIFICATION_LEVELS, classificationLabel } from '../content/classification-options';
+import { REDACTION_KINDS, isValidRedactionPattern } from '../content/redaction-options';
+import {
+  DEFAULT_SETTINGS,
+  ExtensionSettings,
+  ManagedPolicy,
+  loadManagedPolicy,
+  loadSettings,
+  normalizeSettings,
+  onSettingsChanged,
+  saveSettings
+} from '../utils/settings';
+import { LANGUAGES, getLanguage, isLanguagePreference, localizeElement, setLanguage, t } from '../utils/i18n';
+import { Logger } from '../utils/logger';
+
+/**
+ * Sample conversation used to preview the filename template (the title is localized)
+ */
+const PREVIEW_SAMPLE = {
+  messageCount: 12,
+  turnCount: 6,
+  workspace: 'Acme'
+};
+
+/**
+ * OptionsPage class
+ */
+export class OptionsPage {
+  private form: HTMLFormElement;
+  private status: HTMLElement | null;
+  private managedPolicy: ManagedPolicy = {};
+
+  /**
+   * Create a new OptionsPage
+   * @param form - The settings form (fields are named after setting paths, e.g. "pdf.margin.top")
+   */
+  constructor(form: HTMLFormElement) {
+    this.form = form;
+    this.status = form.querySelector('#status');
+  }
+
+  /**
+   * Populate the form and attach listeners
+   */
+  async initialize(): Promise<void> {
+    const languageSelect = this.field<HTMLSelectElement>('language');
+    LANGUAGES.forEach(language => {
+      languageSelect?.appendChild(new Option(language.label, language.id));
+    });
+
+    const formatSelect = this.field<HTMLSelectElement>('defaultFormat');
+    EXPORT_FORMATS.forEach(format => {
+      formatSelect?.appendChild(new Option(format.label, format.id));
+    });
+
+    this.managedPolicy = await loadManagedPolicy();
+    this.fill(await loadSettings());
+    onSettingsChanged(settings => this.fill(settings));
+
+    languageSelect?.addEventListener('change', () => {
+      if (isLanguagePreference(languageSelect.value)) {
+        setLanguage(languageSelect.value);
+        this.localize();
+      }
+    });
+
+    this.field('filenamePattern')?.addEventListener('input', () => this.updateFilenamePreview());
+    formatSelect?.addEventListener('change', () => this.updateFilenamePreview());
+    ['pdf.header', 'pdf.footer'].forEach(name => {
+      this.field(name)?.addEventListener('input', () => this.validatePageTemplates());
+    });
+    this.field('redaction.customPatterns')?.addEventListener('input', () => this.validateRedactionPatterns());
+
+    this.form.addEventListener('submit', (event) => {
+      event.preventDefault();
+      if (!this.updateFilenamePreview()) {
+        this.showStatus(t('optionsInvalidTemplate'));
+      } else if (!this.validatePageTemplates()) {
+        this.showStatus(t('optionsInvalidPageTemplate'));
+      } else if (!this.validateRedactionPatterns()) {
+        this.showStatus(t('optionsInvalidRedactionPatterns'));
+      } else {
+        this.save(this.read());
+      }
+    });
+    this.form.querySelector('#reset')?.addEventListener('click', () => {
+      this.save(DEFAULT_SETTINGS);
+    });
+  }
+
+  /**
+   * Show settings in the form
+   * @param settings - Settings to show
+   */
+  fill(settings: ExtensionSettings): void {
+    const { pdf, images, redaction } = settings;
+    const values: Record<string, string> = {
+      'language': settings.language,
+      'defaultFormat': settings.defaultFormat,
+      'classification': settings.classification ?? '',
+      'filenamePattern': settings.filenamePattern,
+      'pdf.format': pdf.format,
+      'pdf.renderer': pdf.renderer ?? 'raster',
+      'pdf.margin.top': pdf.margin.top,
+      'pdf.margin.right': pdf.margin.right,
+      'pdf.margin.bottom': pdf.margin.bottom,
+      'pdf.margin.left': pdf.margin.left,
+      'pdf.fontSize': pdf.fontSize,
+      'pdf.fontFamily': pdf.fontFamily,
+      'pdf.lineHeight': String(pdf.lineHeight),
+      'pdf.userMessageBg': pdf.userMessageBg,
+      'pdf.geminiMessageBg': pdf.geminiMessageBg,
+      'pdf.codeTheme': pdf.codeTheme ?? 'light',
+      'pdf.header': pdf.header ?? DEFAULT_PAGE_HEADER,
+      'pdf.footer': pdf.footer ?? DEFAULT_PAGE_FOOTER,
+      'pdf.confidentialityLabel': pdf.confidentialityLabel ?? '',
+      'images.maxSizeKB': String(images.maxSizeKB),
+      'images.maxDimension': String(images.maxDimension),
+      'redaction.customPatterns': redaction.customPatterns.join('\n')
+    };
+    const checks: Record<string, boolean> = {
+      'pdf.codeLineNumbers': pdf.codeLineNumbers ?? false,
+      'images.inline': images.inline,
+      'images.markdownSidecar': images.markdownSidecar,
+      'redaction.enabled': redaction.enabled,
+      'redaction.confirm': redaction.confirm,
+      ...Object.fromEntries(REDACTION_KINDS.map(kind => [`redaction.kinds.${kind}`, redaction.kinds.includes(kind)]))
+    };
+
+    this.listClassifications();
+    Object.entries(values).forEach(([name, value]) => {
+      const field = this.field(name);
+      if (field) {
+        field.value = value;
+      }
+    });
+    Object.entries(checks).forEach(([name, checked]) => {
+      const field = this.field<HTMLInputElement>(name);
+      if (field) {
+        field.checked = checked;
+      }
+    });
+
+    setLanguage(settings.language);
+    this.localize();
+  }
+
+  /**
+   * Translate the page into the current language
+   */
+  localize(): void {
+    const doc = this.form.ownerDocument;
+    doc.documentElement.lang = getLanguage();
+    localizeElement(doc);
+
+    this.listClassifications();
+    this.listTokens('#filename-tokens', FILENAME_TOKENS);
+    this.listTokens('#page-template-tokens', PAGE_TEMPLATE_TOKENS);
+
+    this.updateFilenamePreview();
+    this.validatePageTemplates();
+    this.validateRedactionPatterns();
+  }
+
+  /**
+   * Validate the filename template and show an example filename or the errors
+   * @returns True if the template is valid
+   */
+  updateFilenamePreview(): boolean {
+    const input = this.field<HTMLInputElement>('filenamePattern');
+    const preview = this.form.querySelector('#filename-preview');
+    if (!input) {
+      return true;
+    }
+
+    const errors = validateFilenameTemplate(input.value);
+    input.setCustomValidity(errors.join('\n'));
+
+    if (preview) {
+      preview.classList.toggle('error', errors.length > 0);
+      if (errors.length > 0) {
+        preview.textContent = errors.join('. ');
+      } else {
+        const format = this.field('defaultFormat')?.value;
+        const extractor = new TitleExtractor();
+        extractor.setFilenamePattern(input.value);
+        preview.textContent = t('optionsFilenamePreview', extractor.generateFilename(t('optionsPreviewTitle'), {
+          format: isExportFormat(format) ? format : undefined,
+          messageCount: PREVIEW_SAMPLE.messageCount,
+          turnCount: PREVIEW_SAMPLE.turnCount,
+          workspace: PREVIEW_SAMPLE.workspace
+        }));
+      }
+    }
+
+    return errors.length === 0;
+  }
+
+  /**
+   * Validate the page header and footer templates and show the help or the errors
+   * @returns True if both templates are valid
+   */
+  validatePageTemplates(): boolean {
+    const help = this.form.querySelector('#page-template-help');
+    const errors = ['pdf.header', 'pdf.footer'].flatMap(name => {
+      const input = this.field<HTMLInputElement>(name);
+      if (!input) {
+        return [];
+      }
+
+      const fieldErrors = validatePageTemplate(input.value);
+      input.setCustomValidity(fieldErrors.join('\n'));
+      return fieldErrors;
+    });
+
+    if (help) {
+      help.classList.toggle('error', errors.length > 0);
+      help.textContent = errors.length > 0 ? errors.join('. ') : t('optionsPageTemplateHelp');
+    }
+
+    return errors.length === 0;
+  }
+
+  /**
+   * Validate the custom redaction patterns (one per line, blank lines ignored)
+   * and show the invalid ones
+   * @returns True if every pattern is valid
+   */
+  validateRedactionPatterns(): boolean {
+    const input = this.field('redaction.customPatterns');
+    const help = this.form.querySelector('#redaction-pattern-help');
+    if (!input) {
+      return true;
+    }
+
+    const errors = this.redactionPatterns()
+      .filter(pattern => !isValidRedactionPattern(pattern))
+      .map(pattern => t('optionsInvalidRedactionPattern', pattern));
+    input.setCustomValidity(errors.join('\n'));
+
+    if (help) {
+      help.classList.toggle('error', errors.length > 0);
+      help.textContent = errors.length > 0 ? errors.join('. ') : t('optionsRedactionPatternsHelp');
+    }
+
+    return errors.length === 0;
+  }
+
+  /**
+   * Read the settings entered in the form
+   * @returns Normalized settings (invalid fields fall back to the defaults)
+   */
+  read(): ExtensionSettings {
+    const value = (name: string) => this.field(name)?.value ?? '';
+    const checked = (name: string) => this.field<HTMLInputElement>(name)?.checked ?? false;
+
+    return normalizeSettings({
+      language: value('language'),
+      defaultFormat: value('defaultFormat'),
+      filenamePattern: value('filenamePattern'),
+      classification: value('classification'),
+      pdf: {
+        format: value('pdf.format'),
+        renderer: value('pdf.renderer'),
+        margin: {
+          top: value('pdf.margin.top'),
+          right: value('pdf.margin.right'),
+          bottom: value('pdf.margin.bottom'),
+          left: value('pdf.margin.left')
+        },
+        fontSize: value('pdf.fontSize'),
+        fontFamily: value('pdf.fontFamily'),
+        lineHeight: Number(value('pdf.lineHeight')),
+        userMessageBg: value('pdf.userMessageBg'),
+        geminiMessageBg: value('pdf.geminiMessageBg'),
+        codeTheme: value('pdf.codeTheme'),
+        codeLineNumbers: checked('pdf.codeLineNumbers'),
+        header: value('pdf.header'),
+        footer: value('pdf.footer'),
+        confidentialityLabel: value('pdf.confidentialityLabel')
+      },
+      images: {
+        inline: checked('images.inline'),
+        maxSizeKB: Number(value('images.maxSizeKB')),
+        maxDimension: Number(value('images.maxDimension')),
+        markdownSidecar: checked('images.markdownSidecar')
+      },
+      redaction: {
+        enabled: checked('redaction.enabled'),
+        kinds: REDACTION_KINDS.filter(kind => checked(`redaction.kinds.${kind}`)),
+        customPatterns: this.redactionPatterns(),
+        confirm: checked('redaction.confirm')
+      }
+    });
+  }
+
+  /**
+   * Save settings and report the outcome
+   * @param settings - Settings to save
+   */
+  private async save(settings: ExtensionSettings): Promise<void> {
+    try {
+      this.fill(await saveSettings(settings));
+      this.showStatus(t('optionsSaved'));
+    } catch (error) {
+      Logger.error('Failed to save settings', error);
+      this.showStatus(t('optionsSaveFailed', error instanceof Error ? error.message : String(error)));
+    }
+  }
+
+  /**
+   * Show a status message next to the buttons
+   * @param message - Message to show
+   */
+  private showStatus(message: string): void {
+    if (this.status) {
+      this.status.textContent = message;
+    }
+  }
+
+  /**
+   * Fill the classification select with the localized levels, keeping the selection
+   * The empty choice is the administrator's default, if any
+   */
+  private listClassifications(): void {
+    const select = this.field<HTMLSelectElement>('classification');
+    if (!select) {
+      return;
+    }
+
+    const selected = select.value;
+    const managed = this.managedPolicy.defaultClassification;
+    select.replaceChildren(
+      new Option(managed ? t('optionsClassificationManaged', classificationLabel(managed)) : t('optionsClassificationNone'), ''),
+      ...CLASSIFICATION_LEVELS.map(level => new Option(t(level.labelKey), level.id))
+    );
+    select.value = selected;
+  }
+
+  /**
+   * List tokens with their localized descriptions
+   * @param selector - Selector of the description list
+   * @param tokens - Tokens to list
+   */
+  private listTokens(selector: string, tokens: ReadonlyArray<FilenameTokenInfo>): void {
+    const doc = this.form.ownerDocument;
+    this.form.querySelector(selector)?.replaceChildren(...tokens.flatMap(({ token, descriptionKey }) => {
+      const term = doc.createElement('dt');
+      const code = doc.createElement('code');
+      code.textContent = token;
+      term.appendChild(code);
+      const definition = doc.createElement('dd');
+      definition.textContent = t(descriptionKey);
+      return [term, definition];
+    }));
+  }
+
+  /**
+   * Custom redaction patterns entered in the form, one per line
+   * @returns Non-empty lines
+   */
+  private redactionPatterns(): string[] {
+    return (this.field('redaction.customPatterns')?.value ?? '').split('\n').filter(line => line.trim() !== '');
+  }
+
+  /**
+   * Find a form field by name
+   * @param name - Setting path used as field name
+   * @returns The field or null
+   */
+  private field<T extends HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>(name: string): T | null {
+    return this.form.querySelector<T>(`[name="${name}"]`);
+  }
+}
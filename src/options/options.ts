@@ -0,0 +1,18 @@
+/**
+ * Options Page Entry Point
+ *
+ * Initializes the settings form of the extension options page.
+ */
+
+import { OptionsPage } from './options-page';
+import { Logger } from '../utils/logger';
+
+const form = document.getElementById('settings-form') as HTMLFormElement | null;
+
+if (form) {
+  new OptionsPage(form).initialize().catch(error => {
+    Logger.error('Options page: Failed to initialize', error);
+  });
+} else {
+  Logger.error('Options page: Settings form not found');
+}
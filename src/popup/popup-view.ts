@@ -0,0 +1,280 @@
+/**
+ * PopupView - Toolbar popup with export controls
+ *
+ * Responsibilities:
+ * - Detect whether the active tab shows a Gemini Business conversation
+ * - Show the conversation title and turn count reported by the content script
+ * - Let the user choose the format and the turns, and start the export
+ * - Show the progress reported by the content script while the export runs
+ */
+
+import { EXPORT_FORMATS, getExportFormatInfo, isExportFormat } from '../content/export-formats';
+import { isGeminiBusinessDomain } from '../utils/shadow-dom-utils';
+import {
+  ConversationStatus,
+  ExportProgressMessage,
+  TurnRange,
+  onExportProgress,
+  requestConversationStatus,
+  sendExportRequest
+} from '../utils/messaging';
+import { loadSettings } from '../utils/settings';
+import { getLanguage, localizeElement, setLanguage, t } from '../utils/i18n';
+import { Logger } from '../utils/logger';
+
+/**
+ * PopupView class
+ */
+export class PopupView {
+  private root: HTMLElement;
+  private form: HTMLFormElement | null;
+  private tabId: number | null = null;
+
+  /**
+   * Create a new PopupView
+   * @param root - Element containing the popup markup
+   */
+  constructor(root: HTMLElement) {
+    this.root = root;
+    this.form = root.querySelector('#export-form');
+  }
+
+  /**
+   * Localize the popup, find the conversation and attach listeners
+   */
+  async initialize(): Promise<void> {
+    const doc = this.root.ownerDocument;
+    setLanguage((await loadSettings()).language);
+    doc.documentElement.lang = getLanguage();
+    localizeElement(doc);
+
+    const formatSelect = this.field<HTMLSelectElement>('format');
+    EXPORT_FORMATS.forEach(format => {
+      formatSelect?.appendChild(new Option(format.label, format.id));
+    });
+
+    this.root.querySelector('#open-options')?.addEventListener('click', (event) => {
+      event.preventDefault();
+      chrome.runtime.openOptionsPage();
+    });
+
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (tab?.id === undefined || !tab.url || !isGeminiBusinessDomain(tab.url)) {
+      this.showMessage(t('popupNotGemini'));
+      return;
+    }
+
+    const status = await requestConversationStatus(tab.id);
+    if (!status) {
+      this.showMessage(t('popupNotReady'));
+      return;
+    }
+
+    this.tabId = tab.id;
+    this.showConversation(status);
+
+    onExportProgress((progress, tabId) => {
+      if (tabId === this.tabId) {
+        this.showProgress(progress);
+      }
+    });
+
+    // Editing a bound selects the "only turns" option
+    ['from', 'to'].forEach(name => {
+      this.field(name)?.addEventListener('input', () => {
+        const turns = this.form?.querySelector<HTMLInputElement>('input[name="range"][value="turns"]');
+        if (turns) {
+          turns.checked = true;
+        }
+      });
+    });
+
+    this.form?.addEventListener('submit', (event) => {
+      event.preventDefault();
+      this.startExport();
+    });
+  }
+
+  /**
+   * Show the conversation and its export controls
+   * @param status - Status reported by the content script
+   */
+  showConversation(status: ConversationStatus): void {
+    if (!this.form) {
+      return;
+    }
+
+    this.form.hidden = false;
+    this.text('#conversation-title', status.title || t('popupUntitled'));
+    this.text('#turn-count', t('popupTurnCount', status.turnCount));
+
+    const format = this.field<HTMLSelectElement>('format');
+    if (format) {
+      format.value = status.format;
+    }
+
+    const last = Math.max(status.turnCount, 1);
+    const from = this.field<HTMLInputElement>('from');
+    const to = this.field<HTMLInputElement>('to');
+    [from, to].forEach(input => input?.setAttribute('max', String(last)));
+    if (to) {
+      to.value = String(last);
+    }
+
+    // Only ranges make sense when the conversation has more than one turn
+    this.form.querySelectorAll<HTMLInputElement>('input[name="range"][value="turns"], input[name="from"], input[name="to"]')
+      .forEach(input => {
+        input.disabled = status.turnCount < 2;
+      });
+
+    if (status.exporting) {
+      this.setRunning(true);
+      this.showStatus(t('popupBusy'));
+    }
+  }
+
+  /**
+   * Read the chosen turns
+   * @returns The range, or undefined to export the whole conversation
+   */
+  readRange(): TurnRange | undefined {
+    const range = this.form?.querySelector<HTMLInputElement>('input[name="range"]:checked')?.value;
+    if (range !== 'turns') {
+      return undefined;
+    }
+
+    const from = Number(this.field('from')?.value);
+    const to = Number(this.field('to')?.value);
+    const max = Number(this.field('to')?.getAttribute('max')) || 1;
+    const clamp = (value: number) => Math.min(Math.max(Math.round(value) || 1, 1), max);
+
+    return { from: clamp(Math.min(from, to)), to: clamp(Math.max(from, to)) };
+  }
+
+  /**
+   * Ask the content script to export with the chosen options
+   */
+  async startExport(): Promise<void> {
+    if (this.tabId === null) {
+      return;
+    }
+
+    const format = this.field('format')?.value;
+    this.setRunning(true);
+    this.showStatus('');
+
+    const response = await sendExportRequest(this.tabId, isExportFormat(format) ? format : undefined, this.readRange());
+    if (!response) {
+      this.setRunning(false);
+      this.showStatus(t('popupNotReady'), true);
+    } else if (!response.accepted) {
+      this.showStatus(t('popupBusy'));
+    }
+  }
+
+  /**
+   * Show the progress of the running export
+   * @param progress - Progress reported by the content script
+   */
+  showProgress(progress: ExportProgressMessage): void {
+    const label = getExportFormatInfo(progress.format)?.label ?? progress.format;
+
+    switch (progress.stage) {
+      case 'expanding':
+        this.showStep(progress, t('progressExpanding'));
+        break;
+      case 'extracting':
+        this.showStep(progress, t('progressExtracting'));
+        break;
+      case 'inlining':
+        this.showStep(progress, t('progressInlining'));
+        break;
+      case 'rendering':
+        this.showStep(progress, t('progressRendering', label));
+        break;
+      case 'downloading':
+        this.showStep(progress, t('progressDownloading'));
+        break;
+      case 'done':
+        this.setRunning(false);
+        this.showStatus(t('exportSucceeded', label));
+        break;
+      case 'failed':
+        this.setRunning(false);
+        this.showStatus(t('exportFailed', progress.error ?? ''), true);
+        break;
+      case 'cancelled':
+        this.setRunning(false);
+        this.showStatus(t('exportCancelled'));
+        break;
+    }
+  }
+
+  /**
+   * Show a step of the export and its overall percentage in the progress bar
+   */
+  private showStep(progress: ExportProgressMessage, text: string): void {
+    this.setRunning(true);
+    const bar = this.root.querySelector('progress');
+    if (bar && progress.progress) {
+      bar.max = 100;
+      bar.value = progress.progress.percent;
+    }
+    this.showStatus(text);
+  }
+
+  /**
+   * Disable the controls and show the progress bar while exporting
+   */
+  private setRunning(running: boolean): void {
+    const button = this.form?.querySelector<HTMLButtonElement>('button[type="submit"]');
+    if (button) {
+      button.disabled = running;
+    }
+
+    const bar = this.root.querySelector('progress');
+    if (bar) {
+      bar.hidden = !running;
+      if (!running) {
+        bar.removeAttribute('value');
+      }
+    }
+  }
+
+  /**
+   * Replace the controls with a message
+   */
+  private showMessage(message: string): void {
+    const element = this.root.querySelector<HTMLElement>('#message');
+    if (element) {
+      element.textContent = message;
+      element.hidden = false;
+    }
+    if (this.form) {
+      this.form.hidden = true;
+    }
+    Logger.info(`Popup: ${message}`);
+  }
+
+  /**
+   * Show a status line under the export button
+   */
+  private showStatus(message: string, isError = false): void {
+    const status = this.root.querySelector('#status');
+    if (status) {
+      status.textContent = message;
+      status.classList.toggle('error', isError);
+    }
+  }
+
+  private text(selector: string, value: string): void {
+    const element = this.root.querySelector(selector);
+    if (element) {
+      element.textContent = value;
+    }
+  }
+
+  private field<T extends HTMLInputElement | HTMLSelectElement = HTMLInputElement | HTMLSelectElement>(name: string): T | null {
+    return this.form?.querySelector<T>(`[name="${name}"]`) ?? null;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Popup Entry Point
+ *
+ * Initializes the toolbar popup.
+ */
+
+import { PopupView } from './popup-view';
+import { Logger } from '../utils/logger';
+
+const root = document.getElementById('popup');
+
+if (root) {
+  new PopupView(root).initialize().catch(error => {
+    Logger.error('Popup: Failed to initialize', error);
+  });
+} else {
+  Logger.error('Popup: Root element not found');
+}
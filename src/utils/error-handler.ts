@@ -4,6 +4,7 @@
  */
 
 import { Logger, LogLevel } from './logger';
+import { t } from './i18n';
 
 /**
  * Base class for custom errors
@@ -46,6 +47,26 @@ export class PDFError extends BaseError {
   }
 }
 
+/**
+ * Error thrown when the user cancels an export
+ */
+export class ExportCancelledError extends BaseError {
+  constructor(message: string = 'Export cancelled') {
+    super(message);
+  }
+}
+
+/**
+ * Stop the current step of an export if it was cancelled
+ * @param signal - Signal of the running export
+ * @throws ExportCancelledError if the signal was aborted
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ExportCancelledError();
+  }
+}
+
 /**
  * Interface for UI notification display
  */
@@ -93,8 +114,7 @@ export class ErrorHandler {
    * @param context - Context string
    */
   static handleDOMError(error: DOMError, context: string): void {
-    const message = 'Không thể tìm thấy phần tử cần thiết trên trang. ' +
-                   'Vui lòng đảm bảo bạn đang ở trang chat Gemini Business.';
+    const message = t('errorElementNotFound');
     
     Logger.warn(`DOM Error in ${context}: ${error.message}`, {
       element: error.element
@@ -112,8 +132,8 @@ export class ErrorHandler {
    */
   static handleExpansionError(error: ExpansionError, context: string): void {
     const message = error.failedCount > 0
-      ? `Không thể mở rộng ${error.failedCount} tin nhắn. PDF có thể thiếu một số nội dung.`
-      : 'Không thể mở rộng tin nhắn. Vui lòng thử lại.';
+      ? t('errorExpansionCount', error.failedCount)
+      : t('errorExpansion');
     
     Logger.warn(`Expansion Error in ${context}: ${error.message}`, {
       failedCount: error.failedCount
@@ -130,7 +150,7 @@ export class ErrorHandler {
    * @param context - Context string
    */
   static handlePDFError(error: PDFError, context: string): void {
-    const message = 'Không thể tạo file PDF. Vui lòng thử lại hoặc liên hệ hỗ trợ.';
+    const message = t('errorPdf');
     
     Logger.error(`PDF Error in ${context}: ${error.message}`, {
       cause: error.cause?.message
@@ -147,7 +167,7 @@ export class ErrorHandler {
    * @param context - Context string
    */
   static handleGenericError(error: Error, context: string): void {
-    const message = `Đã xảy ra lỗi: ${error.message}`;
+    const message = t('errorGeneric', error.message);
     
     Logger.error(`Generic Error in ${context}: ${error.message}`, {
       stack: error.stack
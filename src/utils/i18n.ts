@@ -0,0 +1,172 @@
+/**
+ * Localization of user-facing text
+ *
+ * Messages live in Chrome's catalog format under src/_locales/<language>/messages.json,
+ * which also localizes the manifest through chrome.i18n. chrome.i18n always follows the
+ * browser language, so the catalogs are bundled as well: this lets the options page
+ * override the language, and works in tests where chrome is not available.
+ */
+
+import en from '../_locales/en/messages.json';
+import vi from '../_locales/vi/messages.json';
+
+/**
+ * Supported languages
+ */
+export type Language = 'en' | 'vi';
+
+/**
+ * Language setting: a supported language, or 'auto' to follow the browser
+ */
+export type LanguagePreference = Language | 'auto';
+
+/**
+ * Key of a message in the catalogs
+ */
+export type MessageKey = keyof typeof en;
+
+/**
+ * Information about a supported language
+ */
+export interface LanguageInfo {
+  /** Language code, also the _locales directory name */
+  id: Language;
+
+  /** Name of the language, written in that language */
+  label: string;
+
+  /** Locale used to format dates */
+  dateLocale: string;
+}
+
+/**
+ * Supported languages, in the order shown in the options page
+ */
+export const LANGUAGES: ReadonlyArray<LanguageInfo> = [
+  { id: 'en', label: 'English', dateLocale: 'en-US' },
+  { id: 'vi', label: 'Tiếng Việt', dateLocale: 'vi-VN' }
+];
+
+/**
+ * Language used when the browser language is not supported
+ */
+export const FALLBACK_LANGUAGE: Language = 'en';
+
+interface CatalogEntry {
+  message: string;
+  description?: string;
+  placeholders?: Record<string, { content: string }>;
+}
+
+const CATALOGS: Record<Language, Record<string, CatalogEntry>> = { en, vi };
+
+let preference: LanguagePreference = 'auto';
+
+/**
+ * Check whether a value is a valid language setting
+ * @param value - Value to check
+ * @returns True if the value is 'auto' or a supported language
+ */
+export function isLanguagePreference(value: unknown): value is LanguagePreference {
+  return value === 'auto' || LANGUAGES.some(language => language.id === value);
+}
+
+/**
+ * Set the language of all messages from now on
+ *
+ * @param language - Language setting ('auto' follows the browser)
+ * @returns True if the language actually in use changed
+ */
+export function setLanguage(language: LanguagePreference): boolean {
+  const previous = getLanguage();
+  preference = language;
+  return getLanguage() !== previous;
+}
+
+/**
+ * Get the language in use, resolving 'auto' from the browser language
+ * @returns Supported language
+ */
+export function getLanguage(): Language {
+  if (preference !== 'auto') {
+    return preference;
+  }
+
+  const browserLanguage = (typeof chrome !== 'undefined' && chrome.i18n?.getUILanguage?.())
+    || (typeof navigator !== 'undefined' ? navigator.language : '');
+  const code = browserLanguage.toLowerCase().split(/[-_]/)[0];
+
+  return LANGUAGES.find(language => language.id === code)?.id ?? FALLBACK_LANGUAGE;
+}
+
+/**
+ * Get the locale used to format dates in the language in use
+ * @returns BCP 47 locale, e.g. "vi-VN"
+ */
+export function getDateLocale(): string {
+  const language = getLanguage();
+  return (LANGUAGES.find(info => info.id === language) as LanguageInfo).dateLocale;
+}
+
+/**
+ * Format an export date the way exported documents show it
+ *
+ * @param date - Date to format (defaults to now)
+ * @returns Localized date and time, e.g. "15 tháng 3, 2024 lúc 14:30"
+ */
+export function formatDateTime(date: Date = new Date()): string {
+  return date.toLocaleString(getDateLocale(), {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+}
+
+/**
+ * Get a localized message
+ * Placeholders follow chrome.i18n: $NAME$ refers to a named placeholder whose
+ * content is $1-$9, the substitutions in order; "$$" is a literal dollar sign.
+ *
+ * @param key - Message key
+ * @param substitutions - Values for $1-$9
+ * @returns Message in the language in use (falls back to English, then to the key)
+ */
+export function t(key: MessageKey, ...substitutions: Array<string | number>): string {
+  const entry = CATALOGS[getLanguage()][key] ?? CATALOGS[FALLBACK_LANGUAGE][key];
+  if (!entry) {
+    return key;
+  }
+
+  const placeholders = entry.placeholders ?? {};
+  const message = entry.message.replace(/\$(\w+)\$/g, (match, name: string) =>
+    placeholders[name.toLowerCase()]?.content ?? match);
+
+  return message.replace(/\$(\$|[1-9])/g, (match, index: string) =>
+    index === '$' ? '$' : String(substitutions[Number(index) - 1] ?? ''));
+}
+
+/**
+ * Localize static markup
+ * Elements with data-i18n get their text replaced, and data-i18n-<attribute>
+ * (e.g. data-i18n-title) sets that attribute.
+ *
+ * @param root - Document or element to localize
+ */
+export function localizeElement(root: ParentNode): void {
+  root.querySelectorAll<HTMLElement>('*').forEach(element => {
+    Object.entries(element.dataset).forEach(([name, key]) => {
+      if (!name.startsWith('i18n') || !key) {
+        return;
+      }
+
+      const attribute = name.slice('i18n'.length).toLowerCase();
+      if (attribute) {
+        element.setAttribute(attribute, t(key as MessageKey));
+      } else {
+        element.textContent = t(key as MessageKey);
+      }
+    });
+  });
+}
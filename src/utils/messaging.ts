@@ -0,0 +1,260 @@
+/**
+ * Messages exchanged between the extension's pages, background service worker and content script
+ *
+ * The background worker and the toolbar popup send export requests; the content
+ * script runs them on the conversation in its tab, answers status requests and
+ * reports the progress of a running export.
+ */
+
+import { ExportFormat, isExportFormat } from '../content/export-formats';
+import { EXPORT_STAGES, ExportProgress, ExportStage } from '../content/export-progress';
+import { Logger } from './logger';
+
+/**
+ * Consecutive turns, numbered from 1 as shown to the user (both ends included)
+ */
+export interface TurnRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Request to export the conversation shown in a tab
+ */
+export interface ExportRequest {
+  type: 'export';
+
+  /** Format to export to; the format selected in the page's export button when omitted */
+  format?: ExportFormat;
+
+  /** Turns to export; the turns chosen in the page (or the whole conversation) when omitted */
+  turns?: TurnRange;
+}
+
+/**
+ * Reply of the content script to an export request
+ */
+export interface ExportResponse {
+  /** False if an export was already running, so the request was ignored */
+  accepted: boolean;
+}
+
+/**
+ * Request for the state of the conversation shown in a tab
+ */
+export interface StatusRequest {
+  type: 'get-status';
+}
+
+/**
+ * Reply of the content script to a status request
+ */
+export interface ConversationStatus {
+  /** Conversation title, null if the page has none */
+  title: string | null;
+
+  /** Number of turns (user prompts) loaded in the page */
+  turnCount: number;
+
+  /** Format selected in the page's export button */
+  format: ExportFormat;
+
+  /** Whether an export is running */
+  exporting: boolean;
+}
+
+/**
+ * Progress of an export, broadcast by the content script to the extension's pages
+ */
+export interface ExportProgressMessage {
+  type: 'export-progress';
+
+  /** Stage reached, or how the export ended */
+  stage: ExportStage | 'done' | 'failed' | 'cancelled';
+
+  /** Format being exported */
+  format: ExportFormat;
+
+  /** Counts and overall percentage while the export runs */
+  progress?: ExportProgress;
+
+  /** Error message when the stage is 'failed' */
+  error?: string;
+}
+
+/**
+ * Check whether a runtime message is an export request
+ * @param message - Message received through chrome.runtime
+ * @returns True if the message is a valid ExportRequest
+ */
+export function isExportRequest(message: unknown): message is ExportRequest {
+  if (!isObject(message)) {
+    return false;
+  }
+
+  const { type, format, turns } = message as Record<string, unknown>;
+  return type === 'export'
+    && (format === undefined || isExportFormat(format))
+    && (turns === undefined || isTurnRange(turns));
+}
+
+/**
+ * Check whether a runtime message is a status request
+ * @param message - Message received through chrome.runtime
+ * @returns True if the message is a StatusRequest
+ */
+export function isStatusRequest(message: unknown): message is StatusRequest {
+  return isObject(message) && (message as Record<string, unknown>).type === 'get-status';
+}
+
+/**
+ * Check whether a runtime message reports export progress
+ * @param message - Message received through chrome.runtime
+ * @returns True if the message is an ExportProgressMessage
+ */
+export function isExportProgressMessage(message: unknown): message is ExportProgressMessage {
+  if (!isObject(message)) {
+    return false;
+  }
+
+  const { type, stage, format } = message as Record<string, unknown>;
+  return type === 'export-progress'
+    && [...EXPORT_STAGES, 'done', 'failed', 'cancelled'].includes(stage as string)
+    && isExportFormat(format);
+}
+
+/**
+ * Ask the content script of a tab to export its conversation
+ *
+ * @param tabId - Tab showing a Gemini Business conversation
+ * @param format - Format to export to (the selected format when omitted)
+ * @param turns - Turns to export (the page's selection when omitted)
+ * @returns The content script's reply, or null if no content script answered
+ */
+export async function sendExportRequest(tabId: number, format?: ExportFormat, turns?: TurnRange): Promise<ExportResponse | null> {
+  const request: ExportRequest = { type: 'export' };
+  if (format) {
+    request.format = format;
+  }
+  if (turns) {
+    request.turns = turns;
+  }
+
+  return sendToTab<ExportResponse>(tabId, request);
+}
+
+/**
+ * Ask the content script of a tab for the state of its conversation
+ *
+ * @param tabId - Tab showing a Gemini Business conversation
+ * @returns The status, or null if no content script answered
+ */
+export async function requestConversationStatus(tabId: number): Promise<ConversationStatus | null> {
+  const request: StatusRequest = { type: 'get-status' };
+  return sendToTab<ConversationStatus>(tabId, request);
+}
+
+/**
+ * Listen for export requests sent to this content script
+ *
+ * @param listener - Starts the export; returns whether the request was accepted
+ * @returns Function that removes the listener
+ */
+export function onExportRequest(listener: (request: ExportRequest) => boolean): () => void {
+  return onMessage((message, _sender, sendResponse) => {
+    if (isExportRequest(message)) {
+      sendResponse({ accepted: listener(message) } satisfies ExportResponse);
+    }
+  });
+}
+
+/**
+ * Answer status requests sent to this content script
+ *
+ * @param getStatus - Returns the current status
+ * @returns Function that removes the listener
+ */
+export function onStatusRequest(getStatus: () => ConversationStatus): () => void {
+  return onMessage((message, _sender, sendResponse) => {
+    if (isStatusRequest(message)) {
+      sendResponse(getStatus());
+    }
+  });
+}
+
+/**
+ * Report export progress to the extension's pages (e.g. an open popup)
+ * Nothing happens when no page is listening
+ *
+ * @param progress - Progress to report
+ */
+export function reportExportProgress(progress: Omit<ExportProgressMessage, 'type'>): void {
+  if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) {
+    return;
+  }
+
+  const message: ExportProgressMessage = { type: 'export-progress', ...progress };
+  Promise.resolve(chrome.runtime.sendMessage(message)).catch(() => {
+    // No extension page is open
+  });
+}
+
+/**
+ * Listen for export progress reported by content scripts
+ *
+ * @param listener - Called with the progress and the id of the reporting tab
+ * @returns Function that removes the listener
+ */
+export function onExportProgress(listener: (progress: ExportProgressMessage, tabId: number | undefined) => void): () => void {
+  return onMessage((message, sender) => {
+    if (isExportProgressMessage(message)) {
+      listener(message, sender.tab?.id);
+    }
+  });
+}
+
+/**
+ * Send a message to the content script of a tab
+ * @returns The reply, or null if no content script answered
+ */
+async function sendToTab<T>(tabId: number, message: ExportRequest | StatusRequest): Promise<T | null> {
+  try {
+    return await chrome.tabs.sendMessage<ExportRequest | StatusRequest, T>(tabId, message) ?? null;
+  } catch (error) {
+    // The tab has no content script yet (e.g. it was open before the extension was installed)
+    Logger.warn(`Failed to send ${message.type} message to tab ${tabId}`, error);
+    return null;
+  }
+}
+
+type MessageHandler = (
+  message: unknown,
+  sender: chrome.runtime.MessageSender,
+  sendResponse: (response: unknown) => void
+) => void;
+
+/**
+ * Add a chrome.runtime message listener
+ * @returns Function that removes the listener
+ */
+function onMessage(handler: MessageHandler): () => void {
+  if (typeof chrome === 'undefined' || !chrome.runtime?.onMessage) {
+    return () => {};
+  }
+
+  chrome.runtime.onMessage.addListener(handler);
+  return () => chrome.runtime.onMessage.removeListener(handler);
+}
+
+function isTurnRange(value: unknown): value is TurnRange {
+  if (!isObject(value)) {
+    return false;
+  }
+
+  const { from, to } = value as Record<string, unknown>;
+  return Number.isInteger(from) && Number.isInteger(to) && (from as number) >= 1 && (to as number) >= (from as number);
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
@@ -0,0 +1,252 @@
+/**
+ * Extension settings persisted in chrome.storage.sync
+ *
+ * Shared by the options page (which edits them) and the content script
+ * (which applies them to the export pipeline).
+ */
+
+import { PDFOptions, DEFAULT_PDF_OPTIONS, CODE_THEMES, CodeTheme } from '../content/pdf-options';
+import { ImageOptions, DEFAULT_IMAGE_OPTIONS } from '../content/image-options';
+import { ExportFormat, isExportFormat } from '../content/export-formats';
+import { DEFAULT_FILENAME_TEMPLATE, validateFilenameTemplate } from '../content/filename-template';
+import { validatePageTemplate } from '../content/page-template';
+import { ClassificationLevel, isClassificationLevel } from '../content/classification-options';
+import {
+  DEFAULT_REDACTION_OPTIONS,
+  RedactionOptions,
+  isRedactionKind,
+  isValidRedactionPattern
+} from '../content/redaction-options';
+import { LanguagePreference, isLanguagePreference } from './i18n';
+import { Logger } from './logger';
+
+/**
+ * User preferences for exporting
+ */
+export interface ExtensionSettings {
+  /** Language of the interface and of exported documents ('auto' follows the browser) */
+  language: LanguagePreference;
+
+  /** Format selected in the export button when a page is opened */
+  defaultFormat: ExportFormat;
+
+  /**
+   * Filename template of exported files, e.g. "{date:YYYY-MM-DD}_{title}.{ext}"
+   * See FILENAME_TOKENS for the supported tokens
+   */
+  filenamePattern: string;
+
+  /**
+   * Classification stamped on exported files (PDF watermark, HTML banner, Markdown front matter)
+   * When not set, the administrator's default applies (see ManagedPolicy)
+   */
+  classification?: ClassificationLevel;
+
+  /** PDF layout and styling */
+  pdf: PDFOptions;
+
+  /** Image embedding */
+  images: ImageOptions;
+
+  /** Sensitive data scrubbed from chats before they are exported */
+  redaction: RedactionOptions;
+}
+
+/**
+ * Key of the settings object in chrome.storage.sync
+ */
+export const SETTINGS_STORAGE_KEY = 'settings';
+
+/**
+ * Defaults set by an administrator through enterprise policy
+ * (chrome.storage.managed, described by managed_schema.json)
+ */
+export interface ManagedPolicy {
+  /** Classification of exported files when the user has not chosen one */
+  defaultClassification?: ClassificationLevel;
+}
+
+/**
+ * Settings used when nothing has been saved yet
+ */
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  language: 'auto',
+  defaultFormat: 'markdown',
+  filenamePattern: DEFAULT_FILENAME_TEMPLATE,
+  pdf: DEFAULT_PDF_OPTIONS,
+  images: DEFAULT_IMAGE_OPTIONS,
+  redaction: DEFAULT_REDACTION_OPTIONS
+};
+
+/**
+ * Merge stored settings with the defaults, dropping invalid values
+ * Stored data may come from an older version or be edited by hand
+ *
+ * @param stored - Raw value read from storage
+ * @returns Complete, valid settings
+ */
+export function normalizeSettings(stored: unknown): ExtensionSettings {
+  const raw = (isObject(stored) ? stored : {}) as Record<string, unknown>;
+  const pdf = (isObject(raw.pdf) ? raw.pdf : {}) as Record<string, unknown>;
+  const margin = (isObject(pdf.margin) ? pdf.margin : {}) as Record<string, unknown>;
+  const images = (isObject(raw.images) ? raw.images : {}) as Record<string, unknown>;
+  const redaction = (isObject(raw.redaction) ? raw.redaction : {}) as Record<string, unknown>;
+  const defaults = DEFAULT_SETTINGS.pdf;
+  const imageDefaults = DEFAULT_SETTINGS.images;
+  const redactionDefaults = DEFAULT_SETTINGS.redaction;
+
+  const text = (value: unknown, fallback: string) =>
+    typeof value === 'string' && value.trim() ? value.trim() : fallback;
+
+  const settings: ExtensionSettings = {
+    language: isLanguagePreference(raw.language) ? raw.language : DEFAULT_SETTINGS.language,
+    defaultFormat: isExportFormat(raw.defaultFormat) ? raw.defaultFormat : DEFAULT_SETTINGS.defaultFormat,
+    filenamePattern: typeof raw.filenamePattern === 'string' && validateFilenameTemplate(raw.filenamePattern).length === 0
+      ? raw.filenamePattern.trim()
+      : DEFAULT_SETTINGS.filenamePattern,
+    pdf: {
+      format: pdf.format === 'A4' || pdf.format === 'Letter' ? pdf.format : defaults.format,
+      margin: {
+        top: text(margin.top, defaults.margin.top),
+        right: text(margin.right, defaults.margin.right),
+        bottom: text(margin.bottom, defaults.margin.bottom),
+        left: text(margin.left, defaults.margin.left)
+      },
+      fontSize: text(pdf.fontSize, defaults.fontSize),
+      fontFamily: text(pdf.fontFamily, defaults.fontFamily),
+      lineHeight: typeof pdf.lineHeight === 'number' && pdf.lineHeight > 0 ? pdf.lineHeight : defaults.lineHeight,
+      userMessageBg: text(pdf.userMessageBg, defaults.userMessageBg),
+      geminiMessageBg: text(pdf.geminiMessageBg, defaults.geminiMessageBg)
+    },
+    images: {
+      inline: typeof images.inline === 'boolean' ? images.inline : imageDefaults.inline,
+      maxSizeKB: typeof images.maxSizeKB === 'number' && images.maxSizeKB > 0 ? images.maxSizeKB : imageDefaults.maxSizeKB,
+      maxDimension: typeof images.maxDimension === 'number' && Number.isInteger(images.maxDimension) && images.maxDimension >= 0
+        ? images.maxDimension
+        : imageDefaults.maxDimension,
+      markdownSidecar: typeof images.markdownSidecar === 'boolean' ? images.markdownSidecar : imageDefaults.markdownSidecar
+    },
+    redaction: {
+      enabled: typeof redaction.enabled === 'boolean' ? redaction.enabled : redactionDefaults.enabled,
+      kinds: Array.isArray(redaction.kinds) ? redaction.kinds.filter(isRedactionKind) : [...redactionDefaults.kinds],
+      customPatterns: Array.isArray(redaction.customPatterns)
+        ? redaction.customPatterns.filter((pattern): pattern is string => typeof pattern === 'string' && isValidRedactionPattern(pattern))
+        : [...redactionDefaults.customPatterns],
+      confirm: typeof redaction.confirm === 'boolean' ? redaction.confirm : redactionDefaults.confirm
+    }
+  };
+
+  if (isClassificationLevel(raw.classification)) {
+    settings.classification = raw.classification;
+  }
+  if (pdf.renderer === 'raster' || pdf.renderer === 'vector') {
+    settings.pdf.renderer = pdf.renderer;
+  }
+  if (CODE_THEMES.includes(pdf.codeTheme as CodeTheme)) {
+    settings.pdf.codeTheme = pdf.codeTheme as CodeTheme;
+  }
+  if (typeof pdf.codeLineNumbers === 'boolean') {
+    settings.pdf.codeLineNumbers = pdf.codeLineNumbers;
+  }
+  for (const key of ['header', 'footer'] as const) {
+    const template = pdf[key];
+    if (typeof template === 'string' && validatePageTemplate(template).length === 0) {
+      settings.pdf[key] = template.trim();
+    }
+  }
+  if (typeof pdf.confidentialityLabel === 'string') {
+    settings.pdf.confidentialityLabel = pdf.confidentialityLabel.trim();
+  }
+
+  return settings;
+}
+
+/**
+ * Load the saved settings
+ * Falls back to the defaults when storage is unavailable
+ *
+ * @returns Current settings
+ */
+export async function loadSettings(): Promise<ExtensionSettings> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.sync) {
+    return normalizeSettings(undefined);
+  }
+
+  try {
+    const stored = await chrome.storage.sync.get(SETTINGS_STORAGE_KEY);
+    return normalizeSettings(stored[SETTINGS_STORAGE_KEY]);
+  } catch (error) {
+    Logger.warn('Failed to load settings, using defaults', error);
+    return normalizeSettings(undefined);
+  }
+}
+
+/**
+ * Load the defaults set by the administrator
+ * Unmanaged browsers (and invalid policy values) give an empty policy
+ *
+ * @returns Managed policy
+ */
+export async function loadManagedPolicy(): Promise<ManagedPolicy> {
+  if (typeof chrome === 'undefined' || !chrome.storage?.managed) {
+    return {};
+  }
+
+  try {
+    const stored = await chrome.storage.managed.get('defaultClassification');
+    return isClassificationLevel(stored.defaultClassification)
+      ? { defaultClassification: stored.defaultClassification }
+      : {};
+  } catch (error) {
+    Logger.warn('Failed to load the managed policy', error);
+    return {};
+  }
+}
+
+/**
+ * Classification to stamp on exported files: the user's choice, else the administrator's default
+ *
+ * @param settings - Current settings
+ * @param policy - Managed policy
+ * @returns Classification level, or undefined for none
+ */
+export function resolveClassification(settings: ExtensionSettings, policy: ManagedPolicy): ClassificationLevel | undefined {
+  return settings.classification ?? policy.defaultClassification;
+}
+
+/**
+ * Save settings
+ *
+ * @param settings - Settings to save (normalized before writing)
+ * @returns The settings actually saved
+ */
+export async function saveSettings(settings: ExtensionSettings): Promise<ExtensionSettings> {
+  const normalized = normalizeSettings(settings);
+  await chrome.storage.sync.set({ [SETTINGS_STORAGE_KEY]: normalized });
+  return normalized;
+}
+
+/**
+ * Listen for settings saved from any extension page or device
+ *
+ * @param listener - Called with the new settings
+ * @returns Function that removes the listener
+ */
+export function onSettingsChanged(listener: (settings: ExtensionSettings) => void): () => void {
+  if (typeof chrome === 'undefined' || !chrome.storage?.onChanged) {
+    return () => {};
+  }
+
+  const handler = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'sync' && changes[SETTINGS_STORAGE_KEY]) {
+      listener(normalizeSettings(changes[SETTINGS_STORAGE_KEY].newValue));
+    }
+  };
+
+  chrome.storage.onChanged.addListener(handler);
+  return () => chrome.storage.onChanged.removeListener(handler);
+}
+
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
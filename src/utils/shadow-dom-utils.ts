@@ -3,10 +3,10 @@
  */
 
 /**
- * Traverses Shadow DOM to get the chat container element
- * Path: body > ucs-standalone-app -> shadowRoot -> ... -> ucs-conversation -> shadowRoot -> div
+ * Traverses Shadow DOM to get the element that scrolls the conversation
+ * Path: body > ucs-standalone-app -> shadowRoot -> ... -> ucs-results -> shadowRoot -> ... -> div.chat-mode-scroller
  */
-export function getChatContainer(): HTMLElement | null {
+export function getChatScroller(): HTMLElement | null {
   try {
     const app = document.querySelector("body > ucs-standalone-app") as HTMLElement & { shadowRoot: ShadowRoot };
     if (!app?.shadowRoot) return null;
@@ -16,9 +16,22 @@ export function getChatContainer(): HTMLElement | null {
     ) as HTMLElement & { shadowRoot: ShadowRoot };
     if (!results?.shadowRoot) return null;
 
-    const conversation = results.shadowRoot.querySelector(
-      "div > div > div.tile.chat-mode-conversation.chat-mode-conversation > div.chat-mode-scroller.tile-content > ucs-conversation"
-    ) as HTMLElement & { shadowRoot: ShadowRoot };
+    return results.shadowRoot.querySelector(
+      "div > div > div.tile.chat-mode-conversation.chat-mode-conversation > div.chat-mode-scroller.tile-content"
+    ) as HTMLElement | null;
+  } catch (error) {
+    console.error("Error traversing Shadow DOM:", error);
+    return null;
+  }
+}
+
+/**
+ * Traverses Shadow DOM to get the chat container element
+ * Path: div.chat-mode-scroller > ucs-conversation -> shadowRoot -> div
+ */
+export function getChatContainer(): HTMLElement | null {
+  try {
+    const conversation = getChatScroller()?.querySelector(":scope > ucs-conversation") as HTMLElement & { shadowRoot: ShadowRoot };
     if (!conversation?.shadowRoot) return null;
 
     const chatContainer = conversation.shadowRoot.querySelector("div") as HTMLElement;
@@ -118,10 +131,19 @@ export function getChatTitleElement(): HTMLElement | null {
 }
 
 /**
- * Gets all conversation titles from the conversation list
- * Useful for debugging or future features
+ * An entry of the conversation list in the nav panel
  */
-export function getAllConversationTitles(): Array<{ title: string; isSelected: boolean }> {
+export interface ConversationListItem {
+  title: string;
+  isSelected: boolean;
+  button: HTMLElement;
+}
+
+/**
+ * Gets every entry of the conversation list in the nav panel, in display order
+ * Clicking an entry's button opens that conversation (used by batch export)
+ */
+export function getConversationListItems(): ConversationListItem[] {
   try {
     const app = document.querySelector("body > ucs-standalone-app") as HTMLElement & { shadowRoot: ShadowRoot };
     if (!app?.shadowRoot) return [];
@@ -133,25 +155,34 @@ export function getAllConversationTitles(): Array<{ title: string; isSelected: b
     if (!conversationList) return [];
 
     const buttons = conversationList.querySelectorAll("button.list-item");
-    const titles: Array<{ title: string; isSelected: boolean }> = [];
+    const items: ConversationListItem[] = [];
 
     buttons.forEach(button => {
       const titleElement = button.querySelector("div.conversation-title");
       if (titleElement) {
-        titles.push({
+        items.push({
           title: titleElement.textContent?.trim() || '',
-          isSelected: button.classList.contains('selected')
+          isSelected: button.classList.contains('selected'),
+          button: button as HTMLElement
         });
       }
     });
 
-    return titles;
+    return items;
   } catch (error) {
-    console.error("Error getting all conversation titles:", error);
+    console.error("Error getting conversation list items:", error);
     return [];
   }
 }
 
+/**
+ * Gets all conversation titles from the conversation list
+ * Used by batch export to let the user pick conversations
+ */
+export function getAllConversationTitles(): Array<{ title: string; isSelected: boolean }> {
+  return getConversationListItems().map(({ title, isSelected }) => ({ title, isSelected }));
+}
+
 /**
  * Gets the header element where we can inject the export button
  * Now targets the customer-logo-container to place button next to Gemini Business logo
@@ -202,11 +233,32 @@ export function getHeaderElement(): HTMLElement | null {
   }
 }
 
+/**
+ * Gets the name of the Gemini Business workspace
+ * Uses the customer logo's alt text in the header, falling back to the
+ * workspace id in the URL (/home/cid/<id>/...)
+ */
+export function getWorkspaceName(): string | null {
+  try {
+    const app = document.querySelector("body > ucs-standalone-app") as HTMLElement & { shadowRoot: ShadowRoot };
+    const logo = app?.shadowRoot?.querySelector(
+      "div > div.ucs-standalone-outer-row-container > div > div.ucs-standalone-header > div.customer-logo-container img[alt]"
+    );
+    const name = logo?.getAttribute('alt')?.trim();
+    if (name) return name;
+
+    const match = window.location.pathname.match(/\/cid\/([^/]+)/);
+    return match ? decodeURIComponent(match[1]) : null;
+  } catch (error) {
+    console.error("Error getting workspace name:", error);
+    return null;
+  }
+}
+
 /**
  * Extracts content from a user message element (ucs-fast-markdown)
- * Also extracts attached images from ucs-carousel if present
  * Path: ucs-fast-markdown -> shadowRoot -> div > div > p (or div > div for full content)
- * Images: parent turn -> ucs-carousel -> ucs-file-bubble -> shadowRoot -> div > img
+ * Attached files are read separately by extractAttachments (content/attachments.ts)
  */
 export function extractUserMessageContent(userMessage: HTMLElement): string {
   try {
@@ -272,38 +324,6 @@ export function extractUserMessageContent(userMessage: HTMLElement): string {
       content = textContent;
     }
     
-    // Check for attached images in the parent turn
-    const turn = userMessage.closest('div.turn');
-    if (turn) {
-      const carousel = turn.querySelector('ucs-carousel');
-      if (carousel) {
-        console.log('[extractUserMessageContent] Found carousel with images');
-        const fileBubbles = carousel.querySelectorAll('ucs-file-bubble');
-        
-        if (fileBubbles.length > 0) {
-          console.log(`[extractUserMessageContent] Found ${fileBubbles.length} file bubbles`);
-          const images: string[] = [];
-          
-          fileBubbles.forEach((bubble, index) => {
-            const bubbleElement = bubble as HTMLElement & { shadowRoot: ShadowRoot };
-            if (bubbleElement.shadowRoot) {
-              const img = bubbleElement.shadowRoot.querySelector('div > img') as HTMLImageElement;
-              if (img && img.src) {
-                console.log(`[extractUserMessageContent] Found image ${index + 1}: ${img.src.substring(0, 50)}...`);
-                images.push(`<img src="${img.src}" alt="Attached image ${index + 1}" style="max-width: 100%; height: auto; margin: 10px 0;" />`);
-              }
-            }
-          });
-          
-          // Append images to content
-          if (images.length > 0) {
-            content += '<div class="attached-images">' + images.join('') + '</div>';
-            console.log(`[extractUserMessageContent] Added ${images.length} images to content`);
-          }
-        }
-      }
-    }
-    
     return content;
   } catch (error) {
     console.error('Error extracting user message content:', error);
@@ -430,12 +450,19 @@ export function getCollapsedMessages(): HTMLElement[] {
 }
 
 /**
- * Checks if we're on Gemini Business domain
+ * Checks if a URL is on the Gemini Business domain
+ * @param url - URL to check (defaults to the current page, the popup passes the active tab's URL)
  */
-export function isGeminiBusinessDomain(): boolean {
-  const hostname = window.location.hostname;
+export function isGeminiBusinessDomain(url: string = window.location.href): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname;
+  } catch {
+    return false;
+  }
+
   // Check for Gemini Business domains
   return hostname.includes('gemini.google') || 
          hostname.includes('business.gemini') ||
-         (hostname.includes('google.com') && window.location.href.includes('gemini'));
+         (hostname.includes('google.com') && url.includes('gemini'));
 }
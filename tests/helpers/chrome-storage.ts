@@ -0,0 +1,61 @@
+/**
+ * Test helper that stubs the chrome.storage API with an in-memory store
+ */
+
+import { vi } from 'vitest';
+
+type ChangeListener = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => void;
+
+/**
+ * In-memory chrome.storage.sync with change notifications, and a read-only chrome.storage.managed
+ */
+export interface ChromeStorageStub {
+  /** Stored values */
+  data: Record<string, unknown>;
+
+  /** Write values as another extension page would, notifying listeners */
+  set(items: Record<string, unknown>): void;
+}
+
+/**
+ * Install a chrome.storage stub as the global `chrome`
+ * Call vi.unstubAllGlobals() to remove it
+ *
+ * @param initial - Initial stored values
+ * @param managed - Values set by enterprise policy
+ * @returns The stub
+ */
+export function stubChromeStorage(
+  initial: Record<string, unknown> = {},
+  managed: Record<string, unknown> = {}
+): ChromeStorageStub {
+  const data: Record<string, unknown> = { ...initial };
+  const listeners = new Set<ChangeListener>();
+
+  const set = (items: Record<string, unknown>) => {
+    const changes: { [key: string]: chrome.storage.StorageChange } = {};
+    Object.entries(items).forEach(([key, value]) => {
+      changes[key] = { oldValue: data[key], newValue: value };
+      data[key] = value;
+    });
+    listeners.forEach(listener => listener(changes, 'sync'));
+  };
+
+  vi.stubGlobal('chrome', {
+    storage: {
+      sync: {
+        get: vi.fn(async (key: string) => (key in data ? { [key]: data[key] } : {})),
+        set: vi.fn(async (items: Record<string, unknown>) => set(items))
+      },
+      managed: {
+        get: vi.fn(async (key: string) => (key in managed ? { [key]: managed[key] } : {}))
+      },
+      onChanged: {
+        addListener: vi.fn((listener: ChangeListener) => listeners.add(listener)),
+        removeListener: vi.fn((listener: ChangeListener) => listeners.delete(listener))
+      }
+    }
+  });
+
+  return { data, set };
+}
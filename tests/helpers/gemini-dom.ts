@@ -0,0 +1,86 @@
+/**
+ * Test helper that builds the Gemini Business shadow DOM structure
+ * traversed by src/utils/shadow-dom-utils.ts
+ */
+
+/**
+ * One conversation turn: the user's prompt and Gemini's response (HTML)
+ */
+export interface TurnFixture {
+  user: string;
+  gemini: string;
+}
+
+/**
+ * Build body > ucs-standalone-app -> ucs-results -> ucs-conversation with one div.turn per fixture
+ *
+ * @param turns - Turns to render
+ * @returns The chat container (first div inside the ucs-conversation shadow root)
+ */
+export function buildGeminiConversation(turns: TurnFixture[]): HTMLElement {
+  document.body.innerHTML = '';
+
+  const app = document.createElement('ucs-standalone-app');
+  document.body.appendChild(app);
+  const appRoot = app.attachShadow({ mode: 'open' });
+  appRoot.innerHTML =
+    '<div><div class="ucs-standalone-outer-row-container"><div><div class="search-bar-and-results-container"><div>' +
+    '<ucs-results></ucs-results></div></div></div></div></div>';
+
+  const results = appRoot.querySelector('ucs-results') as HTMLElement;
+  const resultsRoot = results.attachShadow({ mode: 'open' });
+  resultsRoot.innerHTML =
+    '<div><div><div class="tile chat-mode-conversation"><div class="chat-mode-scroller tile-content">' +
+    '<ucs-conversation></ucs-conversation></div></div></div></div>';
+
+  const conversation = resultsRoot.querySelector('ucs-conversation') as HTMLElement;
+  const conversationRoot = conversation.attachShadow({ mode: 'open' });
+  const container = document.createElement('div');
+  conversationRoot.appendChild(container);
+
+  turns.forEach(turn => container.appendChild(createTurn(turn)));
+  return container;
+}
+
+/**
+ * Create a single div.turn element
+ *
+ * @param turn - Turn content
+ * @returns Turn element
+ */
+export function createTurn(turn: TurnFixture): HTMLElement {
+  const element = document.createElement('div');
+  element.className = 'turn';
+  element.innerHTML = `<div><ucs-fast-markdown>${turn.user}</ucs-fast-markdown></div><ucs-summary>${turn.gemini}</ucs-summary>`;
+  return element;
+}
+
+/**
+ * Build the nav panel conversation list inside the ucs-standalone-app shadow root
+ * (ucs-nav-panel -> div.conversation-list > button.list-item). Must be called after buildGeminiConversation.
+ *
+ * @param titles - Conversation titles, in list order
+ * @param selectedIndex - Index of the conversation marked as selected
+ * @returns The conversation list buttons
+ */
+export function buildConversationList(titles: string[], selectedIndex = 0): HTMLButtonElement[] {
+  const app = document.querySelector('ucs-standalone-app') as HTMLElement;
+  const row = app.shadowRoot!.querySelector('.ucs-standalone-outer-row-container') as HTMLElement;
+
+  const navPanel = document.createElement('ucs-nav-panel');
+  row.prepend(navPanel);
+  const navRoot = navPanel.attachShadow({ mode: 'open' });
+  navRoot.innerHTML = '<div><div class="sections-container"><div class="conversation-list"></div></div></div>';
+
+  const list = navRoot.querySelector('.conversation-list') as HTMLElement;
+  return titles.map((title, index) => {
+    const button = document.createElement('button');
+    button.className = index === selectedIndex ? 'list-item selected' : 'list-item';
+    const titleElement = document.createElement('div');
+    titleElement.className = 'conversation-title';
+    titleElement.textContent = title;
+    button.appendChild(titleElement);
+    list.appendChild(button);
+    return button;
+  });
+}
@@ -8,6 +8,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ExportController } from '../../src/content/export-controller';
+import { getExportFormatInfo } from '../../src/content/export-formats';
 
 // Mock html2pdf library
 vi.mock('html2pdf.js', () => ({
@@ -459,9 +460,10 @@ describe('Export Flow - Integration Tests', () => {
       // Wait for export to complete
       await exportPromise;
 
-      // Verify: Button text returns to normal
+      // Verify: Button text returns to the label of the selected format
       const buttonTextAfter = mockButton.textContent;
-      expect(buttonTextAfter).toContain('Xuất PDF');
+      const formatLabel = getExportFormatInfo(controller.getExportFormat())?.label;
+      expect(buttonTextAfter).toContain(`Xuất ${formatLabel}`);
     });
 
     it('should disable button during export and re-enable after', async () => {
@@ -6,6 +6,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { TitleExtractor } from '../../src/content/title-extractor';
+import { EXPORT_FORMATS } from '../../src/content/export-formats';
+import { FILENAME_TOKENS } from '../../src/content/filename-template';
 
 describe('TitleExtractor.generateFilename - Property Tests', () => {
   let extractor: TitleExtractor;
@@ -351,4 +353,50 @@ describe('TitleExtractor.generateFilename - Property Tests', () => {
       { numRuns: 100 }
     );
   });
+
+  /**
+   * Feature: gemini-business-to-pdf, Property 24: Filename templates produce valid filenames for every format
+   * **Validates: Configurable filename templates**
+   *
+   * Property: Với bất kỳ template hợp lệ nào (token và ký tự phân cách) và bất kỳ
+   * định dạng xuất nào, generateFilename phải:
+   * - Kết thúc bằng đúng một extension của định dạng
+   * - Không chứa ký tự không hợp lệ
+   * - Giới hạn độ dài phần tên ở 100 ký tự
+   */
+  it('Property 24: should render any valid template into a valid filename with the format extension', () => {
+    const partArb = fc.oneof(
+      fc.constantFrom(...FILENAME_TOKENS.map(info => info.token)),
+      fc.constantFrom('{date:YYYY-MM-DD}', '{time:HH.mm}', '{date:YY_MM}'),
+      fc.constantFrom('_', '-', ' ', 'chat', 'báo cáo', ':', '/')
+    );
+
+    fc.assert(
+      fc.property(
+        fc.array(partArb, { minLength: 1, maxLength: 8 }).map(parts => parts.join('')),
+        fc.boolean(),
+        fc.constantFrom(...EXPORT_FORMATS),
+        fc.option(fc.string({ maxLength: 150 }), { nil: null }),
+        fc.option(fc.string({ maxLength: 40 }), { nil: null }),
+        (template, withExtension, format, title, workspace) => {
+          extractor.setFilenamePattern(withExtension ? `${template}.{ext}` : template);
+
+          const filename = extractor.generateFilename(title, {
+            format: format.id,
+            messageCount: 7,
+            turnCount: 3,
+            workspace
+          });
+
+          expect(filename.endsWith(`.${format.extension}`)).toBe(true);
+          expect(filename.endsWith(`.${format.extension}.${format.extension}`)).toBe(false);
+          const base = filename.slice(0, -(format.extension.length + 1));
+          expect(base.length).toBeGreaterThan(0);
+          expect(base.length).toBeLessThanOrEqual(100);
+          expect(base).not.toMatch(/[\/\\:*?"<>|]/);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
 });
@@ -0,0 +1,281 @@
+/**
+ * Property-based tests for the HTML to Markdown converter
+ * Feature: gemini-business-to-pdf
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { marked } from 'marked';
+import { htmlToMarkdown } from '../../src/content/html-to-markdown';
+
+/**
+ * Document model used to generate representative Gemini responses
+ */
+type Inline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong' | 'em' | 'del'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'link'; text: string; href: string };
+
+interface ListItem {
+  task: boolean | null;
+  inlines: Inline[];
+  sublist: List | null;
+}
+
+interface List {
+  ordered: boolean;
+  start: number;
+  items: ListItem[];
+}
+
+type Block =
+  | { kind: 'p'; inlines: Inline[] }
+  | { kind: 'heading'; level: number; inlines: Inline[] }
+  | { kind: 'list'; list: List }
+  | { kind: 'quote'; blocks: Block[] }
+  | { kind: 'code'; language: string; code: string }
+  | { kind: 'table'; header: Inline[][]; rows: Inline[][][] };
+
+// Words include Markdown-significant characters and Vietnamese diacritics
+const plainWordArb = fc.constantFrom(
+  'Gemini', 'xin', 'chào', 'tiếng', 'Việt', 'dữ', 'liệu', 'file_name', 'a*b', '[note]', '#tag',
+  '<div>', 'x|y', '~tilde~', 'back\\slash', '1.', '-', '+', '>', 'AT&T', 'snake_case', '100%'
+);
+const safeWordArb = fc.constantFrom('alpha', 'beta', 'gamma', 'Việt', 'Nam', 'kết', 'quả', 'data', 'API');
+
+const wordsArb = (wordArb: fc.Arbitrary<string>) =>
+  fc.array(wordArb, { minLength: 1, maxLength: 5 }).map(words => words.join(' '));
+
+const inlineArb: fc.Arbitrary<Inline> = fc.oneof(
+  { weight: 4, arbitrary: wordsArb(plainWordArb).map(text => ({ kind: 'text' as const, text })) },
+  fc.record({ kind: fc.constantFrom('strong' as const, 'em' as const, 'del' as const), text: wordsArb(safeWordArb) }),
+  // Backticks inside code spans are covered by unit tests: marked mis-parses emphasis after such spans
+  wordsArb(fc.constantFrom('x', 'npm install', '*ptr', 'a_b', '<T>', '[i]')).map(text => ({ kind: 'code' as const, text })),
+  fc.record({
+    kind: fc.constant('link' as const),
+    text: wordsArb(safeWordArb),
+    href: fc.constantFrom('https://example.com/docs', 'https://drive.google.com/file/d/abc', 'https://vi.wikipedia.org/wiki/Hà_Nội')
+  })
+);
+
+const inlinesArb = fc.array(inlineArb, { minLength: 1, maxLength: 4 });
+
+const listArb: fc.Arbitrary<List> = fc.letrec(tie => ({
+  list: fc.record({
+    ordered: fc.boolean(),
+    start: fc.integer({ min: 1, max: 20 }),
+    items: fc.array(
+      fc.record({
+        task: fc.option(fc.boolean(), { nil: null }),
+        inlines: inlinesArb,
+        sublist: fc.option(tie('list') as fc.Arbitrary<List>, { nil: null, depthSize: 'small' })
+      }),
+      { minLength: 1, maxLength: 3 }
+    )
+  })
+})).list;
+
+const tableArb = fc.integer({ min: 1, max: 4 }).chain(columns =>
+  fc.record({
+    kind: fc.constant('table' as const),
+    header: fc.array(fc.array(inlineArb, { minLength: 1, maxLength: 2 }), { minLength: columns, maxLength: columns }),
+    rows: fc.array(
+      fc.array(fc.array(inlineArb, { minLength: 1, maxLength: 2 }), { minLength: columns, maxLength: columns }),
+      { minLength: 1, maxLength: 3 }
+    )
+  })
+);
+
+const codeArb = fc.record({
+  kind: fc.constant('code' as const),
+  language: fc.constantFrom('', 'python', 'typescript', 'bash', 'c++'),
+  code: fc.array(
+    fc.constantFrom('def main():', '    print("xin chào")', 'const a = b < c && d;', '```', '', '# comment', '  - item'),
+    { minLength: 1, maxLength: 5 }
+  ).map(lines => lines.join('\n')).filter(code => code.trim().length > 0)
+});
+
+const simpleBlockArb: fc.Arbitrary<Block> = fc.oneof(
+  { weight: 3, arbitrary: inlinesArb.map(inlines => ({ kind: 'p' as const, inlines })) },
+  fc.record({ kind: fc.constant('heading' as const), level: fc.integer({ min: 1, max: 6 }), inlines: inlinesArb }),
+  listArb.map(list => ({ kind: 'list' as const, list })),
+  codeArb,
+  tableArb
+);
+
+const blockArb: fc.Arbitrary<Block> = fc.oneof(
+  { weight: 5, arbitrary: simpleBlockArb },
+  fc.array(simpleBlockArb.filter(block => block.kind !== 'table'), { minLength: 1, maxLength: 3 })
+    .map(blocks => ({ kind: 'quote' as const, blocks }))
+);
+
+const documentArb = fc.array(blockArb, { minLength: 1, maxLength: 6 });
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the model the way Gemini's ucs-fast-markdown does (including its noise attributes)
+ */
+function renderInline(inline: Inline): string {
+  switch (inline.kind) {
+    case 'text':
+      return `<span data-markdown-start-index="0">${escapeHtml(inline.text)}</span>`;
+    case 'code':
+      return `<code>${escapeHtml(inline.text)}</code>`;
+    case 'link':
+      return `<a href="${escapeHtml(inline.href)}" target="_blank">${escapeHtml(inline.text)}</a>`;
+    default:
+      return `<${inline.kind}>${escapeHtml(inline.text)}</${inline.kind}>`;
+  }
+}
+
+function renderInlines(inlines: Inline[]): string {
+  return inlines.map(renderInline).join(' ');
+}
+
+function renderList(list: List): string {
+  const tag = list.ordered ? 'ol' : 'ul';
+  const start = list.ordered && list.start !== 1 ? ` start="${list.start}"` : '';
+  const items = list.items.map(item => {
+    const checkbox = item.task === null ? '' : `<input type="checkbox" disabled${item.task ? ' checked' : ''}> `;
+    const sublist = item.sublist ? renderList(item.sublist) : '';
+    return `<li>${checkbox}${renderInlines(item.inlines)}${sublist}</li>`;
+  });
+  return `<${tag}${start}>${items.join('')}</${tag}>`;
+}
+
+function renderBlock(block: Block): string {
+  switch (block.kind) {
+    case 'p':
+      return `<p>${renderInlines(block.inlines)}</p>`;
+    case 'heading':
+      return `<h${block.level}>${renderInlines(block.inlines)}</h${block.level}>`;
+    case 'list':
+      return renderList(block.list);
+    case 'quote':
+      return `<blockquote>${block.blocks.map(renderBlock).join('')}</blockquote>`;
+    case 'code': {
+      const languageClass = block.language ? ` class="language-${block.language}"` : '';
+      return `<pre><code${languageClass}>${escapeHtml(block.code)}</code></pre>`;
+    }
+    case 'table': {
+      const header = `<tr>${block.header.map(cell => `<th>${renderInlines(cell)}</th>`).join('')}</tr>`;
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${renderInlines(cell)}</td>`).join('')}</tr>`);
+      return `<table><thead>${header}</thead><tbody>${rows.join('')}</tbody></table>`;
+    }
+  }
+}
+
+/**
+ * Reduce HTML to its Markdown-relevant structure so that equivalent HTML
+ * (e.g. "loose" vs "tight" list items, thead/tbody wrappers, span noise) compares equal
+ */
+function canonicalize(html: string): string {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const tokens: string[] = [];
+
+  const walk = (node: Node, insideListItem: boolean) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      tokens.push(node.textContent || '');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) {
+      return;
+    }
+
+    const element = node as HTMLElement;
+    const tag = element.tagName.toLowerCase();
+
+    switch (tag) {
+      case 'pre': {
+        const code = element.querySelector('code');
+        const language = /language-(\S+)/.exec(code?.className || '')?.[1] || '';
+        tokens.push(`<pre ${language}>${JSON.stringify((element.textContent || '').replace(/\n+$/, ''))}</pre>`);
+        return;
+      }
+      case 'input':
+        tokens.push((element as HTMLInputElement).checked ? '<task x>' : '<task>');
+        return;
+      case 'a':
+        // GFM parsers percent-encode non-ASCII URLs
+        tokens.push(`<a ${decodeURI(element.getAttribute('href') || '')}>`);
+        break;
+      case 'ol':
+        tokens.push(`<ol ${element.getAttribute('start') || '1'}>`);
+        break;
+      case 'p':
+        if (insideListItem) {
+          break;
+        }
+        tokens.push('<p>');
+        break;
+      case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6':
+      case 'ul': case 'li': case 'blockquote': case 'table': case 'tr': case 'th': case 'td':
+      case 'strong': case 'em': case 'del': case 'code':
+        tokens.push(`<${tag}>`);
+        break;
+    }
+
+    element.childNodes.forEach(child => walk(child, tag === 'li' || (insideListItem && tag === 'p')));
+
+    if (['a', 'ol', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'li', 'blockquote', 'table', 'tr', 'th', 'td',
+      'strong', 'em', 'del', 'code'].includes(tag) || (tag === 'p' && !insideListItem)) {
+      tokens.push(`</${tag}>`);
+    }
+  };
+
+  walk(container, false);
+  return tokens.join('')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*(<[^>]+>)\s*/g, '$1');
+}
+
+describe('HTML to Markdown - Property Tests', () => {
+  /**
+   * Feature: gemini-business-to-pdf, Property 21: GFM round-trip preserves structure
+   * **Validates: Markdown export fidelity**
+   *
+   * Property: Với bất kỳ Gemini response nào (headings, nested/ordered lists, task lists,
+   * tables, code blocks có language, links, blockquotes, strikethrough),
+   * HTML → Markdown → HTML (GFM parser) phải giữ nguyên cấu trúc và nội dung.
+   */
+  it('Property 21: should round-trip representative Gemini responses through GFM', () => {
+    fc.assert(
+      fc.property(documentArb, blocks => {
+        const html = blocks.map(renderBlock).join('\n');
+
+        const markdown = htmlToMarkdown(html);
+        const roundTripped = marked.parse(markdown, { gfm: true, async: false }) as string;
+
+        expect(canonicalize(roundTripped)).toBe(canonicalize(html));
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  /**
+   * Feature: gemini-business-to-pdf, Property 22: No raw HTML leaks into Markdown
+   * **Validates: Markdown export fidelity**
+   *
+   * Property: Với bất kỳ Gemini response nào, Markdown output không chứa thẻ HTML
+   * ngoài code (mọi ký tự < trong văn bản đều được escape).
+   */
+  it('Property 22: should not leave raw HTML tags outside of code', () => {
+    fc.assert(
+      fc.property(documentArb, blocks => {
+        const markdown = htmlToMarkdown(blocks.map(renderBlock).join('\n'));
+        const withoutCode = markdown
+          .replace(/^(`{3,})[^\n]*\n[\s\S]*?\n\1$/gm, '')
+          .replace(/(`+)[\s\S]*?\1(?!`)/g, '')
+          .replace(/<br>/g, '');
+
+        expect(withoutCode).not.toMatch(/(^|[^\\])<\/?[a-z][^>]*>/i);
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Property-based tests for the JSON export
+ * Feature: gemini-business-to-pdf
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { JsonGenerator } from '../../src/content/json-generator';
+import { ChatExportDocument, JSON_EXPORT_SCHEMA_VERSION } from '../../src/content/json-export-schema';
+import { ChatContent, Message } from '../../src/content/content-extractor';
+
+const messageArb: fc.Arbitrary<Message> = fc.record({
+  sender: fc.constantFrom('user' as const, 'gemini' as const),
+  content: fc.oneof(
+    fc.string().map(text => `<p>${text.replace(/[<&]/g, '')}</p>`),
+    fc.constantFrom('<p>Xin chào</p>', '<pre><code>print("hi")</code></pre>', '<ul><li>một</li><li>hai</li></ul>')
+  ),
+  timestamp: fc.option(fc.constantFrom('09:15', '23:59', 'Hôm qua'), { nil: undefined }),
+  metadata: fc.option(
+    fc.record({ hasCodeBlock: fc.boolean(), hasTable: fc.boolean(), hasList: fc.boolean() }),
+    { nil: undefined }
+  )
+}, { requiredKeys: ['sender', 'content'] });
+
+describe('JSON Export - Property Tests', () => {
+  /**
+   * Feature: gemini-business-to-pdf, Property 23: JSON export preserves the conversation model
+   * **Validates: JSON export schema**
+   *
+   * Property: Với bất kỳ ChatContent nào, JSON export sau khi parse lại phải có
+   * đúng schema version, cùng số lượng và thứ tự tin nhắn, sender, timestamp,
+   * nội dung HTML và metadata như dữ liệu gốc.
+   */
+  it('Property 23: should preserve messages and metadata through JSON', () => {
+    const generator = new JsonGenerator();
+
+    fc.assert(
+      fc.property(
+        fc.array(messageArb, { maxLength: 20 }),
+        fc.string({ minLength: 1, maxLength: 60 }),
+        (messages, title) => {
+          const content: ChatContent = { messages, timestamp: new Date() };
+
+          const parsed = JSON.parse(generator.generateJSON(content, title)) as ChatExportDocument;
+
+          expect(parsed.schemaVersion).toBe(JSON_EXPORT_SCHEMA_VERSION);
+          expect(parsed.title).toBe(title);
+          expect(parsed.stats.totalMessages).toBe(messages.length);
+          expect(parsed.messages.map(message => [message.sender, message.html, message.timestamp, message.metadata]))
+            .toEqual(messages.map(message => [
+              message.sender,
+              message.content,
+              message.timestamp ?? null,
+              message.metadata ?? null
+            ]));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -1,8 +1,21 @@
 // Vitest setup file
 import { afterEach, beforeEach } from 'vitest';
+import { setLanguage } from '../src/utils/i18n';
+
+// jsdom's TextEncoder returns Uint8Arrays from another realm, which fail `instanceof Uint8Array`
+// checks (e.g. in fflate); re-wrap them in this realm's Uint8Array
+const encode = TextEncoder.prototype.encode;
+TextEncoder.prototype.encode = function (input?: string) {
+  return new Uint8Array(encode.call(this, input));
+};
+
+// Tests are written against the Vietnamese catalog: make 'auto' resolve to Vietnamese
+Object.defineProperty(navigator, 'language', { value: 'vi-VN', configurable: true });
 
 // Mock window.scrollTo for jsdom (not implemented by default)
 beforeEach(() => {
+  setLanguage('auto');
+
   // Store scroll position in window object
   let scrollX = 0;
   let scrollY = 0;
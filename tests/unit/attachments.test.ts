@@ -0,0 +1,141 @@
+/**
+ * Unit tests for attachments
+ * Tests reading the ucs-file-bubble elements of a turn and rendering them in the exports
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  describeAttachment,
+  extractAttachments,
+  formatFileSize,
+  renderAttachmentList
+} from '../../src/content/attachments';
+import { ChatContent, ContentExtractor } from '../../src/content/content-extractor';
+import { MarkdownGenerator } from '../../src/content/markdown-generator';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+import { buildGeminiConversation } from '../helpers/gemini-dom';
+
+/**
+ * Add a ucs-carousel with one ucs-file-bubble per entry (shadow root HTML) to a turn
+ */
+function addCarousel(turn: Element, bubbles: Array<{ html: string; attributes?: Record<string, string> }>): void {
+  const carousel = document.createElement('ucs-carousel');
+  bubbles.forEach(({ html, attributes = {} }) => {
+    const bubble = document.createElement('ucs-file-bubble');
+    Object.entries(attributes).forEach(([name, value]) => bubble.setAttribute(name, value));
+    bubble.attachShadow({ mode: 'open' }).innerHTML = html;
+    carousel.appendChild(bubble);
+  });
+  turn.prepend(carousel);
+}
+
+const content: ChatContent = {
+  messages: [{
+    sender: 'user',
+    content: '<p>Tóm tắt các file này</p>',
+    attachments: [
+      { kind: 'image', name: 'chart.png', mimeType: 'image/png', imageData: 'data:image/png;base64,AAAA' },
+      { kind: 'file', name: 'Báo cáo Q1.pdf', mimeType: 'application/pdf', size: 1258291 },
+      { kind: 'file', name: 'Ghi chú', mimeType: 'text/plain' }
+    ]
+  }],
+  timestamp: new Date()
+};
+
+describe('extractAttachments', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should read images and files from the carousel of the turn', () => {
+    const container = buildGeminiConversation([{ user: '<p>Tóm tắt</p>', gemini: '<p>OK</p>' }]);
+    addCarousel(container.querySelector('div.turn')!, [
+      { html: '<div><img src="data:image/png;base64,AAAA" alt="chart"></div>' },
+      { html: '<div><span class="file-name">Báo cáo Q1.pdf</span><span class="file-size">1.2 MB</span></div>' },
+      {
+        html: '<div><img src="https://lh3.googleusercontent.com/t.png"><span class="file-name">Doanh thu</span></div>',
+        attributes: { 'mime-type': 'application/vnd.google-apps.spreadsheet' }
+      }
+    ]);
+
+    expect(extractAttachments(container.querySelector('ucs-fast-markdown') as HTMLElement)).toEqual([
+      { kind: 'image', name: 'chart', mimeType: 'image/png', imageData: 'data:image/png;base64,AAAA' },
+      { kind: 'file', name: 'Báo cáo Q1.pdf', mimeType: 'application/pdf', size: 1258291 },
+      {
+        kind: 'file',
+        name: 'Doanh thu',
+        mimeType: 'application/vnd.google-apps.spreadsheet',
+        thumbnail: 'https://lh3.googleusercontent.com/t.png'
+      }
+    ]);
+  });
+
+  it('should name unnamed images by position and skip empty bubbles', () => {
+    const container = buildGeminiConversation([{ user: '<p>Q</p>', gemini: '<p>A</p>' }]);
+    addCarousel(container.querySelector('div.turn')!, [
+      { html: '<div></div>' },
+      { html: '<div><img src="https://example.com/a.jpg"></div>' }
+    ]);
+
+    expect(extractAttachments(container.querySelector('ucs-fast-markdown') as HTMLElement)).toEqual([
+      { kind: 'image', name: 'Tệp đính kèm 1', imageData: 'https://example.com/a.jpg' }
+    ]);
+  });
+
+  it('should set the attachments of user messages during extraction', () => {
+    const container = buildGeminiConversation([{ user: '<p>Q</p>', gemini: '<p>A</p>' }]);
+    addCarousel(container.querySelector('div.turn')!, [
+      { html: '<div><span class="file-name">notes.txt</span></div>' }
+    ]);
+
+    const [user, gemini] = new ContentExtractor().extractChatContent().messages;
+
+    expect(user.content).toBe('<p>Q</p>');
+    expect(user.attachments).toEqual([{ kind: 'file', name: 'notes.txt', mimeType: 'text/plain' }]);
+    expect(gemini.attachments).toBeUndefined();
+  });
+});
+
+describe('describeAttachment', () => {
+  it('should combine the file type and size', () => {
+    expect(describeAttachment({ kind: 'file', name: 'Báo cáo Q1.pdf', size: 1258291 })).toBe('PDF, 1,2 MB');
+    expect(describeAttachment({ kind: 'file', name: 'Ghi chú', mimeType: 'text/plain' })).toBe('text/plain');
+    expect(describeAttachment({ kind: 'file', name: 'Ghi chú' })).toBe('');
+  });
+
+  it('should format sizes with the largest fitting unit', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(340 * 1024)).toBe('340 KB');
+    expect(formatFileSize(3 * 1024 ** 3)).toBe('3 GB');
+  });
+});
+
+describe('attachments in exports', () => {
+  it('should render images inline and list other files', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderAttachmentList(content.messages[0].attachments!);
+
+    expect(container.querySelector('.attached-images img')?.getAttribute('src')).toBe('data:image/png;base64,AAAA');
+    expect(Array.from(container.querySelectorAll('.attached-files li')).map(item => item.textContent)).toEqual([
+      'Báo cáo Q1.pdf (PDF, 1,2 MB)',
+      'Ghi chú (text/plain)'
+    ]);
+    expect(renderAttachmentList([])).toBe('');
+  });
+
+  it('should add the attachment list to the message in the styled HTML', () => {
+    const doc = new DOMParser().parseFromString(new PDFGenerator().applyStyles(content, 'Báo cáo'), 'text/html');
+
+    expect(doc.querySelector('.message-content .attached-images img')).not.toBeNull();
+    expect(doc.querySelector('.message-content .attachments-title')?.textContent).toBe('Tệp đính kèm');
+  });
+
+  it('should show images and list files in Markdown', () => {
+    const markdown = new MarkdownGenerator().generateMarkdown(content, 'Báo cáo');
+
+    expect(markdown).toContain(
+      'Tóm tắt các file này\n\n![chart.png](data:image/png;base64,AAAA)\n\n' +
+      '**Tệp đính kèm:**\n\n- Báo cáo Q1.pdf (PDF, 1,2 MB)\n- Ghi chú (text/plain)\n\n'
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for BatchExportPanel
+ * Tests the conversation checklist, start action and result reporting
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BatchExportPanel } from '../../src/content/batch-export-panel';
+import { buildGeminiConversation, buildConversationList } from '../helpers/gemini-dom';
+
+describe('BatchExportPanel', () => {
+  let panel: BatchExportPanel;
+
+  beforeEach(() => {
+    buildGeminiConversation([]);
+    buildConversationList(['Một', 'Hai', 'Ba'], 1);
+    panel = new BatchExportPanel();
+  });
+
+  afterEach(() => {
+    panel.close();
+    document.body.innerHTML = '';
+  });
+
+  const element = () => document.querySelector('.gemini-pdf-export-batch-panel') as HTMLElement;
+  const checkboxes = () => Array.from(element().querySelectorAll<HTMLInputElement>('.gemini-pdf-export-batch-list input'));
+  const startButton = () => element().querySelector('button.start') as HTMLButtonElement;
+
+  it('should list the conversations of the nav panel, unticked', () => {
+    panel.open();
+
+    expect(panel.isOpen()).toBe(true);
+    expect(element().querySelector('.gemini-pdf-export-batch-list')?.textContent).toContain('Hai');
+    expect(checkboxes().map(checkbox => checkbox.checked)).toEqual([false, false, false]);
+    expect(startButton().disabled).toBe(true);
+  });
+
+  it('should start with the ticked conversations in list order', () => {
+    const listener = vi.fn();
+    panel.onStart(listener);
+    panel.open();
+
+    [2, 0].forEach(index => {
+      checkboxes()[index].checked = true;
+      checkboxes()[index].dispatchEvent(new Event('change'));
+    });
+    expect(startButton().textContent).toBe('Xuất 2 cuộc trò chuyện');
+
+    startButton().click();
+
+    expect(listener).toHaveBeenCalledWith([{ index: 0, title: 'Một' }, { index: 2, title: 'Ba' }]);
+  });
+
+  it('should select all and clear', () => {
+    panel.open();
+
+    (element().querySelector('button.select-all') as HTMLButtonElement).click();
+    expect(panel.getSelectedTargets()).toHaveLength(3);
+
+    (element().querySelector('button.clear') as HTMLButtonElement).click();
+    expect(panel.getSelectedTargets()).toHaveLength(0);
+  });
+
+  it('should lock the controls while running and list failures afterwards', () => {
+    panel.open();
+    (element().querySelector('button.select-all') as HTMLButtonElement).click();
+
+    panel.setRunning(true);
+    panel.showProgress({ completed: 1, total: 3, title: 'Hai' });
+    expect(checkboxes().every(checkbox => checkbox.disabled)).toBe(true);
+    expect(element().querySelector('.gemini-pdf-export-batch-status')?.textContent).toBe('Đang xuất 2/3: Hai');
+
+    panel.showResult([
+      { title: 'Một', status: 'success', filename: '01-Một.md', messageCount: 2 },
+      { title: 'Hai', status: 'failed', error: 'timeout' },
+      { title: 'Ba', status: 'success', filename: '03-Ba.md', messageCount: 4 }
+    ]);
+    panel.setRunning(false);
+
+    expect(startButton().disabled).toBe(false);
+    expect(element().querySelector('.gemini-pdf-export-batch-status')?.textContent).toBe('Đã xuất 2/3 cuộc trò chuyện');
+    expect(element().querySelector('.gemini-pdf-export-batch-report')?.textContent).toBe('Hai: timeout');
+  });
+
+  it('should notify open and close', () => {
+    const listener = vi.fn();
+    panel.onActiveChange(listener);
+
+    panel.toggle();
+    (element().querySelector('button.close') as HTMLButtonElement).click();
+
+    expect(panel.isOpen()).toBe(false);
+    expect(listener.mock.calls).toEqual([[true], [false]]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Unit tests for BatchExporter
+ * Tests conversation switching, per-conversation failures and the ZIP contents
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { unzipSync, strFromU8 } from 'fflate';
+import { BatchExporter } from '../../src/content/batch-exporter';
+import { HistoryLoader } from '../../src/content/history-loader';
+import { MessageExpander } from '../../src/content/message-expander';
+import { ContentExtractor, ChatContent } from '../../src/content/content-extractor';
+import { TitleExtractor } from '../../src/content/title-extractor';
+import { getExportFormatInfo } from '../../src/content/export-formats';
+import { RedactionPipeline } from '../../src/content/redaction';
+import { DEFAULT_REDACTION_OPTIONS } from '../../src/content/redaction-options';
+import { ExportCancelledError } from '../../src/utils/error-handler';
+import { buildGeminiConversation, buildConversationList, createTurn, TurnFixture } from '../helpers/gemini-dom';
+
+const CONVERSATIONS: Record<string, TurnFixture[]> = {
+  'Kế hoạch Q3': [{ user: '<p>Q3?</p>', gemini: '<p>Plan</p>' }],
+  'Báo cáo': [
+    { user: '<p>Report?</p>', gemini: '<p>Draft</p>' },
+    { user: '<p>Shorter</p>', gemini: '<p>Done</p>' }
+  ],
+  'Trống': [],
+  'Hỏi an@congty.vn': [{ user: '<p>Gọi 0912 345 678</p>', gemini: '<p>OK</p>' }]
+};
+
+describe('BatchExporter', () => {
+  let exporter: BatchExporter;
+  let historyLoader: HistoryLoader;
+  let expander: MessageExpander;
+  let buttons: HTMLButtonElement[];
+
+  const readZip = (zip: Blob): Promise<Record<string, string>> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const files = unzipSync(new Uint8Array(reader.result as ArrayBuffer));
+      resolve(Object.fromEntries(Object.entries(files).map(([name, data]) => [name, strFromU8(data)])));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(zip);
+  });
+
+  const render = async (content: ChatContent, title: string) =>
+    new Blob([`${title}: ${content.messages.length} messages`], { type: 'text/markdown' });
+
+  beforeEach(() => {
+    const titles = Object.keys(CONVERSATIONS);
+    const container = buildGeminiConversation(CONVERSATIONS[titles[0]]);
+    buttons = buildConversationList(titles, 0);
+
+    // Simulate Gemini switching conversations when a list item is clicked
+    buttons.forEach((button, index) => {
+      button.addEventListener('click', () => {
+        buttons.forEach(other => other.classList.toggle('selected', other === button));
+        setTimeout(() => {
+          container.replaceChildren(...CONVERSATIONS[titles[index]].map(turn => createTurn(turn)));
+        }, 5);
+      });
+    });
+
+    historyLoader = new HistoryLoader();
+    vi.spyOn(historyLoader, 'loadHistory').mockResolvedValue({ loaded: 0, totalTurns: 0, complete: true });
+
+    expander = new MessageExpander();
+    vi.spyOn(expander, 'expandAllMessages').mockResolvedValue({ totalFound: 0, expanded: 0, failed: 0, errors: [] });
+    vi.spyOn(expander, 'cleanup');
+
+    exporter = new BatchExporter(historyLoader, expander, new ContentExtractor(), new TitleExtractor(), {
+      loadTimeout: 200,
+      settleTime: 20,
+      pollInterval: 5
+    });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    vi.restoreAllMocks();
+  });
+
+  it('should open each conversation and bundle one file per conversation with an index', async () => {
+    const result = await exporter.exportConversations(
+      [{ index: 0, title: 'Kế hoạch Q3' }, { index: 1, title: 'Báo cáo' }],
+      getExportFormatInfo('markdown')!,
+      render
+    );
+
+    expect(result.entries.map(entry => entry.status)).toEqual(['success', 'success']);
+    expect(result.entries.map(entry => entry.messageCount)).toEqual([2, 4]);
+
+    const files = await readZip(result.zip);
+    expect(Object.keys(files).sort()).toEqual(['01-Kế_hoạch_Q3.md', '02-Báo_cáo.md', 'index.md']);
+    expect(files['02-Báo_cáo.md']).toBe('Báo cáo: 4 messages');
+    expect(files['index.md']).toContain('**Thành công:** 2/2');
+    expect(files['index.md']).toContain('[02-Báo_cáo.md]');
+    expect(expander.expandAllMessages).toHaveBeenCalledTimes(2);
+    expect(expander.cleanup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should load the older turns of each conversation before extracting it', async () => {
+    const extractor = new ContentExtractor();
+    const extract = vi.spyOn(extractor, 'extractChatContent');
+    exporter = new BatchExporter(historyLoader, expander, extractor, new TitleExtractor(), {
+      loadTimeout: 200,
+      settleTime: 20,
+      pollInterval: 5
+    });
+
+    await exporter.exportConversations(
+      [{ index: 0, title: 'Kế hoạch Q3' }, { index: 1, title: 'Báo cáo' }],
+      getExportFormatInfo('markdown')!,
+      render
+    );
+
+    expect(historyLoader.loadHistory).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(historyLoader.loadHistory).mock.invocationCallOrder[1])
+      .toBeLessThan(extract.mock.invocationCallOrder[1]);
+  });
+
+  it('should record failed conversations and continue with the rest', async () => {
+    const result = await exporter.exportConversations(
+      [{ index: 2, title: 'Trống' }, { index: 5, title: 'Không tồn tại' }, { index: 1, title: 'Báo cáo' }],
+      getExportFormatInfo('markdown')!,
+      render
+    );
+
+    expect(result.entries.map(entry => entry.status)).toEqual(['failed', 'failed', 'success']);
+    expect(result.entries[0].error).toContain('không tải xong');
+    expect(result.entries[1].error).toContain('Không tìm thấy');
+
+    const files = await readZip(result.zip);
+    expect(Object.keys(files).sort()).toEqual(['03-Báo_cáo.md', 'index.md']);
+    expect(files['index.md']).toContain('**Thành công:** 1/3');
+    expect(files['index.md']).toContain('❌');
+  });
+
+  it('should record render failures', async () => {
+    const result = await exporter.exportConversations(
+      [{ index: 0, title: 'Kế hoạch Q3' }],
+      getExportFormatInfo('pdf')!,
+      async () => { throw new Error('render failed'); }
+    );
+
+    expect(result.entries).toEqual([{ title: 'Kế hoạch Q3', status: 'failed', error: 'render failed' }]);
+  });
+
+  it('should redact the content, file names and index entries', async () => {
+    const rendered = vi.fn(render);
+    exporter.setRedactionPipeline(RedactionPipeline.fromOptions(DEFAULT_REDACTION_OPTIONS));
+
+    const result = await exporter.exportConversations(
+      [{ index: 3, title: 'Hỏi an@congty.vn' }],
+      getExportFormatInfo('markdown')!,
+      rendered
+    );
+
+    const [content, title] = rendered.mock.calls[0];
+    expect(title).toBe('Hỏi [EMAIL 1]');
+    expect(content.messages[0].content).toContain('Gọi [SỐ ĐIỆN THOẠI 1]');
+    expect(result.entries[0].title).toBe('Hỏi [EMAIL 1]');
+
+    const files = await readZip(result.zip);
+    expect(Object.keys(files).join()).not.toContain('an@congty.vn');
+    expect(files['index.md']).not.toContain('an@congty.vn');
+  });
+
+  it('should ask before exporting a redacted conversation and stop when declined', async () => {
+    const confirm = vi.fn().mockResolvedValue(false);
+    const rendered = vi.fn(render);
+    exporter.setRedactionPipeline(RedactionPipeline.fromOptions(DEFAULT_REDACTION_OPTIONS), confirm);
+
+    await expect(exporter.exportConversations(
+      [{ index: 0, title: 'Kế hoạch Q3' }, { index: 3, title: 'Hỏi an@congty.vn' }, { index: 1, title: 'Báo cáo' }],
+      getExportFormatInfo('markdown')!,
+      rendered
+    )).rejects.toBeInstanceOf(ExportCancelledError);
+
+    // Only the conversation with sensitive data is shown
+    expect(confirm).toHaveBeenCalledTimes(1);
+    expect(confirm).toHaveBeenCalledWith([
+      { id: 'email', label: 'Email', count: 1, values: ['an@congty.vn'] },
+      { id: 'phone', label: 'Số điện thoại', count: 1, values: ['0912 345 678'] }
+    ], 'Hỏi [EMAIL 1]');
+    expect(rendered).toHaveBeenCalledTimes(1);
+    expect(buttons[0].classList.contains('selected')).toBe(true);
+  });
+
+  it('should find a conversation by title when the list order changed', async () => {
+    const result = await exporter.exportConversations(
+      [{ index: 0, title: 'Báo cáo' }],
+      getExportFormatInfo('json')!,
+      render
+    );
+
+    expect(result.entries[0].filename).toBe('01-Báo_cáo.json');
+  });
+
+  it('should report progress and go back to the original conversation', async () => {
+    const onProgress = vi.fn();
+
+    await exporter.exportConversations(
+      [{ index: 1, title: 'Báo cáo' }],
+      getExportFormatInfo('markdown')!,
+      render,
+      onProgress
+    );
+
+    expect(onProgress.mock.calls).toEqual([
+      [{ completed: 0, total: 1, title: 'Báo cáo' }],
+      [{ completed: 1, total: 1, title: '' }]
+    ]);
+    expect(buttons[0].classList.contains('selected')).toBe(true);
+  });
+
+  it('should stop when cancelled and go back to the original conversation', async () => {
+    const controller = new AbortController();
+    const onProgress = vi.fn();
+    const cancellingRender = async (content: ChatContent, title: string) => {
+      controller.abort();
+      return render(content, title);
+    };
+
+    await expect(exporter.exportConversations(
+      [{ index: 1, title: 'Báo cáo' }, { index: 0, title: 'Kế hoạch Q3' }],
+      getExportFormatInfo('markdown')!,
+      cancellingRender,
+      onProgress,
+      controller.signal
+    )).rejects.toBeInstanceOf(ExportCancelledError);
+
+    expect(onProgress).toHaveBeenCalledTimes(1);
+    expect(expander.expandAllMessages).toHaveBeenCalledWith(controller.signal);
+    expect(buttons[0].classList.contains('selected')).toBe(true);
+  });
+
+  it('should stop waiting for a conversation that is loading when cancelled', async () => {
+    const controller = new AbortController();
+    exporter = new BatchExporter(historyLoader, expander, new ContentExtractor(), new TitleExtractor(), {
+      loadTimeout: 5000,
+      settleTime: 20,
+      pollInterval: 5
+    });
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 30);
+
+    // The empty conversation never finishes loading
+    await expect(exporter.exportConversations(
+      [{ index: 2, title: 'Trống' }],
+      getExportFormatInfo('markdown')!,
+      render,
+      undefined,
+      controller.signal
+    )).rejects.toBeInstanceOf(ExportCancelledError);
+
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(expander.expandAllMessages).not.toHaveBeenCalled();
+    expect(buttons[0].classList.contains('selected')).toBe(true);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Unit tests for citations
+ * Tests reading Gemini's sources and rendering them in PDF/HTML and Markdown
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  extractCitations,
+  linkCitationMarkers,
+  normalizeCitationMarkers,
+  renderCitationList
+} from '../../src/content/citations';
+import { ChatContent } from '../../src/content/content-extractor';
+import { MarkdownGenerator } from '../../src/content/markdown-generator';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+
+const citedContent: ChatContent = {
+  messages: [
+    { sender: 'user', content: '<p>Doanh thu Q1?</p>' },
+    {
+      sender: 'gemini',
+      content: '<p>Doanh thu tăng 12%<sup class="gemini-citation" data-citation="1">[1]</sup>' +
+        '<sup class="gemini-citation" data-citation="2">[2]</sup></p>',
+      citations: [
+        { index: 1, title: 'Báo cáo Q1', url: 'https://drive.google.com/q1' },
+        { index: 2, title: 'Ghi chú họp' }
+      ]
+    }
+  ],
+  timestamp: new Date()
+};
+
+describe('extractCitations', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should read the source list from the shadow roots of the response', () => {
+    const summary = document.createElement('ucs-summary');
+    document.body.appendChild(summary);
+    const root = summary.attachShadow({ mode: 'open' });
+    root.innerHTML = '<div class="summary-contents"></div><ucs-grounding-sources></ucs-grounding-sources>';
+
+    const sources = root.querySelector('ucs-grounding-sources') as HTMLElement;
+    sources.attachShadow({ mode: 'open' }).innerHTML =
+      '<div class="sources-list">' +
+      '<div class="source-item" data-index="2"><a href="https://example.com/b"><span class="title">Trang B</span></a></div>' +
+      '<div class="source-item" data-index="1"><a href="https://drive.google.com/a">1. Tài liệu  A</a></div>' +
+      '</div>';
+
+    expect(extractCitations(summary)).toEqual([
+      { index: 1, title: 'Tài liệu A', url: 'https://drive.google.com/a' },
+      { index: 2, title: 'Trang B', url: 'https://example.com/b' }
+    ]);
+  });
+
+  it('should number sources by position and keep sources without a link', () => {
+    const summary = document.createElement('ucs-summary');
+    summary.innerHTML = '<ol class="citations-list"><li>Ghi chú nội bộ</li><li><a href="https://example.com">Web</a></li></ol>';
+
+    expect(extractCitations(summary)).toEqual([
+      { index: 1, title: 'Ghi chú nội bộ' },
+      { index: 2, title: 'Web', url: 'https://example.com' }
+    ]);
+  });
+
+  it('should only keep http, https and mailto links', () => {
+    const summary = document.createElement('ucs-summary');
+    summary.innerHTML = '<ol class="citations-list">' +
+      '<li><a href="javascript:alert(1)">Trang lạ</a></li>' +
+      '<li><a href=" data:text/html,<script>alert(1)</script>">Dữ liệu</a></li>' +
+      '<li><a href="mailto:an@congty.vn">Thư</a></li>' +
+      '</ol>';
+
+    expect(extractCitations(summary)).toEqual([
+      { index: 1, title: 'Trang lạ' },
+      { index: 2, title: 'Dữ liệu' },
+      { index: 3, title: 'Thư', url: 'mailto:an@congty.vn' }
+    ]);
+  });
+
+  it('should return nothing when the response cites no source', () => {
+    const summary = document.createElement('ucs-summary');
+    summary.innerHTML = '<p>Không có nguồn</p>';
+
+    expect(extractCitations(summary)).toEqual([]);
+  });
+});
+
+describe('normalizeCitationMarkers', () => {
+  it('should rewrite citation chips as canonical markers', () => {
+    const html = normalizeCitationMarkers(
+      '<p>A<ucs-citation data-citation-index="3"><span>3</span></ucs-citation> B<span class="citation-chip">[1, 2]</span></p>'
+    );
+
+    expect(html).toBe(
+      '<p>A<sup class="gemini-citation" data-citation="3">[3]</sup> B' +
+      '<sup class="gemini-citation" data-citation="1">[1]</sup><sup class="gemini-citation" data-citation="2">[2]</sup></p>'
+    );
+  });
+
+  it('should drop a source list rendered in the body', () => {
+    expect(normalizeCitationMarkers('<p>A</p><div class="sources-list"><a href="https://example.com">x</a></div>'))
+      .toBe('<p>A</p>');
+  });
+
+  it('should return HTML without citations unchanged', () => {
+    const html = '<p data-markdown-start-index="0">A  <b>B</b></p>';
+
+    expect(normalizeCitationMarkers(html)).toBe(html);
+  });
+});
+
+describe('linkCitationMarkers', () => {
+  it('should wrap markers of known sources in links', () => {
+    const html = linkCitationMarkers(
+      citedContent.messages[1].content,
+      citedContent.messages[1].citations!,
+      citation => citation.url ? { href: citation.url } : null
+    );
+
+    expect(html).toContain('<sup class="gemini-citation" data-citation="1"><a href="https://drive.google.com/q1">[1]</a></sup>');
+    expect(html).toContain('<sup class="gemini-citation" data-citation="2">[2]</sup>');
+  });
+});
+
+describe('renderCitationList', () => {
+  it('should render numbered footnotes with anchors', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderCitationList(citedContent.messages[1].citations!, 'cite-2');
+
+    expect(container.querySelector('.citations-title')?.textContent).toBe('Nguồn');
+    const items = Array.from(container.querySelectorAll('li'));
+    expect(items.map(item => [item.id, item.value, item.textContent])).toEqual([
+      ['cite-2-1', 1, 'Báo cáo Q1'],
+      ['cite-2-2', 2, 'Ghi chú họp']
+    ]);
+    expect(items[0].querySelector('a')?.getAttribute('href')).toBe('https://drive.google.com/q1');
+  });
+
+  it('should render sources with another link scheme as plain text', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderCitationList([{ index: 1, title: 'Trang lạ', url: 'javascript:alert(1)' }]);
+
+    expect(container.querySelector('a')).toBeNull();
+    expect(container.querySelector('li')?.textContent).toBe('Trang lạ');
+  });
+
+  it('should render nothing without sources', () => {
+    expect(renderCitationList([])).toBe('');
+  });
+});
+
+describe('citations in exports', () => {
+  it('should link markers to footnotes in the styled HTML', () => {
+    const doc = new DOMParser().parseFromString(new PDFGenerator().applyStyles(citedContent, 'Báo cáo'), 'text/html');
+    const message = doc.querySelectorAll('.message')[1];
+
+    expect(message.querySelector('.message-content a')?.getAttribute('href')).toBe('#cite-2-1');
+    expect(message.querySelector('#cite-2-1 a')?.getAttribute('href')).toBe('https://drive.google.com/q1');
+    expect(message.querySelector('#cite-2-2')?.textContent).toBe('Ghi chú họp');
+    expect(doc.querySelectorAll('.message')[0].querySelector('.citations')).toBeNull();
+  });
+
+  it('should write the sources as reference-style links in Markdown', () => {
+    const markdown = new MarkdownGenerator().generateMarkdown(citedContent, 'Báo cáo');
+
+    expect(markdown).toContain('Doanh thu tăng 12%[\\[1\\]][2-1]\\[2\\]');
+    expect(markdown).toContain(
+      '**Nguồn:**\n\n1. [Báo cáo Q1][2-1]\n2. Ghi chú họp\n\n[2-1]: <https://drive.google.com/q1> "Báo cáo Q1"\n\n'
+    );
+  });
+
+  it('should not link sources with another scheme in Markdown', () => {
+    const markdown = new MarkdownGenerator().generateMarkdown({
+      messages: [{
+        sender: 'gemini',
+        content: '<p>Xem<sup class="gemini-citation" data-citation="1">[1]</sup></p>',
+        citations: [{ index: 1, title: 'Trang lạ', url: 'javascript:alert(1)' }]
+      }],
+      timestamp: new Date()
+    }, 'Nguồn');
+
+    expect(markdown).toContain('**Nguồn:**\n\n1. Trang lạ\n\n');
+    expect(markdown).not.toContain('javascript:');
+  });
+});
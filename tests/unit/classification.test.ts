@@ -0,0 +1,75 @@
+/**
+ * Unit tests for classification stamping
+ * Tests the levels, the HTML banner, the Markdown front matter and the PDF watermark
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { jsPDF } from 'jspdf';
+import { addClassificationBanner, classificationFrontMatter, drawClassificationWatermark } from '../../src/content/classification';
+import { CLASSIFICATION_LEVELS, classificationLabel, isClassificationLevel } from '../../src/content/classification-options';
+import { MarkdownGenerator } from '../../src/content/markdown-generator';
+import { ChatContent } from '../../src/content/content-extractor';
+
+describe('classification', () => {
+  it('should list the levels from least to most sensitive', () => {
+    expect(CLASSIFICATION_LEVELS.map(level => level.id)).toEqual(['public', 'internal', 'confidential', 'restricted']);
+    expect(CLASSIFICATION_LEVELS.map(level => classificationLabel(level.id))).toEqual(['Công khai', 'Nội bộ', 'Mật', 'Hạn chế']);
+  });
+
+  it('should recognize classification levels', () => {
+    expect(isClassificationLevel('confidential')).toBe(true);
+    expect(isClassificationLevel('secret')).toBe(false);
+    expect(isClassificationLevel(undefined)).toBe(false);
+  });
+
+  it('should write the level identifier as front matter', () => {
+    expect(classificationFrontMatter('restricted')).toBe('---\nclassification: restricted\n---\n\n');
+  });
+
+  it('should add a banner at the top of the document', () => {
+    const doc = new DOMParser().parseFromString('<html><head></head><body><div class="pdf-header"></div></body></html>', 'text/html');
+
+    addClassificationBanner(doc, 'confidential');
+
+    const banner = doc.body.firstElementChild as HTMLElement;
+    expect(banner.className).toBe('classification-banner');
+    expect(banner.dataset.classification).toBe('confidential');
+    expect(banner.getAttribute('role')).toBe('note');
+    expect(banner.textContent).toBe('Mật');
+    expect(banner.style.backgroundColor).toBe('rgb(227, 116, 0)');
+    expect(doc.querySelector('meta[name="classification"]')?.getAttribute('content')).toBe('confidential');
+    expect(doc.head.textContent).toContain('.classification-banner');
+  });
+
+  it('should draw a diagonal watermark on every page', () => {
+    const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+    doc.addPage();
+    const text = vi.spyOn(doc, 'text');
+    const setGState = vi.spyOn(doc, 'setGState');
+
+    drawClassificationWatermark(doc, 'public', 'helvetica');
+
+    expect(text).toHaveBeenCalledTimes(2);
+    expect(text.mock.calls.map(call => call[0])).toEqual(['CÔNG KHAI', 'CÔNG KHAI']);
+    const angle = (text.mock.calls[0][3] as { angle: number }).angle;
+    expect(angle).toBeCloseTo(Math.atan2(297, 210) * 180 / Math.PI, 1);
+    expect(setGState).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('classification in exports', () => {
+  const content: ChatContent = {
+    messages: [{ sender: 'user', content: '<p>Doanh thu quý 3</p>' }],
+    timestamp: new Date()
+  };
+
+  it('should start Markdown files with the classification front matter', () => {
+    const generator = new MarkdownGenerator();
+    generator.setClassification('confidential');
+
+    expect(generator.generateMarkdown(content, 'Báo cáo').startsWith('---\nclassification: confidential\n---\n\n# Báo cáo\n')).toBe(true);
+
+    generator.setClassification(undefined);
+    expect(generator.generateMarkdown(content, 'Báo cáo').startsWith('# Báo cáo\n')).toBe(true);
+  });
+});
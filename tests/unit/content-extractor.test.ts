@@ -6,6 +6,8 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { ContentExtractor, Message, ChatContent } from '../../src/content/content-extractor';
 import { DOMError } from '../../src/utils/error-handler';
+import { ExportProgress } from '../../src/content/export-progress';
+import { buildGeminiConversation } from '../helpers/gemini-dom';
 
 describe('ContentExtractor', () => {
   let extractor: ContentExtractor;
@@ -810,4 +812,70 @@ describe('ContentExtractor', () => {
       expect(message.metadata?.hasList).toBe(true);
     });
   });
+
+  describe('turn selection', () => {
+    beforeEach(() => {
+      buildGeminiConversation([
+        { user: '<p>Q1</p>', gemini: '<p>A1</p>' },
+        { user: '<p>Q2</p>', gemini: '<p>A2</p>' },
+        { user: '<p>Q3</p>', gemini: '<p>A3</p>' }
+      ]);
+    });
+
+    it('should report progress after each message', () => {
+      const events: ExportProgress[] = [];
+      extractor.onProgress(progress => events.push(progress));
+
+      extractor.extractChatContent(new Set([0]));
+
+      expect(events.map(event => [event.completed, event.total, event.percent])).toEqual([[0, 2, 40], [1, 2, 50], [2, 2, 60]]);
+      expect(events.every(event => event.stage === 'extracting')).toBe(true);
+    });
+
+    it('should extract every turn when no selection is given', () => {
+      const result = extractor.extractChatContent();
+
+      expect(result.messages.map(message => message.content)).toEqual([
+        '<p>Q1</p>', '<p>A1</p>', '<p>Q2</p>', '<p>A2</p>', '<p>Q3</p>', '<p>A3</p>'
+      ]);
+    });
+
+    it('should extract only the selected turns in conversation order', () => {
+      const result = extractor.extractChatContent(new Set([2, 0]));
+
+      expect(result.messages.map(message => message.content)).toEqual([
+        '<p>Q1</p>', '<p>A1</p>', '<p>Q3</p>', '<p>A3</p>'
+      ]);
+      expect(result.metadata?.totalMessages).toBe(4);
+    });
+
+    it('should extract nothing for an empty selection', () => {
+      expect(extractor.extractChatContent(new Set()).messages).toHaveLength(0);
+    });
+  });
+
+  describe('citations', () => {
+    it('should move the sources of a response into the citations field', () => {
+      buildGeminiConversation([{
+        user: '<p>Q1</p>',
+        gemini: '<p>Doanh thu tăng<ucs-citation data-citation-index="1">1</ucs-citation></p>' +
+          '<ucs-sources-list><ol><li><a href="https://drive.google.com/q1">Báo cáo Q1</a></li></ol></ucs-sources-list>'
+      }]);
+
+      const [user, gemini] = extractor.extractChatContent().messages;
+
+      expect(user.citations).toBeUndefined();
+      expect(gemini.content).toBe('<p>Doanh thu tăng<sup class="gemini-citation" data-citation="1">[1]</sup></p>');
+      expect(gemini.citations).toEqual([{ index: 1, title: 'Báo cáo Q1', url: 'https://drive.google.com/q1' }]);
+    });
+
+    it('should leave responses without sources unchanged', () => {
+      buildGeminiConversation([{ user: '<p>Q1</p>', gemini: '<p>A1</p>' }]);
+
+      const gemini = extractor.extractChatContent().messages[1];
+
+      expect(gemini.content).toBe('<p>A1</p>');
+      expect(gemini.citations).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for diagrams
+ * Tests parsing and drawing Mermaid/Graphviz code blocks and the source appendix
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiagramScene } from '../../src/content/diagram-layout';
+import {
+  diagramToSvg,
+  findDiagramLanguage,
+  renderDiagram,
+  renderDiagramAppendix,
+  renderDiagramBlocks
+} from '../../src/content/diagrams';
+import { htmlToMarkdown } from '../../src/content/html-to-markdown';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+
+const labels = (scene: DiagramScene | null) =>
+  (scene?.shapes ?? []).filter(shape => shape.kind === 'text').map(shape => (shape as { text: string }).text);
+
+const shapesOf = (scene: DiagramScene | null, kind: string) =>
+  (scene?.shapes ?? []).filter(shape => shape.kind === kind) as any[];
+
+function pre(html: string): HTMLElement {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  return container.querySelector('pre') as HTMLElement;
+}
+
+describe('findDiagramLanguage', () => {
+  it('should recognize diagram code block languages', () => {
+    expect(findDiagramLanguage(pre('<pre><code class="language-mermaid">graph TD</code></pre>'))).toBe('mermaid');
+    expect(findDiagramLanguage(pre('<pre><code class="language-dot">digraph {}</code></pre>'))).toBe('graphviz');
+    expect(findDiagramLanguage(pre('<pre><code data-language="graphviz">graph {}</code></pre>'))).toBe('graphviz');
+    expect(findDiagramLanguage(pre('<pre><code class="language-python">graph TD</code></pre>'))).toBeNull();
+  });
+
+  it('should recognize untagged blocks by their first line', () => {
+    expect(findDiagramLanguage(pre('<pre><code>flowchart LR\n  A --&gt; B</code></pre>'))).toBe('mermaid');
+    expect(findDiagramLanguage(pre('<pre><code>sequenceDiagram\n  A-&gt;&gt;B: hi</code></pre>'))).toBe('mermaid');
+    expect(findDiagramLanguage(pre('<pre><code>digraph G { a -&gt; b }</code></pre>'))).toBe('graphviz');
+    expect(findDiagramLanguage(pre('<pre><code>console.log(graph)</code></pre>'))).toBeNull();
+  });
+});
+
+describe('renderDiagram', () => {
+  it('should draw Mermaid flowchart nodes with their shapes and edge labels', () => {
+    const scene = renderDiagram('graph TD; A[Bắt đầu] --> B{Hợp lệ?}; B -->|Có| C(Lưu); B -->|Không| D((Lỗi))', 'mermaid');
+
+    expect(labels(scene)).toEqual(['Bắt đầu', 'Hợp lệ?', 'Lưu', 'Lỗi', 'Có', 'Không']);
+    expect(shapesOf(scene, 'polygon').some(shape => shape.points.length === 4 && shape.fill === '#e8f0fe')).toBe(true);
+    expect(shapesOf(scene, 'ellipse')).toHaveLength(1);
+    // One arrowhead per edge
+    expect(shapesOf(scene, 'polygon').filter(shape => shape.points.length === 3)).toHaveLength(3);
+  });
+
+  it('should place ranks from top to bottom and from left to right', () => {
+    const position = (scene: DiagramScene | null, label: string) =>
+      shapesOf(scene, 'text').find(shape => shape.text === label);
+
+    const topDown = renderDiagram('graph TD\n  A --> B\n  B --> C', 'mermaid');
+    expect(position(topDown, 'A').y).toBeLessThan(position(topDown, 'B').y);
+    expect(position(topDown, 'B').y).toBeLessThan(position(topDown, 'C').y);
+
+    const leftRight = renderDiagram('flowchart LR\n  A --> B', 'mermaid');
+    expect(position(leftRight, 'A').x).toBeLessThan(position(leftRight, 'B').x);
+    expect(position(leftRight, 'A').y).toBe(position(leftRight, 'B').y);
+  });
+
+  it('should read link styles, text links and node groups', () => {
+    const scene = renderDiagram('flowchart TD\n  A & B -. gửi .-> C\n  C === D', 'mermaid');
+    const lines = shapesOf(scene, 'line');
+
+    expect(labels(scene)).toEqual(['A', 'B', 'C', 'D', 'gửi', 'gửi']);
+    expect(lines.filter(line => line.dashed)).toHaveLength(2);
+    expect(lines.filter(line => line.width > 2)).toHaveLength(1);
+  });
+
+  it('should lay out graphs with cycles', () => {
+    const scene = renderDiagram('graph LR\n  A --> B --> C --> A\n  C --> C', 'mermaid');
+    expect(shapesOf(scene, 'line')).toHaveLength(4);
+    expect(scene?.width).toBeGreaterThan(0);
+  });
+
+  it('should draw Mermaid sequence diagrams', () => {
+    const scene = renderDiagram(
+      'sequenceDiagram\n  participant U as Người dùng\n  U->>S: Yêu cầu\n  S-->>U: Phản hồi\n  Note over U,S: Xong',
+      'mermaid'
+    );
+    const text = shapesOf(scene, 'text');
+    const request = text.find(shape => shape.text === 'Yêu cầu');
+    const response = text.find(shape => shape.text === 'Phản hồi');
+
+    expect(labels(scene)).toEqual(expect.arrayContaining(['Người dùng', 'S', 'Xong']));
+    expect(request.y).toBeLessThan(response.y);
+    // Lifelines and the reply are dashed
+    expect(shapesOf(scene, 'line').filter(line => line.dashed)).toHaveLength(3);
+  });
+
+  it('should draw Graphviz graphs with attributes', () => {
+    const scene = renderDiagram(
+      'digraph G {\n  rankdir=LR;\n  node [shape=box];\n  a -> b -> c;\n  a -> c [label="tắt", style=dashed];\n  b [label="Bước\\n2"];\n}',
+      'graphviz'
+    );
+
+    expect(labels(scene)).toEqual(['a', 'Bước', '2', 'c', 'tắt']);
+    expect(shapesOf(scene, 'rect').filter(rect => rect.fill === '#e8f0fe')).toHaveLength(3);
+    expect(shapesOf(scene, 'line').filter(line => line.dashed)).toHaveLength(1);
+  });
+
+  it('should draw undirected Graphviz graphs without arrowheads', () => {
+    const scene = renderDiagram('graph { a -- b; b -- c }', 'graphviz');
+    expect(shapesOf(scene, 'ellipse')).toHaveLength(3);
+    expect(shapesOf(scene, 'polygon')).toHaveLength(0);
+  });
+
+  it('should return null for unsupported or empty diagrams', () => {
+    expect(renderDiagram('gantt\n  title Kế hoạch', 'mermaid')).toBeNull();
+    expect(renderDiagram('graph TD', 'mermaid')).toBeNull();
+    expect(renderDiagram('not a graph', 'graphviz')).toBeNull();
+  });
+});
+
+describe('diagramToSvg', () => {
+  it('should render the scene as an accessible SVG with escaped text', () => {
+    const scene = renderDiagram('graph TD\n  A["a < b"] --> B', 'mermaid') as DiagramScene;
+    const svg = diagramToSvg(scene, 'Sơ đồ 1');
+
+    expect(svg).toMatch(new RegExp(`^<svg xmlns="http://www.w3.org/2000/svg" width="${scene.width}" height="${scene.height}"`));
+    expect(svg).toContain('role="img" aria-label="Sơ đồ 1"');
+    expect(svg).toContain('>a &lt; b</text>');
+    expect(svg).toContain('<polyline');
+  });
+});
+
+describe('renderDiagramBlocks', () => {
+  const html = '<p>Quy trình:</p>' +
+    '<div class="code-block"><div class="code-block-decoration">mermaid</div><pre><code>graph TD\nA --&gt; B</code></pre></div>' +
+    '<pre><code class="language-python">print(1)</code></pre>' +
+    '<pre><code class="language-mermaid">pie title Tỉ lệ</code></pre>';
+
+  it('should replace diagram code blocks with numbered figures', () => {
+    const result = renderDiagramBlocks(html, 3);
+    const container = document.createElement('div');
+    container.innerHTML = result.html;
+
+    const figure = container.querySelector('figure.gemini-diagram') as HTMLElement;
+    expect(figure.dataset.diagram).toBe('mermaid');
+    expect(figure.querySelector('svg')).not.toBeNull();
+    expect(figure.querySelector('figcaption')?.textContent).toBe('Sơ đồ 3 · Mã nguồn');
+    expect(figure.querySelector('figcaption a')?.getAttribute('href')).toBe('#diagram-source-3');
+    expect(result.diagrams).toEqual([{ number: 3, language: 'mermaid', source: 'graph TD\nA --> B' }]);
+  });
+
+  it('should drop the code block header and keep other code blocks', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderDiagramBlocks(html).html;
+
+    expect(container.querySelector('.code-block')).toBeNull();
+    expect(container.querySelector('.language-python')).not.toBeNull();
+    // Unsupported diagram types stay code
+    expect(container.querySelector('.language-mermaid')?.textContent).toBe('pie title Tỉ lệ');
+  });
+
+  it('should return the HTML unchanged when it has no diagrams', () => {
+    const plain = '<pre><code>graph = {}</code></pre>';
+    expect(renderDiagramBlocks(plain)).toEqual({ html: plain, diagrams: [] });
+  });
+});
+
+describe('renderDiagramAppendix', () => {
+  it('should list the diagram sources in an open details section', () => {
+    const container = document.createElement('div');
+    container.innerHTML = renderDiagramAppendix([
+      { number: 1, language: 'mermaid', source: 'graph TD\nA --> B' },
+      { number: 2, language: 'graphviz', source: 'digraph { a -> b }' }
+    ]);
+
+    const details = container.querySelector('.diagram-appendix details') as HTMLDetailsElement;
+    expect(details.open).toBe(true);
+    expect(details.querySelector('summary')?.textContent).toBe('Phụ lục: mã nguồn sơ đồ');
+    expect(container.querySelector('#diagram-source-1 p')?.textContent).toBe('Sơ đồ 1 (Mermaid)');
+    expect(container.querySelector('#diagram-source-1 code')?.textContent).toBe('graph TD\nA --> B');
+    expect(container.querySelector('#diagram-source-2 code')?.className).toBe('language-dot');
+  });
+
+  it('should render nothing without diagrams', () => {
+    expect(renderDiagramAppendix([])).toBe('');
+  });
+});
+
+describe('diagrams in exports', () => {
+  const message = '<pre><code class="language-mermaid">graph LR\n  A --&gt; B</code></pre>';
+
+  it('should keep the fenced block in Markdown', () => {
+    expect(htmlToMarkdown(message)).toBe('```mermaid\ngraph LR\n  A --> B\n```');
+  });
+
+  it('should draw diagrams and add the appendix in the styled PDF/HTML document', () => {
+    const styled = new PDFGenerator().applyStyles({
+      messages: [
+        { sender: 'gemini', content: message },
+        { sender: 'gemini', content: message.replace('graph LR', 'graph TD') }
+      ],
+      timestamp: new Date()
+    });
+    const doc = new DOMParser().parseFromString(styled, 'text/html');
+
+    expect(doc.querySelectorAll('.message figure.gemini-diagram svg')).toHaveLength(2);
+    expect(doc.querySelectorAll('.message pre')).toHaveLength(0);
+    expect(doc.querySelector('#diagram-source-2 code')?.textContent).toBe('graph TD\n  A --> B');
+    expect(styled).toContain('figure.gemini-diagram svg');
+  });
+});
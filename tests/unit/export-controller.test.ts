@@ -8,17 +8,31 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { ExportController } from '../../src/content/export-controller';
 import { UIInjector } from '../../src/content/ui-injector';
 import { MessageExpander, ExpandResult } from '../../src/content/message-expander';
+import { HistoryLoader } from '../../src/content/history-loader';
 import { ContentExtractor, ChatContent } from '../../src/content/content-extractor';
 import { TitleExtractor } from '../../src/content/title-extractor';
 import { PDFGenerator } from '../../src/content/pdf-generator';
+import { HtmlGenerator } from '../../src/content/html-generator';
+import { JsonGenerator } from '../../src/content/json-generator';
+import { BatchExporter } from '../../src/content/batch-exporter';
+import { RedactionPipeline } from '../../src/content/redaction';
+import { getExportFormatInfo } from '../../src/content/export-formats';
+import { createExportProgress } from '../../src/content/export-progress';
 import { Logger } from '../../src/utils/logger';
+import { DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY } from '../../src/utils/settings';
+import { stubChromeStorage } from '../helpers/chrome-storage';
 
 // Mock all dependencies
 vi.mock('../../src/content/ui-injector');
+vi.mock('../../src/content/history-loader');
 vi.mock('../../src/content/message-expander');
 vi.mock('../../src/content/content-extractor');
 vi.mock('../../src/content/title-extractor');
 vi.mock('../../src/content/pdf-generator');
+vi.mock('../../src/content/html-generator');
+vi.mock('../../src/content/json-generator');
+vi.mock('../../src/content/batch-exporter');
+vi.mock('../../src/content/batch-export-panel');
 vi.mock('../../src/utils/logger');
 vi.mock('../../src/utils/error-handler');
 
@@ -43,6 +57,10 @@ describe('ExportController', () => {
     mockUIInjector.prototype.enableButton = vi.fn();
     mockUIInjector.prototype.showNotification = vi.fn();
 
+    // Setup HistoryLoader mock
+    const mockHistoryLoader = HistoryLoader as any;
+    mockHistoryLoader.prototype.loadHistory = vi.fn().mockResolvedValue({ loaded: 3, totalTurns: 8, complete: true });
+
     // Setup MessageExpander mock
     const mockMessageExpander = MessageExpander as any;
     const mockExpandResult: ExpandResult = {
@@ -67,12 +85,35 @@ describe('ExportController', () => {
     // Setup TitleExtractor mock
     const mockTitleExtractor = TitleExtractor as any;
     mockTitleExtractor.prototype.extractTitle = vi.fn().mockReturnValue('Test Chat');
-    mockTitleExtractor.prototype.generateFilename = vi.fn().mockReturnValue('test-chat.pdf');
+    mockTitleExtractor.prototype.generateFilename = vi.fn(
+      (_title: string | null, options?: { format?: string }) => `test-chat.${getExportFormatInfo(options?.format ?? 'pdf')?.extension}`
+    );
 
     // Setup PDFGenerator mock
     const mockPDFGenerator = PDFGenerator as any;
     mockPDFGenerator.prototype.generatePDF = vi.fn().mockResolvedValue(undefined);
 
+    // Setup HtmlGenerator mock
+    const mockHtmlGenerator = HtmlGenerator as any;
+    mockHtmlGenerator.prototype.generateHTML = vi.fn().mockResolvedValue('<!DOCTYPE html><html></html>');
+    mockHtmlGenerator.prototype.downloadHTML = vi.fn();
+
+    // Setup JsonGenerator mock
+    const mockJsonGenerator = JsonGenerator as any;
+    mockJsonGenerator.prototype.generateJSON = vi.fn().mockReturnValue('{}');
+    mockJsonGenerator.prototype.downloadJSON = vi.fn();
+
+    // Setup BatchExporter mock
+    const mockBatchExporter = BatchExporter as any;
+    mockBatchExporter.prototype.exportConversations = vi.fn().mockResolvedValue({
+      zip: new Blob(['zip']),
+      entries: [
+        { title: 'A', status: 'success', filename: '01-A.md', messageCount: 2 },
+        { title: 'B', status: 'failed', error: 'timeout' }
+      ]
+    });
+    mockBatchExporter.prototype.downloadZip = vi.fn();
+
     // Create controller instance
     controller = new ExportController();
   });
@@ -126,6 +167,161 @@ describe('ExportController', () => {
     });
   });
 
+  describe('export requests', () => {
+    let onMessage: (message: unknown, sender: unknown, sendResponse: (response: unknown) => void) => void;
+
+    beforeEach(() => {
+      const listeners: Array<typeof onMessage> = [];
+      onMessage = (message, sender, sendResponse) => listeners.forEach(listener => listener(message, sender, sendResponse));
+      vi.stubGlobal('chrome', {
+        runtime: {
+          onMessage: { addListener: vi.fn(listener => listeners.push(listener)), removeListener: vi.fn() },
+          sendMessage: vi.fn().mockResolvedValue(undefined)
+        }
+      });
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should export in the requested format from shortcuts and the context menu', () => {
+      const handleExport = vi.spyOn(controller, 'handleExport').mockResolvedValue();
+      const sendResponse = vi.fn();
+      controller.initialize();
+
+      onMessage({ type: 'export', format: 'json' }, {}, sendResponse);
+      onMessage({ type: 'export' }, {}, sendResponse);
+
+      expect(handleExport).toHaveBeenNthCalledWith(1, 'json', undefined);
+      expect(handleExport).toHaveBeenNthCalledWith(2, 'markdown', undefined);
+      expect(sendResponse).toHaveBeenCalledWith({ accepted: true });
+    });
+
+    it('should refuse a request while an export is running', () => {
+      const handleExport = vi.spyOn(controller, 'handleExport').mockResolvedValue();
+      const sendResponse = vi.fn();
+      controller.initialize();
+      (controller as any).isExporting = true;
+
+      onMessage({ type: 'export', format: 'pdf' }, {}, sendResponse);
+      onMessage({ type: 'other' }, {}, sendResponse);
+
+      expect(handleExport).not.toHaveBeenCalled();
+      expect(sendResponse).toHaveBeenCalledTimes(1);
+      expect(sendResponse).toHaveBeenCalledWith({ accepted: false });
+    });
+
+    it('should export the requested range of turns', () => {
+      const handleExport = vi.spyOn(controller, 'handleExport').mockResolvedValue();
+      controller.initialize();
+
+      onMessage({ type: 'export', format: 'pdf', turns: { from: 2, to: 3 } }, {}, vi.fn());
+
+      expect(handleExport).toHaveBeenCalledWith('pdf', new Set([1, 2]));
+    });
+
+    it('should report the conversation status', () => {
+      const sendResponse = vi.fn();
+      controller.initialize();
+
+      onMessage({ type: 'get-status' }, {}, sendResponse);
+
+      expect(sendResponse).toHaveBeenCalledWith({ title: 'Test Chat', turnCount: 0, format: 'markdown', exporting: false });
+    });
+
+    it('should forward the progress of the export to the button, the popup and listeners', async () => {
+      const messageExpanderInstance = (controller as any).messageExpander;
+      const [emitProgress] = messageExpanderInstance.onProgress.mock.calls[0];
+      messageExpanderInstance.expandAllMessages.mockImplementation(async () => {
+        emitProgress(createExportProgress('expanding', 1, 2));
+        return { totalFound: 2, expanded: 2, failed: 0, errors: [] };
+      });
+      const listener = vi.fn();
+      controller.onProgress(listener);
+
+      await controller.handleExport('json');
+      emitProgress(createExportProgress('expanding', 2, 2));
+
+      const progress = { stage: 'expanding', completed: 1, total: 2, percent: 20 };
+      expect((controller as any).uiInjector.showProgress).toHaveBeenCalledTimes(1);
+      expect((controller as any).uiInjector.showProgress).toHaveBeenCalledWith(progress);
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith(progress);
+      expect((chrome.runtime.sendMessage as ReturnType<typeof vi.fn>).mock.calls.map(([message]) => message)).toEqual([
+        { type: 'export-progress', stage: 'expanding', format: 'json', progress },
+        { type: 'export-progress', stage: 'done', format: 'json' }
+      ]);
+    });
+
+    it('should not forward progress of batch exports', async () => {
+      const contentExtractorInstance = (controller as any).contentExtractor;
+      const [emitProgress] = contentExtractorInstance.onProgress.mock.calls[0];
+      (controller as any).batchExporter.exportConversations.mockImplementation(async () => {
+        emitProgress(createExportProgress('extracting', 1, 1));
+        return { zip: new Blob(['zip']), entries: [] };
+      });
+
+      await controller.handleBatchExport([{ index: 0, title: 'A' }]);
+
+      expect((controller as any).uiInjector.showProgress).not.toHaveBeenCalled();
+      expect(chrome.runtime.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should report a failed export', async () => {
+      const messageExpanderInstance = (controller as any).messageExpander;
+      messageExpanderInstance.expandAllMessages.mockRejectedValue(new Error('Expansion failed'));
+
+      await controller.handleExport('json');
+
+      expect(chrome.runtime.sendMessage).toHaveBeenLastCalledWith({
+        type: 'export-progress', stage: 'failed', format: 'json', error: 'Expansion failed'
+      });
+    });
+
+    it('should stop and clean up when the export is cancelled', async () => {
+      const messageExpanderInstance = (controller as any).messageExpander;
+      const uiInjectorInstance = (controller as any).uiInjector;
+      let signal: AbortSignal | undefined;
+      messageExpanderInstance.expandAllMessages.mockImplementation(async (received: AbortSignal) => {
+        signal = received;
+        expect(controller.cancelExport()).toBe(true);
+        throw new Error('Export cancelled');
+      });
+
+      await controller.handleExport('json');
+
+      expect(signal?.aborted).toBe(true);
+      expect((controller as any).jsonGenerator.downloadJSON).not.toHaveBeenCalled();
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã hủy xuất', 'info');
+      expect(uiInjectorInstance.showNotification).not.toHaveBeenCalledWith(expect.anything(), 'error');
+      expect((controller as any).pdfGenerator.cleanup).toHaveBeenCalled();
+      expect(messageExpanderInstance.cleanup).toHaveBeenCalled();
+      expect(chrome.runtime.sendMessage).toHaveBeenLastCalledWith({ type: 'export-progress', stage: 'cancelled', format: 'json' });
+      expect(controller.cancelExport()).toBe(false);
+      expect(controller.getStatus().exporting).toBe(false);
+    });
+
+    it('should cancel from the button', () => {
+      const cancelExport = vi.spyOn(controller, 'cancelExport');
+      controller.initialize();
+
+      const [onCancel] = (controller as any).uiInjector.onCancel.mock.calls[0];
+      onCancel();
+
+      expect(cancelExport).toHaveBeenCalled();
+    });
+
+    it('should export to a given format without changing the selected one', async () => {
+      const jsonGeneratorInstance = (controller as any).jsonGenerator;
+
+      await controller.handleExport('json');
+
+      expect(jsonGeneratorInstance.downloadJSON).toHaveBeenCalledWith('{}', 'test-chat.json');
+      expect(controller.getExportFormat()).toBe('markdown');
+    });
+  });
+
   describe('handleExport', () => {
     it('should orchestrate complete export flow successfully', async () => {
       const uiInjectorInstance = (controller as any).uiInjector;
@@ -142,7 +338,10 @@ describe('ExportController', () => {
       expect(messageExpanderInstance.expandAllMessages).toHaveBeenCalled();
       expect(contentExtractorInstance.extractChatContent).toHaveBeenCalled();
       expect(titleExtractorInstance.extractTitle).toHaveBeenCalled();
-      expect(titleExtractorInstance.generateFilename).toHaveBeenCalledWith('Test Chat');
+      expect(titleExtractorInstance.generateFilename).toHaveBeenCalledWith(
+        'Test Chat',
+        expect.objectContaining({ format: 'markdown', messageCount: 2, turnCount: 1 })
+      );
       expect(pdfGeneratorInstance.generatePDF).toHaveBeenCalled();
       expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith(
         'Đã xuất PDF thành công!',
@@ -152,6 +351,83 @@ describe('ExportController', () => {
       expect(uiInjectorInstance.enableButton).toHaveBeenCalled();
     });
 
+    it('should give the PDF the chat title separately from the filename', async () => {
+      const pdfGeneratorInstance = (controller as any).pdfGenerator;
+
+      await controller.handleExport('pdf');
+
+      expect(pdfGeneratorInstance.generatePDF).toHaveBeenCalledWith(
+        expect.objectContaining({ messages: expect.any(Array) }),
+        'test-chat.pdf',
+        'Test Chat',
+        expect.any(AbortSignal)
+      );
+    });
+
+    it('should generate and download an .html file when the HTML format is selected', async () => {
+      const uiInjectorInstance = (controller as any).uiInjector;
+      const htmlGeneratorInstance = (controller as any).htmlGenerator;
+      const pdfGeneratorInstance = (controller as any).pdfGenerator;
+      controller.setExportFormat('html');
+
+      await controller.handleExport();
+
+      expect(htmlGeneratorInstance.generateHTML).toHaveBeenCalledWith(expect.anything(), 'Test Chat', expect.any(AbortSignal));
+      expect(htmlGeneratorInstance.downloadHTML).toHaveBeenCalledWith('<!DOCTYPE html><html></html>', 'test-chat.html');
+      expect(pdfGeneratorInstance.generatePDF).not.toHaveBeenCalled();
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã xuất HTML thành công!', 'success');
+    });
+
+    it('should generate and download a .json file when the JSON format is selected', async () => {
+      const uiInjectorInstance = (controller as any).uiInjector;
+      const jsonGeneratorInstance = (controller as any).jsonGenerator;
+      controller.setExportFormat('json');
+
+      await controller.handleExport();
+
+      expect(jsonGeneratorInstance.generateJSON).toHaveBeenCalledWith(expect.anything(), 'Test Chat', expect.any(AbortSignal));
+      expect(jsonGeneratorInstance.downloadJSON).toHaveBeenCalledWith('{}', 'test-chat.json');
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã xuất JSON thành công!', 'success');
+    });
+
+    it('should extract only the turns chosen in selection mode', async () => {
+      const contentExtractorInstance = (controller as any).contentExtractor;
+      const turnSelector = (controller as any).turnSelector;
+      vi.spyOn(turnSelector, 'getSelectedTurns').mockReturnValue(new Set([1, 2]));
+
+      await controller.handleExport();
+
+      expect(contentExtractorInstance.extractChatContent).toHaveBeenCalledWith(new Set([1, 2]), expect.any(AbortSignal));
+      expect((controller as any).historyLoader.loadHistory).not.toHaveBeenCalled();
+    });
+
+    it('should load older turns before exporting the whole conversation', async () => {
+      const historyLoaderInstance = (controller as any).historyLoader;
+      const messageExpanderInstance = (controller as any).messageExpander;
+
+      await controller.handleExport('json');
+
+      expect(historyLoaderInstance.loadHistory).toHaveBeenCalledWith(expect.any(AbortSignal));
+      expect(historyLoaderInstance.loadHistory.mock.invocationCallOrder[0])
+        .toBeLessThan(messageExpanderInstance.expandAllMessages.mock.invocationCallOrder[0]);
+      expect(Logger.info).toHaveBeenCalledWith('Đã tải thêm 3 lượt cũ (tổng 8 lượt)');
+    });
+
+    it('should refuse to export when selection mode is on but no turn is selected', async () => {
+      const uiInjectorInstance = (controller as any).uiInjector;
+      const messageExpanderInstance = (controller as any).messageExpander;
+      const turnSelector = (controller as any).turnSelector;
+      vi.spyOn(turnSelector, 'getSelectedTurns').mockReturnValue(new Set());
+
+      await controller.handleExport();
+
+      expect(messageExpanderInstance.expandAllMessages).not.toHaveBeenCalled();
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith(
+        'Không thể xuất PDF: Chưa chọn lượt nào để xuất',
+        'error'
+      );
+    });
+
     it('should log warning when some messages fail to expand', async () => {
       const messageExpanderInstance = (controller as any).messageExpander;
       const mockExpandResult: ExpandResult = {
@@ -215,6 +491,251 @@ describe('ExportController', () => {
     });
   });
 
+  describe('redaction', () => {
+    const sensitive: ChatContent = {
+      messages: [
+        { sender: 'user', content: '<p>Liên hệ an@congty.vn</p>' },
+        { sender: 'gemini', content: '<p>Đã ghi nhận an@congty.vn</p>' }
+      ],
+      timestamp: new Date()
+    };
+
+    beforeEach(() => {
+      (controller as any).contentExtractor.extractChatContent.mockReturnValue(sensitive);
+      (controller as any).titleExtractor.extractTitle.mockReturnValue('Hỏi về an@congty.vn');
+    });
+
+    it('should show the summary and export the redacted content and title', async () => {
+      const confirm = vi.spyOn((controller as any).redactionDialog, 'confirm').mockResolvedValue(true);
+      const jsonGeneratorInstance = (controller as any).jsonGenerator;
+
+      await controller.handleExport('json');
+
+      expect(confirm).toHaveBeenCalledWith([{ id: 'email', label: 'Email', count: 3, values: ['an@congty.vn'] }]);
+      expect(jsonGeneratorInstance.generateJSON).toHaveBeenCalledWith(
+        expect.objectContaining({
+          messages: [
+            { sender: 'user', content: '<p>Liên hệ [EMAIL 1]</p>' },
+            { sender: 'gemini', content: '<p>Đã ghi nhận [EMAIL 1]</p>' }
+          ]
+        }),
+        'Hỏi về [EMAIL 1]',
+        expect.any(AbortSignal)
+      );
+      expect((controller as any).titleExtractor.generateFilename).toHaveBeenCalledWith('Hỏi về [EMAIL 1]', expect.anything());
+    });
+
+    it('should cancel the export when the user declines', async () => {
+      vi.spyOn((controller as any).redactionDialog, 'confirm').mockResolvedValue(false);
+      const uiInjectorInstance = (controller as any).uiInjector;
+
+      await controller.handleExport('json');
+
+      expect((controller as any).jsonGenerator.generateJSON).not.toHaveBeenCalled();
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã hủy xuất', 'info');
+      expect(uiInjectorInstance.showNotification).not.toHaveBeenCalledWith(expect.anything(), 'error');
+    });
+
+    it('should redact without asking when the summary is turned off, and not at all when disabled', async () => {
+      const confirm = vi.spyOn((controller as any).redactionDialog, 'confirm');
+      const jsonGeneratorInstance = (controller as any).jsonGenerator;
+
+      controller.applySettings({ ...DEFAULT_SETTINGS, redaction: { ...DEFAULT_SETTINGS.redaction, confirm: false } });
+      await controller.handleExport('json');
+      expect(jsonGeneratorInstance.generateJSON).toHaveBeenLastCalledWith(expect.anything(), 'Hỏi về [EMAIL 1]', expect.any(AbortSignal));
+
+      controller.applySettings({ ...DEFAULT_SETTINGS, redaction: { ...DEFAULT_SETTINGS.redaction, enabled: false } });
+      await controller.handleExport('json');
+      expect(jsonGeneratorInstance.generateJSON).toHaveBeenLastCalledWith(sensitive, 'Hỏi về an@congty.vn', expect.any(AbortSignal));
+
+      expect(confirm).not.toHaveBeenCalled();
+    });
+
+    it('should export a chat without a title under the fallback file name', async () => {
+      vi.spyOn((controller as any).redactionDialog, 'confirm').mockResolvedValue(true);
+      (controller as any).titleExtractor.extractTitle.mockReturnValue(null);
+      const uiInjectorInstance = (controller as any).uiInjector;
+
+      await controller.handleExport('json');
+
+      expect((controller as any).titleExtractor.generateFilename).toHaveBeenCalledWith(null, expect.anything());
+      expect((controller as any).jsonGenerator.generateJSON).toHaveBeenCalledWith(expect.anything(), 'test-chat', expect.any(AbortSignal));
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã xuất JSON thành công!', 'success');
+    });
+
+    it('should show the summary for batch conversations and cancel the batch when declined', async () => {
+      const confirm = vi.spyOn((controller as any).redactionDialog, 'confirm').mockResolvedValue(false);
+      const batchExporterInstance = (controller as any).batchExporter;
+      const uiInjectorInstance = (controller as any).uiInjector;
+      const summary = [{ id: 'email', label: 'Email', count: 1, values: ['an@congty.vn'] }];
+      batchExporterInstance.exportConversations.mockImplementationOnce(async () => {
+        const confirmRedaction = batchExporterInstance.setRedactionPipeline.mock.lastCall[1];
+        expect(await confirmRedaction(summary, 'Hỏi [EMAIL 1]')).toBe(false);
+        throw new Error('cancelled');
+      });
+
+      await controller.handleBatchExport([{ index: 0, title: 'Hỏi an@congty.vn' }]);
+
+      expect(confirm).toHaveBeenCalledWith(summary);
+      expect(batchExporterInstance.downloadZip).not.toHaveBeenCalled();
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã hủy xuất', 'info');
+    });
+
+    it('should redact batch exports with the same rules', () => {
+      const batchExporterInstance = (controller as any).batchExporter;
+
+      controller.applySettings({ ...DEFAULT_SETTINGS, redaction: { ...DEFAULT_SETTINGS.redaction, kinds: ['email'] } });
+
+      const pipeline = batchExporterInstance.setRedactionPipeline.mock.lastCall[0];
+      expect(pipeline).toBeInstanceOf(RedactionPipeline);
+      expect(pipeline).toBe((controller as any).redactionPipeline);
+      expect(pipeline.redactTitle('an@congty.vn')).toBe('[EMAIL 1]');
+    });
+  });
+
+  describe('applySettings', () => {
+    const settings = {
+      ...DEFAULT_SETTINGS,
+      defaultFormat: 'html' as const,
+      filenamePattern: '{title}_{timestamp}',
+      pdf: { ...DEFAULT_SETTINGS.pdf, format: 'Letter' as const }
+    };
+
+    it('should pass PDF options and the filename pattern to the pipeline', () => {
+      const pdfGeneratorInstance = (controller as any).pdfGenerator;
+      const titleExtractorInstance = (controller as any).titleExtractor;
+
+      controller.applySettings(settings);
+
+      expect(pdfGeneratorInstance.setOptions).toHaveBeenCalledWith(settings.pdf);
+      expect(titleExtractorInstance.setFilenamePattern).toHaveBeenCalledWith('{title}_{timestamp}');
+      expect((controller as any).imageInliner.getOptions()).toEqual(settings.images);
+    });
+
+    it('should stamp the administrator\'s default classification unless the user chose one', async () => {
+      stubChromeStorage({ [SETTINGS_STORAGE_KEY]: settings }, { defaultClassification: 'restricted' });
+      const pdfGeneratorInstance = (controller as any).pdfGenerator;
+      const setClassification = vi.spyOn((controller as any).markdownGenerator, 'setClassification');
+      controller.initialize();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(pdfGeneratorInstance.setOptions).toHaveBeenLastCalledWith({ ...settings.pdf, classification: 'restricted' });
+      expect(setClassification).toHaveBeenLastCalledWith('restricted');
+
+      controller.applySettings({ ...settings, classification: 'internal' });
+      expect(setClassification).toHaveBeenLastCalledWith('internal');
+      vi.unstubAllGlobals();
+    });
+
+    it('should log and keep the defaults when the settings cannot be applied', async () => {
+      stubChromeStorage({ [SETTINGS_STORAGE_KEY]: settings });
+      const error = new Error('Invalid options');
+      (controller as any).pdfGenerator.setOptions.mockImplementationOnce(() => { throw error; });
+      controller.initialize();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(Logger.error).toHaveBeenCalledWith('ExportController: Failed to apply settings, keeping the defaults', error);
+      expect(controller.getExportFormat()).toBe('markdown');
+      expect((controller as any).titleExtractor.setFilenamePattern).not.toHaveBeenCalled();
+      vi.unstubAllGlobals();
+    });
+
+    it('should download Markdown with separate image files as a ZIP', async () => {
+      const markdownGeneratorInstance = (controller as any).markdownGenerator;
+      const downloadMarkdown = vi.spyOn(markdownGeneratorInstance, 'downloadMarkdown').mockImplementation(() => {});
+
+      controller.applySettings({ ...settings, images: { ...settings.images, markdownSidecar: true } });
+      controller.setExportFormat('markdown');
+      await controller.handleExport();
+
+      expect(downloadMarkdown).toHaveBeenCalledWith(expect.any(Blob), 'test-chat.zip');
+      expect((downloadMarkdown.mock.calls[0][0] as Blob).type).toBe('application/zip');
+    });
+
+    it('should switch to the default format unless the user picked one', () => {
+      const uiInjectorInstance = (controller as any).uiInjector;
+
+      uiInjectorInstance.applyDefaultFormat = vi.fn().mockReturnValue(false);
+      controller.applySettings(settings);
+      expect(controller.getExportFormat()).toBe('markdown');
+
+      uiInjectorInstance.applyDefaultFormat = vi.fn().mockReturnValue(true);
+      controller.applySettings(settings);
+      expect(controller.getExportFormat()).toBe('html');
+    });
+
+    it('should relabel the button and menu when the language changes', () => {
+      const uiInjectorInstance = (controller as any).uiInjector;
+
+      controller.applySettings({ ...settings, language: 'vi' });
+      expect(uiInjectorInstance.refreshLabels).not.toHaveBeenCalled();
+
+      controller.applySettings({ ...settings, language: 'en' });
+      expect(uiInjectorInstance.refreshLabels).toHaveBeenCalledTimes(1);
+      expect(uiInjectorInstance.setMenuActionLabel).toHaveBeenCalledWith('select-turns', 'Select turns to export…');
+      expect(uiInjectorInstance.setMenuActionLabel).toHaveBeenCalledWith('batch-export', 'Export multiple conversations…');
+    });
+
+    it('should follow settings changed while the page is open', async () => {
+      const storage = stubChromeStorage();
+      const pdfGeneratorInstance = (controller as any).pdfGenerator;
+      controller.initialize();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      storage.set({ [SETTINGS_STORAGE_KEY]: settings });
+
+      expect(pdfGeneratorInstance.setOptions).toHaveBeenLastCalledWith(settings.pdf);
+      vi.unstubAllGlobals();
+    });
+  });
+
+  describe('handleBatchExport', () => {
+    const targets = [{ index: 0, title: 'A' }, { index: 1, title: 'B' }];
+
+    it('should export the chosen conversations and download a ZIP', async () => {
+      const batchExporterInstance = (controller as any).batchExporter;
+      const uiInjectorInstance = (controller as any).uiInjector;
+
+      await controller.handleBatchExport(targets);
+
+      expect(batchExporterInstance.exportConversations).toHaveBeenCalledWith(
+        targets,
+        expect.objectContaining({ extension: 'md' }),
+        expect.any(Function),
+        expect.any(Function),
+        expect.any(AbortSignal)
+      );
+      expect(batchExporterInstance.downloadZip).toHaveBeenCalledWith(
+        expect.any(Blob),
+        expect.stringMatching(/^gemini-chats-\d{8}-\d{6}\.zip$/)
+      );
+      expect(uiInjectorInstance.showNotification).toHaveBeenCalledWith('Đã xuất 1/2 cuộc trò chuyện', 'error');
+      expect(uiInjectorInstance.enableButton).toHaveBeenCalled();
+    });
+
+    it('should render each conversation in the selected format', async () => {
+      const batchExporterInstance = (controller as any).batchExporter;
+      const jsonGeneratorInstance = (controller as any).jsonGenerator;
+      controller.setExportFormat('json');
+
+      await controller.handleBatchExport(targets);
+      const render = batchExporterInstance.exportConversations.mock.calls[0][2];
+      const blob: Blob = await render({ messages: [], timestamp: new Date() }, 'A');
+
+      expect(jsonGeneratorInstance.generateJSON).toHaveBeenCalledWith({ messages: [], timestamp: expect.any(Date) }, 'A', expect.any(AbortSignal));
+      expect(blob.type).toBe('application/json');
+    });
+
+    it('should not start while another export is running', async () => {
+      const batchExporterInstance = (controller as any).batchExporter;
+      (controller as any).isExporting = true;
+
+      await controller.handleBatchExport(targets);
+
+      expect(batchExporterInstance.exportConversations).not.toHaveBeenCalled();
+    });
+  });
+
   describe('handleError', () => {
     it('should log error and show notification', () => {
       const uiInjectorInstance = (controller as any).uiInjector;
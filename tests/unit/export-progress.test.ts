@@ -0,0 +1,54 @@
+/**
+ * Unit tests for export progress events
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { EXPORT_STAGES, ExportProgress, ProgressEmitter, createExportProgress } from '../../src/content/export-progress';
+
+describe('createExportProgress', () => {
+  it('should map each stage to its share of the whole export', () => {
+    expect(createExportProgress('expanding', 0, 10).percent).toBe(0);
+    expect(createExportProgress('expanding', 5, 10).percent).toBe(20);
+    expect(createExportProgress('extracting', 10, 10).percent).toBe(60);
+    expect(createExportProgress('inlining', 1, 2).percent).toBe(65);
+    expect(createExportProgress('rendering', 1, 2).percent).toBe(83);
+    expect(createExportProgress('downloading', 1, 1).percent).toBe(100);
+  });
+
+  it('should never go backwards from one stage to the next', () => {
+    const percents = EXPORT_STAGES.flatMap(stage => [0, 1, 2].map(done => createExportProgress(stage, done, 2).percent));
+
+    expect(percents).toEqual([...percents].sort((a, b) => a - b));
+  });
+
+  it('should treat an empty stage as finished and clamp counts', () => {
+    expect(createExportProgress('expanding', 0, 0)).toEqual({ stage: 'expanding', completed: 0, total: 0, percent: 40 });
+    expect(createExportProgress('extracting', 7, 3).percent).toBe(60);
+  });
+});
+
+describe('ProgressEmitter', () => {
+  it('should notify listeners until they unsubscribe', () => {
+    const emitter = new ProgressEmitter();
+    const events: ExportProgress[] = [];
+    const unsubscribe = emitter.on(progress => events.push(progress));
+
+    emitter.emit('rendering', 1, 4);
+    unsubscribe();
+    emitter.emit('rendering', 2, 4);
+
+    expect(events).toEqual([{ stage: 'rendering', completed: 1, total: 4, percent: 76 }]);
+  });
+
+  it('should keep notifying when a listener throws', () => {
+    const emitter = new ProgressEmitter();
+    const listener = vi.fn();
+    emitter.on(() => {
+      throw new Error('listener failed');
+    });
+    emitter.on(listener);
+
+    expect(() => emitter.emit('downloading', 0, 1)).not.toThrow();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for ExportTriggers (background service worker)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExportTriggers, CONTEXT_MENU_ID } from '../../src/background/export-triggers';
+import { SETTINGS_STORAGE_KEY } from '../../src/utils/settings';
+import { stubChromeStorage, ChromeStorageStub } from '../helpers/chrome-storage';
+
+const GEMINI_TAB = { id: 7, url: 'https://business.gemini.google/home/cid/abc/r/session/123' } as chrome.tabs.Tab;
+
+describe('ExportTriggers', () => {
+  let storage: ChromeStorageStub;
+  let triggers: ExportTriggers;
+  let sendMessage: ReturnType<typeof vi.fn>;
+  let createMenu: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    storage = stubChromeStorage();
+    sendMessage = vi.fn().mockResolvedValue({ accepted: true });
+    createMenu = vi.fn();
+
+    Object.assign(chrome, {
+      runtime: { onInstalled: { addListener: vi.fn() } },
+      commands: { onCommand: { addListener: vi.fn() } },
+      contextMenus: { create: createMenu, removeAll: vi.fn().mockResolvedValue(undefined), onClicked: { addListener: vi.fn() } },
+      tabs: { sendMessage, query: vi.fn().mockResolvedValue([GEMINI_TAB]) }
+    });
+
+    triggers = new ExportTriggers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('commands', () => {
+    it('should export in the selected format', async () => {
+      await triggers.handleCommand('export', GEMINI_TAB);
+
+      expect(sendMessage).toHaveBeenCalledWith(7, { type: 'export' });
+    });
+
+    it('should export to the format named by the command', async () => {
+      await triggers.handleCommand('export-json', GEMINI_TAB);
+
+      expect(sendMessage).toHaveBeenCalledWith(7, { type: 'export', format: 'json' });
+    });
+
+    it('should use the active tab when the command has none', async () => {
+      await triggers.handleCommand('export-pdf');
+
+      expect(chrome.tabs.query).toHaveBeenCalledWith({ active: true, currentWindow: true });
+      expect(sendMessage).toHaveBeenCalledWith(7, { type: 'export', format: 'pdf' });
+    });
+
+    it('should ignore unknown commands and other pages', async () => {
+      await triggers.handleCommand('export-docx', GEMINI_TAB);
+      await triggers.handleCommand('export', { id: 8, url: 'https://example.com/' } as chrome.tabs.Tab);
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('context menu', () => {
+    it('should create an entry with the selected format and every format', async () => {
+      await triggers.createContextMenu();
+
+      const ids = createMenu.mock.calls.map(([properties]) => properties.id);
+      expect(ids).toEqual([
+        CONTEXT_MENU_ID,
+        `${CONTEXT_MENU_ID}:selected`,
+        `${CONTEXT_MENU_ID}:pdf`,
+        `${CONTEXT_MENU_ID}:markdown`,
+        `${CONTEXT_MENU_ID}:html`,
+        `${CONTEXT_MENU_ID}:json`
+      ]);
+      expect(createMenu.mock.calls[0][0]).toMatchObject({
+        title: 'Xuất cuộc trò chuyện',
+        documentUrlPatterns: ['https://business.gemini.google/*']
+      });
+    });
+
+    it('should use the language from the settings', async () => {
+      storage.data[SETTINGS_STORAGE_KEY] = { language: 'en' };
+
+      await triggers.createContextMenu();
+
+      expect(createMenu.mock.calls[0][0].title).toBe('Export conversation');
+      expect(createMenu.mock.calls[1][0].title).toBe('Selected format');
+    });
+
+    it('should export the format of the clicked item', async () => {
+      await triggers.handleMenuClick({ menuItemId: `${CONTEXT_MENU_ID}:html` } as chrome.contextMenus.OnClickData, GEMINI_TAB);
+      await triggers.handleMenuClick({ menuItemId: `${CONTEXT_MENU_ID}:selected` } as chrome.contextMenus.OnClickData, GEMINI_TAB);
+
+      expect(sendMessage).toHaveBeenNthCalledWith(1, 7, { type: 'export', format: 'html' });
+      expect(sendMessage).toHaveBeenNthCalledWith(2, 7, { type: 'export' });
+    });
+  });
+
+  describe('requestExport', () => {
+    it('should report whether the content script started the export', async () => {
+      expect(await triggers.requestExport(GEMINI_TAB)).toBe(true);
+
+      sendMessage.mockResolvedValue({ accepted: false });
+      expect(await triggers.requestExport(GEMINI_TAB)).toBe(false);
+
+      sendMessage.mockRejectedValue(new Error('Could not establish connection'));
+      expect(await triggers.requestExport(GEMINI_TAB)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * Unit tests for filename templates
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatDate,
+  renderFilenameTemplate,
+  templateHasDate,
+  validateFilenameTemplate,
+  FilenameContext
+} from '../../src/content/filename-template';
+import { getExportFormatInfo } from '../../src/content/export-formats';
+
+const context: FilenameContext = {
+  title: 'Plan',
+  date: new Date(2024, 11, 31, 23, 5, 9),
+  messageCount: 10,
+  turnCount: 5,
+  workspace: null,
+  format: getExportFormatInfo('html')!
+};
+
+describe('filename templates', () => {
+  describe('validateFilenameTemplate', () => {
+    it('should accept templates made of known tokens', () => {
+      expect(validateFilenameTemplate('{date:YYYY-MM-DD}_{title}_{turns}.{ext}')).toEqual([]);
+      expect(validateFilenameTemplate('chat {time:HH.mm.ss} {workspace} {format} {messages} {timestamp}')).toEqual([]);
+    });
+
+    it('should reject empty templates', () => {
+      expect(validateFilenameTemplate('  ')).toHaveLength(1);
+      expect(validateFilenameTemplate('.{ext}')).toEqual(['Mẫu tên file phải tạo ra tên file không rỗng']);
+    });
+
+    it('should report unknown tokens and unbalanced braces', () => {
+      expect(validateFilenameTemplate('{name}')).toEqual(['Token không hợp lệ: {name}']);
+      expect(validateFilenameTemplate('{title')).toEqual(['Dấu ngoặc { } không khớp']);
+    });
+
+    it('should check token arguments', () => {
+      expect(validateFilenameTemplate('{date:DD/MM}')).toHaveLength(1);
+      expect(validateFilenameTemplate('{date:}')).toHaveLength(1);
+      expect(validateFilenameTemplate('{title:upper}')).toEqual(['Token {title} không nhận tham số']);
+    });
+  });
+
+  describe('renderFilenameTemplate', () => {
+    it('should replace every token', () => {
+      expect(renderFilenameTemplate('{title}-{messages}-{turns}-{format}-{ext}', context)).toBe('Plan-10-5-HTML-html');
+      expect(renderFilenameTemplate('{date}_{time}_{timestamp}', context)).toBe('20241231_230509_20241231-230509');
+      expect(renderFilenameTemplate('{workspace}{title}', context)).toBe('Plan');
+    });
+
+    it('should drop a trailing .{ext}', () => {
+      expect(renderFilenameTemplate('{title}.{ext}', context)).toBe('Plan');
+    });
+  });
+
+  it('should format dates with placeholders', () => {
+    expect(formatDate(context.date, 'YY.MM.DD HH-mm-ss')).toBe('24.12.31 23-05-09');
+  });
+
+  it('should detect templates containing the date', () => {
+    expect(templateHasDate('{title}_{time:HH}')).toBe(true);
+    expect(templateHasDate('{title}_{turns}')).toBe(false);
+  });
+});
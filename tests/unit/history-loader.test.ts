@@ -0,0 +1,77 @@
+/**
+ * Unit tests for HistoryLoader
+ * Simulates Gemini Business adding older turns when the conversation is scrolled to the top
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { HistoryLoader } from '../../src/content/history-loader';
+import { ExportCancelledError } from '../../src/utils/error-handler';
+import { getChatScroller, getConversationTurns } from '../../src/utils/shadow-dom-utils';
+import { buildGeminiConversation, createTurn } from '../helpers/gemini-dom';
+
+const TURN_HEIGHT = 100;
+
+describe('HistoryLoader', () => {
+  let container: HTMLElement;
+  let scroller: HTMLElement;
+  let olderBatches: string[][];
+
+  const loader = (options = {}) => new HistoryLoader({ roundTimeout: 50, ...options });
+  const turnTexts = () => getConversationTurns().map(turn => turn.querySelector('ucs-fast-markdown')?.textContent);
+
+  beforeEach(() => {
+    container = buildGeminiConversation(['Q5', 'Q6', 'Q7'].map(user => ({ user, gemini: 'A' })));
+    scroller = getChatScroller() as HTMLElement;
+    olderBatches = [['Q3', 'Q4'], ['Q1', 'Q2']];
+
+    // jsdom has no layout: every turn is TURN_HEIGHT pixels high
+    let scrollTop = 250;
+    Object.defineProperty(scroller, 'scrollHeight', { get: () => getConversationTurns().length * TURN_HEIGHT });
+    Object.defineProperty(scroller, 'scrollTop', { get: () => scrollTop, set: (value: number) => { scrollTop = value; } });
+
+    scroller.addEventListener('scroll', () => {
+      const batch = scroller.scrollTop === 0 ? olderBatches.shift() : undefined;
+      if (batch) {
+        setTimeout(() => container.prepend(...batch.map(user => createTurn({ user, gemini: 'A' }))), 5);
+      }
+    });
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should load older turns until no more appear', async () => {
+    const result = await loader().loadHistory();
+
+    expect(result).toEqual({ loaded: 4, totalTurns: 7, complete: true });
+    expect(turnTexts()).toEqual(['Q1', 'Q2', 'Q3', 'Q4', 'Q5', 'Q6', 'Q7']);
+  });
+
+  it('should keep the turns the user was looking at in view', async () => {
+    await loader().loadHistory();
+
+    // 50px from the bottom before and after
+    expect(scroller.scrollTop).toBe(7 * TURN_HEIGHT - 50);
+  });
+
+  it('should stop at the turn limit', async () => {
+    const result = await loader({ maxTurns: 5 }).loadHistory();
+
+    expect(result).toEqual({ loaded: 2, totalTurns: 5, complete: false });
+  });
+
+  it('should stop when cancelled and restore the view', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(loader().loadHistory(controller.signal)).rejects.toBeInstanceOf(ExportCancelledError);
+    expect(scroller.scrollTop).toBe(250);
+  });
+
+  it('should report nothing loaded when there is no conversation', async () => {
+    document.body.innerHTML = '';
+
+    expect(await loader().loadHistory()).toEqual({ loaded: 0, totalTurns: 0, complete: false });
+  });
+});
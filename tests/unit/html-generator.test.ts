@@ -0,0 +1,146 @@
+/**
+ * Unit tests for HtmlGenerator
+ * Tests the standalone HTML document: table of contents, images and styling
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { HtmlGenerator } from '../../src/content/html-generator';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+import { ImageInliner } from '../../src/content/image-inliner';
+import { ChatContent } from '../../src/content/content-extractor';
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html');
+}
+
+describe('HtmlGenerator', () => {
+  let generator: HtmlGenerator;
+  let originalFetch: typeof fetch;
+
+  const content: ChatContent = {
+    messages: [
+      { sender: 'user', content: '<p>Giải thích thuật toán sắp xếp nhanh</p>' },
+      { sender: 'gemini', content: '<p>Quicksort chia mảng theo pivot.</p>' },
+      { sender: 'user', content: '<p>Cho ví dụ</p><div class="attached-images"><img src="https://lh3.googleusercontent.com/a.png" alt="a"></div>' },
+      { sender: 'gemini', content: '<pre><code>quicksort(arr)</code></pre>' }
+    ],
+    timestamp: new Date()
+  };
+
+  beforeEach(() => {
+    generator = new HtmlGenerator(new PDFGenerator());
+    originalFetch = global.fetch;
+    global.fetch = vi.fn(async () => ({
+      ok: true,
+      status: 200,
+      blob: async () => new Blob(['PNG'], { type: 'image/png' })
+    })) as any;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should produce a complete HTML document with the chat title', async () => {
+    const html = await generator.generateHTML(content, 'Thuật toán');
+    const doc = parse(html);
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(doc.title).toBe('Thuật toán');
+    expect(doc.querySelector('.pdf-header h1')?.textContent).toBe('Thuật toán');
+    expect(doc.querySelectorAll('.message')).toHaveLength(4);
+  });
+
+  it('should add a table of contents linking to each user turn', async () => {
+    const doc = parse(await generator.generateHTML(content, 'Thuật toán'));
+    const links = Array.from(doc.querySelectorAll<HTMLAnchorElement>('nav.toc a'));
+
+    expect(links.map(link => link.textContent)).toEqual(['Giải thích thuật toán sắp xếp nhanh', 'Cho ví dụ']);
+    links.forEach(link => {
+      const target = doc.getElementById(link.getAttribute('href')!.slice(1));
+      expect(target?.classList.contains('user')).toBe(true);
+    });
+  });
+
+  it('should truncate long table of contents entries', async () => {
+    const longContent: ChatContent = {
+      messages: [{ sender: 'user', content: `<p>${'word '.repeat(40)}</p>` }],
+      timestamp: new Date()
+    };
+
+    const doc = parse(await generator.generateHTML(longContent, 'Long'));
+    const label = doc.querySelector('nav.toc a')?.textContent || '';
+
+    expect(label.length).toBeLessThanOrEqual(81);
+    expect(label.endsWith('…')).toBe(true);
+  });
+
+  it('should leave the image sources to ImageInliner', async () => {
+    const doc = parse(await generator.generateHTML(content, 'Thuật toán'));
+
+    expect(doc.querySelector('img')?.getAttribute('src')).toBe('https://lh3.googleusercontent.com/a.png');
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should keep the images inlined by ImageInliner', async () => {
+    const inlined = await new ImageInliner().inlineImages(content);
+
+    const doc = parse(await generator.generateHTML(inlined, 'Thuật toán'));
+
+    expect(doc.querySelector('img')?.getAttribute('src')).toMatch(/^data:image\/png;base64,/);
+  });
+
+  it('should include dark mode and print styles', async () => {
+    const doc = parse(await generator.generateHTML(content, 'Thuật toán'));
+    const css = Array.from(doc.querySelectorAll('style')).map(style => style.textContent).join('\n');
+
+    expect(css).toContain('@media (prefers-color-scheme: dark)');
+    expect(css).toContain('@media print');
+    expect(doc.querySelector('meta[name="color-scheme"]')?.getAttribute('content')).toBe('light dark');
+  });
+
+  it('should draw diagrams and collapse their source appendix', async () => {
+    const doc = parse(await generator.generateHTML({
+      messages: [{ sender: 'gemini', content: '<pre><code class="language-mermaid">graph TD\n  A --&gt; B</code></pre>' }],
+      timestamp: new Date()
+    }, 'Sơ đồ'));
+
+    expect(doc.querySelector('figure.gemini-diagram svg')).not.toBeNull();
+    expect(doc.querySelector('.diagram-appendix details')?.hasAttribute('open')).toBe(false);
+    expect(doc.querySelector('#diagram-source-1 code')?.textContent).toBe('graph TD\n  A --> B');
+  });
+
+  it('should reuse the PDF generator styling options', async () => {
+    const styled = new HtmlGenerator(new PDFGenerator({ userMessageBg: '#abcdef' }));
+
+    const html = await styled.generateHTML(content, 'Thuật toán');
+
+    expect(html).toContain('#abcdef');
+  });
+
+  it('should add the classification banner', async () => {
+    const classified = new HtmlGenerator(new PDFGenerator({ classification: 'restricted' }));
+
+    const doc = parse(await classified.generateHTML(content, 'Thuật toán'));
+
+    expect(doc.body.firstElementChild?.className).toBe('classification-banner');
+    expect(doc.querySelector('.classification-banner')?.textContent).toBe('Hạn chế');
+    expect(parse(await generator.generateHTML(content, 'Thuật toán')).querySelector('.classification-banner')).toBeNull();
+  });
+
+  it('should download the document as an .html file', () => {
+    const clicks: string[] = [];
+    const originalCreate = URL.createObjectURL;
+    URL.createObjectURL = vi.fn(() => 'blob:html');
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      clicks.push(this.download);
+    });
+
+    generator.downloadHTML('<!DOCTYPE html><html></html>', 'chat.html');
+
+    expect(clicks).toEqual(['chat.html']);
+    expect(URL.createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+    clickSpy.mockRestore();
+    URL.createObjectURL = originalCreate;
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for the HTML to Markdown converter
+ * Tests GFM output for the structures Gemini renders in responses
+ */
+
+import { describe, it, expect } from 'vitest';
+import { htmlToMarkdown, detectCodeLanguage } from '../../src/content/html-to-markdown';
+
+describe('htmlToMarkdown', () => {
+  it('should convert all heading levels', () => {
+    const markdown = htmlToMarkdown('<h1>One</h1><h4>Four</h4><h5>Five</h5><h6>Six</h6>');
+
+    expect(markdown).toBe('# One\n\n#### Four\n\n##### Five\n\n###### Six');
+  });
+
+  it('should convert inline formatting including strikethrough', () => {
+    const markdown = htmlToMarkdown('<p><strong>bold</strong> <em>italic</em> <del>old</del> <code>x</code></p>');
+
+    expect(markdown).toBe('**bold** *italic* ~~old~~ `x`');
+  });
+
+  it('should choose a longer backtick fence for inline code containing backticks', () => {
+    expect(htmlToMarkdown('<p><code>a`b</code></p>')).toBe('``a`b``');
+    expect(htmlToMarkdown('<p><code>`tick`</code></p>')).toBe('`` `tick` ``');
+  });
+
+  it('should choose a longer fence for code blocks containing fences', () => {
+    const markdown = htmlToMarkdown('<pre><code class="language-markdown">```js\nx\n```</code></pre>');
+
+    expect(markdown).toBe('````markdown\n```js\nx\n```\n````');
+  });
+
+  it('should keep blank lines inside code blocks', () => {
+    expect(htmlToMarkdown('<pre><code>a\n\n\nb</code></pre>')).toBe('```\na\n\n\nb\n```');
+  });
+
+  it('should keep ordered list start numbers and nest lists', () => {
+    const markdown = htmlToMarkdown('<ol start="3"><li>Three<ul><li>Child</li></ul></li><li>Four</li></ol>');
+
+    expect(markdown).toBe('3. Three\n   - Child\n4. Four');
+  });
+
+  it('should convert task list items', () => {
+    const markdown = htmlToMarkdown(
+      '<ul><li><input type="checkbox" checked disabled> Done</li><li><input type="checkbox" disabled> Todo</li></ul>'
+    );
+
+    expect(markdown).toBe('- [x] Done\n- [ ] Todo');
+  });
+
+  it('should use a different marker for consecutive lists', () => {
+    expect(htmlToMarkdown('<ul><li>A</li></ul><ul><li>B</li></ul>')).toBe('- A\n\n* B');
+  });
+
+  it('should convert tables with column alignment and escaped pipes', () => {
+    const markdown = htmlToMarkdown(
+      '<table><thead><tr><th>Name</th><th align="center">Mid</th><th style="text-align: right">Qty</th></tr></thead>' +
+      '<tbody><tr><td>a|b</td><td><code>x|y</code></td><td>2</td></tr></tbody></table>'
+    );
+
+    expect(markdown).toBe('| Name | Mid | Qty |\n| --- | :---: | ---: |\n| a\\|b | `x\\|y` | 2 |');
+  });
+
+  it('should prefix blockquote lines', () => {
+    expect(htmlToMarkdown('<blockquote><p>One</p><p>Two</p></blockquote>')).toBe('> One\n>\n> Two');
+  });
+
+  it('should convert links and images', () => {
+    const markdown = htmlToMarkdown(
+      '<p><a href="https://example.com/a b" title="Docs">docs</a> <img src="https://example.com/i.png" alt="chart"></p>'
+    );
+
+    expect(markdown).toBe('[docs](<https://example.com/a b> "Docs") ![chart](https://example.com/i.png)');
+  });
+
+  it('should write reference-style links for data-reference', () => {
+    expect(htmlToMarkdown('<p>Tăng<sup><a data-reference="2-1" href="https://example.com">[1]</a></sup></p>'))
+      .toBe('Tăng[\\[1\\]][2-1]');
+  });
+
+  it('should escape Markdown syntax in text', () => {
+    expect(htmlToMarkdown('<p>a*b_c &lt;div&gt;</p>')).toBe('a\\*b\\_c \\<div\\>');
+    expect(htmlToMarkdown('<p># not a heading</p>')).toBe('\\# not a heading');
+    expect(htmlToMarkdown('<p>1. not a list</p>')).toBe('1\\. not a list');
+  });
+
+  it('should turn line breaks into hard breaks', () => {
+    expect(htmlToMarkdown('<p>one<br>two</p>')).toBe('one  \ntwo');
+  });
+
+  it('should skip UI chrome such as buttons and icons', () => {
+    const markdown = htmlToMarkdown('<p>Text<button>Copy</button><mat-icon>content_copy</mat-icon></p>');
+
+    expect(markdown).toBe('Text');
+  });
+});
+
+describe('detectCodeLanguage', () => {
+  it('should read the language from a class name', () => {
+    const pre = document.createElement('pre');
+    pre.innerHTML = '<code class="hljs language-python">print(1)</code>';
+
+    expect(detectCodeLanguage(pre)).toBe('python');
+  });
+
+  it('should read the language from data attributes', () => {
+    const pre = document.createElement('pre');
+    pre.setAttribute('data-language', 'TypeScript');
+
+    expect(detectCodeLanguage(pre)).toBe('typescript');
+  });
+
+  it('should read the language from the Gemini code block header', () => {
+    const wrapper = document.createElement('div');
+    wrapper.className = 'code-block';
+    wrapper.innerHTML = '<div class="code-block-decoration">Bash</div><pre><code>ls</code></pre>';
+
+    expect(detectCodeLanguage(wrapper.querySelector('pre') as HTMLElement)).toBe('bash');
+  });
+
+  it('should return an empty string when no language is known', () => {
+    const pre = document.createElement('pre');
+    pre.innerHTML = '<code>plain</code>';
+
+    expect(detectCodeLanguage(pre)).toBe('');
+  });
+});
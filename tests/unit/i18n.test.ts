@@ -0,0 +1,117 @@
+/**
+ * Unit tests for localization
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import enMessages from '../../src/_locales/en/messages.json';
+import viMessages from '../../src/_locales/vi/messages.json';
+import {
+  formatDateTime,
+  getDateLocale,
+  getLanguage,
+  isLanguagePreference,
+  localizeElement,
+  setLanguage,
+  t
+} from '../../src/utils/i18n';
+
+type Catalog = Record<string, { message: string; placeholders?: Record<string, { content: string }> }>;
+
+describe('i18n', () => {
+  afterEach(() => {
+    setLanguage('auto');
+    vi.unstubAllGlobals();
+  });
+
+  describe('catalogs', () => {
+    it('should define the same messages in every language', () => {
+      expect(Object.keys(viMessages).sort()).toEqual(Object.keys(enMessages).sort());
+    });
+
+    it('should declare every placeholder a message uses, with the same substitutions', () => {
+      const placeholders = (catalog: Catalog, key: string) => {
+        const entry = catalog[key];
+        const used = Array.from(entry.message.matchAll(/\$(\w+)\$/g), ([, name]) => name.toLowerCase());
+        used.forEach(name => expect(entry.placeholders?.[name], `${key}: $${name}$`).toBeDefined());
+        return Object.values(entry.placeholders ?? {}).map(placeholder => placeholder.content).sort();
+      };
+
+      Object.keys(enMessages).forEach(key => {
+        expect(placeholders(viMessages as Catalog, key), key).toEqual(placeholders(enMessages as Catalog, key));
+      });
+    });
+  });
+
+  describe('language', () => {
+    it('should follow the browser language in auto mode', () => {
+      expect(getLanguage()).toBe('vi');
+
+      vi.stubGlobal('chrome', { i18n: { getUILanguage: () => 'en-GB' } });
+      expect(getLanguage()).toBe('en');
+
+      vi.stubGlobal('chrome', { i18n: { getUILanguage: () => 'de' } });
+      expect(getLanguage()).toBe('en');
+    });
+
+    it('should report whether the language in use changed', () => {
+      expect(setLanguage('vi')).toBe(false);
+      expect(setLanguage('en')).toBe(true);
+      expect(setLanguage('en')).toBe(false);
+      expect(getLanguage()).toBe('en');
+    });
+
+    it('should validate language settings', () => {
+      expect(isLanguagePreference('auto')).toBe(true);
+      expect(isLanguagePreference('vi')).toBe(true);
+      expect(isLanguagePreference('fr')).toBe(false);
+      expect(isLanguagePreference(undefined)).toBe(false);
+    });
+  });
+
+  describe('t', () => {
+    it('should translate into the language in use', () => {
+      expect(t('senderUser')).toBe('Bạn');
+      setLanguage('en');
+      expect(t('senderUser')).toBe('You');
+    });
+
+    it('should substitute placeholders in order', () => {
+      expect(t('batchProgress', 2, 5, 'Kế hoạch')).toBe('Đang xuất 2/5: Kế hoạch');
+      setLanguage('en');
+      expect(t('batchProgress', 2, 5, 'Plan')).toBe('Exporting 2/5: Plan');
+    });
+
+    it('should not expand placeholders inside substituted values', () => {
+      expect(t('errorGeneric', 'cost $1 $PLACEHOLDER$')).toBe('Đã xảy ra lỗi: cost $1 $PLACEHOLDER$');
+    });
+  });
+
+  describe('dates', () => {
+    it('should format dates with the locale of the language in use', () => {
+      const date = new Date(2024, 2, 15, 14, 30);
+
+      expect(getDateLocale()).toBe('vi-VN');
+      expect(formatDateTime(date)).toContain('2024');
+
+      setLanguage('en');
+      expect(getDateLocale()).toBe('en-US');
+      expect(formatDateTime(date)).toContain('March');
+    });
+  });
+
+  describe('localizeElement', () => {
+    it('should translate text and attributes marked with data-i18n', () => {
+      document.body.innerHTML = `
+        <h1 data-i18n="optionsHeading">?</h1>
+        <button data-i18n-title="formatMenuTitle">▾</button>
+      `;
+      setLanguage('en');
+
+      localizeElement(document);
+
+      expect(document.querySelector('h1')?.textContent).toBe('Conversation export settings');
+      expect(document.querySelector('button')?.getAttribute('title')).toBe('Choose export format');
+      expect(document.querySelector('button')?.textContent).toBe('▾');
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * Unit tests for ImageInliner
+ * Tests replacing image URLs with data URIs and writing them as files for Markdown bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import { strFromU8, unzipSync } from 'fflate';
+import { ImageInliner, extractImageFiles } from '../../src/content/image-inliner';
+import { ChatContent } from '../../src/content/content-extractor';
+import { MarkdownGenerator } from '../../src/content/markdown-generator';
+import { ExportProgress } from '../../src/content/export-progress';
+import { ExportCancelledError } from '../../src/utils/error-handler';
+
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0K';
+
+const content: ChatContent = {
+  messages: [
+    {
+      sender: 'user',
+      content: '<p>Xem ảnh</p><img src="https://lh3.googleusercontent.com/a.png" srcset="https://lh3.googleusercontent.com/a2.png 2x">',
+      attachments: [
+        { kind: 'image', name: 'a.png', imageData: 'https://lh3.googleusercontent.com/a.png' },
+        { kind: 'file', name: 'Q1.pdf', thumbnail: 'blob:https://business.gemini.google/t1' }
+      ]
+    },
+    { sender: 'gemini', content: '<p>Không có ảnh</p>' }
+  ],
+  timestamp: new Date()
+};
+
+/**
+ * Fetch response holding a jsdom Blob (FileReader rejects the Blob of Node's Response)
+ */
+function imageResponse(parts: BlobPart[]) {
+  return { ok: true, status: 200, blob: async () => new Blob(parts, { type: 'image/png' }) };
+}
+
+/**
+ * Read the bytes of a blob (jsdom's Blob has no arrayBuffer())
+ */
+function readBlob(blob: Blob): Promise<Uint8Array> {
+  return new Promise(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+describe('ImageInliner', () => {
+  let fetchMock: Mock<Parameters<typeof fetch>, Promise<ReturnType<typeof imageResponse>>>;
+
+  beforeEach(() => {
+    fetchMock = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) => imageResponse(['png-bytes']));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should replace every image URL of the content with a data URI', async () => {
+    const result = await new ImageInliner().inlineImages(content);
+    const [user, gemini] = result.messages;
+
+    expect(user.content).toMatch(/^<p>Xem ảnh<\/p><img src="data:image\/png;base64,[^"]+">$/);
+    expect(user.attachments?.[0].imageData).toMatch(/^data:image\/png;base64,/);
+    expect(user.attachments?.[1].thumbnail).toMatch(/^data:image\/png;base64,/);
+    expect(gemini.content).toBe('<p>Không có ảnh</p>');
+    // Each URL is read once and the original content is left alone
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(content.messages[0].content).toContain('https://lh3.googleusercontent.com/a.png');
+  });
+
+  it('should report inlining progress for each image', async () => {
+    const inliner = new ImageInliner();
+    const events: ExportProgress[] = [];
+    inliner.onProgress(progress => events.push(progress));
+
+    await inliner.inlineImages(content);
+
+    expect(events.map(event => `${event.stage} ${event.completed}/${event.total}`)).toEqual([
+      'inlining 0/2', 'inlining 1/2', 'inlining 2/2'
+    ]);
+  });
+
+  it('should return content without images unchanged', async () => {
+    const plain: ChatContent = { messages: [{ sender: 'gemini', content: '<p>A</p>' }], timestamp: new Date() };
+
+    expect(await new ImageInliner().inlineImages(plain)).toBe(plain);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should keep the URL of images above the size cap', async () => {
+    fetchMock.mockImplementation(async () => imageResponse([new Uint8Array(2048)]));
+
+    const result = await new ImageInliner({ maxSizeKB: 1 }).inlineImages(content);
+
+    expect(result.messages[0].content).toContain('src="https://lh3.googleusercontent.com/a.png"');
+  });
+
+  it('should keep the URL when the image can be neither fetched nor drawn', async () => {
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+    vi.stubGlobal('Image', class {
+      onerror: (() => void) | null = null;
+      set src(_value: string) {
+        setTimeout(() => this.onerror?.(), 0);
+      }
+    });
+
+    const result = await new ImageInliner().inlineImages(content);
+
+    expect(result.messages[0].content).toContain('src="https://lh3.googleusercontent.com/a.png"');
+  });
+
+  it('should downscale images larger than the maximum dimension', async () => {
+    const close = vi.fn();
+    vi.stubGlobal('createImageBitmap', vi.fn(async () => ({ width: 3200, height: 1600, close })));
+    const drawImage = vi.fn();
+    vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue({ drawImage, fillRect: vi.fn() } as any);
+    vi.spyOn(HTMLCanvasElement.prototype, 'toBlob').mockImplementation(callback => callback(new Blob(['s'], { type: 'image/png' })));
+
+    const result = await new ImageInliner({ maxDimension: 1600 }).inlineImages(content);
+
+    expect(drawImage).toHaveBeenCalledWith(expect.anything(), 0, 0, 1600, 800);
+    expect(close).toHaveBeenCalled();
+    expect(result.messages[0].content).toContain(`src="data:image/png;base64,${btoa('s')}"`);
+  });
+
+  it('should stop when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(new ImageInliner().inlineImages(content, controller.signal)).rejects.toBeInstanceOf(ExportCancelledError);
+  });
+});
+
+describe('extractImageFiles', () => {
+  const inlined: ChatContent = {
+    messages: [{
+      sender: 'user',
+      content: `<p>Ảnh</p><img src="${PNG_DATA_URL}"><img src="https://example.com/b.jpg"><img src="data:image/svg+xml,%3Csvg%2F%3E">`,
+      attachments: [{ kind: 'image', name: 'a.png', imageData: PNG_DATA_URL }]
+    }],
+    timestamp: new Date()
+  };
+
+  it('should move data URI images into numbered files', () => {
+    const { content: linked, files } = extractImageFiles(inlined);
+
+    expect(linked.messages[0].content).toBe(
+      '<p>Ảnh</p><img src="images/image-001.png"><img src="https://example.com/b.jpg"><img src="images/image-002.svg">'
+    );
+    expect(linked.messages[0].attachments?.[0].imageData).toBe('images/image-001.png');
+    expect(Object.keys(files)).toEqual(['images/image-001.png', 'images/image-002.svg']);
+    expect(Array.from(files['images/image-001.png'].slice(0, 4))).toEqual([0x89, 0x50, 0x4e, 0x47]);
+    expect(strFromU8(files['images/image-002.svg'])).toBe('<svg/>');
+  });
+
+  it('should bundle the Markdown file with its images', async () => {
+    const bundle = new MarkdownGenerator().generateMarkdownBundle(inlined, 'Ảnh', 'anh.md');
+    const files = unzipSync(await readBlob(bundle));
+
+    expect(Object.keys(files).sort()).toEqual(['anh.md', 'images/image-001.png', 'images/image-002.svg']);
+    expect(strFromU8(files['anh.md'])).toContain('![a.png](images/image-001.png)');
+    expect(strFromU8(files['anh.md'])).not.toContain('base64');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit tests for JsonGenerator
+ * Tests the versioned JSON export document
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JsonGenerator } from '../../src/content/json-generator';
+import { JSON_EXPORT_SCHEMA, JSON_EXPORT_SCHEMA_VERSION, ChatExportDocument } from '../../src/content/json-export-schema';
+import { ChatContent } from '../../src/content/content-extractor';
+import { ExportProgress } from '../../src/content/export-progress';
+
+describe('JsonGenerator', () => {
+  let generator: JsonGenerator;
+
+  const content: ChatContent = {
+    messages: [
+      {
+        sender: 'user',
+        content: '<p>Phân tích biểu đồ này</p>',
+        timestamp: '10:30',
+        attachments: [
+          { kind: 'image', name: 'chart.png', mimeType: 'image/png', imageData: 'data:image/png;base64,AAAA' },
+          { kind: 'file', name: 'Q1.xlsx', size: 48230, thumbnail: 'https://lh3.googleusercontent.com/t.png' }
+        ]
+      },
+      {
+        sender: 'gemini',
+        content: '<p>Biểu đồ cho thấy <strong>doanh thu</strong> tăng.</p><pre><code>sum(x)</code></pre>',
+        metadata: { hasCodeBlock: true, hasTable: false, hasList: false }
+      }
+    ],
+    timestamp: new Date('2026-01-15T08:00:00.000Z')
+  };
+
+  beforeEach(() => {
+    generator = new JsonGenerator();
+  });
+
+  it('should write the schema identifier and version', () => {
+    const doc = generator.buildDocument(content, 'Báo cáo', 'https://business.gemini.google/chat/1');
+
+    expect(doc.schema).toBe(JSON_EXPORT_SCHEMA);
+    expect(doc.schemaVersion).toBe(JSON_EXPORT_SCHEMA_VERSION);
+    expect(doc.title).toBe('Báo cáo');
+    expect(doc.sourceUrl).toBe('https://business.gemini.google/chat/1');
+    expect(doc.extractedAt).toBe('2026-01-15T08:00:00.000Z');
+    expect(Number.isNaN(Date.parse(doc.exportedAt))).toBe(false);
+  });
+
+  it('should default the source URL to the current page', () => {
+    const doc = generator.buildDocument(content, 'Báo cáo');
+
+    expect(doc.sourceUrl).toBe(window.location.href);
+  });
+
+  it('should serialize messages with sender, timestamp, HTML and Markdown', () => {
+    const doc = generator.buildDocument(content, 'Báo cáo');
+
+    expect(doc.messages.map(message => message.sender)).toEqual(['user', 'gemini']);
+    expect(doc.messages.map(message => message.index)).toEqual([0, 1]);
+    expect(doc.messages[0].timestamp).toBe('10:30');
+    expect(doc.messages[1].timestamp).toBeNull();
+    expect(doc.messages[1].html).toBe(content.messages[1].content);
+    expect(doc.messages[1].markdown).toBe('Biểu đồ cho thấy **doanh thu** tăng.\n\n```\nsum(x)\n```');
+  });
+
+  it('should include per-message metadata and stats', () => {
+    const doc = generator.buildDocument(content, 'Báo cáo');
+
+    expect(doc.messages[0].metadata).toBeNull();
+    expect(doc.messages[1].metadata).toEqual({ hasCodeBlock: true, hasTable: false, hasList: false });
+    expect(doc.stats).toEqual({ totalMessages: 2, userMessages: 1, geminiMessages: 1 });
+  });
+
+  it('should list attached images and files', () => {
+    const doc = generator.buildDocument(content, 'Báo cáo');
+
+    expect(doc.messages[0].attachments).toEqual([
+      { kind: 'image', url: 'data:image/png;base64,AAAA', name: 'chart.png', mimeType: 'image/png', size: null, thumbnail: null },
+      { kind: 'file', url: null, name: 'Q1.xlsx', mimeType: null, size: 48230, thumbnail: 'https://lh3.googleusercontent.com/t.png' }
+    ]);
+    expect(doc.messages[1].attachments).toEqual([]);
+  });
+
+  it('should list the sources cited by Gemini', () => {
+    const cited: ChatContent = {
+      messages: [{
+        sender: 'gemini',
+        content: '<p>Doanh thu tăng<sup class="gemini-citation" data-citation="1">[1]</sup></p>',
+        citations: [{ index: 1, title: 'Báo cáo Q1', url: 'https://drive.google.com/q1' }, { index: 2, title: 'Ghi chú' }]
+      }],
+      timestamp: new Date()
+    };
+
+    const doc = generator.buildDocument(cited, 'Báo cáo');
+
+    expect(doc.messages[0].citations).toEqual([
+      { index: 1, title: 'Báo cáo Q1', url: 'https://drive.google.com/q1' },
+      { index: 2, title: 'Ghi chú', url: null }
+    ]);
+    expect(generator.buildDocument(content, 'Báo cáo').messages[0].citations).toEqual([]);
+  });
+
+  it('should generate pretty-printed JSON that parses back to the document', () => {
+    const json = generator.generateJSON(content, 'Báo cáo');
+    const parsed = JSON.parse(json) as ChatExportDocument;
+
+    expect(json).toContain('\n  "schema"');
+    expect(parsed.messages).toHaveLength(2);
+    expect(parsed.title).toBe('Báo cáo');
+  });
+
+  it('should report rendering progress for each message', () => {
+    const events: ExportProgress[] = [];
+    generator.onProgress(progress => events.push(progress));
+
+    generator.generateJSON(content, 'Báo cáo');
+
+    expect(events.map(event => `${event.stage} ${event.completed}/${event.total}`)).toEqual([
+      'rendering 0/2', 'rendering 1/2', 'rendering 2/2'
+    ]);
+    expect(events[2].percent).toBe(95);
+  });
+
+  it('should download the document as a .json file', () => {
+    const originalCreate = URL.createObjectURL;
+    URL.createObjectURL = vi.fn(() => 'blob:json');
+    const downloads: string[] = [];
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+
+    const events: ExportProgress[] = [];
+    generator.onProgress(progress => events.push(progress));
+
+    generator.downloadJSON('{}', 'chat.json');
+
+    expect(downloads).toEqual(['chat.json']);
+    expect(events.map(event => event.percent)).toEqual([95, 100]);
+    clickSpy.mockRestore();
+    URL.createObjectURL = originalCreate;
+  });
+});
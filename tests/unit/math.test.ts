@@ -0,0 +1,203 @@
+/**
+ * Unit tests for math
+ * Tests recovering TeX from rendered formulas and writing it in every export format
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeMathMarkers, prepareMathForCanvas, renderMathMarkers } from '../../src/content/math';
+import { texToMathML, texToText } from '../../src/content/math-render';
+import { htmlToMarkdown } from '../../src/content/html-to-markdown';
+import { htmlToBlocks } from '../../src/content/vector-pdf-renderer';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+
+const textOf = (tex: string) => texToText(tex).map(part => part.text).join('');
+
+describe('normalizeMathMarkers', () => {
+  it('should read the TeX annotation of KaTeX output', () => {
+    const html = '<p>Ta có <span class="katex"><span class="katex-mathml"><math><semantics><mrow><mi>x</mi></mrow>' +
+      '<annotation encoding="application/x-tex">x^2 + 1</annotation></semantics></math></span>' +
+      '<span class="katex-html" aria-hidden="true">x2+1</span></span>.</p>';
+
+    expect(normalizeMathMarkers(html)).toBe(
+      '<p>Ta có <span class="gemini-math" data-tex="x^2 + 1">x^2 + 1</span>.</p>'
+    );
+  });
+
+  it('should mark KaTeX display formulas as blocks', () => {
+    const html = '<span class="katex-display"><span class="katex"><math><semantics><mi>E</mi>' +
+      '<annotation encoding="application/x-tex">E = mc^2</annotation></semantics></math></span></span>';
+
+    expect(normalizeMathMarkers(html)).toBe(
+      '<div class="gemini-math" data-tex="E = mc^2" data-display="true">E = mc^2</div>'
+    );
+  });
+
+  it('should read data-math attributes', () => {
+    const html = '<span class="math-inline" data-math="\\alpha"><span>α</span></span>' +
+      '<div class="math-block" data-math="\\sum_{i=1}^n i"><span>∑</span></div>';
+    const container = document.createElement('div');
+    container.innerHTML = normalizeMathMarkers(html);
+
+    const markers = container.querySelectorAll<HTMLElement>('.gemini-math');
+    expect(markers).toHaveLength(2);
+    expect(markers[0].tagName).toBe('SPAN');
+    expect(markers[0].dataset.tex).toBe('\\alpha');
+    expect(markers[1].tagName).toBe('DIV');
+    expect(markers[1].dataset.display).toBe('true');
+  });
+
+  it('should read MathJax 2 scripts and drop their rendered output', () => {
+    const html = '<p>Nghiệm <span class="MathJax_Preview"></span><span class="MathJax">x</span>' +
+      '<script type="math/tex">x = \\frac{-b}{2a}</script></p>' +
+      '<span class="MathJax_Display">y</span><script type="math/tex; mode=display">y = 1</script>';
+
+    expect(normalizeMathMarkers(html)).toBe(
+      '<p>Nghiệm <span class="gemini-math" data-tex="x = \\frac{-b}{2a}">x = \\frac{-b}{2a}</span></p>' +
+      '<div class="gemini-math" data-tex="y = 1" data-display="true">y = 1</div>'
+    );
+  });
+
+  it('should rebuild TeX from MathML without an annotation', () => {
+    const html = '<mjx-container display="true"><math><mfrac><mi>a</mi><mrow><mi>b</mi><mo>+</mo><mn>1</mn></mrow>' +
+      '</mfrac><mo>≤</mo><msup><mi>π</mi><mn>2</mn></msup></math></mjx-container>';
+    const container = document.createElement('div');
+    container.innerHTML = normalizeMathMarkers(html);
+
+    const marker = container.querySelector<HTMLElement>('.gemini-math');
+    expect(marker?.dataset.tex).toBe('\\frac{a}{b+1}\\leq \\pi^2');
+    expect(marker?.dataset.display).toBe('true');
+  });
+
+  it('should return the HTML unchanged when it has no formulas', () => {
+    const html = '<p>Không có <code>$x$</code> công thức</p>';
+    expect(normalizeMathMarkers(html)).toBe(html);
+  });
+
+  it('should keep canonical markers as they are', () => {
+    const html = '<span class="gemini-math" data-tex="x">x</span>';
+    expect(normalizeMathMarkers(html)).toBe(html);
+  });
+});
+
+describe('texToMathML', () => {
+  it('should convert fractions, roots and scripts', () => {
+    expect(texToMathML('\\frac{1}{2} + \\sqrt{x_1^2}')).toBe(
+      '<math><semantics><mrow><mfrac><mn>1</mn><mn>2</mn></mfrac><mo>+</mo>' +
+      '<msqrt><msubsup><mi>x</mi><mn>1</mn><mn>2</mn></msubsup></msqrt></mrow>' +
+      '<annotation encoding="application/x-tex">\\frac{1}{2} + \\sqrt{x_1^2}</annotation></semantics></math>'
+    );
+  });
+
+  it('should put the limits of sums under and over the operator', () => {
+    const mathml = texToMathML('\\sum_{i=1}^{n} i', true);
+    expect(mathml).toMatch(/^<math display="block">/);
+    expect(mathml).toContain('<munderover><mo largeop="true">∑</mo><mrow><mi>i</mi><mo>=</mo><mn>1</mn></mrow><mi>n</mi></munderover>');
+  });
+
+  it('should convert matrices, delimiters, text and fonts', () => {
+    const mathml = texToMathML('\\left( \\begin{pmatrix} a & b \\\\ c & d \\end{pmatrix} \\right) \\text{với } \\mathbb{R}');
+    expect(mathml).toContain('<mtable><mtr><mtd><mi>a</mi></mtd><mtd><mi>b</mi></mtd></mtr><mtr><mtd><mi>c</mi></mtd><mtd><mi>d</mi></mtd></mtr></mtable>');
+    expect(mathml).toContain('<mo fence="true" stretchy="true">(</mo>');
+    expect(mathml).toContain('<mtext>với </mtext>');
+    expect(mathml).toContain('<mi>ℝ</mi>');
+  });
+
+  it('should keep unknown commands as text instead of failing', () => {
+    expect(texToMathML('\\unknown{x}')).toContain('<mtext>\\unknown</mtext>');
+    expect(texToMathML('\\frac{1')).toContain('<mfrac>');
+  });
+
+  it('should escape the TeX annotation', () => {
+    expect(texToMathML('a < b')).toContain('<mo>&lt;</mo>');
+    expect(texToMathML('a < b')).toContain('<annotation encoding="application/x-tex">a &lt; b</annotation>');
+  });
+});
+
+describe('texToText', () => {
+  it('should write scripts with Unicode characters', () => {
+    expect(textOf('x^2 + y_1^{n+1}')).toBe('x² + y₁ⁿ⁺¹');
+  });
+
+  it('should fall back to ^() when a script has no Unicode form', () => {
+    expect(textOf('e^{\\pi}')).toBe('e^π');
+    expect(textOf('2^{\\alpha \\beta}')).toBe('2^(αβ)');
+  });
+
+  it('should write fractions and roots on one line', () => {
+    expect(textOf('\\frac{a+b}{2}')).toBe('(a + b)/2');
+    expect(textOf('\\sqrt{x+1}')).toBe('√(x + 1)');
+    expect(textOf('\\sqrt[3]{8}')).toBe('³√8');
+  });
+
+  it('should write symbols, functions and spacing', () => {
+    expect(textOf('\\forall x \\in \\mathbb{R}, \\sin x \\leq 1')).toBe('∀x ∈ ℝ, sin x ≤ 1');
+    expect(textOf('-x')).toBe('−x');
+  });
+
+  it('should set single-letter variables in italics', () => {
+    expect(texToText('\\sin x')).toEqual([
+      { text: 'sin ', italic: false },
+      { text: 'x', italic: true }
+    ]);
+  });
+});
+
+describe('renderMathMarkers', () => {
+  it('should put MathML inside the markers', () => {
+    const html = renderMathMarkers('<p><span class="gemini-math" data-tex="x^2">x^2</span></p>');
+    expect(html).toBe(
+      '<p><span class="gemini-math" data-tex="x^2"><math><semantics><msup><mi>x</mi><mn>2</mn></msup>' +
+      '<annotation encoding="application/x-tex">x^2</annotation></semantics></math></span></p>'
+    );
+  });
+
+  it('should return HTML without markers unchanged', () => {
+    expect(renderMathMarkers('<p>x^2</p>')).toBe('<p>x^2</p>');
+  });
+});
+
+describe('prepareMathForCanvas', () => {
+  it('should draw fraction bars and radicals with borders', () => {
+    const html = prepareMathForCanvas(
+      `<html><head></head><body>${texToMathML('\\frac{1}{\\sqrt{2}}')}</body></html>`
+    );
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+
+    expect(doc.querySelector('mfrac')?.getAttribute('linethickness')).toBe('0');
+    expect(doc.querySelector('mfrac')?.classList.contains('canvas-fraction')).toBe(true);
+    expect(doc.querySelector('msqrt')).toBeNull();
+    expect(doc.querySelector('.canvas-radicand')?.textContent).toBe('2');
+    expect(doc.head.querySelector('style')?.textContent).toContain('.canvas-radicand');
+  });
+});
+
+describe('math in exports', () => {
+  const html = '<p>Diện tích <span class="gemini-math" data-tex="\\pi r^2">\\pi r^2</span> m²</p>' +
+    '<div class="gemini-math" data-tex="\\int_0^1 x\\,dx = \\frac{1}{2}" data-display="true">…</div>';
+
+  it('should write $...$ and $$...$$ in Markdown', () => {
+    expect(htmlToMarkdown(html)).toBe(
+      'Diện tích $\\pi r^2$ m²\n\n$$\n\\int_0^1 x\\,dx = \\frac{1}{2}\n$$'
+    );
+  });
+
+  it('should write formulas as text runs in the vector PDF', () => {
+    const blocks = htmlToBlocks(html);
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({ type: 'paragraph', indent: 0 });
+    expect(blocks[0].type === 'paragraph' && blocks[0].runs.map(run => run.text).join('')).toBe('Diện tích πr² m²');
+    expect(blocks[1]).toMatchObject({ type: 'paragraph', indent: 1 });
+    expect(blocks[1].type === 'paragraph' && blocks[1].runs.map(run => run.text).join('')).toBe('∫₀¹ x dx = 1/2');
+  });
+
+  it('should render MathML in the styled PDF/HTML document', () => {
+    const styled = new PDFGenerator().applyStyles({
+      messages: [{ sender: 'gemini', content: html }],
+      timestamp: new Date()
+    });
+
+    expect(styled).toContain('<div class="gemini-math" data-tex="\\int_0^1 x\\,dx = \\frac{1}{2}" data-display="true"><math display="block">');
+    expect(styled).toContain("font-family: 'DejaVu Math TeX Gyre'");
+  });
+});
@@ -4,8 +4,10 @@
  * Tests finding and expanding collapsed messages in chat
  */
 
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MessageExpander } from '../../src/content/message-expander';
+import { ExportProgress } from '../../src/content/export-progress';
+import { ExportCancelledError } from '../../src/utils/error-handler';
 
 describe('MessageExpander', () => {
   let expander: MessageExpander;
@@ -507,6 +509,63 @@ describe('MessageExpander', () => {
       expect(result.errors).toEqual([]);
     });
 
+    it('should report progress after each message', async () => {
+      document.body.innerHTML = `
+        <div class="chat-container">
+          <div class="message collapsed" id="msg1">Collapsed 1</div>
+          <div class="message collapsed" id="msg2">Collapsed 2</div>
+        </div>
+      `;
+      ['msg1', 'msg2'].forEach(id => {
+        const message = document.getElementById(id)!;
+        message.addEventListener('click', () => message.classList.remove('collapsed'));
+      });
+      const events: ExportProgress[] = [];
+      expander.onProgress(progress => events.push(progress));
+
+      await expander.expandAllMessages();
+
+      expect(events).toEqual([
+        { stage: 'expanding', completed: 0, total: 2, percent: 0 },
+        { stage: 'expanding', completed: 1, total: 2, percent: 20 },
+        { stage: 'expanding', completed: 2, total: 2, percent: 40 }
+      ]);
+    });
+
+    it('should report a finished stage when nothing is collapsed', async () => {
+      const events: ExportProgress[] = [];
+      expander.onProgress(progress => events.push(progress));
+
+      await expander.expandAllMessages();
+
+      expect(events).toEqual([{ stage: 'expanding', completed: 0, total: 0, percent: 40 }]);
+    });
+
+    it('should stop before the next message when cancelled and restore the scroll position', async () => {
+      document.body.innerHTML = `
+        <div class="chat-container">
+          <div class="message collapsed" id="msg1">Collapsed 1</div>
+          <div class="message collapsed" id="msg2">Collapsed 2</div>
+        </div>
+      `;
+      const controller = new AbortController();
+      const msg1 = document.getElementById('msg1')!;
+      const msg2 = document.getElementById('msg2')!;
+      const msg2Click = vi.fn();
+      msg1.addEventListener('click', () => {
+        msg1.classList.remove('collapsed');
+        controller.abort();
+      });
+      msg2.addEventListener('click', msg2Click);
+      const scrollTo = vi.spyOn(window, 'scrollTo').mockImplementation(() => {});
+
+      await expect(expander.expandAllMessages(controller.signal)).rejects.toBeInstanceOf(ExportCancelledError);
+
+      expect(msg2Click).not.toHaveBeenCalled();
+      expect(scrollTo).toHaveBeenCalledWith(window.scrollX, window.scrollY);
+      scrollTo.mockRestore();
+    });
+
     it('should handle errors gracefully and continue with other messages', async () => {
       // Setup: create DOM with 3 collapsed messages, one will fail
       document.body.innerHTML = `
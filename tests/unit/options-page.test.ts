@@ -0,0 +1,231 @@
+/**
+ * Unit tests for OptionsPage
+ * Uses the real options.html form
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { OptionsPage } from '../../src/options/options-page';
+import { DEFAULT_SETTINGS, SETTINGS_STORAGE_KEY } from '../../src/utils/settings';
+import { stubChromeStorage, ChromeStorageStub } from '../helpers/chrome-storage';
+
+const OPTIONS_HTML = readFileSync(resolve(__dirname, '../../src/options/options.html'), 'utf-8');
+
+describe('OptionsPage', () => {
+  let storage: ChromeStorageStub;
+  let form: HTMLFormElement;
+
+  const field = (name: string) => form.querySelector(`[name="${name}"]`) as HTMLInputElement | HTMLSelectElement;
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  beforeEach(async () => {
+    storage = stubChromeStorage({
+      [SETTINGS_STORAGE_KEY]: { defaultFormat: 'pdf', pdf: { format: 'Letter', fontSize: '11pt' } }
+    });
+    document.body.innerHTML = new DOMParser().parseFromString(OPTIONS_HTML, 'text/html').body.innerHTML;
+    form = document.getElementById('settings-form') as HTMLFormElement;
+    await new OptionsPage(form).initialize();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('should fill the form from the saved settings', () => {
+    expect(Array.from((field('defaultFormat') as HTMLSelectElement).options).map(option => option.value))
+      .toEqual(['pdf', 'markdown', 'html', 'json']);
+    expect(field('defaultFormat').value).toBe('pdf');
+    expect(field('pdf.format').value).toBe('Letter');
+    expect(field('pdf.fontSize').value).toBe('11pt');
+    expect(field('pdf.margin.left').value).toBe(DEFAULT_SETTINGS.pdf.margin.left);
+    expect(field('pdf.userMessageBg').value).toBe(DEFAULT_SETTINGS.pdf.userMessageBg);
+  });
+
+  it('should save the edited settings', async () => {
+    field('defaultFormat').value = 'json';
+    field('filenamePattern').value = '{timestamp}_{title}';
+    field('pdf.lineHeight').value = '1.8';
+    field('pdf.renderer').value = 'vector';
+    field('pdf.codeTheme').value = 'dark';
+    (field('pdf.codeLineNumbers') as HTMLInputElement).checked = true;
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({
+      defaultFormat: 'json',
+      filenamePattern: '{timestamp}_{title}',
+      pdf: { format: 'Letter', lineHeight: 1.8, renderer: 'vector', codeTheme: 'dark', codeLineNumbers: true }
+    });
+    expect(document.getElementById('status')?.textContent).toBe('Đã lưu cài đặt');
+  });
+
+  it('should save the image options', async () => {
+    expect((field('images.inline') as HTMLInputElement).checked).toBe(true);
+    expect(field('images.maxDimension').value).toBe(String(DEFAULT_SETTINGS.images.maxDimension));
+
+    (field('images.markdownSidecar') as HTMLInputElement).checked = true;
+    field('images.maxSizeKB').value = '500';
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({
+      images: { inline: true, maxSizeKB: 500, markdownSidecar: true }
+    });
+  });
+
+  it('should restore the defaults', async () => {
+    (document.getElementById('reset') as HTMLButtonElement).click();
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toEqual(DEFAULT_SETTINGS);
+    expect(field('pdf.format').value).toBe('A4');
+  });
+
+  it('should preview the filename template for the default format', () => {
+    const input = field('filenamePattern') as HTMLInputElement;
+    input.value = '{title}_{turns}-luot.{ext}';
+    input.dispatchEvent(new Event('input'));
+
+    expect(document.getElementById('filename-preview')?.textContent).toBe('Ví dụ: Kế_hoạch_dự_án_Q3_6-luot.pdf');
+    expect(form.querySelectorAll('#filename-tokens dt').length).toBeGreaterThan(0);
+  });
+
+  it('should show template errors and refuse to save', async () => {
+    const input = field('filenamePattern') as HTMLInputElement;
+    input.value = '{title}_{author}';
+    input.dispatchEvent(new Event('input'));
+
+    expect(document.getElementById('filename-preview')?.textContent).toBe('Token không hợp lệ: {author}');
+    expect(input.validity.valid).toBe(false);
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).not.toHaveProperty('filenamePattern');
+    expect(document.getElementById('status')?.textContent).toBe('Mẫu tên file không hợp lệ');
+  });
+
+  it('should save the page header, footer and confidentiality label', async () => {
+    expect(field('pdf.header').value).toBe('{label}');
+    expect(field('pdf.footer').value).toBe('{page} / {pages}');
+    expect(form.querySelectorAll('#page-template-tokens dt')).toHaveLength(5);
+
+    field('pdf.header').value = '{title}|{date:DD/MM/YYYY}';
+    field('pdf.confidentialityLabel').value = 'Mật';
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({
+      pdf: { header: '{title}|{date:DD/MM/YYYY}', footer: '{page} / {pages}', confidentialityLabel: 'Mật' }
+    });
+  });
+
+  it('should show page template errors and refuse to save', async () => {
+    const input = field('pdf.footer') as HTMLInputElement;
+    input.value = '{page}|{pages}|{title}|{label}';
+    input.dispatchEvent(new Event('input'));
+
+    expect(document.getElementById('page-template-help')?.textContent).toBe('Tối đa 3 phần, phân cách bằng |');
+    expect(input.validity.valid).toBe(false);
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).not.toHaveProperty('pdf.footer');
+    expect(document.getElementById('status')?.textContent).toBe('Đầu trang hoặc chân trang không hợp lệ');
+  });
+
+  it('should save the redaction options', async () => {
+    expect((field('redaction.enabled') as HTMLInputElement).checked).toBe(true);
+    expect((field('redaction.kinds.apiKey') as HTMLInputElement).checked).toBe(true);
+    expect((field('redaction.confirm') as HTMLInputElement).checked).toBe(true);
+
+    (field('redaction.kinds.phone') as HTMLInputElement).checked = false;
+    (field('redaction.confirm') as HTMLInputElement).checked = false;
+    field('redaction.customPatterns').value = 'dự án \\w+\n\nHĐ-\\d{6}';
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({
+      redaction: {
+        enabled: true,
+        kinds: ['email', 'apiKey', 'creditCard', 'nationalId'],
+        customPatterns: ['dự án \\w+', 'HĐ-\\d{6}'],
+        confirm: false
+      }
+    });
+    expect(field('redaction.customPatterns').value).toBe('dự án \\w+\nHĐ-\\d{6}');
+  });
+
+  it('should show invalid redaction patterns and refuse to save', async () => {
+    const input = form.querySelector('[name="redaction.customPatterns"]') as HTMLTextAreaElement;
+    input.value = 'mã \\d{4}\n(';
+    input.dispatchEvent(new Event('input'));
+
+    expect(document.getElementById('redaction-pattern-help')?.textContent).toBe('Biểu thức chính quy không hợp lệ: (');
+    expect(input.validity.valid).toBe(false);
+
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).not.toHaveProperty('redaction');
+    expect(document.getElementById('status')?.textContent).toBe('Biểu thức ẩn dữ liệu không hợp lệ');
+  });
+
+  it('should save the classification', async () => {
+    const select = field('classification') as HTMLSelectElement;
+    expect(Array.from(select.options).map(option => option.textContent))
+      .toEqual(['Không phân loại', 'Công khai', 'Nội bộ', 'Mật', 'Hạn chế']);
+
+    select.value = 'confidential';
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({ classification: 'confidential' });
+    expect(field('classification').value).toBe('confidential');
+  });
+
+  it('should show the administrator\'s default classification', async () => {
+    stubChromeStorage({}, { defaultClassification: 'internal' });
+    await new OptionsPage(form).initialize();
+
+    const select = field('classification') as HTMLSelectElement;
+    expect(select.value).toBe('');
+    expect(select.options[0].textContent).toBe('Mặc định của tổ chức (Nội bộ)');
+  });
+
+  it('should show the page in the chosen language', () => {
+    const language = field('language') as HTMLSelectElement;
+    expect(Array.from(language.options).map(option => option.value)).toEqual(['auto', 'en', 'vi']);
+    expect(document.querySelector('h1')?.textContent).toBe('Cài đặt xuất cuộc trò chuyện');
+
+    language.value = 'en';
+    language.dispatchEvent(new Event('change'));
+
+    expect(document.documentElement.lang).toBe('en');
+    expect(document.querySelector('h1')?.textContent).toBe('Conversation export settings');
+    expect(form.querySelector('#filename-tokens dd')?.textContent).toBe('Conversation title');
+    expect(document.getElementById('filename-preview')?.textContent).toBe('Example: Q3_project_plan.pdf');
+  });
+
+  it('should save the language', async () => {
+    field('language').value = 'en';
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await flush();
+
+    expect(storage.data[SETTINGS_STORAGE_KEY]).toMatchObject({ language: 'en' });
+    expect(document.getElementById('status')?.textContent).toBe('Settings saved');
+  });
+
+  it('should refresh when settings change elsewhere', () => {
+    storage.set({ [SETTINGS_STORAGE_KEY]: { defaultFormat: 'html' } });
+
+    expect(field('defaultFormat').value).toBe('html');
+  });
+});
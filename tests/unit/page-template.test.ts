@@ -0,0 +1,114 @@
+/**
+ * Unit tests for page header and footer templates
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { jsPDF } from 'jspdf';
+import {
+  DEFAULT_PAGE_FOOTER,
+  DEFAULT_PAGE_HEADER,
+  PageTemplateContext,
+  drawPageTemplates,
+  pageTemplates,
+  pageTemplatesNeedUnicode,
+  renderPageTemplate,
+  validatePageTemplate
+} from '../../src/content/page-template';
+import { DEFAULT_PDF_OPTIONS } from '../../src/content/pdf-options';
+import { formatDateTime } from '../../src/utils/i18n';
+
+const context: PageTemplateContext = {
+  title: 'Báo cáo',
+  date: new Date(2024, 11, 31, 23, 5, 9),
+  label: 'Mật',
+  page: 2,
+  pages: 7
+};
+
+describe('page templates', () => {
+  describe('validatePageTemplate', () => {
+    it('should accept known tokens, free date formats and empty templates', () => {
+      expect(validatePageTemplate('{title}|{label}|Trang {page} / {pages}')).toEqual([]);
+      expect(validatePageTemplate('{date} {date:DD/MM/YYYY HH:mm}')).toEqual([]);
+      expect(validatePageTemplate('')).toEqual([]);
+    });
+
+    it('should report unknown tokens, arguments and unbalanced braces', () => {
+      expect(validatePageTemplate('{author}')).toEqual(['Token không hợp lệ: {author}']);
+      expect(validatePageTemplate('{page:2}')).toEqual(['Token {page} không nhận tham số']);
+      expect(validatePageTemplate('{date:abc}')).toHaveLength(1);
+      expect(validatePageTemplate('{title')).toEqual(['Dấu ngoặc { } không khớp']);
+    });
+
+    it('should allow at most three sections', () => {
+      expect(validatePageTemplate('a|b|c|d')).toEqual(['Tối đa 3 phần, phân cách bằng |']);
+    });
+  });
+
+  describe('renderPageTemplate', () => {
+    it('should center a single section', () => {
+      expect(renderPageTemplate('Trang {page} / {pages}', context)).toEqual({ left: '', center: 'Trang 2 / 7', right: '' });
+    });
+
+    it('should align two sections left and right, three left, center and right', () => {
+      expect(renderPageTemplate('{title}|{label}', context)).toEqual({ left: 'Báo cáo', center: '', right: 'Mật' });
+      expect(renderPageTemplate(' {title} | {label} | {page} ', context)).toEqual({ left: 'Báo cáo', center: 'Mật', right: '2' });
+    });
+
+    it('should format the export date', () => {
+      expect(renderPageTemplate('{date:DD/MM/YYYY HH:mm}', context).center).toBe('31/12/2024 23:05');
+      expect(renderPageTemplate('{date}', context).center).toBe(formatDateTime(context.date));
+    });
+
+    it('should render an empty label as nothing', () => {
+      expect(renderPageTemplate(DEFAULT_PAGE_HEADER, { ...context, label: '' }).center).toBe('');
+    });
+  });
+
+  it('should use the default templates unless configured', () => {
+    expect(pageTemplates(DEFAULT_PDF_OPTIONS)).toEqual({ header: DEFAULT_PAGE_HEADER, footer: DEFAULT_PAGE_FOOTER });
+    expect(pageTemplates({ ...DEFAULT_PDF_OPTIONS, header: '', footer: '{page}' })).toEqual({ header: '', footer: '{page}' });
+  });
+
+  it('should detect text the standard PDF fonts cannot draw', () => {
+    const templates = { header: '{title}', footer: DEFAULT_PAGE_FOOTER };
+
+    expect(pageTemplatesNeedUnicode(templates, { ...context, title: 'Café report' })).toBe(false);
+    expect(pageTemplatesNeedUnicode(templates, { ...context, title: 'Kế hoạch' })).toBe(true);
+  });
+
+  describe('drawPageTemplates', () => {
+    it('should draw the header and footer in the margins of every page', () => {
+      const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+      doc.addPage();
+      doc.addPage();
+      const text = vi.spyOn(doc, 'text');
+
+      drawPageTemplates(doc, { header: '{label}', footer: '{page} / {pages}' }, { ...context, label: 'Internal' }, {
+        font: 'helvetica',
+        fontSize: 8,
+        margin: { top: 20, right: 20, bottom: 10, left: 20 }
+      });
+
+      const drawn = text.mock.calls.map(call => [call[0], Math.round(call[1]), Math.round(call[2])]);
+      expect(drawn).toEqual([
+        ['Internal', 105, 10], ['1 / 3', 105, 292],
+        ['Internal', 105, 10], ['2 / 3', 105, 292],
+        ['Internal', 105, 10], ['3 / 3', 105, 292]
+      ]);
+    });
+
+    it('should draw nothing with empty templates', () => {
+      const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+      const text = vi.spyOn(doc, 'text');
+
+      drawPageTemplates(doc, { header: '', footer: ' ' }, context, {
+        font: 'helvetica',
+        fontSize: 8,
+        margin: { top: 20, right: 20, bottom: 20, left: 20 }
+      });
+
+      expect(text).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -3,7 +3,7 @@
  * Tests specific examples, edge cases, and error conditions
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PDFGenerator, PDFOptions } from '../../src/content/pdf-generator';
 import { ChatContent, Message } from '../../src/content/content-extractor';
 
@@ -569,11 +569,37 @@ describe('PDFGenerator', () => {
       const html = generator.applyStyles(content);
 
       // Verify code block is preserved
-      expect(html).toContain('<pre><code>');
+      expect(html).toContain('<pre class="highlighted-code"><code>');
       expect(html).toContain('function test()');
       expect(html).toContain('</code></pre>');
     });
 
+    it('should highlight code blocks with the code theme', () => {
+      const generator = new PDFGenerator({ codeTheme: 'dark', codeLineNumbers: true });
+      const content: ChatContent = {
+        messages: [{ sender: 'gemini', content: '<pre><code class="language-js">return true;</code></pre>' }],
+        timestamp: new Date()
+      };
+
+      const html = generator.applyStyles(content);
+
+      expect(html).toContain(
+        '<code class="language-js"><span class="code-line-number">1</span><span class="tok-keyword">return</span> '
+        + '<span class="tok-literal">true</span>;</code>'
+      );
+      expect(html).toContain('.message-content pre.highlighted-code { background-color: #282c34;');
+    });
+
+    it('should keep plain code blocks with the "none" code theme', () => {
+      const generator = new PDFGenerator({ codeTheme: 'none' });
+      const content: ChatContent = {
+        messages: [{ sender: 'gemini', content: '<pre><code class="language-js">return true;</code></pre>' }],
+        timestamp: new Date()
+      };
+
+      expect(generator.applyStyles(content)).toContain('<pre><code class="language-js">return true;</code></pre>');
+    });
+
     it('should handle messages with tables', () => {
       const generator = new PDFGenerator();
       const content: ChatContent = {
@@ -891,6 +917,20 @@ describe('PDFGenerator', () => {
         expect(appliedTitle).toBe('my-chat');
       });
 
+      it('should use the chat title rather than the templated filename when given', async () => {
+        const generator = new PDFGenerator();
+        const content: ChatContent = {
+          messages: [],
+          timestamp: new Date()
+        };
+        generator.downloadPDF = () => {};
+        const createPDFBlob = vi.spyOn(generator, 'createPDFBlob').mockResolvedValue(new Blob());
+
+        await generator.generatePDF(content, '20240315_Chat_6.pdf', 'Chat 6');
+
+        expect(createPDFBlob).toHaveBeenCalledWith(content, 'Chat 6', undefined);
+      });
+
       it('should call downloadPDF with blob and filename', async () => {
         const generator = new PDFGenerator();
         const content: ChatContent = {
@@ -953,7 +993,7 @@ describe('PDFGenerator', () => {
 
         expect(appliedHtml).toBeDefined();
         expect(appliedHtml).toContain('<strong>Bold</strong>');
-        expect(appliedHtml).toContain('<pre><code>code block</code></pre>');
+        expect(appliedHtml).toContain('<pre class="highlighted-code"><code>code block</code></pre>');
         expect(appliedHtml).toContain('<ul><li>Item 1</li>');
       });
 
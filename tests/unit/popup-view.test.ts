@@ -0,0 +1,153 @@
+/**
+ * Unit tests for PopupView
+ * Uses the real popup.html markup
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { PopupView } from '../../src/popup/popup-view';
+import { ConversationStatus, ExportRequest, ExportResponse, StatusRequest } from '../../src/utils/messaging';
+import { stubChromeStorage } from '../helpers/chrome-storage';
+
+const POPUP_HTML = readFileSync(resolve(__dirname, '../../src/popup/popup.html'), 'utf-8');
+
+const GEMINI_TAB = { id: 3, url: 'https://business.gemini.google/home/cid/abc/r/session/1' };
+
+describe('PopupView', () => {
+  let status: ConversationStatus | undefined;
+  let exportResponse: ExportResponse | undefined;
+  let sendMessage: Mock<[tabId: number, message: ExportRequest | StatusRequest], Promise<ConversationStatus | ExportResponse | undefined>>;
+  let onMessage: (message: unknown, sender: chrome.runtime.MessageSender, sendResponse: () => void) => void;
+  let root: HTMLElement;
+
+  const field = (name: string) => root.querySelector(`[name="${name}"]`) as HTMLInputElement;
+  const text = (selector: string) => root.querySelector(selector)?.textContent;
+
+  const open = async (tab: { id?: number; url?: string } = GEMINI_TAB) => {
+    (chrome.tabs.query as ReturnType<typeof vi.fn>).mockResolvedValue([tab]);
+    document.body.innerHTML = new DOMParser().parseFromString(POPUP_HTML, 'text/html').body.innerHTML;
+    root = document.getElementById('popup') as HTMLElement;
+    const view = new PopupView(root);
+    await view.initialize();
+    return view;
+  };
+
+  beforeEach(() => {
+    status = { title: 'Kế hoạch Q3', turnCount: 6, format: 'html', exporting: false };
+    exportResponse = { accepted: true };
+    sendMessage = vi.fn(async (_tabId: number, message: ExportRequest | StatusRequest) =>
+      message.type === 'get-status' ? status : exportResponse);
+
+    stubChromeStorage();
+    Object.assign(chrome, {
+      tabs: { query: vi.fn(), sendMessage },
+      runtime: {
+        openOptionsPage: vi.fn(),
+        onMessage: { addListener: vi.fn(listener => { onMessage = listener; }), removeListener: vi.fn() }
+      }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('should show the conversation reported by the content script', async () => {
+    await open();
+
+    expect((root.querySelector('#export-form') as HTMLFormElement).hidden).toBe(false);
+    expect(text('#conversation-title')).toBe('Kế hoạch Q3');
+    expect(text('#turn-count')).toBe('6 lượt');
+    expect(field('format').value).toBe('html');
+    expect(field('to').value).toBe('6');
+  });
+
+  it('should explain when the active tab is not Gemini Business', async () => {
+    await open({ id: 4, url: 'https://example.com/' });
+
+    expect((root.querySelector('#message') as HTMLElement).hidden).toBe(false);
+    expect(text('#message')).toBe('Mở một cuộc trò chuyện Gemini Business để xuất.');
+    expect((root.querySelector('#export-form') as HTMLFormElement).hidden).toBe(true);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should ask to reload when the content script does not answer', async () => {
+    status = undefined;
+
+    await open();
+
+    expect(text('#message')).toBe('Tải lại trang Gemini Business để dùng extension.');
+  });
+
+  it('should export the chosen format and turns', async () => {
+    const view = await open();
+    field('format').value = 'json';
+    field('from').value = '2';
+    field('from').dispatchEvent(new Event('input'));
+    field('to').value = '4';
+
+    await view.startExport();
+
+    expect(sendMessage).toHaveBeenLastCalledWith(3, { type: 'export', format: 'json', turns: { from: 2, to: 4 } });
+    expect((root.querySelector('button[type="submit"]') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('should export the whole conversation by default and clamp ranges', async () => {
+    const view = await open();
+
+    expect(view.readRange()).toBeUndefined();
+
+    (root.querySelector('input[name="range"][value="turns"]') as HTMLInputElement).checked = true;
+    field('from').value = '9';
+    field('to').value = '0';
+    expect(view.readRange()).toEqual({ from: 1, to: 6 });
+  });
+
+  it('should show live progress of the export in this tab', async () => {
+    await open();
+    const sender = { tab: { id: 3 } } as chrome.runtime.MessageSender;
+
+    const progress = { stage: 'rendering', completed: 1, total: 2, percent: 78 };
+    onMessage({ type: 'export-progress', stage: 'rendering', format: 'pdf', progress }, sender, () => {});
+    expect(text('#status')).toBe('Đang tạo file PDF…');
+    expect((root.querySelector('progress') as HTMLProgressElement).hidden).toBe(false);
+    expect((root.querySelector('progress') as HTMLProgressElement).value).toBe(78);
+
+    onMessage({ type: 'export-progress', stage: 'downloading', format: 'pdf' }, sender, () => {});
+    expect(text('#status')).toBe('Đang tải xuống…');
+
+    onMessage({ type: 'export-progress', stage: 'done', format: 'pdf' }, { tab: { id: 9 } } as chrome.runtime.MessageSender, () => {});
+    expect(text('#status')).toBe('Đang tải xuống…');
+
+    onMessage({ type: 'export-progress', stage: 'done', format: 'pdf' }, sender, () => {});
+    expect(text('#status')).toBe('Đã xuất PDF thành công!');
+    expect((root.querySelector('progress') as HTMLProgressElement).hidden).toBe(true);
+  });
+
+  it('should report failures, cancellations and exports already running', async () => {
+    const view = await open();
+    const sender = { tab: { id: 3 } } as chrome.runtime.MessageSender;
+
+    onMessage({ type: 'export-progress', stage: 'failed', format: 'pdf', error: 'Boom' }, sender, () => {});
+    expect(text('#status')).toBe('Không thể xuất PDF: Boom');
+    expect(root.querySelector('#status')?.classList.contains('error')).toBe(true);
+
+    onMessage({ type: 'export-progress', stage: 'cancelled', format: 'pdf' }, sender, () => {});
+    expect(text('#status')).toBe('Đã hủy xuất');
+    expect(root.querySelector('#status')?.classList.contains('error')).toBe(false);
+
+    exportResponse = { accepted: false };
+    await view.startExport();
+    expect(text('#status')).toBe('Đang có một lượt xuất trong tab này');
+  });
+
+  it('should open the options page', async () => {
+    await open();
+
+    (root.querySelector('#open-options') as HTMLAnchorElement).click();
+
+    expect(chrome.runtime.openOptionsPage).toHaveBeenCalled();
+  });
+});
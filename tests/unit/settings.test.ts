@@ -0,0 +1,152 @@
+/**
+ * Unit tests for the extension settings stored in chrome.storage.sync
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_STORAGE_KEY,
+  loadManagedPolicy,
+  loadSettings,
+  normalizeSettings,
+  onSettingsChanged,
+  resolveClassification,
+  saveSettings
+} from '../../src/utils/settings';
+import { stubChromeStorage } from '../helpers/chrome-storage';
+
+describe('settings', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('normalizeSettings', () => {
+    it('should return the defaults for missing data', () => {
+      expect(normalizeSettings(undefined)).toEqual(DEFAULT_SETTINGS);
+      expect(normalizeSettings('garbage')).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should merge partial settings with the defaults', () => {
+      const settings = normalizeSettings({ defaultFormat: 'pdf', pdf: { format: 'Letter', margin: { top: '10mm' } } });
+
+      expect(settings.defaultFormat).toBe('pdf');
+      expect(settings.pdf.format).toBe('Letter');
+      expect(settings.pdf.margin).toEqual({ ...DEFAULT_SETTINGS.pdf.margin, top: '10mm' });
+      expect(settings.pdf.fontSize).toBe(DEFAULT_SETTINGS.pdf.fontSize);
+    });
+
+    it('should drop invalid values', () => {
+      const settings = normalizeSettings({
+        language: 'fr',
+        defaultFormat: 'docx',
+        filenamePattern: '  ',
+        pdf: { format: 'A3', lineHeight: -1, renderer: 'svg', fontSize: 12 }
+      });
+
+      expect(settings.language).toBe(DEFAULT_SETTINGS.language);
+      expect(settings.defaultFormat).toBe(DEFAULT_SETTINGS.defaultFormat);
+      expect(settings.filenamePattern).toBe(DEFAULT_SETTINGS.filenamePattern);
+      expect(settings.pdf.format).toBe(DEFAULT_SETTINGS.pdf.format);
+      expect(settings.pdf.lineHeight).toBe(DEFAULT_SETTINGS.pdf.lineHeight);
+      expect(settings.pdf.fontSize).toBe(DEFAULT_SETTINGS.pdf.fontSize);
+      expect(settings.pdf).not.toHaveProperty('renderer');
+    });
+
+    it('should keep a supported language', () => {
+      expect(normalizeSettings({ language: 'en' }).language).toBe('en');
+    });
+
+    it('should keep valid image options and drop invalid ones', () => {
+      expect(normalizeSettings({ images: { inline: false, maxSizeKB: 512, maxDimension: 0, markdownSidecar: true } }).images)
+        .toEqual({ inline: false, maxSizeKB: 512, maxDimension: 0, markdownSidecar: true });
+      expect(normalizeSettings({ images: { inline: 'no', maxSizeKB: 0, maxDimension: 1.5 } }).images)
+        .toEqual(DEFAULT_SETTINGS.images);
+    });
+
+    it('should keep a valid renderer', () => {
+      expect(normalizeSettings({ pdf: { renderer: 'vector' } }).pdf.renderer).toBe('vector');
+    });
+
+    it('should keep valid code highlighting options', () => {
+      expect(normalizeSettings({ pdf: { codeTheme: 'dark', codeLineNumbers: true } }).pdf)
+        .toMatchObject({ codeTheme: 'dark', codeLineNumbers: true });
+
+      const invalid = normalizeSettings({ pdf: { codeTheme: 'monokai', codeLineNumbers: 'yes' } }).pdf;
+      expect(invalid).not.toHaveProperty('codeTheme');
+      expect(invalid).not.toHaveProperty('codeLineNumbers');
+    });
+
+    it('should keep valid page templates and the confidentiality label', () => {
+      expect(normalizeSettings({ pdf: { header: ' {title}|{label} ', footer: '', confidentialityLabel: ' Nội bộ ' } }).pdf)
+        .toMatchObject({ header: '{title}|{label}', footer: '', confidentialityLabel: 'Nội bộ' });
+
+      const invalid = normalizeSettings({ pdf: { header: '{author}', footer: 'a|b|c|d', confidentialityLabel: 1 } }).pdf;
+      expect(invalid).not.toHaveProperty('header');
+      expect(invalid).not.toHaveProperty('footer');
+      expect(invalid).not.toHaveProperty('confidentialityLabel');
+    });
+
+    it('should keep valid redaction options', () => {
+      expect(normalizeSettings({
+        redaction: { enabled: false, kinds: ['email', 'ssn', 'phone'], customPatterns: ['mã \\d{4}', '(', 'x*', 3], confirm: false }
+      }).redaction).toEqual({ enabled: false, kinds: ['email', 'phone'], customPatterns: ['mã \\d{4}'], confirm: false });
+
+      expect(normalizeSettings({ redaction: { enabled: 'yes', kinds: 'email' } }).redaction).toEqual(DEFAULT_SETTINGS.redaction);
+    });
+  });
+
+  describe('classification', () => {
+    it('should keep a valid classification', () => {
+      expect(normalizeSettings({ classification: 'internal' }).classification).toBe('internal');
+      expect(normalizeSettings({ classification: 'secret' })).not.toHaveProperty('classification');
+    });
+
+    it('should load the default classification set by the administrator', async () => {
+      expect(await loadManagedPolicy()).toEqual({});
+
+      stubChromeStorage({}, { defaultClassification: 'confidential' });
+      expect(await loadManagedPolicy()).toEqual({ defaultClassification: 'confidential' });
+
+      stubChromeStorage({}, { defaultClassification: 'top-secret' });
+      expect(await loadManagedPolicy()).toEqual({});
+    });
+
+    it('should prefer the classification chosen by the user', () => {
+      const policy = { defaultClassification: 'confidential' as const };
+
+      expect(resolveClassification(DEFAULT_SETTINGS, policy)).toBe('confidential');
+      expect(resolveClassification({ ...DEFAULT_SETTINGS, classification: 'public' }, policy)).toBe('public');
+      expect(resolveClassification(DEFAULT_SETTINGS, {})).toBeUndefined();
+    });
+  });
+
+  describe('storage', () => {
+    it('should use the defaults when chrome.storage is unavailable', async () => {
+      expect(await loadSettings()).toEqual(DEFAULT_SETTINGS);
+    });
+
+    it('should load and save settings under one key', async () => {
+      const storage = stubChromeStorage({ [SETTINGS_STORAGE_KEY]: { defaultFormat: 'html' } });
+
+      expect((await loadSettings()).defaultFormat).toBe('html');
+
+      const saved = await saveSettings({ ...DEFAULT_SETTINGS, filenamePattern: '{title}_{timestamp}' });
+      expect(saved.filenamePattern).toBe('{title}_{timestamp}');
+      expect(storage.data[SETTINGS_STORAGE_KEY]).toEqual(saved);
+    });
+
+    it('should notify listeners of changes until removed', () => {
+      const storage = stubChromeStorage();
+      const listener = vi.fn();
+      const remove = onSettingsChanged(listener);
+
+      storage.set({ [SETTINGS_STORAGE_KEY]: { defaultFormat: 'json' } });
+      storage.set({ unrelated: true });
+      remove();
+      storage.set({ [SETTINGS_STORAGE_KEY]: { defaultFormat: 'pdf' } });
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].defaultFormat).toBe('json');
+    });
+  });
+});
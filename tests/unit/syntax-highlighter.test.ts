@@ -0,0 +1,149 @@
+/**
+ * Unit tests for the syntax highlighter
+ * Tests tokenizing code per language and rewriting the code blocks of message HTML
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  tokenize,
+  splitTokenLines,
+  highlightCodeBlocks,
+  codeThemeStyles,
+  isSupportedLanguage,
+  Token
+} from '../../src/content/syntax-highlighter';
+
+/**
+ * Highlighted tokens as "type:text" (plain text left out)
+ */
+const typed = (tokens: Token[]) => tokens.filter(token => token.type).map(token => `${token.type}:${token.text}`);
+
+describe('tokenize', () => {
+  it('should cover the whole code', () => {
+    const code = 'const total = items.reduce((sum, x) => sum + x, 0); // tổng\n';
+
+    expect(tokenize(code, 'javascript').map(token => token.text).join('')).toBe(code);
+  });
+
+  it('should highlight JavaScript keywords, strings, numbers, comments and calls', () => {
+    const tokens = tokenize('const name = "Gemini"; // greet\nconsole.log(`Hi ${name}`, 42);', 'js');
+
+    expect(typed(tokens)).toEqual([
+      'keyword:const', 'string:"Gemini"', 'comment:// greet', 'function:log', 'string:`Hi ${name}`', 'number:42'
+    ]);
+  });
+
+  it('should highlight Python strings, decorators and literals', () => {
+    const tokens = tokenize('@cache\ndef area(r):\n    """Diện tích"""\n    return 3.14 * r ** 2 if r else None  # ok', 'Python');
+
+    expect(typed(tokens)).toEqual([
+      'meta:@cache', 'keyword:def', 'function:area', 'string:"""Diện tích"""', 'keyword:return', 'number:3.14',
+      'number:2', 'keyword:if', 'keyword:else', 'literal:None', 'comment:# ok'
+    ]);
+  });
+
+  it('should match SQL keywords regardless of case', () => {
+    const tokens = tokenize("SELECT id, COUNT(*) FROM orders WHERE status = 'paid' -- ngày", 'sql');
+
+    expect(typed(tokens)).toEqual([
+      'keyword:SELECT', 'function:COUNT', 'keyword:FROM', 'keyword:WHERE', "string:'paid'", 'comment:-- ngày'
+    ]);
+  });
+
+  it('should highlight shell variables without treating $# as a comment', () => {
+    const tokens = tokenize('if [ $# -eq 0 ]; then echo "$HOME"; fi # done', 'bash');
+
+    expect(typed(tokens)).toEqual(['keyword:if', 'meta:$#', 'number:0', 'keyword:then', 'string:"$HOME"', 'keyword:fi', 'comment:# done']);
+  });
+
+  it('should highlight markup tags, attributes and values', () => {
+    const tokens = tokenize('<a href="/docs" class=\'x\'>Don\'t</a><!-- ghi chú -->', 'html');
+
+    expect(typed(tokens)).toEqual([
+      'tag:<a', 'attribute:href', 'string:"/docs"', 'attribute:class', "string:'x'", 'tag:>', 'tag:</a', 'tag:>',
+      'comment:<!-- ghi chú -->'
+    ]);
+  });
+
+  it('should tell JSON keys from values', () => {
+    const tokens = tokenize('{"name": "Gemini", "pro": true, "n": -1.5}', 'json');
+
+    expect(typed(tokens)).toEqual([
+      'attribute:"name"', 'string:"Gemini"', 'attribute:"pro"', 'literal:true', 'attribute:"n"', 'number:-1.5'
+    ]);
+  });
+
+  it('should not read Rust lifetimes as strings', () => {
+    const tokens = tokenize("fn first<'a>(s: &'a str) -> char { 'x' }", 'rs');
+
+    expect(typed(tokens)).toEqual([
+      'keyword:fn', "meta:'a", "meta:'a", 'type:str', 'type:char', "string:'x'"
+    ]);
+  });
+
+  it('should return the code as plain text for unknown languages', () => {
+    expect(tokenize('if x then y', 'cobol')).toEqual([{ text: 'if x then y' }]);
+    expect(tokenize('', 'cobol')).toEqual([]);
+    expect(isSupportedLanguage('TypeScript')).toBe(true);
+    expect(isSupportedLanguage('cobol')).toBe(false);
+  });
+});
+
+describe('splitTokenLines', () => {
+  it('should cut tokens spanning lines', () => {
+    const lines = splitTokenLines(tokenize('/* a\nb */\nx', 'c'));
+
+    expect(lines).toEqual([
+      [{ text: '/* a', type: 'comment' }],
+      [{ text: 'b */', type: 'comment' }],
+      [{ text: 'x' }]
+    ]);
+  });
+});
+
+describe('highlightCodeBlocks', () => {
+  const html = '<p>Ví dụ:</p><pre><code class="language-python">x = 1\nprint(x)\n</code></pre>';
+
+  it('should wrap tokens in spans and mark the block', () => {
+    const result = highlightCodeBlocks(html, { theme: 'light', lineNumbers: false });
+
+    expect(result).toBe(
+      '<p>Ví dụ:</p><pre class="highlighted-code"><code class="language-python">x = <span class="tok-number">1</span>\n'
+      + '<span class="tok-function">print</span>(x)</code></pre>'
+    );
+  });
+
+  it('should number the lines', () => {
+    const code = Array.from({ length: 10 }, (_, i) => `line${i}`).join('\n');
+    const container = document.createElement('div');
+    container.innerHTML = highlightCodeBlocks(`<pre><code>${code}</code></pre>`, { theme: 'none', lineNumbers: true });
+
+    const numbers = Array.from(container.querySelectorAll('.code-line-number')).map(element => element.textContent);
+    expect(numbers).toEqual([' 1', ' 2', ' 3', ' 4', ' 5', ' 6', ' 7', ' 8', ' 9', '10']);
+    expect(container.querySelector('pre')?.classList.contains('highlighted-code')).toBe(false);
+  });
+
+  it('should use the language of the Gemini code block header', () => {
+    const result = highlightCodeBlocks(
+      '<div class="code-block"><div class="code-block-decoration">Bash</div><pre><code>echo $HOME</code></pre></div>',
+      { theme: 'dark', lineNumbers: false }
+    );
+
+    expect(result).toContain('<code class="language-bash">echo <span class="tok-meta">$HOME</span>');
+  });
+
+  it('should leave the HTML untouched without a theme or line numbers', () => {
+    expect(highlightCodeBlocks(html, { theme: 'none', lineNumbers: false })).toBe(html);
+    expect(highlightCodeBlocks('<p>a</p>', { theme: 'light', lineNumbers: true })).toBe('<p>a</p>');
+  });
+});
+
+describe('codeThemeStyles', () => {
+  it('should colour the tokens of the theme', () => {
+    const css = codeThemeStyles('dark');
+
+    expect(css).toContain('.message-content pre.highlighted-code { background-color: #282c34;');
+    expect(css).toContain('.message-content pre.highlighted-code .tok-keyword { color: #c678dd; }');
+    expect(css).not.toContain('.tok-keyword { color: #cf222e');
+  });
+});
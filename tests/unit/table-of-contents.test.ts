@@ -0,0 +1,99 @@
+/**
+ * Unit tests for the table of contents
+ * Tests listing the user's questions and linking them to their messages
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  addTableOfContents,
+  messageAnchor,
+  prepareTableOfContentsForCanvas,
+  tableOfContentsEntries
+} from '../../src/content/table-of-contents';
+import { PDFGenerator } from '../../src/content/pdf-generator';
+import { Message } from '../../src/content/content-extractor';
+
+const messages: Message[] = [
+  { sender: 'user', content: '<p>Tóm tắt   các nghiên cứu\nvề pin mặt trời</p>' },
+  { sender: 'gemini', content: '<p>Có ba hướng chính.</p>' },
+  { sender: 'user', content: '<div class="attached-images"><img src="https://lh3.googleusercontent.com/a.png" alt="a"></div>' },
+  { sender: 'gemini', content: '<p>Đây là biểu đồ.</p>' },
+  { sender: 'user', content: `<p>${'dài '.repeat(40)}</p>` }
+];
+
+describe('tableOfContentsEntries', () => {
+  it('should list every user turn with the index of its message', () => {
+    const entries = tableOfContentsEntries(messages);
+
+    expect(entries.map(entry => [entry.turn, entry.messageIndex])).toEqual([[1, 0], [2, 2], [3, 4]]);
+    expect(entries[0].label).toBe('Tóm tắt các nghiên cứu về pin mặt trời');
+  });
+
+  it('should label prompts without text with their turn number', () => {
+    expect(tableOfContentsEntries(messages)[1].label).toBe('Tin nhắn 2');
+  });
+
+  it('should truncate long prompts', () => {
+    const label = tableOfContentsEntries(messages)[2].label;
+
+    expect(label.length).toBeLessThanOrEqual(81);
+    expect(label.endsWith('dài…')).toBe(true);
+  });
+
+  it('should read the text of the prompt HTML', () => {
+    const entries = tableOfContentsEntries([{ sender: 'user', content: '<p>a &lt;b&gt; <strong>c</strong></p>' }]);
+    expect(entries[0].label).toBe('a <b> c');
+  });
+});
+
+function styledDocument(chat: Message[]): Document {
+  const styled = new PDFGenerator().applyStyles({ messages: chat, timestamp: new Date() }, 'Pin mặt trời');
+  return new DOMParser().parseFromString(styled, 'text/html');
+}
+
+describe('addTableOfContents', () => {
+  it('should insert the table of contents after the header', () => {
+    const doc = styledDocument(messages);
+    addTableOfContents(doc, tableOfContentsEntries(messages));
+
+    expect(doc.querySelector('.pdf-header + nav.toc h2')?.textContent).toBe('Mục lục');
+    expect(doc.querySelectorAll('nav.toc li .toc-page')).toHaveLength(3);
+    expect(doc.head.lastElementChild?.textContent).toContain('.toc .toc-page');
+  });
+
+  it('should link every entry to the anchor of its message', () => {
+    const doc = styledDocument(messages);
+    addTableOfContents(doc, tableOfContentsEntries(messages));
+
+    expect(Array.from(doc.querySelectorAll('.message')).map(message => message.id))
+      .toEqual(messages.map((_, index) => messageAnchor(index)));
+    expect(Array.from(doc.querySelectorAll('nav.toc a')).map(link => link.getAttribute('href')))
+      .toEqual(['#message-1', '#message-3', '#message-5']);
+  });
+
+  it('should only anchor the messages of chats without user turns', () => {
+    const chat: Message[] = [{ sender: 'gemini', content: '<p>Xin chào</p>' }];
+    const doc = styledDocument(chat);
+    addTableOfContents(doc, tableOfContentsEntries(chat));
+
+    expect(doc.querySelector('nav.toc')).toBeNull();
+    expect(doc.querySelector('.message')?.id).toBe('message-1');
+  });
+});
+
+describe('prepareTableOfContentsForCanvas', () => {
+  it('should replace the links with entries that keep their target', () => {
+    const styled = new PDFGenerator().applyStyles({ messages, timestamp: new Date() });
+    const doc = new DOMParser().parseFromString(
+      prepareTableOfContentsForCanvas(styled, tableOfContentsEntries(messages)),
+      'text/html'
+    );
+
+    expect(doc.querySelectorAll('nav.toc a')).toHaveLength(0);
+    expect(Array.from(doc.querySelectorAll<HTMLElement>('nav.toc .toc-link')).map(entry => entry.dataset.target))
+      .toEqual(['message-1', 'message-3', 'message-5']);
+    expect(doc.querySelector('nav.toc .toc-link')?.textContent).toBe('Tóm tắt các nghiên cứu về pin mặt trời');
+    expect(doc.getElementById('message-3')?.classList.contains('user')).toBe(true);
+    expect(doc.head.textContent).toContain('min-width: 2.5em');
+  });
+});
@@ -413,6 +413,61 @@ describe('TitleExtractor', () => {
     });
   });
 
+  describe('filename pattern', () => {
+    it('should place the title and timestamp into the pattern', () => {
+      extractor.setFilenamePattern('gemini_{title}_{timestamp}');
+
+      expect(extractor.generateFilename('My Chat')).toMatch(/^gemini_My_Chat_\d{8}-\d{6}\.pdf$/);
+    });
+
+    it('should read the workspace name from the URL when there is no logo', () => {
+      window.history.pushState({}, '', '/home/cid/acme-123/r/session');
+
+      expect(extractor.extractWorkspace()).toBe('acme-123');
+      window.history.pushState({}, '', '/');
+    });
+
+    it('should sanitize characters typed into the pattern', () => {
+      extractor.setFilenamePattern('export: {title}');
+
+      expect(extractor.generateFilename('Chat')).toBe('export_Chat.pdf');
+    });
+
+    it('should fall back to the title for an empty or invalid pattern', () => {
+      extractor.setFilenamePattern('   ');
+      expect(extractor.generateFilename('My Chat')).toBe('My_Chat.pdf');
+
+      extractor.setFilenamePattern('{unknown}_{title}');
+      expect(extractor.generateFilename('My Chat')).toBe('My_Chat.pdf');
+    });
+
+    it('should use the extension of the export format', () => {
+      expect(extractor.generateFilename('My Chat', { format: 'markdown' })).toBe('My_Chat.md');
+      expect(extractor.generateFilename('My Chat', { format: 'html' })).toBe('My_Chat.html');
+      expect(extractor.generateFilename('My Chat', { format: 'json' })).toBe('My_Chat.json');
+    });
+
+    it('should render date, count, workspace and format tokens', () => {
+      extractor.setFilenamePattern('{date:YYYY-MM-DD}_{title}_{turns}t_{messages}m_{workspace}_{format}.{ext}');
+
+      const filename = extractor.generateFilename('Plan', {
+        format: 'markdown',
+        messageCount: 12,
+        turnCount: 6,
+        workspace: 'Acme Corp',
+        date: new Date(2024, 2, 5, 9, 7, 3)
+      });
+
+      expect(filename).toBe('2024-03-05_Plan_6t_12m_Acme_Corp_Markdown.md');
+    });
+
+    it('should not repeat the date in the fallback title when the pattern has one', () => {
+      extractor.setFilenamePattern('{date}_{title}');
+
+      expect(extractor.generateFilename(null, { date: new Date(2024, 0, 2) })).toBe('20240102_gemini-chat.pdf');
+    });
+  });
+
   describe('Task 7.7: Title Extractor Test Scenarios', () => {
     describe('Title with normal text', () => {
       it('should extract and generate filename from normal title', () => {
@@ -0,0 +1,121 @@
+/**
+ * Unit tests for TurnSelector
+ * Tests checkbox overlays, range selection and the selection panel
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TurnSelector } from '../../src/content/turn-selector';
+import { getConversationTurns } from '../../src/utils/shadow-dom-utils';
+import { buildGeminiConversation, createTurn } from '../helpers/gemini-dom';
+
+describe('TurnSelector', () => {
+  let selector: TurnSelector;
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    container = buildGeminiConversation([
+      { user: '<p>Q1</p>', gemini: '<p>A1</p>' },
+      { user: '<p>Q2</p>', gemini: '<p>A2</p>' },
+      { user: '<p>Q3</p>', gemini: '<p>A3</p>' },
+      { user: '<p>Q4</p>', gemini: '<p>A4</p>' }
+    ]);
+    selector = new TurnSelector();
+  });
+
+  afterEach(() => {
+    selector.disable();
+    document.body.innerHTML = '';
+  });
+
+  const overlays = () => getConversationTurns()
+    .map(turn => turn.querySelector<HTMLInputElement>(':scope > .gemini-pdf-export-turn-select input'));
+
+  it('should export everything while selection mode is off', () => {
+    expect(selector.isActive()).toBe(false);
+    expect(selector.getSelectedTurns()).toBeNull();
+    expect(overlays().every(checkbox => checkbox === null)).toBe(true);
+  });
+
+  it('should overlay a checked checkbox on every turn when enabled', () => {
+    selector.enable();
+
+    expect(selector.getTurnCount()).toBe(4);
+    expect(overlays().map(checkbox => checkbox?.checked)).toEqual([true, true, true, true]);
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([0, 1, 2, 3]);
+    expect(document.querySelector('.gemini-pdf-export-turn-panel')).not.toBeNull();
+  });
+
+  it('should follow checkbox changes', () => {
+    selector.enable();
+    const checkbox = overlays()[1]!;
+
+    checkbox.checked = false;
+    checkbox.dispatchEvent(new Event('change'));
+
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([0, 2, 3]);
+  });
+
+  it('should select a 1-based inclusive range and update the checkboxes', () => {
+    selector.enable();
+
+    selector.selectRange(2, 3);
+
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([1, 2]);
+    expect(overlays().map(checkbox => checkbox?.checked)).toEqual([false, true, true, false]);
+  });
+
+  it('should clamp and swap out-of-order range bounds', () => {
+    selector.enable();
+
+    selector.selectRange(10, 3);
+
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([2, 3]);
+  });
+
+  it('should apply the range typed into the panel', () => {
+    selector.enable();
+    const panel = document.querySelector('.gemini-pdf-export-turn-panel') as HTMLElement;
+    (panel.querySelector('input[name="from"]') as HTMLInputElement).value = '1';
+    (panel.querySelector('input[name="to"]') as HTMLInputElement).value = '2';
+
+    (panel.querySelector('button.apply') as HTMLButtonElement).click();
+
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([0, 1]);
+    expect(panel.querySelector('.gemini-pdf-export-turn-summary')?.textContent).toBe('Đã chọn 2/4 lượt');
+  });
+
+  it('should clear and select all turns', () => {
+    selector.enable();
+
+    selector.clearSelection();
+    expect(selector.getSelectedTurns()!.size).toBe(0);
+
+    selector.selectAll();
+    expect(selector.getSelectedTurns()!.size).toBe(4);
+  });
+
+  it('should remove overlays and the panel when disabled', () => {
+    const listener = vi.fn();
+    selector.onActiveChange(listener);
+    selector.enable();
+
+    selector.disable();
+
+    expect(overlays().every(checkbox => checkbox === null)).toBe(true);
+    expect(document.querySelector('.gemini-pdf-export-turn-panel')).toBeNull();
+    expect(selector.getSelectedTurns()).toBeNull();
+    expect(listener.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should keep the selection on the same turns when older turns are loaded above', async () => {
+    selector.enable();
+    selector.selectRange(1, 1);
+
+    container.prepend(createTurn({ user: '<p>Q0</p>', gemini: '<p>A0</p>' }));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(selector.getTurnCount()).toBe(5);
+    expect(Array.from(selector.getSelectedTurns()!)).toEqual([1]);
+    expect(overlays()[0]?.checked).toBe(false);
+  });
+});
@@ -6,6 +6,9 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { UIInjector } from '../../src/content/ui-injector';
+import { EXPORT_FORMATS } from '../../src/content/export-formats';
+import { createExportProgress } from '../../src/content/export-progress';
+import { setLanguage } from '../../src/utils/i18n';
 
 describe('UIInjector', () => {
   let injector: UIInjector;
@@ -176,6 +179,65 @@ describe('UIInjector', () => {
     });
   });
 
+  describe('showProgress', () => {
+    beforeEach(() => {
+      injector.injectButton();
+      injector.showLoading();
+    });
+
+    it('should show the overall percentage as a progress bar and in the text', () => {
+      injector.showProgress(createExportProgress('extracting', 1, 2));
+      injector.showProgress(createExportProgress('rendering', 0, 4));
+
+      const button = injector.getButton();
+      const bars = button?.querySelectorAll('.gemini-pdf-export-progress');
+      expect(bars?.length).toBe(1);
+      expect(bars?.[0].getAttribute('aria-valuenow')).toBe('70');
+      expect((button?.querySelector('.gemini-pdf-export-progress-fill') as HTMLElement).style.width).toBe('70%');
+      expect(button?.querySelector('span')?.textContent).toBe('Đang xuất... 70%');
+    });
+
+    it('should remove the progress bar when loading ends', () => {
+      injector.showProgress(createExportProgress('downloading', 1, 1));
+
+      injector.hideLoading();
+
+      expect(injector.getButton()?.querySelector('.gemini-pdf-export-progress')).toBeNull();
+      expect(injector.getButton()?.querySelector('span')?.textContent).toBe('Xuất PDF');
+    });
+  });
+
+  describe('cancel button', () => {
+    beforeEach(() => {
+      injector.injectButton();
+    });
+
+    const cancelButton = () => document.querySelector('.gemini-pdf-export-cancel') as HTMLButtonElement;
+
+    it('should only be shown while loading', () => {
+      expect(cancelButton().hidden).toBe(true);
+
+      injector.showLoading();
+      expect(cancelButton().hidden).toBe(false);
+      expect(cancelButton().getAttribute('title')).toBe('Hủy xuất');
+
+      injector.hideLoading();
+      expect(cancelButton().hidden).toBe(true);
+    });
+
+    it('should notify listeners once when clicked', () => {
+      const listener = vi.fn();
+      injector.onCancel(listener);
+      injector.showLoading();
+
+      cancelButton().click();
+      cancelButton().click();
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(cancelButton().disabled).toBe(true);
+    });
+  });
+
   describe('disableButton', () => {
     beforeEach(() => {
       injector.injectButton();
@@ -277,6 +339,99 @@ describe('UIInjector', () => {
     });
   });
 
+  describe('format menu', () => {
+    it('should list every registered export format', () => {
+      injector.injectButton();
+
+      const items = document.querySelectorAll('.gemini-pdf-export-menu-item');
+      expect(Array.from(items).map(item => item.getAttribute('data-format')))
+        .toEqual(EXPORT_FORMATS.map(format => format.id));
+    });
+
+    it('should keep the menu hidden until the toggle is clicked', () => {
+      injector.injectButton();
+
+      const menu = document.querySelector('.gemini-pdf-export-menu') as HTMLElement;
+      const toggle = document.querySelector('.gemini-pdf-export-toggle') as HTMLButtonElement;
+      expect(menu.hidden).toBe(true);
+
+      toggle.click();
+      expect(menu.hidden).toBe(false);
+      expect(toggle.getAttribute('aria-expanded')).toBe('true');
+
+      toggle.click();
+      expect(menu.hidden).toBe(true);
+    });
+
+    it('should select the default format passed to injectButton', () => {
+      injector.injectButton('markdown');
+
+      expect(injector.getSelectedFormat()).toBe('markdown');
+      const button = injector.getButton();
+      expect(button?.querySelector('span')?.textContent).toBe('Xuất Markdown');
+      expect(button?.getAttribute('title')).toBe('Xuất cuộc trò chuyện thành Markdown');
+    });
+
+    it('should update label, tooltip and notify listeners when a format is picked', () => {
+      const listener = vi.fn();
+      injector.injectButton('pdf');
+      injector.onFormatChange(listener);
+
+      const item = document.querySelector('[data-format="markdown"]') as HTMLButtonElement;
+      item.click();
+
+      expect(listener).toHaveBeenCalledWith('markdown');
+      expect(injector.getButton()?.querySelector('span')?.textContent).toBe('Xuất Markdown');
+      expect(item.getAttribute('aria-checked')).toBe('true');
+      expect(injector.isMenuOpen()).toBe(false);
+    });
+
+    it('should remember the chosen format for the tab without writing to the page storage', () => {
+      injector.injectButton('pdf');
+      injector.setSelectedFormat('markdown');
+
+      // Gemini re-renders its header and the button is injected again
+      document.body.innerHTML = '';
+      injector.injectButton('pdf');
+
+      expect(injector.getSelectedFormat()).toBe('markdown');
+      expect(sessionStorage.length).toBe(0);
+      expect(localStorage.length).toBe(0);
+    });
+
+    it('should apply the default format from settings until the user picks one', () => {
+      injector.injectButton('markdown');
+
+      expect(injector.applyDefaultFormat('html')).toBe(true);
+      expect(injector.getSelectedFormat()).toBe('html');
+      expect(injector.getButton()?.querySelector('span')?.textContent).toBe('Xuất HTML');
+      expect(injector.applyDefaultFormat('json')).toBe(true);
+
+      injector.setSelectedFormat('pdf');
+      expect(injector.applyDefaultFormat('markdown')).toBe(false);
+      expect(injector.getSelectedFormat()).toBe('pdf');
+    });
+
+    it('should restore the selected format label after loading', () => {
+      injector.injectButton('markdown');
+      injector.showLoading();
+      injector.hideLoading();
+
+      expect(injector.getButton()?.querySelector('span')?.textContent).toBe('Xuất Markdown');
+    });
+
+    it('should disable the toggle while the button is disabled', () => {
+      injector.injectButton();
+      injector.disableButton();
+
+      const toggle = document.querySelector('.gemini-pdf-export-toggle') as HTMLButtonElement;
+      expect(toggle.disabled).toBe(true);
+
+      injector.openMenu();
+      expect(injector.isMenuOpen()).toBe(false);
+    });
+  });
+
   describe('getButton', () => {
     it('should return null when button not injected', () => {
       // Execute
@@ -299,6 +454,76 @@ describe('UIInjector', () => {
     });
   });
 
+  describe('menu actions', () => {
+    it('should add actions below the formats without listing them as formats', () => {
+      injector.injectButton();
+
+      injector.addMenuAction('select-turns', 'Chọn lượt để xuất…', () => {});
+
+      const action = document.querySelector('.gemini-pdf-export-menu-action') as HTMLButtonElement;
+      expect(action.textContent).toBe('Chọn lượt để xuất…');
+      expect(action.getAttribute('data-action')).toBe('select-turns');
+      expect(document.querySelector('.gemini-pdf-export-menu-separator')).not.toBeNull();
+      expect(document.querySelectorAll('.gemini-pdf-export-menu-item')).toHaveLength(EXPORT_FORMATS.length);
+    });
+
+    it('should run the action and close the menu when clicked', () => {
+      const onSelect = vi.fn();
+      injector.injectButton();
+      injector.addMenuAction('select-turns', 'Chọn lượt để xuất…', onSelect);
+      injector.openMenu();
+
+      (document.querySelector('.gemini-pdf-export-menu-action') as HTMLButtonElement).click();
+
+      expect(onSelect).toHaveBeenCalledTimes(1);
+      expect(injector.isMenuOpen()).toBe(false);
+    });
+
+    it('should mark an action as active', () => {
+      injector.injectButton();
+      injector.addMenuAction('select-turns', 'Chọn lượt để xuất…', () => {});
+
+      injector.setMenuActionActive('select-turns', true);
+
+      const action = document.querySelector('.gemini-pdf-export-menu-action') as HTMLButtonElement;
+      expect(action.getAttribute('aria-checked')).toBe('true');
+      expect(action.classList.contains('selected')).toBe(true);
+    });
+
+    it('should change the text of an action', () => {
+      injector.injectButton();
+      injector.addMenuAction('select-turns', 'Chọn lượt để xuất…', () => {});
+
+      injector.setMenuActionLabel('select-turns', 'Select turns to export…');
+
+      expect(document.querySelector('.gemini-pdf-export-menu-action')?.textContent).toBe('Select turns to export…');
+    });
+  });
+
+  describe('localization', () => {
+    it('should relabel the button in the new language', () => {
+      injector.injectButton('pdf');
+      expect(injector.getButton()?.textContent).toContain('Xuất PDF');
+
+      setLanguage('en');
+      injector.refreshLabels();
+
+      expect(injector.getButton()?.textContent).toContain('Export PDF');
+      expect(injector.getButton()?.getAttribute('title')).toBe('Export the conversation as PDF');
+      expect(document.querySelector('.gemini-pdf-export-toggle')?.getAttribute('title')).toBe('Choose export format');
+    });
+
+    it('should keep showing progress while exporting', () => {
+      injector.injectButton('pdf');
+      injector.showLoading();
+
+      setLanguage('en');
+      injector.refreshLabels();
+
+      expect(injector.getButton()?.textContent).toContain('Exporting...');
+    });
+  });
+
   describe('Edge cases', () => {
     it('should handle button injection when DOM is not ready', () => {
       // This test verifies graceful handling
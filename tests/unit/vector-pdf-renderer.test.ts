@@ -0,0 +1,289 @@
+/**
+ * Unit tests for VectorPDFRenderer
+ * Tests HTML to block conversion and text-based PDF output
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { VectorPDFRenderer, htmlToBlocks, FontLoader } from '../../src/content/vector-pdf-renderer';
+import { PDFOptions } from '../../src/content/pdf-generator';
+import { ChatContent } from '../../src/content/content-extractor';
+
+// Record every string drawn as PDF text so tests can assert on real text objects
+const drawnText = vi.hoisted(() => [] as string[]);
+
+vi.mock('jspdf', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('jspdf')>();
+  class RecordingJsPDF extends actual.jsPDF {
+    constructor(...args: any[]) {
+      super(...args);
+      const text = this.text.bind(this);
+      this.text = ((value: string, ...rest: any[]) => {
+        drawnText.push(value);
+        return (text as any)(value, ...rest);
+      }) as any;
+    }
+  }
+  return { ...actual, jsPDF: RecordingJsPDF };
+});
+
+const loadFontFromPackage: FontLoader = async (file: string) => {
+  const bytes = readFileSync(resolve(__dirname, '../../node_modules/dejavu-fonts-ttf/ttf', file));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+const options: PDFOptions = {
+  format: 'A4',
+  margin: { top: '20mm', right: '20mm', bottom: '20mm', left: '20mm' },
+  fontSize: '12pt',
+  fontFamily: 'Arial, Helvetica, sans-serif',
+  lineHeight: 1.5,
+  userMessageBg: '#e3f2fd',
+  geminiMessageBg: '#f5f5f5',
+  renderer: 'vector'
+};
+
+function blobToText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsBinaryString(blob);
+  });
+}
+
+describe('htmlToBlocks', () => {
+  it('should convert paragraphs with inline styles into runs', () => {
+    const blocks = htmlToBlocks('<p>Hello <strong>bold</strong> and <em>italic</em> <code>x</code></p>');
+
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].type).toBe('paragraph');
+    const runs = (blocks[0] as any).runs;
+    expect(runs.find((run: any) => run.text === 'bold').bold).toBe(true);
+    expect(runs.find((run: any) => run.text === 'italic').italic).toBe(true);
+    expect(runs.find((run: any) => run.text === 'x').code).toBe(true);
+  });
+
+  it('should keep link targets on runs', () => {
+    const blocks = htmlToBlocks('<p>See <a href="https://example.com">docs</a></p>');
+    const runs = (blocks[0] as any).runs;
+
+    expect(runs.find((run: any) => run.text === 'docs').link).toBe('https://example.com');
+  });
+
+  it('should number ordered list items from the start attribute', () => {
+    const blocks = htmlToBlocks('<ol start="3"><li>Three</li><li>Four</li></ol>');
+
+    expect(blocks.map((block: any) => block.marker)).toEqual(['3.', '4.']);
+  });
+
+  it('should indent nested list items', () => {
+    const blocks = htmlToBlocks('<ul><li>Parent<ul><li>Child</li></ul></li></ul>');
+
+    expect(blocks.map((block: any) => block.indent)).toEqual([1, 2]);
+  });
+
+  it('should keep code block lines verbatim', () => {
+    const blocks = htmlToBlocks('<pre><code>const a = 1;\n  return a;\n</code></pre>');
+
+    expect(blocks).toEqual([{ type: 'code', lines: ['const a = 1;', '  return a;'] }]);
+  });
+
+  it('should keep the language of code blocks', () => {
+    const blocks = htmlToBlocks('<pre><code class="language-py">print(1)</code></pre>');
+
+    expect(blocks).toEqual([{ type: 'code', lines: ['print(1)'], language: 'py' }]);
+  });
+
+  it('should convert tables into rows of cell text', () => {
+    const blocks = htmlToBlocks(
+      '<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>'
+    );
+
+    expect(blocks).toEqual([{
+      type: 'table',
+      rows: [
+        { header: true, cells: ['A', 'B'] },
+        { header: false, cells: ['1', '2'] }
+      ]
+    }]);
+  });
+
+  it('should recognise headings, rules and images', () => {
+    const blocks = htmlToBlocks('<h5>Title</h5><hr><img src="data:image/png;base64,AAAA" alt="chart">');
+
+    expect(blocks.map(block => block.type)).toEqual(['heading', 'rule', 'image']);
+    expect((blocks[0] as any).level).toBe(5);
+  });
+
+  it('should keep images inside inline elements between the text around them', () => {
+    const blocks = htmlToBlocks(
+      '<p>Xem <a href="https://example.com/a.png"><img src="data:image/png;base64,AAAA" alt="biểu đồ"></a> và ' +
+      '<span><img src="data:image/png;base64,BBBB" alt=""></span> <strong>tiếp</strong></p>'
+    );
+
+    expect(blocks.map(block => block.type)).toEqual(['paragraph', 'image', 'paragraph', 'image', 'paragraph']);
+    expect(blocks[1]).toEqual({ type: 'image', src: 'data:image/png;base64,AAAA', alt: 'biểu đồ' });
+    expect((blocks[2] as any).runs.map((run: any) => run.text).join('')).toBe('và');
+    expect((blocks[4] as any).runs[0]).toMatchObject({ text: 'tiếp', bold: true });
+  });
+
+  it('should ignore whitespace-only content', () => {
+    expect(htmlToBlocks('<p>   </p>\n<span> </span>')).toEqual([]);
+  });
+});
+
+describe('VectorPDFRenderer', () => {
+  beforeEach(() => {
+    drawnText.length = 0;
+  });
+
+  const content: ChatContent = {
+    messages: [
+      { sender: 'user', content: '<p>Xin chào, bạn khỏe không?</p>' },
+      { sender: 'gemini', content: '<p>Tôi khỏe, cảm ơn bạn!</p><ul><li>Tiếng Việt có dấu</li></ul>' }
+    ],
+    timestamp: new Date()
+  };
+
+  it('should produce a PDF blob with embedded TrueType fonts', async () => {
+    const renderer = new VectorPDFRenderer(options, loadFontFromPackage);
+
+    const blob = await renderer.render(content, 'Cuộc trò chuyện');
+    const pdf = await blobToText(blob);
+
+    expect(blob.type).toBe('application/pdf');
+    expect(pdf.startsWith('%PDF-')).toBe(true);
+    expect(pdf).toContain('/FontFile2');
+    expect(pdf).toContain('/ToUnicode');
+  });
+
+  it('should draw message text as real text objects with Vietnamese diacritics', async () => {
+    const renderer = new VectorPDFRenderer(options, loadFontFromPackage);
+
+    await renderer.render(content, 'Cuộc trò chuyện');
+
+    const drawn = drawnText.join(' ');
+    expect(drawn).toContain('Cuộc trò chuyện');
+    expect(drawn).toContain('Xin chào, bạn khỏe không?');
+    expect(drawn).toContain('Tiếng Việt có dấu');
+  });
+
+  it('should draw code tokens separately with line numbers', async () => {
+    const renderer = new VectorPDFRenderer({ ...options, codeLineNumbers: true }, loadFontFromPackage);
+    const code: ChatContent = {
+      messages: [{ sender: 'gemini', content: '<pre><code class="language-python">def area(r):\n    return 3.14 * r</code></pre>' }],
+      timestamp: new Date()
+    };
+
+    await renderer.render(code);
+
+    expect(drawnText).toEqual(expect.arrayContaining(['1', 'def', 'area', '2', 'return', '3.14']));
+  });
+
+  it('should draw diagrams as shapes and list their sources after the messages', async () => {
+    const renderer = new VectorPDFRenderer(options, loadFontFromPackage);
+    const diagram: ChatContent = {
+      messages: [{ sender: 'gemini', content: '<pre><code class="language-mermaid">graph LR\n  A[Bắt đầu] --&gt; B[Kết thúc]</code></pre>' }],
+      timestamp: new Date()
+    };
+
+    await renderer.render(diagram);
+
+    expect(drawnText).toEqual(expect.arrayContaining(['Bắt đầu', 'Kết thúc', 'Sơ đồ 1', 'Phụ lục: mã nguồn sơ đồ', 'Sơ đồ 1 (Mermaid)']));
+    expect(drawnText.indexOf('Bắt đầu')).toBeLessThan(drawnText.indexOf('Phụ lục: mã nguồn sơ đồ'));
+  });
+
+  it('should list the user turns with their pages and bookmark them', async () => {
+    const renderer = new VectorPDFRenderer(options, loadFontFromPackage);
+    const turns: ChatContent = {
+      messages: Array.from({ length: 6 }, (_, index) => ({
+        sender: index % 2 === 0 ? 'user' as const : 'gemini' as const,
+        content: index % 2 === 0
+          ? `<p>Câu hỏi ${index / 2 + 1}</p>`
+          : `<p>${'Trả lời rất dài. '.repeat(200)}</p>`
+      })),
+      timestamp: new Date()
+    };
+
+    const pdf = await blobToText(await renderer.render(turns, 'Mục lục'));
+
+    const contents = drawnText.indexOf('Mục lục', 1);
+    expect(drawnText.slice(contents, contents + 10)).toEqual([
+      'Mục lục', '1.', 'Câu hỏi 1', '1', '2.', 'Câu hỏi 2', expect.stringMatching(/^\d$/), '3.', 'Câu hỏi 3', expect.stringMatching(/^\d$/)
+    ]);
+    expect(Number(drawnText[contents + 9])).toBeGreaterThan(Number(drawnText[contents + 6]));
+    expect(pdf).toMatch(/\/Type \/Outlines[^>]*\/Count 3/);
+  });
+
+  it('should draw the header and footer on every page', async () => {
+    const renderer = new VectorPDFRenderer({
+      ...options,
+      header: '{title}|{label}',
+      footer: 'Trang {page} / {pages}',
+      confidentialityLabel: 'Mật'
+    }, loadFontFromPackage);
+    const long: ChatContent = {
+      messages: [{ sender: 'gemini', content: `<p>${'Nội dung dài. '.repeat(600)}</p>` }],
+      timestamp: new Date()
+    };
+
+    await renderer.render(long, 'Báo cáo');
+
+    const footers = drawnText.filter(text => text.startsWith('Trang '));
+    expect(footers.length).toBeGreaterThan(1);
+    expect(footers).toEqual(footers.map((_, index) => `Trang ${index + 1} / ${footers.length}`));
+    expect(drawnText.filter(text => text === 'Mật')).toHaveLength(footers.length);
+  });
+
+  it('should stamp the classification on every page and in the default header', async () => {
+    const renderer = new VectorPDFRenderer({ ...options, classification: 'confidential' }, loadFontFromPackage);
+    const long: ChatContent = {
+      messages: [{ sender: 'gemini', content: `<p>${'Nội dung dài. '.repeat(600)}</p>` }],
+      timestamp: new Date()
+    };
+
+    const pdf = await blobToText(await renderer.render(long, 'Báo cáo'));
+
+    const pages = drawnText.filter(text => /^\d+ \/ \d+$/.test(text)).length;
+    expect(pages).toBeGreaterThan(1);
+    expect(drawnText.filter(text => text === 'MẬT')).toHaveLength(pages);
+    expect(drawnText.filter(text => text === 'Mật')).toHaveLength(pages);
+    expect(pdf).toContain('/ca 0.12');
+  });
+
+  it('should draw no header or footer with empty templates', async () => {
+    const renderer = new VectorPDFRenderer({ ...options, header: '', footer: '' }, loadFontFromPackage);
+
+    await renderer.render(content, 'Cuộc trò chuyện');
+
+    expect(drawnText).not.toContain('1 / 1');
+  });
+
+  it('should break long conversations across multiple pages', async () => {
+    const renderer = new VectorPDFRenderer(options, loadFontFromPackage);
+    const longContent: ChatContent = {
+      messages: Array.from({ length: 40 }, (_, index) => ({
+        sender: index % 2 === 0 ? 'user' as const : 'gemini' as const,
+        content: `<p>Message ${index} ${'lorem ipsum dolor sit amet '.repeat(10)}</p>`
+      })),
+      timestamp: new Date()
+    };
+
+    const pdf = await blobToText(await renderer.render(longContent, 'Long chat'));
+    const pageCount = (pdf.match(/\/Type \/Page\b/g) || []).length;
+
+    expect(pageCount).toBeGreaterThan(1);
+  });
+
+  it('should load fonts only once across renders', async () => {
+    const loader = vi.fn(loadFontFromPackage);
+    const renderer = new VectorPDFRenderer(options, loader);
+
+    await renderer.render(content);
+    await renderer.render(content);
+
+    expect(loader).toHaveBeenCalledTimes(5);
+  });
+});
@@ -1,55 +1,106 @@
 import { defineConfig } from 'vite';
 import { resolve } from 'path';
-import { copyFileSync, mkdirSync, existsSync } from 'fs';
+import { copyFileSync, mkdirSync, existsSync, readdirSync } from 'fs';
 
-export default defineConfig({
-  build: {
-    outDir: 'dist',
-    rollupOptions: {
-      input: {
-        content: resolve(__dirname, 'src/content/content.ts'),
-      },
-      output: {
-        entryFileNames: '[name].js',
-        format: 'iife',
-        manualChunks: undefined, // Disable chunking for Chrome extension
+/**
+ * Extension scripts. Rollup's IIFE output accepts a single input, so each
+ * script is built separately: `vite build` builds the content script (and
+ * copies the static files), `vite build --mode <name>` builds the others.
+ */
+const ENTRIES: Record<string, string> = {
+  content: 'src/content/content.ts',
+  options: 'src/options/options.ts',
+  background: 'src/background/background.ts',
+  popup: 'src/popup/popup.ts',
+};
+
+export default defineConfig(({ mode }) => {
+  const entry = mode in ENTRIES ? mode : 'content';
+  const isContentBuild = entry === 'content';
+
+  return {
+    build: {
+      outDir: 'dist',
+      // Only the first (content) build starts from a clean directory
+      emptyOutDir: isContentBuild,
+      rollupOptions: {
+        input: {
+          [entry]: resolve(__dirname, ENTRIES[entry]),
+        },
+        output: {
+          entryFileNames: '[name].js',
+          format: 'iife',
+          manualChunks: undefined, // Disable chunking for Chrome extension
+        },
       },
+      minify: 'esbuild',
+      sourcemap: false,
+      chunkSizeWarningLimit: 1000, // Increase limit for Chrome extensions
     },
-    minify: 'esbuild',
-    sourcemap: false,
-    chunkSizeWarningLimit: 1000, // Increase limit for Chrome extensions
-  },
-  resolve: {
-    alias: {
-      '@': resolve(__dirname, 'src'),
+    resolve: {
+      alias: {
+        '@': resolve(__dirname, 'src'),
+      },
     },
-  },
-  plugins: [
-    {
-      name: 'copy-files',
-      closeBundle() {
-        // Ensure dist directory exists
-        if (!existsSync('dist')) {
-          mkdirSync('dist', { recursive: true });
-        }
+    plugins: [
+      {
+        name: 'copy-files',
+        closeBundle() {
+          if (!isContentBuild) {
+            return;
+          }
+
+          // Ensure dist directory exists
+          if (!existsSync('dist')) {
+            mkdirSync('dist', { recursive: true });
+          }
         
-        // Copy manifest.json
-        copyFileSync('manifest.json', 'dist/manifest.json');
+          // Copy manifest.json
+          copyFileSync('manifest.json', 'dist/manifest.json');
+          copyFileSync('managed_schema.json', 'dist/managed_schema.json');
         
-        // Copy styles
-        if (!existsSync('dist/styles')) {
-          mkdirSync('dist/styles', { recursive: true });
-        }
-        copyFileSync('src/styles/button.css', 'dist/styles/button.css');
+          // Copy styles
+          if (!existsSync('dist/styles')) {
+            mkdirSync('dist/styles', { recursive: true });
+          }
+          copyFileSync('src/styles/button.css', 'dist/styles/button.css');
+          copyFileSync('src/styles/options.css', 'dist/styles/options.css');
+          copyFileSync('src/styles/popup.css', 'dist/styles/popup.css');
+
+          // Copy the options page and the toolbar popup
+          copyFileSync('src/options/options.html', 'dist/options.html');
+          copyFileSync('src/popup/popup.html', 'dist/popup.html');
         
-        // Copy icons directory
-        if (!existsSync('dist/icons')) {
-          mkdirSync('dist/icons', { recursive: true });
-        }
-        copyFileSync('icons/icon16.png', 'dist/icons/icon16.png');
-        copyFileSync('icons/icon48.png', 'dist/icons/icon48.png');
-        copyFileSync('icons/icon128.png', 'dist/icons/icon128.png');
+          // Copy icons directory
+          if (!existsSync('dist/icons')) {
+            mkdirSync('dist/icons', { recursive: true });
+          }
+          copyFileSync('icons/icon16.png', 'dist/icons/icon16.png');
+          copyFileSync('icons/icon48.png', 'dist/icons/icon48.png');
+          copyFileSync('icons/icon128.png', 'dist/icons/icon128.png');
+
+          // Copy fonts embedded by the vector PDF renderer
+          if (!existsSync('dist/fonts')) {
+            mkdirSync('dist/fonts', { recursive: true });
+          }
+          for (const font of [
+            'DejaVuSans.ttf',
+            'DejaVuSans-Bold.ttf',
+            'DejaVuSans-Oblique.ttf',
+            'DejaVuSans-BoldOblique.ttf',
+            'DejaVuSansMono.ttf',
+            'DejaVuMathTeXGyre.ttf',
+          ]) {
+            copyFileSync(`node_modules/dejavu-fonts-ttf/ttf/${font}`, `dist/fonts/${font}`);
+          }
+
+          // Copy message catalogs (used by chrome.i18n for the manifest)
+          for (const locale of readdirSync('src/_locales')) {
+            mkdirSync(`dist/_locales/${locale}`, { recursive: true });
+            copyFileSync(`src/_locales/${locale}/messages.json`, `dist/_locales/${locale}/messages.json`);
+          }
+        },
       },
-    },
-  ],
+    ],
+  };
 });